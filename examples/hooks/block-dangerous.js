@@ -10,12 +10,14 @@
 //   "script": "~/.tweakcc/hooks/block-dangerous.js",
 //   "filter": { "tools": ["Bash"] },
 //   "async": false,
-//   "onError": "abort",
 //   "enabled": true
 // }
 //
-// When a blocked command is detected, the script exits with code 1,
-// which triggers onError: "abort" to prevent execution.
+// As a synchronous tool:before hook, it decides whether the command runs by
+// printing a JSON decision on stdout:
+//   {"decision": "deny", "reason": "..."}  - Claude gets an error with the reason
+//   {"decision": "ask", "reason": "..."}   - You're asked through the permission prompt
+// Printing nothing leaves it to Claude Code's own permission check.
 
 // Decode base64 data for safer parsing
 const base64Data = process.env.TWEAKCC_DATA_BASE64;
@@ -78,22 +80,24 @@ const warnPatterns = [
 // Check for blocked patterns
 for (const pattern of blockedPatterns) {
   if (pattern.test(command)) {
-    console.error(`\n[BLOCKED] Dangerous command detected:`);
-    console.error(`  Command: ${command.substring(0, 100)}${command.length > 100 ? '...' : ''}`);
-    console.error(`  Pattern: ${pattern}`);
-    console.error(`\nThis command has been blocked for safety.`);
-    console.error(`If you need to run this command, do it manually.\n`);
-    process.exit(1); // Triggers onError: "abort"
+    console.log(JSON.stringify({
+      decision: 'deny',
+      reason: `Dangerous command blocked (matches ${pattern}). If it's really needed, run it manually.`,
+    }));
+    process.exit(0);
   }
 }
 
-// Check for warning patterns (log but don't block)
+// Check for warning patterns (ask before running)
 for (const pattern of warnPatterns) {
   if (pattern.test(command)) {
-    console.error(`[WARNING] Potentially risky command: ${command.substring(0, 80)}`);
-    break; // Only warn once
+    console.log(JSON.stringify({
+      decision: 'ask',
+      reason: `Potentially risky command: ${command.substring(0, 80)}`,
+    }));
+    process.exit(0);
   }
 }
 
-// Command is allowed
+// No objection: print no decision, so Claude Code's own permission check decides
 process.exit(0);
@@ -2,6 +2,10 @@
 // Inject Context Transform
 // Adds project-specific context to prompts from a .claude-context file
 //
+// As a prompt:before transform, the context is added to each prompt you send.  As a
+// prompt:system transform, it's added to the system prompt instead, so it isn't repeated
+// in the conversation.
+//
 // Usage: Add to config.json:
 // {
 //   "settings": {
@@ -65,7 +69,13 @@ for (const file of contextFiles) {
 }
 
 // Inject context if found
-if (contextContent && input.data) {
+if (contextContent && Array.isArray(input.data)) {
+  // prompt:system: the system prompt is an array of strings
+  input.data = [
+    ...input.data,
+    `<project-context>\n${contextContent}\n</project-context>`,
+  ];
+} else if (contextContent && input.data) {
   const originalPrompt = typeof input.data === 'string' ? input.data : JSON.stringify(input.data);
 
   input.data = `<project-context>
@@ -7,6 +7,9 @@ import { ThinkingStyleView } from './components/ThinkingStyleView.js';
 import { UserMessageDisplayView } from './components/UserMessageDisplayView.js';
 import { MiscView } from './components/MiscView.js';
 import { ToolsetsView } from './components/ToolsetsView.js';
+import { PatchesView } from './components/PatchesView.js';
+import { PromptProfilesView } from './components/PromptProfilesView.js';
+import { ProfilesView } from './components/ProfilesView.js';
 import {
   CONFIG_FILE,
   DEFAULT_SETTINGS,
@@ -14,7 +17,6 @@ import {
   Settings,
   StartupCheckInfo,
   TweakccConfig,
-  SYSTEM_PROMPTS_DIR,
 } from './utils/types.js';
 import {
   readConfigFile,
@@ -23,7 +25,9 @@ import {
   updateConfigFile,
 } from './utils/config.js';
 import { openInExplorer, revealFileInExplorer } from './utils/misc.js';
+import { getSystemPromptsDir } from './utils/profiles.js';
 import { applyCustomization } from './utils/patches/index.js';
+import { getRequiredFailures } from './utils/patches/report.js';
 
 export const SettingsContext = createContext({
   settings: DEFAULT_SETTINGS,
@@ -122,11 +126,25 @@ Please reapply your changes below.`,
             type: 'info',
           });
           applyCustomization(config, startupCheckInfo.ccInstInfo).then(
-            newConfig => {
+            ({ config: newConfig, outcomes }) => {
               setConfig(newConfig);
+              const failures = getRequiredFailures(outcomes);
+              if (failures.length > 0) {
+                setNotification({
+                  message: `Patches applied, but these failed: ${failures.map(f => f.id).join(', ')}. Run 'npx tweakcc --apply --dry-run' for details.`,
+                  type: 'warning',
+                });
+              } else {
+                setNotification({
+                  message: 'Customization patches applied successfully!',
+                  type: 'success',
+                });
+              }
+            },
+            error => {
               setNotification({
-                message: 'Customization patches applied successfully!',
-                type: 'success',
+                message: `Failed to apply patches: ${error instanceof Error ? error.message : error}`,
+                type: 'error',
               });
             }
           );
@@ -138,10 +156,13 @@ Please reapply your changes below.`,
       case MainMenuItem.USER_MESSAGE_DISPLAY:
       case MainMenuItem.MISC:
       case MainMenuItem.TOOLSETS:
+      case MainMenuItem.PATCHES:
+      case MainMenuItem.PROMPT_PROFILES:
+      case MainMenuItem.PROFILES:
         setCurrentView(item);
         break;
       case MainMenuItem.VIEW_SYSTEM_PROMPTS:
-        openInExplorer(SYSTEM_PROMPTS_DIR);
+        openInExplorer(getSystemPromptsDir());
         break;
       case MainMenuItem.RESTORE_ORIGINAL:
         if (startupCheckInfo.ccInstInfo) {
@@ -207,6 +228,16 @@ Please reapply your changes below.`,
           <MiscView onSubmit={handleBack} />
         ) : currentView === MainMenuItem.TOOLSETS ? (
           <ToolsetsView onBack={handleBack} />
+        ) : currentView === MainMenuItem.PATCHES ? (
+          <PatchesView onBack={handleBack} />
+        ) : currentView === MainMenuItem.PROMPT_PROFILES ? (
+          <PromptProfilesView onBack={handleBack} />
+        ) : currentView === MainMenuItem.PROFILES ? (
+          <ProfilesView
+            config={config}
+            onConfigChange={setConfig}
+            onBack={handleBack}
+          />
         ) : null}
       </Box>
     </SettingsContext.Provider>
@@ -41,10 +41,22 @@ const baseMenuItems: SelectItem[] = [
     name: MainMenuItem.TOOLSETS,
     desc: 'Manage toolsets to control which tools are available',
   },
+  {
+    name: MainMenuItem.PROFILES,
+    desc: 'Switch between named sets of customizations (themes, toolsets, settings)',
+  },
+  {
+    name: MainMenuItem.PATCHES,
+    desc: 'Choose which patches tweakcc applies to Claude Code',
+  },
   {
     name: MainMenuItem.VIEW_SYSTEM_PROMPTS,
     desc: 'Opens the system prompts directory where you can customize Claude Code\'s system prompts',
   },
+  {
+    name: MainMenuItem.PROMPT_PROFILES,
+    desc: 'Switch between sets of system prompts, kept as git branches, and see their history',
+  },
 ];
 
 // prettier-ignore
@@ -0,0 +1,124 @@
+import { Box, Text, useInput } from 'ink';
+import { useContext, useState } from 'react';
+import { SettingsContext } from '../App.js';
+import {
+  PATCH_REGISTRY,
+  getPatchDefinition,
+  isPatchEnabled,
+} from '../utils/patches/registry.js';
+import Header from './Header.js';
+
+interface PatchesViewProps {
+  onBack: () => void;
+}
+
+// Number of patches shown at once; the list scrolls to follow the selection.
+const VISIBLE_COUNT = 12;
+
+export function PatchesView({ onBack }: PatchesViewProps) {
+  const { settings, updateSettings } = useContext(SettingsContext);
+
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const handleToggle = (index: number) => {
+    const patch = PATCH_REGISTRY[index];
+    updateSettings(settings => {
+      if (!settings.patches) {
+        settings.patches = {};
+      }
+      const enabled = !isPatchEnabled(settings, patch);
+      // Only store patches that differ from their default, so new defaults take effect.
+      if (enabled === patch.defaultEnabled) {
+        delete settings.patches[patch.id];
+      } else {
+        settings.patches[patch.id] = enabled;
+      }
+    });
+  };
+
+  useInput((input, key) => {
+    if (key.return || key.escape) {
+      onBack();
+    } else if (key.upArrow) {
+      setSelectedIndex(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex(prev => Math.min(PATCH_REGISTRY.length - 1, prev + 1));
+    } else if (input === ' ') {
+      handleToggle(selectedIndex);
+    }
+  });
+
+  const scrollStart = Math.min(
+    Math.max(0, selectedIndex - Math.floor(VISIBLE_COUNT / 2)),
+    Math.max(0, PATCH_REGISTRY.length - VISIBLE_COUNT)
+  );
+  const visiblePatches = PATCH_REGISTRY.slice(
+    scrollStart,
+    scrollStart + VISIBLE_COUNT
+  );
+  const selectedPatch = PATCH_REGISTRY[selectedIndex];
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Header>Patches</Header>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text dimColor>
+          Choose which patches are applied to Claude Code. Press space to toggle
+          a patch, enter to go back.
+        </Text>
+      </Box>
+
+      {scrollStart > 0 && <Text dimColor>{'  '}↑ more</Text>}
+      {visiblePatches.map((patch, i) => {
+        const index = scrollStart + i;
+        const isSelected = index === selectedIndex;
+        const enabled = isPatchEnabled(settings, patch);
+        const configured = patch.isConfigured?.(settings) ?? true;
+        return (
+          <Box key={patch.id}>
+            <Text>
+              <Text color={isSelected ? 'cyan' : undefined}>
+                {isSelected ? '❯ ' : '  '}
+                {enabled ? '☑' : '☐'}{' '}
+              </Text>
+              <Text bold color={isSelected ? 'cyan' : undefined}>
+                {patch.name}
+              </Text>
+              {enabled && !configured && (
+                <Text dimColor> (nothing configured)</Text>
+              )}
+            </Text>
+          </Box>
+        );
+      })}
+      {scrollStart + VISIBLE_COUNT < PATCH_REGISTRY.length && (
+        <Text dimColor>{'  '}↓ more</Text>
+      )}
+
+      <Box marginTop={1} flexDirection="column">
+        <Text>{selectedPatch.description}</Text>
+        <Text dimColor>
+          ID: {selectedPatch.id}
+          {selectedPatch.required === false && ' (optional)'}
+        </Text>
+        {selectedPatch.dependencies?.map(dep => {
+          const depPatch = getPatchDefinition(dep);
+          return (
+            <Text key={dep} dimColor>
+              Requires: {depPatch?.name ?? dep}
+              {depPatch && !isPatchEnabled(settings, depPatch) && (
+                <Text color="yellow">
+                  {' '}
+                  (disabled, so this patch won&apos;t run)
+                </Text>
+              )}
+            </Text>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,182 @@
+import { Box, Text, useInput } from 'ink';
+import { useContext, useState } from 'react';
+import { SettingsContext } from '../App.js';
+import { updateConfigFile } from '../utils/config.js';
+import {
+  configureSystemPromptsDir,
+  deleteProfile,
+  getActiveProfileName,
+  getProfileSystemPromptsDir,
+  listProfiles,
+  saveProfile,
+  setProfileScopedSystemPrompts,
+  switchProfile,
+  validateProfileName,
+} from '../utils/profiles.js';
+import { syncSystemPrompts } from '../utils/promptSync.js';
+import { TweakccConfig } from '../utils/types.js';
+import Header from './Header.js';
+
+interface ProfilesViewProps {
+  config: TweakccConfig;
+  onConfigChange: (config: TweakccConfig) => void;
+  onBack: () => void;
+}
+
+export function ProfilesView({
+  config,
+  onConfigChange,
+  onBack,
+}: ProfilesViewProps) {
+  const { ccVersion } = useContext(SettingsContext);
+
+  const profiles = listProfiles(config);
+  const activeProfile = getActiveProfileName(config);
+
+  const [selectedIndex, setSelectedIndex] = useState(
+    Math.max(0, profiles.indexOf(activeProfile))
+  );
+  const [creating, setCreating] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+  const [message, setMessage] = useState<{
+    text: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  const selectedProfile =
+    profiles[Math.min(selectedIndex, profiles.length - 1)];
+
+  const update = async (
+    updateFn: (config: TweakccConfig) => void,
+    successText: string
+  ) => {
+    try {
+      const newConfig = await updateConfigFile(updateFn);
+      configureSystemPromptsDir(newConfig);
+      // A profile with its own system prompts needs its markdown files created.
+      const newActive = getActiveProfileName(newConfig);
+      if (ccVersion && newConfig.profiles?.[newActive]?.scopedSystemPrompts) {
+        await syncSystemPrompts(ccVersion);
+      }
+      onConfigChange({ ...newConfig });
+      setMessage({ text: successText, type: 'success' });
+    } catch (error) {
+      setMessage({
+        text: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    }
+  };
+
+  useInput((input, key) => {
+    if (creating) {
+      if (key.return && nameInput.trim()) {
+        const name = nameInput.trim();
+        const error = validateProfileName(name);
+        if (error) {
+          setMessage({ text: error, type: 'error' });
+          return;
+        }
+        setCreating(false);
+        setNameInput('');
+        update(config => {
+          saveProfile(config, name);
+          switchProfile(config, name);
+        }, `Created profile ${name} from the current customizations.`);
+      } else if (key.escape) {
+        setCreating(false);
+        setNameInput('');
+      } else if (key.backspace || key.delete) {
+        setNameInput(prev => prev.slice(0, -1));
+      } else if (input) {
+        setNameInput(prev => prev + input);
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onBack();
+      return;
+    }
+    setMessage(null);
+    if (key.upArrow) {
+      setSelectedIndex(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex(prev => Math.min(profiles.length - 1, prev + 1));
+    } else if (key.return && selectedProfile !== activeProfile) {
+      update(
+        config => switchProfile(config, selectedProfile),
+        `Switched to ${selectedProfile}. Apply customizations to use it in Claude Code.`
+      );
+    } else if (input === 'n') {
+      setCreating(true);
+    } else if (input === 'd') {
+      update(
+        config => deleteProfile(config, selectedProfile),
+        `Deleted profile ${selectedProfile}.`
+      );
+    } else if (input === 'p') {
+      const scoped = !config.profiles?.[selectedProfile]?.scopedSystemPrompts;
+      update(
+        config =>
+          setProfileScopedSystemPrompts(config, selectedProfile, scoped),
+        scoped
+          ? `${selectedProfile} now has its own system prompts.`
+          : `${selectedProfile} now uses the shared system prompts.`
+      );
+    }
+  });
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Header>Profiles</Header>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text dimColor>
+          Each profile has its own themes, toolsets and other settings. enter to
+          switch, n to create a profile from the current customizations, d to
+          delete, p to toggle separate system prompts, escape to go back.
+        </Text>
+      </Box>
+
+      {profiles.map(name => {
+        const isSelected = name === selectedProfile;
+        return (
+          <Text key={name} color={isSelected ? 'cyan' : undefined}>
+            {isSelected ? '❯ ' : '  '}
+            <Text bold={name === activeProfile}>{name}</Text>
+            {name === activeProfile && <Text dimColor> (active)</Text>}
+            {config.profiles?.[name]?.scopedSystemPrompts && (
+              <Text dimColor> (own system prompts)</Text>
+            )}
+          </Text>
+        );
+      })}
+
+      {creating && (
+        <Box marginTop={1}>
+          <Text>
+            New profile name: <Text color="cyan">{nameInput}</Text>
+            <Text dimColor>█</Text>
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          System prompts: {getProfileSystemPromptsDir(config, selectedProfile)}
+        </Text>
+      </Box>
+
+      {message && (
+        <Box marginTop={1}>
+          <Text color={message.type === 'success' ? 'green' : 'red'}>
+            {message.text}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,187 @@
+import { Box, Text, useInput } from 'ink';
+import { useContext, useEffect, useState } from 'react';
+import { SettingsContext } from '../App.js';
+import {
+  PromptBranches,
+  PromptCommit,
+  checkoutPromptRef,
+  commitPrompts,
+  createPromptBranch,
+  getChangedPromptIds,
+  getPromptHistory,
+  isGitAvailable,
+  listPromptBranches,
+} from '../utils/promptGit.js';
+import { getSystemPromptsDir } from '../utils/profiles.js';
+import Header from './Header.js';
+
+interface PromptProfilesViewProps {
+  onBack: () => void;
+}
+
+// Number of recent commits shown for the current profile.
+const HISTORY_COUNT = 5;
+
+export function PromptProfilesView({ onBack }: PromptProfilesViewProps) {
+  const { updateSettings } = useContext(SettingsContext);
+
+  const [branches, setBranches] = useState<PromptBranches | null>(null);
+  const [history, setHistory] = useState<PromptCommit[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+  const [message, setMessage] = useState<{
+    text: string;
+    type: 'success' | 'error';
+  } | null>(null);
+
+  const refresh = async () => {
+    const loaded = await listPromptBranches();
+    setBranches(loaded);
+    setHistory(await getPromptHistory(HISTORY_COUNT));
+    const currentIndex = loaded.current
+      ? loaded.branches.indexOf(loaded.current)
+      : -1;
+    setSelectedIndex(Math.max(0, currentIndex));
+  };
+
+  useEffect(() => {
+    if (!isGitAvailable()) {
+      setMessage({
+        text: 'git is not installed, so prompt profiles are unavailable.',
+        type: 'error',
+      });
+      return;
+    }
+    refresh().catch(error =>
+      setMessage({ text: String(error.message ?? error), type: 'error' })
+    );
+  }, []);
+
+  // Commits unsaved edits so they stay with the profile they were made in.
+  const saveCurrentProfile = async (nextProfile: string) => {
+    if (getChangedPromptIds().length > 0) {
+      await commitPrompts(`Save prompts before switching to ${nextProfile}`);
+    }
+  };
+
+  const switchTo = async (branch: string, create: boolean) => {
+    try {
+      await saveCurrentProfile(branch);
+      if (create) {
+        await createPromptBranch(branch);
+      }
+      await checkoutPromptRef(branch);
+      await refresh();
+      // Mark the customizations as unapplied so the user is prompted to apply them.
+      updateSettings(() => {});
+      setMessage({
+        text: `Switched to ${branch}. Apply customizations to use these prompts in Claude Code.`,
+        type: 'success',
+      });
+    } catch (error) {
+      setMessage({
+        text: error instanceof Error ? error.message : String(error),
+        type: 'error',
+      });
+    }
+  };
+
+  useInput((input, key) => {
+    if (creating) {
+      if (key.return && nameInput.trim()) {
+        setCreating(false);
+        switchTo(nameInput.trim(), true);
+        setNameInput('');
+      } else if (key.escape) {
+        setCreating(false);
+        setNameInput('');
+      } else if (key.backspace || key.delete) {
+        setNameInput(prev => prev.slice(0, -1));
+      } else if (input && !/\s/.test(input)) {
+        setNameInput(prev => prev + input);
+      }
+      return;
+    }
+
+    if (key.escape) {
+      onBack();
+    } else if (!branches) {
+      return;
+    } else if (key.upArrow) {
+      setSelectedIndex(prev => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex(prev =>
+        Math.min(branches.branches.length - 1, prev + 1)
+      );
+    } else if (key.return) {
+      const branch = branches.branches[selectedIndex];
+      if (branch && branch !== branches.current) {
+        setMessage(null);
+        switchTo(branch, false);
+      }
+    } else if (input === 'n') {
+      setMessage(null);
+      setCreating(true);
+    }
+  });
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Header>Prompt profiles</Header>
+      </Box>
+
+      <Box marginBottom={1} flexDirection="column">
+        <Text dimColor>
+          Each profile is a git branch of {getSystemPromptsDir()}. Press enter
+          to switch to a profile, n to create a new one from the current
+          prompts, and escape to go back.
+        </Text>
+      </Box>
+
+      {branches?.branches.map((branch, index) => {
+        const isSelected = index === selectedIndex;
+        return (
+          <Text key={branch} color={isSelected ? 'cyan' : undefined}>
+            {isSelected ? '❯ ' : '  '}
+            <Text bold={branch === branches.current}>{branch}</Text>
+            {branch === branches.current && <Text dimColor> (current)</Text>}
+          </Text>
+        );
+      })}
+      {branches && !branches.current && (
+        <Text dimColor>{'  '}(viewing an earlier commit)</Text>
+      )}
+
+      {creating && (
+        <Box marginTop={1}>
+          <Text>
+            New profile name: <Text color="cyan">{nameInput}</Text>
+            <Text dimColor>█</Text>
+          </Text>
+        </Box>
+      )}
+
+      {message && (
+        <Box marginTop={1}>
+          <Text color={message.type === 'success' ? 'green' : 'red'}>
+            {message.text}
+          </Text>
+        </Box>
+      )}
+
+      {history.length > 0 && (
+        <Box marginTop={1} flexDirection="column">
+          <Text bold>Recent changes</Text>
+          {history.map(commit => (
+            <Text key={commit.hash}>
+              <Text color="yellow">{commit.hash}</Text>{' '}
+              <Text dimColor>{commit.date}</Text> {commit.subject}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
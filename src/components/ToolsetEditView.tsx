@@ -2,33 +2,13 @@ import React, { useState, useContext, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { SettingsContext } from '../App.js';
 import Header from './Header.js';
+import { CLAUDE_CODE_TOOLS } from '../utils/types.js';
 
 interface ToolsetEditViewProps {
   toolsetIndex: number;
   onBack: () => void;
 }
 
-// All available Claude Code tools
-const AVAILABLE_TOOLS = [
-  'Task',
-  'Bash',
-  'Glob',
-  'Grep',
-  'Read',
-  'Edit',
-  'Write',
-  'NotebookEdit',
-  'WebFetch',
-  'WebSearch',
-  'BashOutput',
-  'KillShell',
-  'TodoWrite',
-  'AskUserQuestion',
-  'Skill',
-  'SlashCommand',
-  'ExitPlanMode',
-];
-
 export function ToolsetEditView({
   toolsetIndex,
   onBack,
@@ -66,7 +46,7 @@ export function ToolsetEditView({
     } else {
       if (allowedTools === '*') {
         // If "All" was selected, deselect this specific tool
-        setAllowedTools(AVAILABLE_TOOLS.filter(t => t !== tool));
+        setAllowedTools(CLAUDE_CODE_TOOLS.filter(t => t !== tool));
       } else {
         if (allowedTools.includes(tool)) {
           setAllowedTools(allowedTools.filter(t => t !== tool));
@@ -97,7 +77,9 @@ export function ToolsetEditView({
     } else if (key.upArrow) {
       setSelectedIndex(prev => Math.max(0, prev - 1));
     } else if (key.downArrow) {
-      setSelectedIndex(prev => Math.min(AVAILABLE_TOOLS.length + 1, prev + 1));
+      setSelectedIndex(prev =>
+        Math.min(CLAUDE_CODE_TOOLS.length + 1, prev + 1)
+      );
     } else if (input === ' ' || key.return) {
       if (selectedIndex === 0) {
         // Toggle "All"
@@ -107,7 +89,7 @@ export function ToolsetEditView({
         toggleTool('None');
       } else {
         // Toggle specific tool
-        const tool = AVAILABLE_TOOLS[selectedIndex - 2];
+        const tool = CLAUDE_CODE_TOOLS[selectedIndex - 2];
         if (tool) toggleTool(tool);
       }
     } else if (input === 'n') {
@@ -174,7 +156,7 @@ export function ToolsetEditView({
         </Box>
 
         {/* Individual tools */}
-        {AVAILABLE_TOOLS.map((tool, index) => {
+        {CLAUDE_CODE_TOOLS.map((tool, index) => {
           const itemIndex = index + 2;
           return (
             <Box key={tool} marginLeft={2}>
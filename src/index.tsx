@@ -2,17 +2,129 @@ import { render } from 'ink';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import fs from 'node:fs/promises';
+import path from 'node:path';
 import App from './App.js';
 import {
   CLIJS_SEARCH_PATH_INFO,
+  ClaudeCodeInstallationInfo,
   CONFIG_FILE,
   CONFIG_DIR,
+  KNOWN_HASHES_FILE,
 } from './utils/types.js';
-import { startupCheck, readConfigFile } from './utils/config.js';
+import {
+  startupCheck,
+  readConfigFile,
+  updateConfigFile,
+  ensureInstallationBackup,
+  findAllClaudeCodeInstallations,
+  findClaudeCodeInstallation,
+  getInstallationAt,
+} from './utils/config.js';
+import {
+  getInstallationPath,
+  getInstallationType,
+  isSameInstallation,
+} from './utils/installations.js';
+import {
+  checkKnownHash,
+  countHashes,
+  importKnownHashes,
+  loadKnownHashes,
+} from './utils/hashRegistry.js';
+import {
+  findBackup,
+  getInstallationPatchMarkers,
+  hashInstallationJs,
+  InstallationJsSource,
+  isBackupOfInstallation,
+  listBackups,
+  pruneBackups,
+  readInstallationJsFrom,
+  verifyBackup,
+} from './utils/backups.js';
+import {
+  findNativeModule,
+  isClaudeModule,
+  NATIVE_MODULE_ENCODINGS,
+  NATIVE_MODULE_FORMATS,
+  readNativeModuleGraph,
+  writeNativeModuleGraph,
+} from './utils/nativeInstallation.js';
 import { enableDebug } from './utils/misc.js';
-import { applyCustomization } from './utils/patches/index.js';
-import { preloadStringsFile } from './utils/promptSync.js';
-import { analyzeCliJs, printReport, searchPattern, printSearchResults } from './utils/patches/analyzer.js';
+import {
+  applyCustomization,
+  dryRunCustomization,
+} from './utils/patches/index.js';
+import {
+  formatCompatibilityMatrix,
+  generatePatchDiff,
+  getRequiredFailures,
+  PatchOutcome,
+  printPatchReport,
+} from './utils/patches/report.js';
+import {
+  displaySyncResults,
+  preloadStringsFile,
+  syncSystemPrompts,
+} from './utils/promptSync.js';
+import {
+  deleteProfile,
+  getActiveProfileName,
+  getProfileSystemPromptsDir,
+  listProfiles,
+  saveProfile,
+  setProfileScopedSystemPrompts,
+  switchProfile,
+  validateProfileName,
+} from './utils/profiles.js';
+import {
+  checkoutPromptRef,
+  commitPrompts,
+  createPromptBranch,
+  ensurePromptRepo,
+  formatAutoCommitMessage,
+  getChangedPromptIds,
+  getPromptHistory,
+  listPromptBranches,
+} from './utils/promptGit.js';
+import {
+  extractStringsFileFromInstallation,
+  saveExtractedStringsFile,
+} from './utils/promptExtract.js';
+import { configurePromptData } from './utils/download.js';
+import {
+  hasConfigErrors,
+  printConfigIssues,
+  validateConfigFile,
+} from './utils/configSchema.js';
+import {
+  CURRENT_CONFIG_VERSION,
+  migrateConfigFile,
+} from './utils/configMigrations.js';
+import { PATCH_REGISTRY } from './utils/patches/registry.js';
+import { getEmittableEvents } from './utils/patches/events.js';
+import { findCorpusFiles, runCorpusFile } from './utils/patches/corpus.js';
+import {
+  ANALYZE_FORMATS,
+  AnalyzeFormat,
+  analyzeCliJs,
+  formatReportJson,
+  formatReportSarif,
+  formatSearchJson,
+  formatSearchSarif,
+  printReport,
+  searchPattern,
+  printSearchResults,
+  withLogsOnStderr,
+} from './utils/patches/analyzer.js';
+import {
+  DEFAULT_WATCH_INTERVAL_SECONDS,
+  getSystemdUnitPath,
+  installSystemdUnit,
+  SYSTEMD_UNIT_NAME,
+  uninstallSystemdUnit,
+  watchInstallations,
+} from './utils/watch.js';
 
 const createExampleConfigIfMissing = async (
   examplePath: string
@@ -39,6 +151,47 @@ const createExampleConfigIfMissing = async (
   }
 };
 
+/**
+ * Reads the JS to analyze or extract: the original with `--original`, what's installed with
+ * `--patched`, and otherwise the original if it's available and what's installed if not.
+ * Exits if the JS can't be read.
+ */
+const readJsForInspection = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  options: { original?: boolean; patched?: boolean },
+  log: (message: string) => void
+): Promise<{ file: string; js: Buffer }> => {
+  if (options.original && options.patched) {
+    console.error(
+      chalk.red('--original and --patched are mutually exclusive.')
+    );
+    process.exit(1);
+  }
+  const source: InstallationJsSource = options.patched ? 'patched' : 'original';
+  let result = await readInstallationJsFrom(ccInstInfo, source);
+  if (!result && source === 'original' && !options.original) {
+    log(
+      chalk.yellow(
+        `No unpatched copy of Claude Code ${ccInstInfo.version} is available, so the patched JS will be used.`
+      )
+    );
+    result = await readInstallationJsFrom(ccInstInfo, 'patched');
+  }
+  if (!result) {
+    const installationPath = getInstallationPath(ccInstInfo);
+    console.error(
+      chalk.red(
+        source === 'original'
+          ? `${installationPath} has been patched by tweakcc and there's no backup of Claude Code ${ccInstInfo.version}. Reinstall Claude Code, or use --patched.`
+          : `Cannot read the JS in ${installationPath}.`
+      )
+    );
+    process.exit(1);
+  }
+  log(chalk.gray(`Reading from: ${result.file}`));
+  return result;
+};
+
 const main = async () => {
   const program = new Command();
   program
@@ -49,9 +202,46 @@ const main = async () => {
     .version('3.2.0')
     .option('-d, --debug', 'enable debug mode')
     .option('-a, --apply', 'apply saved customizations without interactive UI')
+    .option(
+      '--dry-run',
+      'with --apply, run all patches in memory and report results without writing anything; with config migrate, only show what would change'
+    )
+    .option(
+      '--all',
+      "with --apply, patch every Claude Code installation found (see 'tweakcc installs list')"
+    )
+    .option(
+      '--target <path>',
+      'with --apply, patch the Claude Code installation at <path> (a package directory, cli.js or native binary)'
+    )
+    .option(
+      '--force',
+      "with --apply, back up Claude Code even if it doesn't match its published hash"
+    )
+    .option(
+      '--diff <file>',
+      'with --apply --dry-run, write a unified diff of the patched JS to <file>'
+    )
+    .option(
+      '--offline',
+      'never download system prompt data; only use the cache, the copy bundled with tweakcc, or promptData.dir'
+    )
     .option('--analyze', 'analyze cli.js patterns for debugging')
     .option('--verbose', 'show verbose output (with --analyze)')
-    .option('--search <pattern>', 'search for custom regex pattern in cli.js');
+    .option('--search <pattern>', 'search for custom regex pattern in cli.js')
+    .option(
+      '--format <format>',
+      `output format for --analyze and --search (${ANALYZE_FORMATS.join(', ')})`,
+      'text'
+    )
+    .option(
+      '--original',
+      "with --analyze, --search, extract or native, use the unpatched JS (from tweakcc's backup if Claude Code has been patched)"
+    )
+    .option(
+      '--patched',
+      'with --analyze, --search or extract, use the JS as installed, including tweakcc patches'
+    );
 
   // Hooks management subcommand
   const hooksCmd = program
@@ -71,16 +261,34 @@ const main = async () => {
         process.exit(0);
       }
 
+      // Check which events the installed Claude Code has somewhere to emit from.  That needs
+      // the unpatched JS, since the injection points no longer match once it's been patched.
+      const ccInstInfo = await findClaudeCodeInstallation(config);
+      const original = ccInstInfo && (await readInstallationJsFrom(ccInstInfo, 'original'));
+      const emittable = original && getEmittableEvents(original.js.toString('utf8'));
+
       console.log(chalk.cyan('\n═══ Configured Hooks ═══\n'));
+      if (ccInstInfo && !emittable) {
+        console.log(chalk.gray(`Not checking which events Claude Code ${ccInstInfo.version} can emit: there's no unpatched copy of it.\n`));
+      }
       for (const hook of hooks) {
         const status = hook.enabled ? chalk.green('✓') : chalk.red('✗');
         const events = Array.isArray(hook.events) ? hook.events.join(', ') : hook.events;
         console.log(`${status} ${chalk.bold(hook.id)} ${chalk.gray(`(${hook.name || 'unnamed'})`)}`);
         console.log(`   Events: ${chalk.cyan(events)}`);
+        const unemittable = emittable
+          ? (Array.isArray(hook.events) ? hook.events : [hook.events]).filter(
+              event => !event.startsWith('custom:') && !emittable.has(event)
+            )
+          : [];
+        if (unemittable.length > 0) {
+          console.log(chalk.yellow(`   ⚠ Claude Code ${ccInstInfo!.version} can't emit: ${unemittable.join(', ')}`));
+        }
         console.log(`   Type: ${hook.type}`);
         if (hook.type === 'command') console.log(`   Command: ${chalk.gray(hook.command)}`);
         if (hook.type === 'webhook') console.log(`   Webhook: ${chalk.gray(hook.webhook)}`);
         if (hook.type === 'script') console.log(`   Script: ${chalk.gray(hook.script)}`);
+        if (hook.type === 'worker') console.log(`   Worker: ${chalk.gray(hook.worker)}`);
         if (hook.filter) console.log(`   Filter: ${chalk.gray(JSON.stringify(hook.filter))}`);
         console.log();
       }
@@ -222,19 +430,996 @@ const main = async () => {
       process.exit(0);
     });
 
-  program.parse();
+  // System prompt data subcommand
+  const promptsCmd = program
+    .command('prompts')
+    .description('Manage system prompt data');
+
+  promptsCmd
+    .command('extract')
+    .description(
+      'Generate prompt data from the installed Claude Code, for versions not yet published'
+    )
+    .option('-o, --out <file>', 'write the prompt data to <file> instead')
+    .action(async opts => {
+      configurePromptData(
+        (await readConfigFile()).promptData,
+        !!program.opts().offline
+      );
+
+      const startupCheckInfo = await startupCheck();
+      if (!startupCheckInfo || !startupCheckInfo.ccInstInfo) {
+        console.error(chalk.red('Cannot find Claude Code installation.'));
+        console.error('Run tweakcc without arguments to see search paths.');
+        process.exit(1);
+      }
+      const { ccInstInfo } = startupCheckInfo;
+
+      console.log(
+        `Extracting system prompts from Claude Code v${ccInstInfo.version}...`
+      );
+      const stringsFile = await extractStringsFileFromInstallation(ccInstInfo);
+      const filePath = await saveExtractedStringsFile(stringsFile, opts.out);
+      const unmatched = stringsFile.prompts.filter(p =>
+        p.id.startsWith('extracted-')
+      ).length;
+      console.log(
+        chalk.green(
+          `✓ Extracted ${stringsFile.prompts.length} prompts to ${filePath}`
+        )
+      );
+      if (unmatched > 0) {
+        console.log(
+          chalk.yellow(
+            `  ${unmatched} prompts didn't match any published prompt and were given generated IDs.`
+          )
+        );
+      }
+
+      if (opts.out) {
+        process.exit(0);
+      }
+
+      // Create/update the markdown files; published data still takes precedence if it exists.
+      try {
+        displaySyncResults(await syncSystemPrompts(ccInstInfo.version));
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Failed to sync system prompts: ${error instanceof Error ? error.message : error}`
+          )
+        );
+        process.exit(1);
+      }
+      process.exit(0);
+    });
+
+  promptsCmd
+    .command('history')
+    .description('Show the history of your system prompt changes')
+    .option('-n, --limit <count>', 'number of commits to show', '20')
+    .action(async opts => {
+      const commits = await getPromptHistory(parseInt(opts.limit, 10) || 20);
+      if (commits.length === 0) {
+        console.log(chalk.yellow('No system prompt history yet.'));
+        process.exit(0);
+      }
+      for (const commit of commits) {
+        console.log(
+          `${chalk.yellow(commit.hash)} ${chalk.gray(commit.date)} ${commit.subject}`
+        );
+      }
+      process.exit(0);
+    });
+
+  promptsCmd
+    .command('commit')
+    .description('Commit the current state of your system prompts')
+    .option('-m, --message <message>', 'commit message')
+    .action(async opts => {
+      await ensurePromptRepo();
+      const ids = getChangedPromptIds();
+      const hash = await commitPrompts(
+        opts.message ??
+          formatAutoCommitMessage(
+            'Commit',
+            (await readConfigFile()).ccVersion,
+            ids
+          )
+      );
+      if (!hash) {
+        console.log(chalk.yellow('No system prompt changes to commit.'));
+        process.exit(0);
+      }
+      console.log(chalk.green(`✓ Committed ${ids.length} prompt(s): ${hash}`));
+      process.exit(0);
+    });
+
+  promptsCmd
+    .command('checkout <ref>')
+    .description(
+      'Switch your system prompts to a branch (profile) or an earlier commit'
+    )
+    .action(async ref => {
+      try {
+        await checkoutPromptRef(ref);
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Failed to check out ${ref}: ${error instanceof Error ? error.message : error}`
+          )
+        );
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ Checked out ${ref}`));
+      console.log(
+        chalk.gray(
+          "Run 'tweakcc --apply' to apply these prompts to Claude Code."
+        )
+      );
+      process.exit(0);
+    });
+
+  promptsCmd
+    .command('branch [name]')
+    .description(
+      'List system prompt branches (profiles), or create a new one from the current prompts'
+    )
+    .action(async name => {
+      try {
+        if (name) {
+          await createPromptBranch(name);
+          console.log(chalk.green(`✓ Created branch ${name}`));
+          console.log(
+            chalk.gray(`Switch to it with 'tweakcc prompts checkout ${name}'.`)
+          );
+          process.exit(0);
+        }
+        const { current, branches } = await listPromptBranches();
+        for (const branch of branches) {
+          console.log(
+            branch === current ? chalk.green(`* ${branch}`) : `  ${branch}`
+          );
+        }
+        if (!current) {
+          console.log(chalk.gray('(HEAD is detached)'));
+        }
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exit(1);
+      }
+      process.exit(0);
+    });
+
+  // Profiles subcommand
+  const profileCmd = program
+    .command('profile')
+    .description('Manage named customization profiles');
+
+  profileCmd
+    .command('list')
+    .description('List profiles')
+    .action(async () => {
+      const config = await readConfigFile();
+      const active = getActiveProfileName(config);
+      for (const name of listProfiles(config)) {
+        const scoped = config.profiles?.[name]?.scopedSystemPrompts
+          ? chalk.gray(' (own system prompts)')
+          : '';
+        console.log(
+          name === active
+            ? `${chalk.green(`* ${name}`)}${scoped}`
+            : `  ${name}${scoped}`
+        );
+      }
+      process.exit(0);
+    });
+
+  profileCmd
+    .command('save <name>')
+    .description('Save the current customizations as a profile')
+    .option(
+      '--own-prompts',
+      'give the profile its own system prompts directory instead of sharing it'
+    )
+    .option('--shared-prompts', 'use the shared system prompts directory')
+    .action(async (name, opts) => {
+      const error = validateProfileName(name);
+      if (error) {
+        console.error(chalk.red(error));
+        process.exit(1);
+      }
+      await readConfigFile();
+      const config = await updateConfigFile(config => {
+        saveProfile(config, name);
+        if (opts.ownPrompts || opts.sharedPrompts) {
+          setProfileScopedSystemPrompts(config, name, !!opts.ownPrompts);
+        }
+      });
+      console.log(chalk.green(`✓ Saved profile: ${name}`));
+      if (config.profiles?.[name]?.scopedSystemPrompts) {
+        console.log(
+          chalk.gray(
+            `System prompts: ${getProfileSystemPromptsDir(config, name)}`
+          )
+        );
+      }
+      process.exit(0);
+    });
+
+  profileCmd
+    .command('use <name>')
+    .description(
+      'Switch to a profile; add --apply to apply it to Claude Code right away'
+    )
+    .action(async name => {
+      await readConfigFile();
+      let config;
+      try {
+        config = await updateConfigFile(config => switchProfile(config, name));
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ Switched to profile: ${name}`));
+
+      // --apply is a global option; let the main flow apply the new profile.
+      if (program.opts().apply) {
+        return;
+      }
+      if (config.profiles?.[name]?.scopedSystemPrompts) {
+        console.log(
+          chalk.gray(`System prompts: ${getProfileSystemPromptsDir(config)}`)
+        );
+      }
+      console.log(
+        chalk.gray("Run 'tweakcc --apply' to apply it to Claude Code.")
+      );
+      process.exit(0);
+    });
+
+  profileCmd
+    .command('delete <name>')
+    .description('Delete a profile')
+    .action(async name => {
+      await readConfigFile();
+      try {
+        await updateConfigFile(config => deleteProfile(config, name));
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ Deleted profile: ${name}`));
+      process.exit(0);
+    });
+
+  // Config subcommand
+  const configCmd = program
+    .command('config')
+    .description('Validate and migrate the config file');
+
+  configCmd
+    .command('validate')
+    .description(
+      'Check config.json against the config schema and report problems'
+    )
+    .action(async () => {
+      const issues = await validateConfigFile({
+        knownPatchIds: PATCH_REGISTRY.map(patch => patch.id),
+      });
+      if (issues.length === 0) {
+        console.log(chalk.green(`✓ ${CONFIG_FILE} is valid`));
+        process.exit(0);
+      }
+      printConfigIssues(issues);
+      const errorCount = issues.filter(i => i.severity === 'error').length;
+      console.log(
+        `\n${errorCount} error(s), ${issues.length - errorCount} warning(s) in ${CONFIG_FILE}`
+      );
+      process.exit(hasConfigErrors(issues) ? 1 : 0);
+    });
+
+  configCmd
+    .command('migrate')
+    .description(
+      'Upgrade config.json to the current config version, backing it up first; add --dry-run to only show the changes'
+    )
+    .action(async () => {
+      // --dry-run is a global option
+      const dryRun = !!program.opts().dryRun;
+      const result = await migrateConfigFile({ dryRun });
+      if (!result || result.applied.length === 0) {
+        console.log(
+          chalk.green(
+            `✓ ${CONFIG_FILE} is up to date (config version ${result?.toVersion ?? CURRENT_CONFIG_VERSION})`
+          )
+        );
+        process.exit(0);
+      }
+
+      console.log(
+        `${dryRun ? 'Would migrate' : 'Migrated'} ${CONFIG_FILE} from config version ${result.fromVersion} to ${result.toVersion}:`
+      );
+      for (const migration of result.applied) {
+        console.log(`  ${migration.version}. ${migration.description}`);
+      }
+      console.log();
+      console.log(result.diff);
+      if (result.backupFile) {
+        console.log(
+          chalk.gray(`The old config was saved to ${result.backupFile}`)
+        );
+      }
+      process.exit(0);
+    });
+
+  // Installations subcommand
+  const installsCmd = program
+    .command('installs')
+    .description('Manage Claude Code installations');
+
+  installsCmd
+    .command('list')
+    .description(
+      'List every Claude Code installation found, with its version, type and patch status'
+    )
+    .action(async () => {
+      const config = await readConfigFile();
+      const installations = await findAllClaudeCodeInstallations(config);
+      if (installations.length === 0) {
+        console.log(chalk.yellow('No Claude Code installations found.'));
+        process.exit(0);
+      }
+      const defaultInstallation = await findClaudeCodeInstallation(config);
+
+      console.log(chalk.bold('\nClaude Code installations:\n'));
+      for (const installation of installations) {
+        const isDefault =
+          !!defaultInstallation &&
+          isSameInstallation(installation, defaultInstallation);
+        const markers = await getInstallationPatchMarkers(installation);
+        const backup = await findBackup(installation);
+
+        console.log(
+          `  ${chalk.cyan(getInstallationPath(installation))}${isDefault ? chalk.green(' (default)') : ''}`
+        );
+        console.log(`    Version: ${installation.version}`);
+        console.log(`    Type: ${getInstallationType(installation)}`);
+        console.log(
+          `    Status: ${markers.length > 0 ? chalk.yellow('patched by tweakcc') : 'unpatched'}`
+        );
+        console.log(`    Backup: ${backup ? backup.dir : chalk.gray('none')}`);
+        console.log();
+      }
+      console.log(
+        chalk.gray(
+          "Use 'tweakcc --apply --all' to patch all of them, or 'tweakcc --apply --target <path>' for one."
+        )
+      );
+      process.exit(0);
+    });
+
+  // Backups subcommand
+  const backupsCmd = program
+    .command('backups')
+    .description('Manage the backups of original Claude Code files');
+
+  backupsCmd
+    .command('list')
+    .description('List every backup, grouped by installation')
+    .action(async () => {
+      const backups = await listBackups();
+      if (backups.length === 0) {
+        console.log(chalk.yellow('No backups found.'));
+        process.exit(0);
+      }
+      const installations = await findAllClaudeCodeInstallations(
+        await readConfigFile()
+      );
+
+      let sourcePath: string | null = null;
+      for (const backup of backups) {
+        if (backup.info.sourcePath !== sourcePath) {
+          sourcePath = backup.info.sourcePath;
+          console.log(
+            `\n${chalk.cyan(sourcePath)} ${chalk.gray(`(${backup.info.type})`)}`
+          );
+        }
+        const isInstalled = installations.some(i =>
+          isBackupOfInstallation(backup, i)
+        );
+        console.log(
+          `  ${chalk.bold(backup.info.version)}${isInstalled ? chalk.green(' (installed)') : ''}  ${(backup.info.size / 1024 / 1024).toFixed(1)} MB  sha256:${backup.info.sha256.slice(0, 12)}  ${chalk.gray(backup.info.createdAt)}`
+        );
+        console.log(chalk.gray(`    ${backup.file}`));
+      }
+      process.exit(0);
+    });
+
+  backupsCmd
+    .command('verify')
+    .description(
+      'Check every backup against the SHA-256 recorded when it was taken'
+    )
+    .action(async () => {
+      const backups = await listBackups();
+      let failures = 0;
+      for (const backup of backups) {
+        const { problem } = await verifyBackup(backup);
+        const label = `${backup.info.sourcePath} ${backup.info.version}`;
+        if (problem) {
+          failures++;
+          console.log(chalk.red(`✗ ${label}: ${problem}`));
+        } else {
+          console.log(chalk.green(`✓ ${label}`));
+        }
+      }
+      console.log(
+        `\n${backups.length - failures} of ${backups.length} backup(s) OK`
+      );
+      process.exit(failures > 0 ? 1 : 0);
+    });
+
+  backupsCmd
+    .command('prune')
+    .description(
+      'Remove backups of versions that are no longer installed; add --dry-run to only list them'
+    )
+    .option(
+      '--keep <n>',
+      'also keep the n newest backups of old versions of each installation',
+      '0'
+    )
+    .action(async (cmdOptions: { keep: string }) => {
+      const keep = parseInt(cmdOptions.keep, 10);
+      if (isNaN(keep) || keep < 0) {
+        console.error(chalk.red('--keep must be a number >= 0'));
+        process.exit(1);
+      }
+      // --dry-run is a global option
+      const dryRun = !!program.opts().dryRun;
+      const installations = await findAllClaudeCodeInstallations(
+        await readConfigFile()
+      );
+      const pruned = await pruneBackups(installations, { keep, dryRun });
+      if (pruned.length === 0) {
+        console.log(chalk.green('Nothing to prune.'));
+        process.exit(0);
+      }
+      for (const backup of pruned) {
+        console.log(
+          `${dryRun ? 'Would remove' : 'Removed'} ${backup.info.sourcePath} ${backup.info.version} ${chalk.gray(`(${backup.dir})`)}`
+        );
+      }
+      process.exit(0);
+    });
+
+  // Known hash registry subcommand
+  const hashesCmd = program
+    .command('hashes')
+    .description(
+      'Manage the registry of hashes of unmodified Claude Code builds'
+    );
+
+  hashesCmd
+    .command('list')
+    .description('List the known hashes of every Claude Code version')
+    .action(async () => {
+      const registry = await loadKnownHashes();
+      const versions = Object.keys(registry);
+      if (versions.length === 0) {
+        console.log(chalk.yellow('No known hashes.'));
+        console.log(
+          chalk.gray("Add some with 'tweakcc hashes import <file>'.")
+        );
+        process.exit(0);
+      }
+      for (const version of versions) {
+        console.log(chalk.bold(version));
+        for (const [type, hashes] of Object.entries(registry[version])) {
+          for (const hash of hashes ?? []) {
+            console.log(`  ${type.padEnd(6)} ${hash}`);
+          }
+        }
+      }
+      process.exit(0);
+    });
+
+  hashesCmd
+    .command('import <file>')
+    .description(`Add the hashes in <file> to ${KNOWN_HASHES_FILE}`)
+    .action(async (file: string) => {
+      try {
+        const added = await importKnownHashes(file);
+        console.log(
+          chalk.green(
+            `✓ Imported ${added} new hash(es); ${countHashes(await loadKnownHashes())} known in total`
+          )
+        );
+        process.exit(0);
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exit(1);
+      }
+    });
+
+  hashesCmd
+    .command('check')
+    .description(
+      "Check every Claude Code installation's JS against the known hashes"
+    )
+    .action(async () => {
+      const registry = await loadKnownHashes();
+      const installations = await findAllClaudeCodeInstallations(
+        await readConfigFile()
+      );
+      let hasModified = false;
+      // Patched installations never match, so their backups are checked instead.
+      const check = async (
+        label: string,
+        file: string,
+        installation: ClaudeCodeInstallationInfo
+      ) => {
+        const type = getInstallationType(installation);
+        const hash = await hashInstallationJs(file, type);
+        const status = hash
+          ? checkKnownHash(registry, installation.version, type, hash)
+          : 'unknown';
+        if (status === 'modified') {
+          hasModified = true;
+        }
+        console.log(
+          `  ${label}: ${
+            status === 'known-good'
+              ? chalk.green('known good')
+              : status === 'modified'
+                ? chalk.red('modified')
+                : chalk.yellow('no known hash for this version')
+          }`
+        );
+        console.log(chalk.gray(`    sha256: ${hash ?? '(JS not found)'}`));
+      };
+
+      for (const installation of installations) {
+        console.log(
+          `${chalk.cyan(getInstallationPath(installation))} ${chalk.gray(`(${getInstallationType(installation)} ${installation.version})`)}`
+        );
+        const markers = await getInstallationPatchMarkers(installation);
+        if (markers.length === 0) {
+          await check(
+            'Installed',
+            getInstallationPath(installation),
+            installation
+          );
+        } else {
+          console.log(`  Installed: ${chalk.yellow('patched by tweakcc')}`);
+        }
+        const backup = await findBackup(installation);
+        if (backup) {
+          await check('Backup', backup.file, installation);
+        }
+        console.log();
+      }
+      process.exit(hasModified ? 1 : 0);
+    });
+
+  program
+    .command('extract')
+    .description(
+      "Write Claude Code's JS (embedded in the binary, for native installations) to a file for inspection"
+    )
+    .option('-o, --out <file>', 'write the JS to <file>')
+    .option(
+      '--module-graph <dir>',
+      "native installations only: write every module in the binary's Bun module graph to <dir>, with a graph.json describing them"
+    )
+    .action(async (cmdOptions: { out?: string; moduleGraph?: string }) => {
+      if (!cmdOptions.out && !cmdOptions.moduleGraph) {
+        console.error(
+          chalk.red('Specify --out <file> and/or --module-graph <dir>.')
+        );
+        process.exit(1);
+      }
+      const startupCheckInfo = await startupCheck();
+      if (!startupCheckInfo || !startupCheckInfo.ccInstInfo) {
+        console.error(chalk.red('Cannot find Claude Code installation.'));
+        console.error('Run tweakcc without arguments to see search paths.');
+        process.exit(1);
+      }
+      const { ccInstInfo } = startupCheckInfo;
+      if (
+        cmdOptions.moduleGraph &&
+        getInstallationType(ccInstInfo) !== 'native'
+      ) {
+        console.error(
+          chalk.red(
+            `${getInstallationPath(ccInstInfo)} is an npm installation, which has no module graph.`
+          )
+        );
+        process.exit(1);
+      }
+
+      const { file, js } = await readJsForInspection(
+        ccInstInfo,
+        program.opts(),
+        console.log
+      );
+      if (cmdOptions.out) {
+        await fs.writeFile(cmdOptions.out, js);
+        console.log(
+          chalk.green(
+            `✓ Wrote the JS of Claude Code ${ccInstInfo.version} to ${cmdOptions.out}`
+          )
+        );
+      }
+      if (cmdOptions.moduleGraph) {
+        const graph = readNativeModuleGraph(file);
+        const graphFile = writeNativeModuleGraph(graph, cmdOptions.moduleGraph);
+        console.log(
+          chalk.green(
+            `✓ Wrote ${graph.modules.length} modules to ${cmdOptions.moduleGraph} (see ${graphFile})`
+          )
+        );
+      }
+      process.exit(0);
+    });
+
+  // Native binary subcommand
+  const nativeCmd = program
+    .command('native')
+    .description(
+      'Inspect and modify the modules embedded in a native Claude Code binary'
+    );
+
+  // Finds the native installation and reads its module graph, or exits.  With --original,
+  // the backup is read instead.
+  const readInstalledModuleGraph = async () => {
+    const startupCheckInfo = await startupCheck();
+    if (!startupCheckInfo || !startupCheckInfo.ccInstInfo) {
+      console.error(chalk.red('Cannot find Claude Code installation.'));
+      console.error('Run tweakcc without arguments to see search paths.');
+      process.exit(1);
+    }
+    const { ccInstInfo } = startupCheckInfo;
+    if (getInstallationType(ccInstInfo) !== 'native') {
+      console.error(
+        chalk.red(
+          `${getInstallationPath(ccInstInfo)} is an npm installation, which has no embedded modules.`
+        )
+      );
+      process.exit(1);
+    }
+    let file = getInstallationPath(ccInstInfo);
+    if (program.opts().original) {
+      const backup = await findBackup(ccInstInfo);
+      if (!backup) {
+        console.error(
+          chalk.red(`There's no backup of Claude Code ${ccInstInfo.version}.`)
+        );
+        process.exit(1);
+      }
+      file = backup.file;
+    }
+    try {
+      return { ccInstInfo, file, graph: readNativeModuleGraph(file) };
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Cannot read the modules in ${file}: ${error instanceof Error ? error.message : error}`
+        )
+      );
+      process.exit(1);
+    }
+  };
+
+  nativeCmd
+    .command('inspect')
+    .description(
+      'List the modules embedded in the binary, with their size, encoding and whether they have a sourcemap or bytecode'
+    )
+    .action(async () => {
+      const { file, graph } = await readInstalledModuleGraph();
+      const replaced = new Set(
+        ((await readConfigFile()).settings.nativeModules ?? []).map(
+          m => m.module
+        )
+      );
+      const formatSize = (size: number) =>
+        size === 0 ? '-' : `${(size / 1024).toFixed(1)} KB`;
+
+      console.log(chalk.gray(file));
+      console.log(
+        chalk.bold(
+          `${'#'.padStart(3)}  ${'Size'.padStart(10)}  ${'Encoding'.padEnd(8)}  ${'Format'.padEnd(6)}  ${'Sourcemap'.padStart(10)}  ${'Bytecode'.padStart(10)}  Name`
+        )
+      );
+      graph.modules.forEach((module, index) => {
+        const notes = [
+          index === graph.entryPointId && 'entry point',
+          replaced.has(module.name) && 'replaced by settings.nativeModules',
+        ].filter(Boolean);
+        console.log(
+          `${String(index).padStart(3)}  ${formatSize(module.contents.length).padStart(10)}  ${String(NATIVE_MODULE_ENCODINGS[module.encoding] ?? module.encoding).padEnd(8)}  ${String(NATIVE_MODULE_FORMATS[module.moduleFormat] ?? module.moduleFormat).padEnd(6)}  ${formatSize(module.sourcemap.length).padStart(10)}  ${formatSize(module.bytecode.length).padStart(10)}  ${module.name}${notes.length ? chalk.gray(` (${notes.join(', ')})`) : ''}`
+        );
+      });
+      process.exit(0);
+    });
+
+  nativeCmd
+    .command('extract <module>')
+    .description(
+      "Write one embedded module's contents to a file; <module> is its number, full name or file name"
+    )
+    .requiredOption('-o, --out <file>', 'file to write the module to')
+    .action(async (query: string, cmdOptions: { out: string }) => {
+      const { graph } = await readInstalledModuleGraph();
+      try {
+        const module = findNativeModule(graph, query);
+        await fs.writeFile(cmdOptions.out, module.contents);
+        console.log(
+          chalk.green(
+            `✓ Wrote ${module.name} (${module.contents.length} bytes) to ${cmdOptions.out}`
+          )
+        );
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : String(error))
+        );
+        process.exit(1);
+      }
+      process.exit(0);
+    });
+
+  nativeCmd
+    .command('replace <module> [file]')
+    .description(
+      "Replace an embedded module's contents with <file> the next time tweakcc applies your customizations"
+    )
+    .option('--remove', 'stop replacing the module')
+    .action(
+      async (
+        query: string,
+        file: string | undefined,
+        cmdOptions: { remove?: boolean }
+      ) => {
+        if (!file && !cmdOptions.remove) {
+          console.error(
+            chalk.red(
+              'Specify the file to replace the module with, or --remove.'
+            )
+          );
+          process.exit(1);
+        }
+        const { graph } = await readInstalledModuleGraph();
+        let moduleName: string;
+        try {
+          moduleName = findNativeModule(graph, query).name;
+        } catch (error) {
+          // The module may have been renamed by a Claude Code update.
+          if (!cmdOptions.remove) {
+            console.error(
+              chalk.red(error instanceof Error ? error.message : String(error))
+            );
+            process.exit(1);
+          }
+          moduleName = query;
+        }
+        if (isClaudeModule(moduleName)) {
+          console.error(
+            chalk.red(
+              `${moduleName} is Claude Code's own JS, which tweakcc's patches modify; it can't be replaced.`
+            )
+          );
+          process.exit(1);
+        }
+
+        let filePath: string | undefined;
+        if (!cmdOptions.remove) {
+          filePath = path.resolve(file!);
+          try {
+            await fs.access(filePath);
+          } catch {
+            console.error(chalk.red(`Cannot read ${filePath}.`));
+            process.exit(1);
+          }
+        }
+        await updateConfigFile(config => {
+          const nativeModules = (config.settings.nativeModules ?? []).filter(
+            m => m.module !== moduleName
+          );
+          if (filePath) {
+            nativeModules.push({ module: moduleName, file: filePath });
+          }
+          config.settings.nativeModules = nativeModules;
+        });
+        console.log(
+          chalk.green(
+            cmdOptions.remove
+              ? `✓ ${moduleName} will no longer be replaced.`
+              : `✓ ${moduleName} will be replaced with ${filePath}.`
+          )
+        );
+        console.log("Run 'tweakcc --apply' to repack Claude Code.");
+        process.exit(0);
+      }
+    );
+
+  // Watch subcommand
+  program
+    .command('watch')
+    .description(
+      'Keep running and re-apply customizations whenever a Claude Code installation is updated'
+    )
+    .option(
+      '--interval <seconds>',
+      'how often to check the installations',
+      String(DEFAULT_WATCH_INTERVAL_SECONDS)
+    )
+    .option(
+      '--notify',
+      'show a desktop notification (notify-send or osascript) after re-applying'
+    )
+    .option(
+      '--install-service',
+      'install a systemd user unit that runs this watch in the background (Linux)'
+    )
+    .option('--uninstall-service', 'stop and remove the systemd user unit')
+    .action(
+      async (cmdOptions: {
+        interval: string;
+        notify?: boolean;
+        installService?: boolean;
+        uninstallService?: boolean;
+      }) => {
+        const intervalSeconds = Number(cmdOptions.interval);
+        if (!Number.isFinite(intervalSeconds) || intervalSeconds < 1) {
+          console.error(
+            chalk.red(
+              `Invalid interval "${cmdOptions.interval}"; expected a number of seconds (at least 1).`
+            )
+          );
+          process.exit(1);
+        }
+
+        if (cmdOptions.uninstallService) {
+          try {
+            if (await uninstallSystemdUnit()) {
+              console.log(`Removed ${getSystemdUnitPath()}`);
+            } else {
+              console.log('The tweakcc watch service is not installed.');
+            }
+          } catch (error) {
+            console.error(
+              chalk.red(error instanceof Error ? error.message : String(error))
+            );
+            process.exit(1);
+          }
+          process.exit(0);
+        }
+
+        if (cmdOptions.installService) {
+          const args = [
+            ...(program.opts().offline ? ['--offline'] : []),
+            'watch',
+            '--interval',
+            String(intervalSeconds),
+            ...(cmdOptions.notify ? ['--notify'] : []),
+          ];
+          try {
+            const unitPath = await installSystemdUnit(args);
+            console.log(chalk.green(`Installed and started ${unitPath}`));
+            console.log(
+              `Follow it with 'journalctl --user -u ${SYSTEMD_UNIT_NAME} -f'.`
+            );
+          } catch (error) {
+            console.error(
+              chalk.red(error instanceof Error ? error.message : String(error))
+            );
+            process.exit(1);
+          }
+          process.exit(0);
+        }
+
+        configurePromptData(
+          (await readConfigFile()).promptData,
+          !!program.opts().offline
+        );
+        const controller = new AbortController();
+        process.once('SIGINT', () => controller.abort());
+        process.once('SIGTERM', () => controller.abort());
+        await watchInstallations({
+          intervalSeconds,
+          notify: !!cmdOptions.notify,
+          signal: controller.signal,
+        });
+        process.exit(0);
+      }
+    );
+
+  // Diagnostics subcommand
+  const doctorCmd = program
+    .command('doctor')
+    .description('Diagnose problems with patches');
+
+  doctorCmd
+    .command('patches')
+    .description(
+      'Run every patch against a directory of cli.js files (one per Claude Code version) and print which patches match each version'
+    )
+    .requiredOption('--corpus <dir>', 'directory of cli.js files')
+    .action(async (cmdOptions: { corpus: string }) => {
+      const files = await findCorpusFiles(cmdOptions.corpus);
+      if (files.length === 0) {
+        console.error(
+          chalk.red(`No Claude Code cli.js files found in ${cmdOptions.corpus}`)
+        );
+        process.exit(1);
+      }
+
+      const columns = [];
+      for (const file of files) {
+        console.log(chalk.gray(`Running patches against ${file.file}...`));
+        const result = await runCorpusFile(file);
+        columns.push({ label: result.version, outcomes: result.outcomes });
+      }
+      console.log();
+      console.log(formatCompatibilityMatrix(columns));
+      process.exit(0);
+    });
+
+  // parseAsync so that subcommand actions finish before the main flow starts
+  await program.parseAsync();
   const options = program.opts();
 
   if (options.debug) {
     enableDebug();
   }
 
+  // Don't patch Claude Code with a config that doesn't match the schema
+  if (options.apply) {
+    const issues = await validateConfigFile({
+      knownPatchIds: PATCH_REGISTRY.map(patch => patch.id),
+    });
+    if (hasConfigErrors(issues)) {
+      console.error(chalk.red(`Invalid configuration in ${CONFIG_FILE}:\n`));
+      printConfigIssues(issues);
+      console.error(
+        chalk.red(
+          "\nFix these errors (see 'tweakcc config validate') and retry."
+        )
+      );
+      process.exit(1);
+    }
+  }
+
+  // Configure where system prompt data comes from before anything loads it
+  configurePromptData((await readConfigFile()).promptData, !!options.offline);
+
   // Handle --analyze flag for pattern debugging
   if (options.analyze || options.search) {
-    console.log(chalk.cyan('Analyzing Claude Code installation...'));
+    const format = options.format as AnalyzeFormat;
+    if (!ANALYZE_FORMATS.includes(format)) {
+      console.error(
+        chalk.red(
+          `Unknown format "${options.format}"; expected one of ${ANALYZE_FORMATS.join(', ')}.`
+        )
+      );
+      process.exit(1);
+    }
+    // Keep stdout for the report itself when it's meant for another program.
+    const log = format === 'text' ? console.log : console.error;
+    log(chalk.cyan('Analyzing Claude Code installation...'));
 
     // Find Claude Code installation
-    const startupCheckInfo = await startupCheck();
+    const startupCheckInfo = await withLogsOnStderr(format, startupCheck);
 
     if (!startupCheckInfo || !startupCheckInfo.ccInstInfo) {
       console.error(chalk.red('Cannot find Claude Code installation.'));
@@ -242,38 +1427,36 @@ const main = async () => {
       process.exit(1);
     }
 
-    // Read cli.js content
-    let cliContent: string;
-    if (startupCheckInfo.ccInstInfo.nativeInstallationPath) {
-      // For native installations, we need to extract the JS
-      console.log(chalk.yellow('Note: Native installation detected. Analyzing extracted JS.'));
-      // Try to read from the debug output location
-      const debugPath = `${process.env.HOME}/.tweakcc/native-claudejs-patched.js`;
-      try {
-        cliContent = await fs.readFile(debugPath, 'utf8');
-        console.log(chalk.gray(`Reading from: ${debugPath}`));
-      } catch {
-        console.error(chalk.red('Cannot read native installation JS.'));
-        console.error('Run tweakcc --apply --debug first to extract the JS.');
-        process.exit(1);
-      }
-    } else {
-      const cliPath = startupCheckInfo.ccInstInfo.cliPath!;
-      console.log(chalk.gray(`Reading from: ${cliPath}`));
-      cliContent = await fs.readFile(cliPath, 'utf8');
-    }
+    const { file: cliFile, js } = await readJsForInspection(
+      startupCheckInfo.ccInstInfo,
+      options,
+      log
+    );
+    const cliContent = js.toString('utf8');
 
     // Custom search mode
     if (options.search) {
-      console.log(chalk.cyan(`\nSearching for: ${options.search}\n`));
+      log(chalk.cyan(`\nSearching for: ${options.search}\n`));
       const results = searchPattern(cliContent, options.search);
-      printSearchResults(options.search, results);
+      if (format === 'json') {
+        console.log(formatSearchJson(options.search, results, cliFile));
+      } else if (format === 'sarif') {
+        console.log(formatSearchSarif(options.search, results, cliFile));
+      } else {
+        printSearchResults(options.search, results);
+      }
       process.exit(0);
     }
 
     // Full analysis mode
     const report = analyzeCliJs(cliContent);
-    printReport(report, options.verbose);
+    if (format === 'json') {
+      console.log(formatReportJson(report, cliFile));
+    } else if (format === 'sarif') {
+      console.log(formatReportSarif(report, cliFile));
+    } else {
+      printReport(report, options.verbose);
+    }
     process.exit(0);
   }
 
@@ -293,7 +1476,25 @@ const main = async () => {
     // Find Claude Code installation
     const startupCheckInfo = await startupCheck();
 
-    if (!startupCheckInfo || !startupCheckInfo.ccInstInfo) {
+    // Work out which installations to patch: the one startupCheck found, the one given with
+    // --target, or every installation with --all.
+    let installations: ClaudeCodeInstallationInfo[] = startupCheckInfo
+      ? [startupCheckInfo.ccInstInfo]
+      : [];
+    if (options.target) {
+      const installation = await getInstallationAt(options.target);
+      if (!installation) {
+        console.error(
+          chalk.red(`No Claude Code installation found at ${options.target}`)
+        );
+        process.exit(1);
+      }
+      installations = [installation];
+    } else if (options.all) {
+      installations = await findAllClaudeCodeInstallations(config);
+    }
+
+    if (installations.length === 0) {
       const examplePath =
         process.platform == 'win32'
           ? 'C:\\absolute\\path\\to\\node_modules\\@anthropic-ai\\claude-code'
@@ -323,36 +1524,122 @@ const main = async () => {
       process.exit(1);
     }
 
-    if (startupCheckInfo.ccInstInfo.nativeInstallationPath) {
+    const diffs: string[] = [];
+    let hasRequiredFailures = false;
+    let hasSkippedInstallations = false;
+    let hasFailedInstallations = false;
+    for (const ccInstInfo of installations) {
+      if (installations.length > 1) {
+        console.log();
+      }
+      if (ccInstInfo.nativeInstallationPath) {
+        console.log(
+          `Found Claude Code (native installation): ${ccInstInfo.nativeInstallationPath}`
+        );
+      } else {
+        console.log(`Found Claude Code at: ${ccInstInfo.cliPath}`);
+      }
+      console.log(`Version: ${ccInstInfo.version}`);
+
+      // Each installation is restored from its own backup, so make sure it has one.
+      // (startupCheck already took care of the default installation.)
+      if (!options.dryRun) {
+        try {
+          await ensureInstallationBackup(ccInstInfo, {
+            force: !!options.force,
+          });
+        } catch (error) {
+          console.error(
+            chalk.red(
+              `✖ ${error instanceof Error ? error.message : error}\n  Skipping this installation.`
+            )
+          );
+          hasSkippedInstallations = true;
+          continue;
+        }
+      }
+
+      // Preload strings file for system prompts
+      console.log('Loading system prompts...');
+      const result = await preloadStringsFile(ccInstInfo.version);
+      if (!result.success) {
+        console.log(chalk.red('\n✖ Error downloading system prompts:'));
+        console.log(chalk.red(`  ${result.errorMessage}`));
+        console.log(
+          chalk.yellow(
+            '\n⚠ System prompts not available - skipping system prompt customizations'
+          )
+        );
+      }
+
+      if (options.dryRun) {
+        console.log('Running patches in memory (dry run)...\n');
+        const { outcomes } = await dryRunCustomization(config, ccInstInfo);
+        printPatchReport(outcomes);
+        diffs.push(
+          generatePatchDiff(
+            outcomes,
+            ccInstInfo.nativeInstallationPath ? 'claude.js' : 'cli.js'
+          )
+        );
+        if (getRequiredFailures(outcomes).length > 0) {
+          hasRequiredFailures = true;
+        }
+        continue;
+      }
+
+      // Apply the customizations
+      console.log('Applying customizations...\n');
+      let outcomes: PatchOutcome[];
+      try {
+        ({ outcomes } = await applyCustomization(config, ccInstInfo));
+      } catch (error) {
+        console.error(
+          chalk.red(`✖ ${error instanceof Error ? error.message : error}`)
+        );
+        hasFailedInstallations = true;
+        continue;
+      }
+      printPatchReport(outcomes);
+      if (getRequiredFailures(outcomes).length > 0) {
+        hasRequiredFailures = true;
+      }
+    }
+
+    if (options.dryRun) {
+      if (options.diff) {
+        await fs.writeFile(options.diff, diffs.join(''));
+        console.log(`Unified diff written to: ${options.diff}`);
+      }
+
+      console.log(chalk.gray('\nDry run: Claude Code was not modified.'));
+      process.exit(hasRequiredFailures ? 1 : 0);
+    }
+
+    if (hasSkippedInstallations) {
       console.log(
-        `Found Claude Code (native installation): ${startupCheckInfo.ccInstInfo.nativeInstallationPath}`
+        chalk.yellow(
+          '\nSome installations could not be backed up and were not patched.'
+        )
       );
-    } else {
+    }
+    if (hasFailedInstallations) {
       console.log(
-        `Found Claude Code at: ${startupCheckInfo.ccInstInfo.cliPath}`
+        chalk.yellow('\nSome installations could not be patched; see above.')
       );
     }
-    console.log(`Version: ${startupCheckInfo.ccInstInfo.version}`);
-
-    // Preload strings file for system prompts
-    console.log('Loading system prompts...');
-    const result = await preloadStringsFile(
-      startupCheckInfo.ccInstInfo.version
-    );
-    if (!result.success) {
-      console.log(chalk.red('\n✖ Error downloading system prompts:'));
-      console.log(chalk.red(`  ${result.errorMessage}`));
+    if (hasSkippedInstallations || hasFailedInstallations) {
+      process.exit(1);
+    }
+    if (hasRequiredFailures) {
       console.log(
         chalk.yellow(
-          '\n⚠ System prompts not available - skipping system prompt customizations'
+          '\nCustomizations applied, but some required patches failed to apply.'
         )
       );
+      process.exit(1);
     }
-
-    // Apply the customizations
-    console.log('Applying customizations...');
-    await applyCustomization(config, startupCheckInfo.ccInstInfo);
-    console.log('Customizations applied successfully!');
+    console.log(chalk.green('\nCustomizations applied successfully!'));
     process.exit(0);
   }
 
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import {
+  BACKUPS_DIR,
+  ClaudeCodeInstallationInfo,
+  KNOWN_HASHES_FILE,
+} from './types.js';
+import {
+  findBackup,
+  listBackups,
+  pruneBackups,
+  readInstallationJsFrom,
+  storeBackup,
+  verifyBackup,
+} from './backups.js';
+
+vi.mock('./nativeInstallation.js', () => ({
+  extractClaudeJsFromNativeInstallation: vi.fn(),
+}));
+
+// Keep the backup store out of the real config directory.
+vi.mock('./types.js', async importOriginal => {
+  const nodeOs = await import('node:os');
+  const nodePath = await import('node:path');
+  return {
+    ...(await importOriginal<typeof import('./types.js')>()),
+    BACKUPS_DIR: nodePath.join(
+      nodeOs.tmpdir(),
+      `tweakcc-backups-test-${process.pid}`
+    ),
+    KNOWN_HASHES_FILE: nodePath.join(
+      nodeOs.tmpdir(),
+      `tweakcc-known-hashes-test-${process.pid}.json`
+    ),
+  };
+});
+
+describe('backups', () => {
+  let tmpDir: string;
+  let ccInstInfo: ClaudeCodeInstallationInfo;
+
+  // Installs `version` of a fake Claude Code and backs it up.
+  const installAndBackUp = async (version: string) => {
+    ccInstInfo = { cliPath: ccInstInfo.cliPath, version };
+    await fs.writeFile(ccInstInfo.cliPath!, `var VERSION="${version}";`);
+    return storeBackup(ccInstInfo, ccInstInfo.cliPath!);
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-install-'));
+    ccInstInfo = { cliPath: path.join(tmpDir, 'cli.js'), version: '1.0.0' };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    await fs.rm(BACKUPS_DIR, { recursive: true, force: true });
+    await fs.rm(KNOWN_HASHES_FILE, { force: true });
+  });
+
+  it('should keep a backup of each version with its hash', async () => {
+    const first = await installAndBackUp('1.0.0');
+    await installAndBackUp('1.1.0');
+
+    expect(first.info).toMatchObject({
+      version: '1.0.0',
+      type: 'npm',
+      sourcePath: ccInstInfo.cliPath,
+      size: 'var VERSION="1.0.0";'.length,
+    });
+    expect(first.info.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(await fs.readFile(first.file, 'utf8')).toBe('var VERSION="1.0.0";');
+    expect((await listBackups()).map(b => b.info.version)).toEqual([
+      '1.0.0',
+      '1.1.0',
+    ]);
+    expect((await findBackup(ccInstInfo))!.info.version).toBe('1.1.0');
+    expect(await findBackup(ccInstInfo, '0.9.0')).toBeNull();
+  });
+
+  it('should detect modified and missing backups', async () => {
+    const backup = await installAndBackUp('1.0.0');
+    expect((await verifyBackup(backup)).problem).toBeNull();
+
+    await fs.appendFile(backup.file, '// modified');
+    expect((await verifyBackup(backup)).problem).toMatch(/^SHA-256 mismatch/);
+
+    await fs.rm(backup.file);
+    expect((await verifyBackup(backup)).problem).toBe('Backup file is missing');
+  });
+
+  it('should refuse to back up a file patched by tweakcc', async () => {
+    await fs.writeFile(
+      ccInstInfo.cliPath!,
+      'globalThis.TWEAKCC_EVENTS=[];function getTweakccBaseDir(){}'
+    );
+    await expect(storeBackup(ccInstInfo, ccInstInfo.cliPath!)).rejects.toThrow(
+      'already been patched by tweakcc (found TWEAKCC_EVENTS, getTweakccBaseDir)'
+    );
+    expect(await listBackups()).toEqual([]);
+  });
+
+  it('should refuse to back up a file that does not match its published hash', async () => {
+    const pristine = 'var VERSION="1.0.0";';
+    await fs.writeFile(
+      KNOWN_HASHES_FILE,
+      JSON.stringify({
+        '1.0.0': {
+          npm: [crypto.createHash('sha256').update(pristine).digest('hex')],
+        },
+      })
+    );
+
+    await fs.writeFile(ccInstInfo.cliPath!, pristine + '/* formatted */');
+    await expect(storeBackup(ccInstInfo, ccInstInfo.cliPath!)).rejects.toThrow(
+      "doesn't match the published SHA-256 of Claude Code 1.0.0 (npm)"
+    );
+    await storeBackup(ccInstInfo, ccInstInfo.cliPath!, { force: true });
+
+    await fs.writeFile(ccInstInfo.cliPath!, pristine);
+    const backup = await storeBackup(ccInstInfo, ccInstInfo.cliPath!);
+    expect(await fs.readFile(backup.file, 'utf8')).toBe(pristine);
+  });
+
+  it('should read the original or patched JS of an installation', async () => {
+    const read = async (source: 'original' | 'patched') => {
+      const result = await readInstallationJsFrom(ccInstInfo, source);
+      return result && [result.file, result.js.toString('utf8')];
+    };
+    const patched = 'var VERSION="1.0.0";globalThis.TWEAKCC_EVENTS=[];';
+
+    // Not patched yet, so what's installed is the original.
+    await fs.writeFile(ccInstInfo.cliPath!, 'var VERSION="1.0.0";');
+    expect(await read('original')).toEqual([
+      ccInstInfo.cliPath,
+      'var VERSION="1.0.0";',
+    ]);
+
+    // Patched without a backup, so the original is gone.
+    await fs.writeFile(ccInstInfo.cliPath!, patched);
+    expect(await read('original')).toBeNull();
+    expect(await read('patched')).toEqual([ccInstInfo.cliPath, patched]);
+
+    await fs.writeFile(ccInstInfo.cliPath!, 'var VERSION="1.0.0";');
+    const backup = await storeBackup(ccInstInfo, ccInstInfo.cliPath!);
+    await fs.writeFile(ccInstInfo.cliPath!, patched);
+    expect(await read('original')).toEqual([
+      backup.file,
+      'var VERSION="1.0.0";',
+    ]);
+  });
+
+  it('should prune backups of versions that are no longer installed', async () => {
+    await installAndBackUp('1.0.0');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await installAndBackUp('1.1.0');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await installAndBackUp('1.2.0');
+    const version = (b: { info: { version: string } }) => b.info.version;
+
+    const dryRun = await pruneBackups([ccInstInfo], { keep: 1, dryRun: true });
+    expect(dryRun.map(version)).toEqual(['1.0.0']);
+    expect(await listBackups()).toHaveLength(3);
+
+    expect((await pruneBackups([ccInstInfo])).map(version)).toEqual([
+      '1.1.0',
+      '1.0.0',
+    ]);
+    expect((await listBackups()).map(version)).toEqual(['1.2.0']);
+  });
+});
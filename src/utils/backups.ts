@@ -0,0 +1,335 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { BACKUPS_DIR, ClaudeCodeInstallationInfo } from './types.js';
+import { hashFileInChunks, isDebug } from './misc.js';
+import { extractClaudeJsFromNativeInstallation } from './nativeInstallation.js';
+import {
+  BACKUP_INFO_FILE_NAME,
+  BackupInfo,
+  findTweakccMarkers,
+  getBackupDir,
+  getBackupFileName,
+  getInstallationPath,
+  getInstallationType,
+  InstallationType,
+} from './installations.js';
+import { checkKnownHash, HashStatus, loadKnownHashes } from './hashRegistry.js';
+
+// The backup store: `backups/<type>-<path hash>/<version>/` holds the original cli.js or native
+// binary of one version of one installation, plus a backup.json with its SHA-256 and where it
+// came from.  Backups of older versions are kept until `tweakcc backups prune` removes them,
+// and a file that tweakcc has already patched is never stored as a backup.
+
+export interface BackupEntry {
+  dir: string;
+  file: string;
+  info: BackupInfo;
+}
+
+/**
+ * Reads the JS of a cli.js or native binary (extracted from the binary), or returns null if it
+ * can't be extracted.
+ */
+export const readInstallationJs = async (
+  file: string,
+  type: InstallationType
+): Promise<Buffer | null> =>
+  type === 'native'
+    ? extractClaudeJsFromNativeInstallation(file)
+    : await fs.readFile(file);
+
+/**
+ * Returns the tweakcc markers found in a cli.js or native binary; an empty list means it's
+ * unpatched.
+ */
+export const findTweakccMarkersInFile = async (
+  file: string,
+  type: InstallationType
+): Promise<string[]> => {
+  const js = await readInstallationJs(file, type);
+  return js ? findTweakccMarkers(js.toString('utf8')) : [];
+};
+
+/**
+ * Hashes the JS of a cli.js or native binary, the way the known hash registry does.  Returns
+ * null if the JS can't be extracted.
+ */
+export const hashInstallationJs = async (
+  file: string,
+  type: InstallationType
+): Promise<string | null> => {
+  const js = await readInstallationJs(file, type);
+  return js ? crypto.createHash('sha256').update(js).digest('hex') : null;
+};
+
+/**
+ * Returns the tweakcc markers in an installation's JS; an empty list means it's unpatched.
+ */
+export const getInstallationPatchMarkers = (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): Promise<string[]> =>
+  findTweakccMarkersInFile(
+    getInstallationPath(ccInstInfo),
+    getInstallationType(ccInstInfo)
+  );
+
+/**
+ * Checks an installation's JS against the known hashes for its version.  A patched
+ * installation can't match, so it's 'unknown', as is a version with no known hashes (without
+ * reading the file).
+ */
+export const checkInstallationHash = async (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): Promise<HashStatus> => {
+  const type = getInstallationType(ccInstInfo);
+  const registry = await loadKnownHashes();
+  if (!registry[ccInstInfo.version]?.[type]?.length) {
+    return 'unknown';
+  }
+  const js = await readInstallationJs(getInstallationPath(ccInstInfo), type);
+  if (!js || findTweakccMarkers(js.toString('utf8')).length > 0) {
+    return 'unknown';
+  }
+  const sha256 = crypto.createHash('sha256').update(js).digest('hex');
+  return checkKnownHash(registry, ccInstInfo.version, type, sha256);
+};
+
+export type InstallationJsSource = 'original' | 'patched';
+
+/**
+ * Reads an installation's JS for inspection, along with the file it came from.  'patched'
+ * reads what's installed, patched or not.  'original' reads the backup of the installed
+ * version, or what's installed if tweakcc hasn't patched it, and returns null if neither is
+ * available.
+ */
+export const readInstallationJsFrom = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  source: InstallationJsSource
+): Promise<{ file: string; js: Buffer } | null> => {
+  const type = getInstallationType(ccInstInfo);
+  const installedFile = getInstallationPath(ccInstInfo);
+  if (source === 'original') {
+    const backup = await findBackup(ccInstInfo);
+    if (backup) {
+      const js = await readInstallationJs(backup.file, type);
+      return js && { file: backup.file, js };
+    }
+  }
+  const js = await readInstallationJs(installedFile, type);
+  if (!js) {
+    return null;
+  }
+  if (source === 'original' && findTweakccMarkers(js.toString('utf8')).length) {
+    return null;
+  }
+  return { file: installedFile, js };
+};
+
+const readBackupEntry = async (dir: string): Promise<BackupEntry | null> => {
+  let info: BackupInfo;
+  try {
+    info = JSON.parse(
+      await fs.readFile(path.join(dir, BACKUP_INFO_FILE_NAME), 'utf8')
+    );
+  } catch {
+    return null;
+  }
+  return { dir, file: path.join(dir, getBackupFileName(info.type)), info };
+};
+
+/**
+ * Lists every backup in the store, grouped by installation and oldest first.
+ */
+export const listBackups = async (): Promise<BackupEntry[]> => {
+  const entries: BackupEntry[] = [];
+  let installationDirs: string[];
+  try {
+    installationDirs = await fs.readdir(BACKUPS_DIR);
+  } catch {
+    return [];
+  }
+
+  for (const installationDir of installationDirs.sort()) {
+    let versionDirs: string[];
+    try {
+      versionDirs = await fs.readdir(path.join(BACKUPS_DIR, installationDir));
+    } catch {
+      continue;
+    }
+    const installationEntries: BackupEntry[] = [];
+    for (const versionDir of versionDirs) {
+      const entry = await readBackupEntry(
+        path.join(BACKUPS_DIR, installationDir, versionDir)
+      );
+      if (entry) {
+        installationEntries.push(entry);
+      }
+    }
+    installationEntries.sort((a, b) =>
+      a.info.createdAt.localeCompare(b.info.createdAt)
+    );
+    entries.push(...installationEntries);
+  }
+  return entries;
+};
+
+/**
+ * Finds the backup of a version of an installation (by default, the installed version).
+ */
+export const findBackup = (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  version: string = ccInstInfo.version
+): Promise<BackupEntry | null> =>
+  readBackupEntry(getBackupDir(ccInstInfo, version));
+
+/**
+ * Whether a backup is of the version of `ccInstInfo` that's currently installed.
+ */
+export const isBackupOfInstallation = (
+  entry: BackupEntry,
+  ccInstInfo: ClaudeCodeInstallationInfo
+): boolean =>
+  entry.info.version === ccInstInfo.version &&
+  path.resolve(entry.dir) === path.resolve(getBackupDir(ccInstInfo));
+
+/**
+ * Stores `sourceFile` as the backup of `version` of an installation.  With `move`, the file is
+ * moved into the store instead of copied.  Throws if the file has already been patched by
+ * tweakcc, because restoring it wouldn't undo the patches, or if its JS doesn't match the
+ * published hash for its version (see hashRegistry.ts), unless `force` is set.
+ */
+export const storeBackup = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  sourceFile: string,
+  options: { version?: string; move?: boolean; force?: boolean } = {}
+): Promise<BackupEntry> => {
+  const version = options.version ?? ccInstInfo.version;
+  const type = getInstallationType(ccInstInfo);
+  const js = await readInstallationJs(sourceFile, type);
+  const markers = js ? findTweakccMarkers(js.toString('utf8')) : [];
+  if (markers.length > 0) {
+    throw new Error(
+      `${sourceFile} has already been patched by tweakcc (found ${markers.join(', ')}), so it can't be backed up as the original Claude Code ${version}.  Reinstall Claude Code and try again.`
+    );
+  }
+  if (js && !options.force) {
+    const sha256 = crypto.createHash('sha256').update(js).digest('hex');
+    const status = checkKnownHash(
+      await loadKnownHashes(),
+      version,
+      type,
+      sha256
+    );
+    if (status === 'modified') {
+      throw new Error(
+        `${sourceFile} doesn't match the published SHA-256 of Claude Code ${version} (${type}), so it may have been modified.  Reinstall Claude Code, or run 'tweakcc --apply --force' to back it up anyway.`
+      );
+    }
+  }
+
+  const dir = getBackupDir(ccInstInfo, version);
+  const file = path.join(dir, getBackupFileName(type));
+  await fs.mkdir(dir, { recursive: true });
+  if (isDebug()) {
+    console.log(`Backing up ${sourceFile} to ${file}`);
+  }
+  if (options.move) {
+    await fs.rename(sourceFile, file);
+  } else {
+    await fs.copyFile(sourceFile, file);
+  }
+
+  const info: BackupInfo = {
+    version,
+    type,
+    sourcePath: getInstallationPath(ccInstInfo),
+    sha256: await hashFileInChunks(file),
+    size: (await fs.stat(file)).size,
+    createdAt: new Date().toISOString(),
+  };
+  await fs.writeFile(
+    path.join(dir, BACKUP_INFO_FILE_NAME),
+    JSON.stringify(info, null, 2)
+  );
+  return { dir, file, info };
+};
+
+export interface BackupVerification {
+  entry: BackupEntry;
+  problem: string | null; // null if the backup is intact
+}
+
+/**
+ * Checks that a backup still exists and matches the hash recorded when it was taken.
+ */
+export const verifyBackup = async (
+  entry: BackupEntry
+): Promise<BackupVerification> => {
+  let sha256: string;
+  try {
+    sha256 = await hashFileInChunks(entry.file);
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return { entry, problem: 'Backup file is missing' };
+    }
+    throw error;
+  }
+  if (sha256 !== entry.info.sha256) {
+    return {
+      entry,
+      problem: `SHA-256 mismatch: expected ${entry.info.sha256}, got ${sha256}`,
+    };
+  }
+  return { entry, problem: null };
+};
+
+/**
+ * Works out which backups `pruneBackups` would remove: all backups except those of installed
+ * versions and the `keep` newest other backups of each installation.
+ */
+export const selectBackupsToPrune = (
+  entries: BackupEntry[],
+  installations: ClaudeCodeInstallationInfo[],
+  keep: number
+): BackupEntry[] => {
+  const byInstallation = new Map<string, BackupEntry[]>();
+  for (const entry of entries) {
+    if (installations.some(i => isBackupOfInstallation(entry, i))) {
+      continue;
+    }
+    const installationDir = path.dirname(entry.dir);
+    byInstallation.set(installationDir, [
+      ...(byInstallation.get(installationDir) ?? []),
+      entry,
+    ]);
+  }
+
+  const toPrune: BackupEntry[] = [];
+  for (const unused of byInstallation.values()) {
+    unused.sort((a, b) => b.info.createdAt.localeCompare(a.info.createdAt));
+    toPrune.push(...unused.slice(keep));
+  }
+  return toPrune;
+};
+
+/**
+ * Removes old backups (see selectBackupsToPrune) and returns them.  With `dryRun`, nothing is
+ * removed.
+ */
+export const pruneBackups = async (
+  installations: ClaudeCodeInstallationInfo[],
+  options: { keep?: number; dryRun?: boolean } = {}
+): Promise<BackupEntry[]> => {
+  const toPrune = selectBackupsToPrune(
+    await listBackups(),
+    installations,
+    options.keep ?? 0
+  );
+  if (!options.dryRun) {
+    for (const entry of toPrune) {
+      await fs.rm(entry.dir, { recursive: true, force: true });
+    }
+  }
+  return toPrune;
+};
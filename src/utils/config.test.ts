@@ -6,6 +6,7 @@ import {
   CONFIG_DIR,
   CONFIG_FILE,
   DEFAULT_SETTINGS,
+  KNOWN_HASHES_FILE,
 } from './types.js';
 import fs from 'node:fs/promises';
 import type { Stats } from 'node:fs';
@@ -23,6 +24,8 @@ vi.spyOn(misc, 'replaceFileBreakingHardLinks').mockImplementation(
   }
 );
 
+vi.spyOn(misc, 'hashFileInChunks').mockResolvedValue('0'.repeat(64));
+
 const createEnoent = () => {
   const error: NodeJS.ErrnoException = new Error(
     'ENOENT: no such file or directory'
@@ -67,6 +70,7 @@ describe('config.ts', () => {
         lastModified: expect.any(String),
         changesApplied: true,
         settings: DEFAULT_SETTINGS,
+        configVersion: expect.any(Number),
       });
     });
 
@@ -121,6 +125,7 @@ describe('config.ts', () => {
 
       const ccInstInfo = {
         cliPath: '/fake/path/cli.js',
+        version: '1.0.0',
       } as ClaudeCodeInstallationInfo;
 
       await config.restoreClijsFromBackup(ccInstInfo);
@@ -264,10 +269,10 @@ describe('config.ts', () => {
       const mockCliContent =
         'some code VERSION:"1.0.0" more code VERSION:"1.0.0" and VERSION:"1.0.0"';
 
-      // Mock fs.stat to make cli.js exist but backup not exist
+      // Mock fs.stat to make cli.js exist
       vi.spyOn(fs, 'stat').mockImplementation(async filePath => {
         if (filePath.toString().includes('cli.js.backup')) {
-          throw createEnoent(); // Backup doesn't exist
+          return { size: mockCliContent.length } as Stats;
         }
         if (filePath === mockCliPath) {
           return {} as Stats; // cli.js exists
@@ -277,22 +282,28 @@ describe('config.ts', () => {
 
       const copyFileSpy = vi.spyOn(fs, 'copyFile').mockResolvedValue(undefined);
       vi.spyOn(fs, 'readFile').mockImplementation(async (p, encoding) => {
-        if (p === mockCliPath && encoding === 'utf8') {
-          return mockCliContent;
+        if (p === mockCliPath) {
+          // Backups read cli.js as a buffer to hash it
+          return encoding === 'utf8'
+            ? mockCliContent
+            : Buffer.from(mockCliContent);
         }
         if (p === CONFIG_FILE) {
           return JSON.stringify({ ccVersion: '1.0.0' });
         }
-        throw createEnoent();
+        throw createEnoent(); // No backup.json
       });
       vi.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
 
       await config.startupCheck();
 
-      expect(copyFileSpy).toHaveBeenCalled();
+      expect(copyFileSpy).toHaveBeenCalledWith(
+        mockCliPath,
+        expect.stringContaining(path.join('1.0.0', 'cli.js.backup'))
+      );
     });
 
-    it('should re-backup if the version has changed', async () => {
+    it('should keep the old backup and back up the new version if the version has changed', async () => {
       const mockCliPath = path.join(CLIJS_SEARCH_PATHS[0], 'cli.js');
       const mockCliContent =
         'some code VERSION:"2.0.0" more code VERSION:"2.0.0" and VERSION:"2.0.0"';
@@ -303,7 +314,7 @@ describe('config.ts', () => {
           return {} as Stats; // cli.js exists
         }
         if (filePath.toString().includes('cli.js.backup')) {
-          return {} as Stats; // Backup exists
+          return { size: mockCliContent.length } as Stats;
         }
         throw createEnoent();
       });
@@ -311,22 +322,107 @@ describe('config.ts', () => {
       const unlinkSpy = vi.spyOn(fs, 'unlink').mockResolvedValue(undefined);
       const copyFileSpy = vi.spyOn(fs, 'copyFile').mockResolvedValue(undefined);
       vi.spyOn(fs, 'readFile').mockImplementation(async (p, encoding) => {
-        if (p === mockCliPath && encoding === 'utf8') {
-          return mockCliContent;
+        if (p === mockCliPath) {
+          return encoding === 'utf8'
+            ? mockCliContent
+            : Buffer.from(mockCliContent);
         }
         if (p === CONFIG_FILE) {
           return JSON.stringify({ ccVersion: '1.0.0' }); // Different version
         }
+        if (p.toString().endsWith(path.join('1.0.0', 'backup.json'))) {
+          return JSON.stringify({ version: '1.0.0', type: 'npm' });
+        }
         throw createEnoent();
       });
       vi.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
 
       const result = await config.startupCheck();
 
-      expect(unlinkSpy).toHaveBeenCalled();
-      expect(copyFileSpy).toHaveBeenCalled();
+      expect(unlinkSpy).not.toHaveBeenCalled();
+      expect(copyFileSpy).toHaveBeenCalledWith(
+        mockCliPath,
+        expect.stringContaining(path.join('2.0.0', 'cli.js.backup'))
+      );
       expect(result).not.toBe(null);
       expect(result!.wasUpdated).toBe(true);
     });
+
+    it('should refuse to back up a cli.js that tweakcc has already patched', async () => {
+      const mockCliPath = path.join(CLIJS_SEARCH_PATHS[0], 'cli.js');
+      const mockCliContent =
+        'VERSION:"1.0.0" VERSION:"1.0.0" VERSION:"1.0.0" globalThis.TWEAKCC_EVENTS=[]';
+
+      vi.spyOn(fs, 'stat').mockImplementation(async filePath => {
+        if (filePath === mockCliPath) {
+          return {} as Stats;
+        }
+        throw createEnoent();
+      });
+      const copyFileSpy = vi.spyOn(fs, 'copyFile').mockResolvedValue(undefined);
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(fs, 'readFile').mockImplementation(async (p, encoding) => {
+        if (p === mockCliPath) {
+          return encoding === 'utf8'
+            ? mockCliContent
+            : Buffer.from(mockCliContent);
+        }
+        if (p === CONFIG_FILE) {
+          return JSON.stringify({ ccVersion: '1.0.0' });
+        }
+        throw createEnoent();
+      });
+      vi.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
+
+      await config.startupCheck();
+
+      expect(copyFileSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('already been patched by tweakcc')
+      );
+    });
+
+    it('should warn if the installed cli.js no longer matches the known hashes', async () => {
+      const mockCliPath = path.join(CLIJS_SEARCH_PATHS[0], 'cli.js');
+      const mockCliContent =
+        'some code VERSION:"1.0.0" more code VERSION:"1.0.0" and VERSION:"1.0.0"';
+
+      vi.spyOn(fs, 'stat').mockImplementation(async filePath => {
+        if (filePath === mockCliPath) {
+          return {} as Stats;
+        }
+        throw createEnoent();
+      });
+      const copyFileSpy = vi.spyOn(fs, 'copyFile').mockResolvedValue(undefined);
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(fs, 'readFile').mockImplementation(async (p, encoding) => {
+        if (p === mockCliPath) {
+          return encoding === 'utf8'
+            ? mockCliContent
+            : Buffer.from(mockCliContent);
+        }
+        if (p === CONFIG_FILE) {
+          return JSON.stringify({ ccVersion: '1.0.0' });
+        }
+        if (p.toString().endsWith(path.join('1.0.0', 'backup.json'))) {
+          return JSON.stringify({ version: '1.0.0', type: 'npm' });
+        }
+        if (p === KNOWN_HASHES_FILE) {
+          return JSON.stringify({ '1.0.0': { npm: ['f'.repeat(64)] } });
+        }
+        throw createEnoent();
+      });
+      vi.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
+
+      await config.startupCheck();
+
+      // The backup is already there.
+      expect(copyFileSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "doesn't match the published SHA-256 of Claude Code 1.0.0"
+        )
+      );
+    });
   });
 });
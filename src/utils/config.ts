@@ -2,6 +2,7 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import { EOL } from 'node:os';
 import { execSync } from 'node:child_process';
+import chalk from 'chalk';
 import {
   ClaudeCodeInstallationInfo,
   CLIJS_BACKUP_FILE,
@@ -10,11 +11,8 @@ import {
   CONFIG_FILE,
   DEFAULT_SETTINGS,
   NATIVE_BINARY_BACKUP_FILE,
-  Settings,
   StartupCheckInfo,
   SYSTEM_PROMPTS_DIR,
-  Theme,
-  ThinkingVerbsConfig,
   TweakccConfig,
 } from './types.js';
 import {
@@ -23,11 +21,22 @@ import {
   replaceFileBreakingHardLinks,
 } from './misc.js';
 import { syncSystemPrompts, displaySyncResults } from './promptSync.js';
+import { configureSystemPromptsDir, getSystemPromptsDir } from './profiles.js';
+import {
+  CURRENT_CONFIG_VERSION,
+  migrateConfigFile,
+} from './configMigrations.js';
 import {
   hasUnappliedSystemPromptChanges,
   clearAllAppliedHashes,
 } from './systemPromptHashIndex.js';
 import { extractClaudeJsFromNativeInstallation } from './nativeInstallation.js';
+import {
+  getBackupFile,
+  getInstallationPath,
+  isSameInstallation,
+} from './installations.js';
+import { checkInstallationHash, findBackup, storeBackup } from './backups.js';
 
 export const ensureConfigDir = async (): Promise<void> => {
   await fs.mkdir(CONFIG_DIR, { recursive: true });
@@ -47,6 +56,7 @@ export const ensureConfigDir = async (): Promise<void> => {
           'prompt-data-cache',
           'cli.js.backup',
           'native-binary.backup',
+          'backups',
           'native-claudejs-orig.js',
           'native-claudejs-patched.js',
           'systemPromptAppliedHashes.json',
@@ -59,6 +69,7 @@ export const ensureConfigDir = async (): Promise<void> => {
 };
 
 let lastConfig: TweakccConfig = {
+  configVersion: CURRENT_CONFIG_VERSION,
   settings: DEFAULT_SETTINGS,
   changesApplied: false,
   ccVersion: '',
@@ -76,101 +87,36 @@ export const readConfigFile = async (): Promise<TweakccConfig> => {
     lastModified: new Date().toISOString(),
     changesApplied: true,
     settings: DEFAULT_SETTINGS,
+    configVersion: CURRENT_CONFIG_VERSION,
   };
   try {
     if (isDebug()) {
       console.log(`Reading config at ${CONFIG_FILE}`);
     }
 
-    const content = await fs.readFile(CONFIG_FILE, 'utf8');
-    const readConfig: TweakccConfig = { ...config, ...JSON.parse(content) };
-
-    // In v1.1.0 thinkingVerbs.punctuation was renamed to thinkingVerbs.format.  This should catch
-    // old configs.
-    const tmpThinkingVerbs = readConfig?.settings
-      ?.thinkingVerbs as ThinkingVerbsConfig & { punctuation?: string };
-    if (tmpThinkingVerbs?.punctuation) {
-      tmpThinkingVerbs.format = '{}' + tmpThinkingVerbs.punctuation;
-      delete tmpThinkingVerbs.punctuation;
-    }
-
-    // Add any missing top-level settings properties from defaults
-    if (!readConfig.settings.inputBox) {
-      readConfig.settings.inputBox = DEFAULT_SETTINGS.inputBox;
-    }
-    if (!readConfig.settings.toolsets) {
-      readConfig.settings.toolsets = DEFAULT_SETTINGS.toolsets;
-    }
-    if (!Object.hasOwn(readConfig.settings, 'defaultToolset')) {
-      readConfig.settings.defaultToolset = DEFAULT_SETTINGS.defaultToolset;
-    }
-
-    // Add any colors that the user doesn't have to any built-in themes.
-    for (const defaultTheme of DEFAULT_SETTINGS.themes) {
-      // Find this theme in the user's settings.
-      const readTheme = readConfig?.settings?.themes.find(
-        t => t.id === defaultTheme.id || t.name === defaultTheme.name
-      );
-      if (readTheme) {
-        // Add any missing top-level properties (like name, id)
-        for (const [key, value] of Object.entries(defaultTheme)) {
-          if (key !== 'colors' && !Object.hasOwn(readTheme, key)) {
-            (readTheme as unknown as Record<string, unknown>)[key] = value;
-          }
-        }
-
-        // Add any missing colors
-        if (!readTheme.colors) {
-          readTheme.colors = {} as Theme['colors'];
-        }
-        for (const [colorKey, colorValue] of Object.entries(
-          defaultTheme.colors
-        )) {
-          if (!Object.hasOwn(readTheme.colors, colorKey)) {
-            (readTheme.colors as Record<string, string>)[colorKey] = colorValue;
-          }
-        }
-      }
+    // Upgrade configs written by older versions of tweakcc, backing them up first
+    const migration = await migrateConfigFile();
+    if (!migration) {
+      return config;
     }
-
-    // Also add missing colors to custom themes (non-built-in themes)
-    for (const readTheme of readConfig?.settings?.themes || []) {
-      // Skip built-in themes (already handled above)
-      const isBuiltIn = DEFAULT_SETTINGS.themes.some(
-        dt => dt.id === readTheme.id || dt.name === readTheme.name
+    if (migration.backupFile) {
+      console.warn(
+        `Migrated ${CONFIG_FILE} to config version ${migration.toVersion}; the old config was saved to ${migration.backupFile}`
       );
-      if (isBuiltIn) continue;
-
-      // For custom themes, use the first default theme as a template for missing colors
-      const defaultTemplate = DEFAULT_SETTINGS.themes[0];
-      if (!readTheme.colors) {
-        readTheme.colors = {} as Theme['colors'];
-      }
-      for (const [colorKey, colorValue] of Object.entries(
-        defaultTemplate.colors
-      )) {
-        if (!Object.hasOwn(readTheme.colors, colorKey)) {
-          // Use the template's color as a fallback
-          (readTheme.colors as Record<string, string>)[colorKey] = colorValue;
-        }
-      }
-    }
-
-    // Add userMessageDisplay if it doesn't exist in the config; it was added in v1.4.0.
-    if (!readConfig?.settings?.userMessageDisplay) {
-      readConfig.settings = readConfig.settings || DEFAULT_SETTINGS;
-      readConfig.settings.userMessageDisplay =
-        DEFAULT_SETTINGS.userMessageDisplay;
     }
+    const readConfig: TweakccConfig = {
+      ...config,
+      ...(migration.config as Partial<TweakccConfig>),
+    };
 
-    // Remove launchText if it exists in the config; it was removed in v3.0.0.
-    delete (readConfig.settings as Settings & { launchText: unknown })
-      .launchText;
+    // The active profile may keep its system prompts in its own directory
+    configureSystemPromptsDir(readConfig);
 
     // Check if system prompts have been modified since they were last applied
     // If so, mark changesApplied as false to show the "*Apply customizations" indicator
-    const hasSystemPromptChanges =
-      await hasUnappliedSystemPromptChanges(SYSTEM_PROMPTS_DIR);
+    const hasSystemPromptChanges = await hasUnappliedSystemPromptChanges(
+      getSystemPromptsDir()
+    );
     if (hasSystemPromptChanges) {
       readConfig.changesApplied = false;
     }
@@ -236,7 +182,7 @@ export const restoreClijsFromBackup = async (
   }
 
   // Read the backup content
-  const backupContent = await fs.readFile(CLIJS_BACKUP_FILE);
+  const backupContent = await fs.readFile(getBackupFile(ccInstInfo));
 
   // Replace the file, breaking hard links and preserving permissions
   await replaceFileBreakingHardLinks(
@@ -272,7 +218,8 @@ export const restoreNativeBinaryFromBackup = async (
     return false;
   }
 
-  if (!(await doesFileExist(NATIVE_BINARY_BACKUP_FILE))) {
+  const backupFile = getBackupFile(ccInstInfo);
+  if (!(await doesFileExist(backupFile))) {
     if (isDebug()) {
       console.log(
         'restoreNativeBinaryFromBackup: No backup file exists, skipping'
@@ -288,7 +235,7 @@ export const restoreNativeBinaryFromBackup = async (
   }
 
   // Read the backup content
-  const backupContent = await fs.readFile(NATIVE_BINARY_BACKUP_FILE);
+  const backupContent = await fs.readFile(backupFile);
 
   // Replace the file, breaking hard links and preserving permissions
   await replaceFileBreakingHardLinks(
@@ -301,39 +248,44 @@ export const restoreNativeBinaryFromBackup = async (
 };
 
 /**
- * Finds the claude executable on PATH using platform-specific commands.
- * Returns the path to the executable (resolved from symlink), or null if not found.
+ * Finds every claude executable on PATH using platform-specific commands.  Returns their paths
+ * (resolved from symlinks), in PATH order.
  */
-async function findClaudeExecutableOnPath(): Promise<string | null> {
+async function findClaudeExecutablesOnPath(): Promise<string[]> {
+  const found: string[] = [];
   try {
     const isWindows = process.platform === 'win32';
-    const command = isWindows ? 'where claude.exe' : 'which claude';
+    const command = isWindows ? 'where claude.exe' : 'which -a claude';
 
     if (isDebug()) {
-      console.log(`Looking for claude executable using: ${command}`);
+      console.log(`Looking for claude executables using: ${command}`);
     }
 
     const result = execSync(command, { encoding: 'utf8' }).trim();
-    const firstPath = result.split('\n')[0].trim(); // In case multiple paths are returned
+    for (const line of result.split('\n')) {
+      const exePath = line.trim();
+      if (!exePath || !(await doesFileExist(exePath))) {
+        continue;
+      }
 
-    if (firstPath && (await doesFileExist(firstPath))) {
       // Resolve symlinks to get the actual binary path
+      let realPath = exePath;
       try {
-        const realPath = await fs.realpath(firstPath);
-        if (isDebug()) {
-          if (realPath !== firstPath) {
-            console.log(`Found claude executable at: ${firstPath} (symlink)`);
-            console.log(`Resolved to: ${realPath}`);
-          } else {
-            console.log(`Found claude executable at: ${firstPath}`);
-          }
-        }
-        return realPath;
+        realPath = await fs.realpath(exePath);
       } catch (error) {
         if (isDebug()) {
           console.log('Could not resolve symlink, using original path:', error);
         }
-        return firstPath;
+      }
+      if (isDebug()) {
+        console.log(
+          realPath !== exePath
+            ? `Found claude executable at: ${exePath} (symlink to ${realPath})`
+            : `Found claude executable at: ${exePath}`
+        );
+      }
+      if (!found.includes(realPath)) {
+        found.push(realPath);
       }
     }
   } catch (error) {
@@ -342,14 +294,22 @@ async function findClaudeExecutableOnPath(): Promise<string | null> {
     }
   }
 
-  return null;
+  return found;
+}
+
+/**
+ * Finds the first claude executable on PATH.  Returns the path to the executable (resolved
+ * from symlink), or null if not found.
+ */
+async function findClaudeExecutableOnPath(): Promise<string | null> {
+  return (await findClaudeExecutablesOnPath())[0] ?? null;
 }
 
 /**
  * Extracts version from claude.js content.
  * Searches for VERSION:"x.y.z" patterns and returns the version that appears most frequently.
  */
-function extractVersionFromContent(content: string): string | null {
+export function extractVersionFromContent(content: string): string | null {
   const versionRegex = /\bVERSION:"(\d+\.\d+\.\d+)"/g;
   const versionCounts = new Map<string, number>();
 
@@ -518,46 +478,134 @@ export const findClaudeCodeInstallation = async (
   return null;
 };
 
-const backupClijs = async (ccInstInfo: ClaudeCodeInstallationInfo) => {
-  // Only backup cli.js for NPM installs (when cliPath is set)
-  if (!ccInstInfo.cliPath) {
-    if (isDebug()) {
-      console.log('backupClijs: Skipping for native installation (no cliPath)');
+/**
+ * Reads the installation at `targetPath`: a Claude Code package directory, its cli.js, or a
+ * native claude binary.  Returns null if it isn't a Claude Code installation.
+ */
+export const getInstallationAt = async (
+  targetPath: string
+): Promise<ClaudeCodeInstallationInfo | null> => {
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(targetPath);
+    if ((await fs.stat(realPath)).isDirectory()) {
+      realPath = path.join(realPath, 'cli.js');
     }
-    return;
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      'code' in error &&
+      (error.code === 'ENOENT' || error.code === 'ENOTDIR')
+    ) {
+      return null;
+    }
+    throw error;
   }
 
-  await ensureConfigDir();
-  if (isDebug()) {
-    console.log(`Backing up cli.js to ${CLIJS_BACKUP_FILE}`);
+  // npm installs put a `claude` symlink to cli.js on PATH, so this also handles those.
+  if (realPath.endsWith('.js')) {
+    try {
+      return {
+        cliPath: realPath,
+        version: await extractVersionFromJsFile(realPath),
+      };
+    } catch (error) {
+      if (isDebug()) {
+        console.log(`getInstallationAt: ${realPath}:`, error);
+      }
+      return null;
+    }
   }
-  await fs.copyFile(ccInstInfo.cliPath, CLIJS_BACKUP_FILE);
-  await updateConfigFile(config => {
-    config.changesApplied = false;
-    config.ccVersion = ccInstInfo.version;
-  });
+
+  const claudeJsBuffer = extractClaudeJsFromNativeInstallation(realPath);
+  const version =
+    claudeJsBuffer &&
+    extractVersionFromContent(claudeJsBuffer.toString('utf8'));
+  return version ? { version, nativeInstallationPath: realPath } : null;
 };
 
 /**
- * Backs up the native installation binary to the config directory.
+ * The paths an installation might be at: each cli.js in the search paths, then each claude
+ * executable on PATH.  Most of them won't exist; pass them to getInstallationAt.
  */
-const backupNativeBinary = async (ccInstInfo: ClaudeCodeInstallationInfo) => {
-  if (!ccInstInfo.nativeInstallationPath) {
+export const findInstallationCandidates = async (
+  config: TweakccConfig
+): Promise<string[]> => {
+  const searchPaths = config.ccInstallationDir
+    ? [config.ccInstallationDir, ...CLIJS_SEARCH_PATHS]
+    : CLIJS_SEARCH_PATHS;
+  return [
+    ...searchPaths.map(searchPath => path.join(searchPath, 'cli.js')),
+    ...(await findClaudeExecutablesOnPath()),
+  ];
+};
+
+/**
+ * Finds every Claude Code installation: each cli.js in the search paths, then each claude
+ * executable on PATH.  Unlike findClaudeCodeInstallation, this doesn't stop at the first one.
+ */
+export const findAllClaudeCodeInstallations = async (
+  config: TweakccConfig
+): Promise<ClaudeCodeInstallationInfo[]> => {
+  const installations: ClaudeCodeInstallationInfo[] = [];
+  for (const candidate of await findInstallationCandidates(config)) {
+    const installation = await getInstallationAt(candidate);
+    if (
+      installation &&
+      !installations.some(i => isSameInstallation(i, installation))
+    ) {
+      installations.push(installation);
+    }
+  }
+  return installations;
+};
+
+/**
+ * Moves the single cli.js.backup / native-binary.backup used by older versions of tweakcc into
+ * the backup store, as the backup of `version` (config.ccVersion, the version it was taken
+ * from).  It's left alone if tweakcc had already patched it.
+ */
+const adoptLegacyBackup = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  version: string
+): Promise<void> => {
+  const legacyFile = ccInstInfo.nativeInstallationPath
+    ? NATIVE_BINARY_BACKUP_FILE
+    : CLIJS_BACKUP_FILE;
+  if (
+    !version ||
+    !(await doesFileExist(legacyFile)) ||
+    (await findBackup(ccInstInfo, version))
+  ) {
     return;
   }
 
-  await ensureConfigDir();
-  if (isDebug()) {
-    console.log(`Backing up native binary to ${NATIVE_BINARY_BACKUP_FILE}`);
+  try {
+    await storeBackup(ccInstInfo, legacyFile, { version, move: true });
+  } catch (error) {
+    if (isDebug()) {
+      console.log(`Not adopting ${legacyFile}:`, error);
+    }
   }
-  await fs.copyFile(
-    ccInstInfo.nativeInstallationPath,
-    NATIVE_BINARY_BACKUP_FILE
-  );
-  await updateConfigFile(config => {
-    config.changesApplied = false;
-    config.ccVersion = ccInstInfo.version;
-  });
+};
+
+/**
+ * Backs up the installed version of an installation if it isn't in the backup store yet (most
+ * likely the user installed or updated Claude Code).  Returns true if a new backup was taken.
+ * Throws if the installation has already been patched by tweakcc and has no backup, or if it
+ * doesn't match its published hash and `force` isn't set.
+ */
+export const ensureInstallationBackup = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  options: { force?: boolean } = {}
+): Promise<boolean> => {
+  if (await findBackup(ccInstInfo)) {
+    return false;
+  }
+
+  await ensureConfigDir();
+  await storeBackup(ccInstInfo, getInstallationPath(ccInstInfo), options);
+  return true;
 };
 
 /**
@@ -586,62 +634,38 @@ export async function startupCheck(): Promise<StartupCheckInfo | null> {
   const realVersion = ccInstInfo.version;
   const backedUpVersion = config.ccVersion;
 
-  // Backup cli.js if we don't have any backup yet.
+  // Back up the installation if we don't have a backup of this version yet.
+  await adoptLegacyBackup(ccInstInfo, backedUpVersion);
   let hasBackedUp = false;
-  if (!(await doesFileExist(CLIJS_BACKUP_FILE))) {
-    if (isDebug()) {
-      console.log(
-        `startupCheck: ${CLIJS_BACKUP_FILE} not found; backing up cli.js`
+  try {
+    hasBackedUp = await ensureInstallationBackup(ccInstInfo);
+    // A new backup has just been checked; an existing one was checked when it was taken, but
+    // the installed file may have been changed since.
+    if (
+      !hasBackedUp &&
+      (await checkInstallationHash(ccInstInfo)) === 'modified'
+    ) {
+      console.warn(
+        chalk.yellow(
+          `Warning: ${getInstallationPath(ccInstInfo)} doesn't match the published SHA-256 of Claude Code ${realVersion}, so it may have been modified.  Reinstall Claude Code unless you modified it yourself.`
+        )
       );
     }
-    await backupClijs(ccInstInfo);
-    hasBackedUp = true;
+  } catch (error) {
+    console.warn(
+      chalk.yellow(`Warning: ${error instanceof Error ? error.message : error}`)
+    );
   }
-
-  // Backup native binary if we don't have any backup yet (for native installations)
-  let hasBackedUpNativeBinary = false;
-  if (
-    ccInstInfo.nativeInstallationPath &&
-    !(await doesFileExist(NATIVE_BINARY_BACKUP_FILE))
-  ) {
-    if (isDebug()) {
-      console.log(
-        `startupCheck: ${NATIVE_BINARY_BACKUP_FILE} not found; backing up native binary`
-      );
-    }
-    await backupNativeBinary(ccInstInfo);
-    hasBackedUpNativeBinary = true;
+  if (hasBackedUp || realVersion !== backedUpVersion) {
+    await updateConfigFile(config => {
+      config.changesApplied = false;
+      config.ccVersion = realVersion;
+    });
   }
 
-  // If the installed CC version is different from what we have backed up, clear out our backup
-  // and make a new one.
+  // If the installed CC version is different from what we had backed up, most likely the
+  // user updated CC.
   if (realVersion !== backedUpVersion) {
-    // The version we have backed up is different than what's installed.  Mostly likely the user
-    // updated CC, so we should back up the new version.  If the backup didn't even exist until we
-    // copied in there above, though, we shouldn't back it up twice.
-    if (!hasBackedUp) {
-      if (isDebug()) {
-        console.log(
-          `startupCheck: real version (${realVersion}) != backed up version (${backedUpVersion}); backing up cli.js`
-        );
-      }
-      await fs.unlink(CLIJS_BACKUP_FILE);
-      await backupClijs(ccInstInfo);
-    }
-
-    // Also backup native binary if version changed
-    if (ccInstInfo.nativeInstallationPath && !hasBackedUpNativeBinary) {
-      if (isDebug()) {
-        console.log(
-          `startupCheck: real version (${realVersion}) != backed up version (${backedUpVersion}); backing up native binary`
-        );
-      }
-      if (await doesFileExist(NATIVE_BINARY_BACKUP_FILE)) {
-        await fs.unlink(NATIVE_BINARY_BACKUP_FILE);
-      }
-      await backupNativeBinary(ccInstInfo);
-    }
-
     return {
       wasUpdated: true,
       oldVersion: backedUpVersion,
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_SETTINGS } from './types.js';
+import {
+  CONFIG_MIGRATIONS,
+  CURRENT_CONFIG_VERSION,
+  ConfigMigration,
+  migrateConfig,
+  migrateConfigFile,
+} from './configMigrations.js';
+
+const getMigration = (version: number): ConfigMigration =>
+  CONFIG_MIGRATIONS.find(m => m.version === version)!;
+
+// Runs a single migration on a copy of `config`.
+const runMigration = (version: number, config: Record<string, unknown>) => {
+  const copy = JSON.parse(JSON.stringify(config));
+  getMigration(version).migrate(copy);
+  return copy;
+};
+
+describe('config migrations', () => {
+  it('should be numbered in order starting from 1', () => {
+    expect(CONFIG_MIGRATIONS.map(m => m.version)).toEqual(
+      CONFIG_MIGRATIONS.map((_, i) => i + 1)
+    );
+    expect(CURRENT_CONFIG_VERSION).toBe(CONFIG_MIGRATIONS.length);
+  });
+
+  it('1: should rename thinkingVerbs.punctuation to format', () => {
+    const migrated = runMigration(1, {
+      settings: { thinkingVerbs: { punctuation: '… ', verbs: ['Musing'] } },
+      profiles: {
+        work: { settings: { thinkingVerbs: { punctuation: '!', verbs: [] } } },
+      },
+    });
+    expect(migrated.settings.thinkingVerbs).toEqual({
+      format: '{}… ',
+      verbs: ['Musing'],
+    });
+    expect(migrated.profiles.work.settings.thinkingVerbs.format).toBe('{}!');
+  });
+
+  it('2: should add userMessageDisplay', () => {
+    const migrated = runMigration(2, { settings: {} });
+    expect(migrated.settings.userMessageDisplay).toEqual(
+      DEFAULT_SETTINGS.userMessageDisplay
+    );
+    expect(migrated.settings.userMessageDisplay).not.toBe(
+      DEFAULT_SETTINGS.userMessageDisplay
+    );
+  });
+
+  it('3: should remove launchText', () => {
+    const migrated = runMigration(3, {
+      settings: { launchText: { method: 'figlet' }, toolsets: [] },
+    });
+    expect(migrated.settings).toEqual({ toolsets: [] });
+  });
+
+  it('4: should add missing top-level settings without overwriting', () => {
+    const migrated = runMigration(4, {
+      settings: { defaultToolset: 'safe', patches: { themes: false } },
+    });
+    expect(migrated.settings).toEqual({
+      defaultToolset: 'safe',
+      patches: { themes: false },
+      inputBox: DEFAULT_SETTINGS.inputBox,
+      toolsets: [],
+    });
+  });
+
+  it('5: should add missing colors to built-in and custom themes', () => {
+    const builtIn = DEFAULT_SETTINGS.themes[1];
+    const migrated = runMigration(5, {
+      settings: {
+        themes: [
+          { id: builtIn.id, colors: { text: 'rgb(1,2,3)' } },
+          { name: 'Mine', id: 'mine' },
+        ],
+      },
+    });
+    const [readBuiltIn, custom] = migrated.settings.themes;
+    expect(readBuiltIn.name).toBe(builtIn.name);
+    expect(readBuiltIn.colors).toEqual({
+      ...builtIn.colors,
+      text: 'rgb(1,2,3)',
+    });
+    expect(custom.name).toBe('Mine');
+    expect(custom.colors).toEqual(DEFAULT_SETTINGS.themes[0].colors);
+  });
+
+  it('should only run migrations newer than configVersion', () => {
+    const migrations: ConfigMigration[] = [
+      { version: 1, description: 'a', migrate: c => void (c.a = true) },
+      { version: 2, description: 'b', migrate: c => void (c.b = true) },
+    ];
+    const original = { configVersion: 1 };
+    const result = migrateConfig(original, migrations);
+
+    expect(result.config).toEqual({ configVersion: 2, b: true });
+    expect(result.applied.map(m => m.description)).toEqual(['b']);
+    expect(result).toMatchObject({ fromVersion: 1, toVersion: 2 });
+    expect(original).toEqual({ configVersion: 1 });
+
+    expect(migrateConfig(result.config, migrations).applied).toEqual([]);
+  });
+
+  it('should back up the config before migrating it', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-migrate-'));
+    try {
+      const file = path.join(dir, 'config.json');
+      const content = JSON.stringify({
+        settings: { thinkingVerbs: { punctuation: '…', verbs: [] } },
+      });
+      await fs.writeFile(file, content);
+
+      const dryRun = await migrateConfigFile({ file, dryRun: true });
+      expect(dryRun!.applied).toHaveLength(CONFIG_MIGRATIONS.length);
+      expect(dryRun!.diff).toContain('-      "punctuation": "…",');
+      expect(dryRun!.diff).toContain('+      "format": "{}…"');
+      expect(dryRun!.backupFile).toBeUndefined();
+      expect(await fs.readFile(file, 'utf8')).toBe(content);
+
+      const result = await migrateConfigFile({ file });
+      expect(result!.backupFile).toBe(`${file}.bak-0`);
+      expect(await fs.readFile(`${file}.bak-0`, 'utf8')).toBe(content);
+      const migrated = JSON.parse(await fs.readFile(file, 'utf8'));
+      expect(migrated.configVersion).toBe(CURRENT_CONFIG_VERSION);
+
+      // Nothing left to do.
+      expect((await migrateConfigFile({ file }))!.applied).toEqual([]);
+      expect(
+        await migrateConfigFile({ file: path.join(dir, 'missing.json') })
+      ).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
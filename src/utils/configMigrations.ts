@@ -0,0 +1,222 @@
+// Versioned migrations for config.json.  Each migration upgrades a config from the previous
+// version to its own; `configVersion` in the file records the last one applied, so every
+// migration runs exactly once per config.  To rename or add a setting (or add a color to the
+// built-in themes), append a migration with the next version number -- never edit one that has
+// shipped.  Migrations also run on every profile's settings.
+
+import fs from 'node:fs/promises';
+import { CONFIG_FILE, DEFAULT_SETTINGS } from './types.js';
+import { diffLines, formatUnifiedDiff } from './diff.js';
+
+type RawObject = Record<string, unknown>;
+
+export interface ConfigMigration {
+  version: number;
+  description: string;
+  migrate: (config: RawObject) => void;
+}
+
+const isPlainObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Calls `fn` with `config.settings` and the settings of every saved profile.
+ */
+const forEachSettings = (
+  config: RawObject,
+  fn: (settings: RawObject) => void
+): void => {
+  if (isPlainObject(config.settings)) {
+    fn(config.settings);
+  }
+  if (isPlainObject(config.profiles)) {
+    for (const profile of Object.values(config.profiles)) {
+      if (isPlainObject(profile) && isPlainObject(profile.settings)) {
+        fn(profile.settings);
+      }
+    }
+  }
+};
+
+/**
+ * Adds any properties and colors of `template` that `theme` is missing.
+ */
+const backfillTheme = (
+  theme: RawObject,
+  template: (typeof DEFAULT_SETTINGS.themes)[number]
+): void => {
+  for (const [key, value] of Object.entries(template)) {
+    if (key !== 'colors' && !Object.hasOwn(theme, key)) {
+      theme[key] = value;
+    }
+  }
+  if (!isPlainObject(theme.colors)) {
+    theme.colors = {};
+  }
+  const colors = theme.colors as RawObject;
+  for (const [key, value] of Object.entries(template.colors)) {
+    if (!Object.hasOwn(colors, key)) {
+      colors[key] = value;
+    }
+  }
+};
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: 'Rename thinkingVerbs.punctuation to thinkingVerbs.format',
+    // Renamed in v1.1.0.
+    migrate: config =>
+      forEachSettings(config, settings => {
+        const thinkingVerbs = settings.thinkingVerbs;
+        if (isPlainObject(thinkingVerbs) && thinkingVerbs.punctuation) {
+          thinkingVerbs.format = '{}' + thinkingVerbs.punctuation;
+          delete thinkingVerbs.punctuation;
+        }
+      }),
+  },
+  {
+    version: 2,
+    description: 'Add the userMessageDisplay settings',
+    // Added in v1.4.0.
+    migrate: config =>
+      forEachSettings(config, settings => {
+        if (!settings.userMessageDisplay) {
+          settings.userMessageDisplay = clone(
+            DEFAULT_SETTINGS.userMessageDisplay
+          );
+        }
+      }),
+  },
+  {
+    version: 3,
+    description: 'Remove launchText',
+    // Removed in v3.0.0.
+    migrate: config =>
+      forEachSettings(config, settings => {
+        delete settings.launchText;
+      }),
+  },
+  {
+    version: 4,
+    description:
+      'Add the inputBox, toolsets, defaultToolset and patches settings',
+    migrate: config =>
+      forEachSettings(config, settings => {
+        if (!settings.inputBox) {
+          settings.inputBox = clone(DEFAULT_SETTINGS.inputBox);
+        }
+        if (!settings.toolsets) {
+          settings.toolsets = clone(DEFAULT_SETTINGS.toolsets);
+        }
+        if (!Object.hasOwn(settings, 'defaultToolset')) {
+          settings.defaultToolset = DEFAULT_SETTINGS.defaultToolset;
+        }
+        if (!settings.patches) {
+          settings.patches = {};
+        }
+      }),
+  },
+  {
+    version: 5,
+    description: 'Add missing colors to themes',
+    // Built-in themes get their own defaults; custom themes get the first built-in theme's.
+    migrate: config =>
+      forEachSettings(config, settings => {
+        if (!Array.isArray(settings.themes)) return;
+        for (const theme of settings.themes) {
+          if (!isPlainObject(theme)) continue;
+          const builtIn = DEFAULT_SETTINGS.themes.find(
+            t => t.id === theme.id || t.name === theme.name
+          );
+          backfillTheme(theme, builtIn ?? DEFAULT_SETTINGS.themes[0]);
+        }
+      }),
+  },
+];
+
+export const CURRENT_CONFIG_VERSION =
+  CONFIG_MIGRATIONS[CONFIG_MIGRATIONS.length - 1].version;
+
+export interface MigrateConfigResult {
+  config: unknown;
+  fromVersion: number;
+  toVersion: number;
+  applied: ConfigMigration[];
+}
+
+/**
+ * Returns a copy of a parsed config.json with every pending migration applied.  Configs
+ * without a `configVersion` predate versioning and get every migration.
+ */
+export const migrateConfig = (
+  config: unknown,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS
+): MigrateConfigResult => {
+  if (!isPlainObject(config)) {
+    return { config, fromVersion: 0, toVersion: 0, applied: [] };
+  }
+  const fromVersion =
+    typeof config.configVersion === 'number' ? config.configVersion : 0;
+  const migrated = clone(config);
+  const applied = migrations.filter(m => m.version > fromVersion);
+  for (const migration of applied) {
+    migration.migrate(migrated);
+    migrated.configVersion = migration.version;
+  }
+  return {
+    config: migrated,
+    fromVersion,
+    toVersion:
+      applied.length > 0 ? (migrated.configVersion as number) : fromVersion,
+    applied,
+  };
+};
+
+export interface MigrateConfigFileResult extends MigrateConfigResult {
+  backupFile?: string; // Where the unmigrated config was copied
+  diff: string; // Unified diff of config.json before and after migrating
+}
+
+/**
+ * Migrates the config file in place, first copying it to `<file>.bak-<version>`.  With
+ * `dryRun`, nothing is written.  Returns null if the file doesn't exist.
+ */
+export const migrateConfigFile = async (
+  options: { dryRun?: boolean; file?: string } = {}
+): Promise<MigrateConfigFileResult | null> => {
+  const file = options.file ?? CONFIG_FILE;
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const result = migrateConfig(JSON.parse(content));
+  if (result.applied.length === 0) {
+    return { ...result, diff: '' };
+  }
+
+  const newContent = JSON.stringify(result.config, null, 2);
+  const diff = formatUnifiedDiff(
+    diffLines(
+      JSON.stringify(JSON.parse(content), null, 2).split('\n'),
+      newContent.split('\n')
+    ),
+    { oldLabel: 'a/config.json', newLabel: 'b/config.json' }
+  );
+  if (options.dryRun) {
+    return { ...result, diff };
+  }
+
+  const backupFile = `${file}.bak-${result.fromVersion}`;
+  await fs.writeFile(backupFile, content);
+  await fs.writeFile(file, newContent);
+  return { ...result, backupFile, diff };
+};
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_SETTINGS, Settings } from './types.js';
+import {
+  checkColor,
+  findClosestMatch,
+  hasConfigErrors,
+  validateConfig,
+  validateConfigFile,
+} from './configSchema.js';
+
+const createConfig = (
+  updateSettings: (
+    settings: Settings & Record<string, unknown>
+  ) => void = () => {}
+) => {
+  const settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+  updateSettings(settings);
+  return {
+    ccVersion: '2.0.0',
+    ccInstallationDir: null,
+    lastModified: '',
+    changesApplied: true,
+    settings,
+  };
+};
+
+const findIssue = (config: unknown, issuePath: string) =>
+  validateConfig(config).find(issue => issue.path === issuePath);
+
+describe('configSchema', () => {
+  it('should accept the default settings', () => {
+    expect(validateConfig(createConfig())).toEqual([]);
+    expect(validateConfig({})).toEqual([]);
+  });
+
+  it('should accept configs from before misc existed', () => {
+    const config = createConfig(settings => {
+      delete (settings as Partial<Settings>).misc;
+    });
+
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  it('should report malformed colors with their path', () => {
+    const config = createConfig(settings => {
+      settings.themes[0].colors.text = 'rgb(300,0,0)';
+      settings.themes[1].colors.error = 'ansi:rde';
+      settings.themes[1].colors.success = 'ff0000';
+    });
+
+    const text = findIssue(config, 'settings.themes[0].colors.text');
+    expect(text).toMatchObject({
+      severity: 'error',
+      message: 'Malformed color',
+      actual: 'string "rgb(300,0,0)"',
+    });
+    expect(text!.expected).toContain('rgb(r,g,b)');
+    expect(findIssue(config, 'settings.themes[1].colors.error')).toMatchObject({
+      suggestion: 'Did you mean "ansi:red"?',
+    });
+    expect(
+      findIssue(config, 'settings.themes[1].colors.success')
+    ).toMatchObject({ suggestion: 'Did you mean "#ff0000"?' });
+  });
+
+  it('should check colors in every supported format', () => {
+    expect(checkColor('rgb(215, 119, 87)')).toBeNull();
+    expect(checkColor('#abc')).toBeNull();
+    expect(checkColor('hsl(15,63%,59%)')).toBeNull();
+    expect(checkColor('ansi:blueBright')).toBeNull();
+    expect(checkColor('blue')).not.toBeNull();
+  });
+
+  it('should report invalid hook types and missing handler properties', () => {
+    const config = createConfig(settings => {
+      settings.events = {
+        enabled: true,
+        hooks: [
+          {
+            id: 'a',
+            events: 'tool:befor' as never,
+            type: 'comand' as never,
+            command: 'echo',
+            enabled: true,
+          },
+          { id: 'b', events: ['tool:after'], type: 'webhook', enabled: true },
+          {
+            id: 'b',
+            events: ['custom:deploy'],
+            type: 'command',
+            command: 'true',
+            inProcess: true,
+            enabled: true,
+          },
+        ],
+      };
+    });
+
+    expect(findIssue(config, 'settings.events.hooks[0].type')).toMatchObject({
+      severity: 'error',
+      suggestion: 'Did you mean "command"?',
+    });
+    expect(findIssue(config, 'settings.events.hooks[0].events')).toMatchObject({
+      suggestion: 'Did you mean "tool:before"?',
+    });
+    expect(findIssue(config, 'settings.events.hooks[1].webhook')).toMatchObject(
+      { severity: 'error' }
+    );
+    expect(findIssue(config, 'settings.events.hooks[2].id')).toMatchObject({
+      message: 'Duplicate id "b"',
+    });
+    expect(findIssue(config, 'settings.events.hooks[2].events[0]')).toBe(
+      undefined
+    );
+    expect(
+      findIssue(config, 'settings.events.hooks[2].inProcess')
+    ).toMatchObject({ severity: 'warning' });
+  });
+
+  it('should report toolsets that reference unknown tools or toolsets', () => {
+    const config = createConfig(settings => {
+      settings.toolsets = [
+        { name: 'safe', allowedTools: ['Read', 'Grpe', 'mcp__github__search'] },
+        { name: 'all', allowedTools: '*' },
+      ];
+      settings.defaultToolset = 'sfae';
+    });
+
+    expect(
+      findIssue(config, 'settings.toolsets[0].allowedTools[1]')
+    ).toMatchObject({
+      severity: 'warning',
+      suggestion: 'Did you mean "Grep"?',
+    });
+    expect(
+      findIssue(config, 'settings.toolsets[0].allowedTools[2]')
+    ).toBeUndefined();
+    expect(findIssue(config, 'settings.defaultToolset')).toMatchObject({
+      severity: 'error',
+      suggestion: 'Did you mean "safe"?',
+    });
+  });
+
+  it('should report wrong types and unknown properties', () => {
+    const config = createConfig(settings => {
+      (
+        settings.thinkingStyle as unknown as Record<string, unknown>
+      ).updateInterval = '100';
+      settings.userMessageDisplay.prefix.styling = ['bolt'];
+      (settings.misc as unknown as Record<string, unknown>).showTweakccVersoin =
+        false;
+    });
+
+    expect(
+      findIssue(config, 'settings.thinkingStyle.updateInterval')
+    ).toMatchObject({
+      severity: 'error',
+      message: 'Wrong type',
+      expected: 'number >= 1',
+      actual: 'string "100"',
+    });
+    expect(
+      findIssue(config, 'settings.userMessageDisplay.prefix.styling[0]')
+    ).toMatchObject({ suggestion: 'Did you mean "bold"?' });
+    expect(findIssue(config, 'settings.misc.showTweakccVersoin')).toMatchObject(
+      {
+        severity: 'warning',
+        suggestion: 'Did you mean "showTweakccVersion"?',
+      }
+    );
+  });
+
+  it('should validate profiles and patch ids', () => {
+    const config = {
+      ...createConfig(settings => {
+        settings.patches = { 'thinker-verbs': false, 'thinkr-format': true };
+      }),
+      profiles: { work: { settings: { themes: [] } } },
+    };
+
+    const issues = validateConfig(config, {
+      knownPatchIds: ['thinker-verbs', 'thinker-format'],
+    });
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        path: 'settings.patches["thinkr-format"]',
+        suggestion: 'Did you mean "thinker-format"?',
+      })
+    );
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        path: 'profiles.work.settings.thinkingVerbs',
+        message: 'Missing required property',
+      })
+    );
+    expect(hasConfigErrors(issues)).toBe(true);
+  });
+
+  it('should validate native module replacements', () => {
+    const config = createConfig(settings => {
+      settings.nativeModules = [
+        { module: '/$bunfs/root/foo.node', file: '/tmp/foo.node' },
+        { module: '/$bunfs/root/bar.wasm' } as never,
+      ];
+    });
+    expect(validateConfig(config)).toEqual([
+      expect.objectContaining({
+        path: 'settings.nativeModules[1].file',
+        message: 'Missing required property',
+      }),
+    ]);
+  });
+
+  it('should validate config files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-schema-'));
+    try {
+      const file = path.join(dir, 'config.json');
+      await fs.writeFile(file, '{"settings": ');
+      const issues = await validateConfigFile({}, file);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toMatch(/^Not valid JSON/);
+
+      // Old configs are migrated before they're checked.
+      const oldConfig = createConfig(settings => {
+        settings.launchText = 'hi';
+        (settings.thinkingVerbs as unknown as Record<string, unknown>) = {
+          punctuation: '… ',
+          verbs: ['Thinking'],
+        };
+      });
+      await fs.writeFile(file, JSON.stringify(oldConfig));
+      expect(await validateConfigFile({}, file)).toEqual([]);
+
+      expect(await validateConfigFile({}, path.join(dir, 'missing'))).toEqual(
+        []
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only suggest close matches', () => {
+    expect(findClosestMatch('bash', ['Bash', 'Read'])).toBe('Bash');
+    expect(findClosestMatch('Completely', ['Bash', 'Read'])).toBeNull();
+  });
+});
@@ -0,0 +1,850 @@
+// A schema for config.json, checked by `tweakcc config validate` and before `--apply`.  It
+// describes configs at CURRENT_CONFIG_VERSION; older ones are migrated before being checked.
+
+import fs from 'node:fs/promises';
+import chalk from 'chalk';
+import {
+  BUILTIN_EVENT_TYPES,
+  CLAUDE_CODE_TOOLS,
+  CONFIG_FILE,
+  DEFAULT_SETTINGS,
+  EVENT_HANDLER_TYPES,
+  TRANSFORM_TYPES,
+} from './types.js';
+import { migrateConfig } from './configMigrations.js';
+
+/**
+ * A single problem found in a config.  Errors stop `--apply`; warnings are only reported.
+ */
+export interface ConfigIssue {
+  severity: 'error' | 'warning';
+  path: string; // JSON path of the offending value, e.g. settings.themes[0].colors.text
+  message: string;
+  expected?: string;
+  actual?: string;
+  suggestion?: string;
+}
+
+export interface ValidateConfigOptions {
+  knownPatchIds?: string[]; // Warn about settings.patches entries not in this list
+}
+
+type Schema = (
+  | {
+      type: 'string';
+      enum?: readonly string[];
+      format?: 'color' | 'event' | 'regex' | 'url';
+    }
+  | { type: 'number'; integer?: boolean; min?: number }
+  | { type: 'boolean' }
+  | { type: 'null' }
+  | { type: 'literal'; value: string }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | {
+      type: 'object';
+      properties: Record<string, Schema>;
+      values?: Schema; // Schema for keys not in `properties`, for records
+    }
+  | { type: 'union'; options: Schema[] }
+) & { optional?: boolean };
+
+const str = (
+  options: Omit<Extract<Schema, { type: 'string' }>, 'type'> = {}
+): Schema => ({ type: 'string', ...options });
+const num = (
+  options: Omit<Extract<Schema, { type: 'number' }>, 'type'> = {}
+): Schema => ({ type: 'number', ...options });
+const bool = (): Schema => ({ type: 'boolean' });
+const arr = (items: Schema, minItems?: number): Schema => ({
+  type: 'array',
+  items,
+  minItems,
+});
+const obj = (
+  properties: Record<string, Schema>,
+  extra: { values?: Schema } = {}
+): Schema => ({ type: 'object', properties, ...extra });
+const union = (...options: Schema[]): Schema => ({ type: 'union', options });
+const opt = (schema: Schema): Schema => ({ ...schema, optional: true });
+
+const ANSI_COLOR_NAMES = [
+  'black',
+  'red',
+  'green',
+  'yellow',
+  'blue',
+  'magenta',
+  'cyan',
+  'white',
+].flatMap(name => [name, `${name}Bright`]);
+
+const STYLING_OPTIONS = [
+  'bold',
+  'italic',
+  'underline',
+  'strikethrough',
+  'inverse',
+];
+
+const color = str({ format: 'color' });
+const timeout = opt(num({ integer: true, min: 0 }));
+
+const themeSchema = obj({
+  name: str(),
+  id: str(),
+  colors: opt(
+    obj(
+      Object.fromEntries(
+        Object.keys(DEFAULT_SETTINGS.themes[0].colors).map(key => [
+          key,
+          opt(color),
+        ])
+      )
+    )
+  ),
+});
+
+const userMessageElementSchema = obj({
+  format: str(),
+  styling: arr(str({ enum: STYLING_OPTIONS })),
+  foreground_color: color,
+  background_color: color,
+});
+
+const eventHookSchema = obj({
+  id: str(),
+  name: opt(str()),
+  events: union(str({ format: 'event' }), arr(str({ format: 'event' }), 1)),
+  type: str({ enum: EVENT_HANDLER_TYPES }),
+  script: opt(str()),
+  command: opt(str()),
+  webhook: opt(str({ format: 'url' })),
+  worker: opt(str()),
+  async: opt(bool()),
+  timeout,
+  inProcess: opt(bool()),
+  enabled: bool(),
+  onError: opt(str({ enum: ['continue', 'abort', 'retry'] })),
+  retryCount: opt(num({ integer: true, min: 0 })),
+  retryDelay: opt(num({ integer: true, min: 0 })),
+  filter: opt(
+    obj({
+      tools: opt(arr(str())),
+      toolsExclude: opt(arr(str())),
+      messageTypes: opt(arr(str())),
+      regex: opt(str({ format: 'regex' })),
+    })
+  ),
+  env: opt(obj({}, { values: str() })),
+  cwd: opt(str()),
+});
+
+const transformSchema = obj({
+  id: str(),
+  name: opt(str()),
+  transform: str({ enum: TRANSFORM_TYPES }),
+  script: str(),
+  enabled: bool(),
+  priority: opt(num()),
+  timeout,
+  inProcess: opt(bool()),
+  filter: opt(obj({ tools: opt(arr(str())) })),
+});
+
+const settingsSchema = obj({
+  themes: arr(themeSchema),
+  thinkingVerbs: obj({ format: str(), verbs: arr(str()) }),
+  thinkingStyle: obj({
+    reverseMirror: bool(),
+    updateInterval: num({ min: 1 }),
+    phases: arr(str(), 1),
+  }),
+  userMessageDisplay: opt(
+    obj({
+      prefix: userMessageElementSchema,
+      message: userMessageElementSchema,
+    })
+  ),
+  inputBox: opt(obj({ removeBorder: bool() })),
+  // Configs from before misc existed don't have it; its defaults apply.
+  misc: opt(
+    obj({
+      showTweakccVersion: opt(bool()),
+      showPatchesApplied: opt(bool()),
+      expandThinkingBlocks: opt(bool()),
+    })
+  ),
+  toolsets: opt(
+    arr(
+      obj({
+        name: str(),
+        allowedTools: union({ type: 'literal', value: '*' }, arr(str())),
+      })
+    )
+  ),
+  defaultToolset: opt(union(str(), { type: 'null' })),
+  events: opt(
+    obj({
+      enabled: bool(),
+      hooks: arr(eventHookSchema),
+      logging: opt(
+        obj({
+          enabled: bool(),
+          logFile: opt(str()),
+          logLevel: opt(str({ enum: ['debug', 'info', 'warn', 'error'] })),
+        })
+      ),
+    })
+  ),
+  transforms: opt(obj({ enabled: bool(), transforms: arr(transformSchema) })),
+  patches: opt(obj({}, { values: bool() })),
+  nativeModules: opt(arr(obj({ module: str(), file: str() }))),
+});
+
+const configSchema = obj({
+  configVersion: opt(num({ integer: true, min: 0 })),
+  ccVersion: opt(str()),
+  ccInstallationDir: opt(union(str(), { type: 'null' })),
+  lastModified: opt(str()),
+  changesApplied: opt(bool()),
+  settings: opt(settingsSchema),
+  promptData: opt(
+    obj({ dir: opt(str()), mirrorUrl: opt(str({ format: 'url' })) })
+  ),
+  activeProfile: opt(str()),
+  profiles: opt(
+    obj(
+      {},
+      {
+        values: obj({
+          settings: settingsSchema,
+          scopedSystemPrompts: opt(bool()),
+        }),
+      }
+    )
+  ),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return `${path}[${JSON.stringify(key)}]`;
+  }
+  return path ? `${path}.${key}` : key;
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Returns the candidate closest to `value`, if any is close enough to be a likely typo.
+ */
+export const findClosestMatch = (
+  value: string,
+  candidates: readonly string[]
+): string | null => {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance =
+      candidate.toLowerCase() === value.toLowerCase()
+        ? 0
+        : editDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(value.length / 3))
+    ? best
+    : null;
+};
+
+const didYouMean = (
+  value: string,
+  candidates: readonly string[]
+): string | undefined => {
+  const match = findClosestMatch(value, candidates);
+  return match ? `Did you mean "${match}"?` : undefined;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array (${value.length} items)`;
+  if (isPlainObject(value)) return 'object';
+  if (typeof value === 'string') {
+    const json = JSON.stringify(value);
+    return `string ${json.length > 40 ? json.slice(0, 37) + '..."' : json}`;
+  }
+  return `${typeof value} ${String(value)}`;
+};
+
+const describeSchema = (schema: Schema): string => {
+  switch (schema.type) {
+    case 'string':
+      if (schema.enum) {
+        return `one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`;
+      }
+      switch (schema.format) {
+        case 'color':
+          return 'color: rgb(r,g,b), #rrggbb, hsl(h,s%,l%) or ansi:<name>';
+        case 'event':
+          return 'event type, e.g. "tool:before" or "custom:<name>"';
+        case 'regex':
+          return 'regular expression';
+        case 'url':
+          return 'http(s) URL';
+      }
+      return 'string';
+    case 'number': {
+      const kind = schema.integer ? 'integer' : 'number';
+      return schema.min !== undefined ? `${kind} >= ${schema.min}` : kind;
+    }
+    case 'literal':
+      return JSON.stringify(schema.value);
+    case 'array':
+      return `array of ${describeSchema(schema.items)}`;
+    case 'union':
+      return schema.options.map(describeSchema).join(' or ');
+    default:
+      return schema.type;
+  }
+};
+
+/**
+ * Whether `value` has the right JS type for `schema`, ignoring everything else.
+ */
+const hasSchemaType = (value: unknown, schema: Schema): boolean => {
+  switch (schema.type) {
+    case 'string':
+    case 'literal':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'union':
+      return schema.options.some(option => hasSchemaType(value, option));
+  }
+};
+
+const RGB_PATTERN = /^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/;
+const HSL_PATTERN =
+  /^hsl\(\s*(\d{1,3})\s*,\s*(\d{1,3})%\s*,\s*(\d{1,3})%\s*\)$/;
+const HEX_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+/**
+ * Checks a color string in any format Claude Code themes accept.  Returns a suggestion for
+ * fixing it, or null if it's valid.
+ */
+export const checkColor = (value: string): string | null => {
+  const rgb = value.match(RGB_PATTERN);
+  if (rgb) {
+    return rgb.slice(1).every(channel => Number(channel) <= 255)
+      ? null
+      : 'rgb() channels must be between 0 and 255';
+  }
+  const hsl = value.match(HSL_PATTERN);
+  if (hsl) {
+    return Number(hsl[1]) <= 360 &&
+      Number(hsl[2]) <= 100 &&
+      Number(hsl[3]) <= 100
+      ? null
+      : 'hsl() takes a hue up to 360 and percentages up to 100%';
+  }
+  if (HEX_PATTERN.test(value)) {
+    return null;
+  }
+  if (value.startsWith('ansi:')) {
+    const name = value.slice('ansi:'.length);
+    if (ANSI_COLOR_NAMES.includes(name)) {
+      return null;
+    }
+    const match = findClosestMatch(name, ANSI_COLOR_NAMES);
+    return match
+      ? `Did you mean "ansi:${match}"?`
+      : `ANSI colors are ${ANSI_COLOR_NAMES.map(n => `ansi:${n}`).join(', ')}`;
+  }
+  if (/^(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(value)) {
+    return `Did you mean "#${value}"?`;
+  }
+  return 'Use rgb(r,g,b), #rrggbb, hsl(h,s%,l%) or ansi:<name>, e.g. "rgb(215,119,87)"';
+};
+
+// ============================================================================
+// Structural validation
+// ============================================================================
+
+const checkString = (
+  value: string,
+  schema: Extract<Schema, { type: 'string' }>,
+  path: string,
+  issues: ConfigIssue[]
+): void => {
+  const fail = (message: string, suggestion?: string) =>
+    issues.push({
+      severity: 'error',
+      path,
+      message,
+      expected: describeSchema(schema),
+      actual: describeValue(value),
+      suggestion,
+    });
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail('Unknown value', didYouMean(value, schema.enum));
+  }
+  switch (schema.format) {
+    case 'color': {
+      const suggestion = checkColor(value);
+      if (suggestion) fail('Malformed color', suggestion);
+      break;
+    }
+    case 'event':
+      if (
+        !BUILTIN_EVENT_TYPES.includes(value as never) &&
+        !/^custom:.+/.test(value)
+      ) {
+        fail(
+          'Unknown event type',
+          didYouMean(value, BUILTIN_EVENT_TYPES) ??
+            'Prefix your own events with "custom:"'
+        );
+      }
+      break;
+    case 'regex':
+      try {
+        new RegExp(value);
+      } catch (error) {
+        fail(
+          `Invalid regular expression: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      break;
+    case 'url':
+      if (!/^https?:\/\/[^\s/]+/.test(value)) {
+        fail('Not an http(s) URL');
+      }
+      break;
+  }
+};
+
+const validateValue = (
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: ConfigIssue[]
+): void => {
+  if (schema.type === 'union') {
+    // Use the first option that matches; otherwise report the option with the right JS type
+    // (e.g. the array branch for an array), which gives the most specific errors.
+    let bestIssues: ConfigIssue[] | null = null;
+    for (const option of schema.options) {
+      const optionIssues: ConfigIssue[] = [];
+      validateValue(value, option, path, optionIssues);
+      if (!optionIssues.some(issue => issue.severity === 'error')) {
+        issues.push(...optionIssues);
+        return;
+      }
+      if (!bestIssues && hasSchemaType(value, option)) {
+        bestIssues = optionIssues;
+      }
+    }
+    if (bestIssues) {
+      issues.push(...bestIssues);
+    } else {
+      issues.push({
+        severity: 'error',
+        path,
+        message: 'Wrong type',
+        expected: describeSchema(schema),
+        actual: describeValue(value),
+      });
+    }
+    return;
+  }
+
+  if (!hasSchemaType(value, schema)) {
+    issues.push({
+      severity: 'error',
+      path,
+      message: 'Wrong type',
+      expected: describeSchema(schema),
+      actual: describeValue(value),
+    });
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      checkString(value as string, schema, path, issues);
+      break;
+    case 'literal':
+      if (value !== schema.value) {
+        issues.push({
+          severity: 'error',
+          path,
+          message: 'Unknown value',
+          expected: describeSchema(schema),
+          actual: describeValue(value),
+        });
+      }
+      break;
+    case 'number': {
+      const n = value as number;
+      if (
+        (schema.integer && !Number.isInteger(n)) ||
+        (schema.min !== undefined && n < schema.min)
+      ) {
+        issues.push({
+          severity: 'error',
+          path,
+          message: 'Out of range',
+          expected: describeSchema(schema),
+          actual: describeValue(value),
+        });
+      }
+      break;
+    }
+    case 'array': {
+      const items = value as unknown[];
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        issues.push({
+          severity: 'error',
+          path,
+          message: `Needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`,
+          expected: describeSchema(schema),
+          actual: describeValue(value),
+        });
+      }
+      items.forEach((item, index) =>
+        validateValue(item, schema.items, joinPath(path, index), issues)
+      );
+      break;
+    }
+    case 'object':
+      validateObject(value as Record<string, unknown>, schema, path, issues);
+      break;
+  }
+};
+
+const validateObject = (
+  value: Record<string, unknown>,
+  schema: Extract<Schema, { type: 'object' }>,
+  path: string,
+  issues: ConfigIssue[]
+): void => {
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    const propertyPath = joinPath(path, key);
+    if (!Object.hasOwn(value, key) || value[key] === undefined) {
+      if (!propertySchema.optional) {
+        issues.push({
+          severity: 'error',
+          path: propertyPath,
+          message: 'Missing required property',
+          expected: describeSchema(propertySchema),
+        });
+      }
+      continue;
+    }
+    validateValue(value[key], propertySchema, propertyPath, issues);
+  }
+
+  const knownKeys = Object.keys(schema.properties);
+  for (const key of Object.keys(value)) {
+    if (Object.hasOwn(schema.properties, key)) {
+      continue;
+    }
+    const propertyPath = joinPath(path, key);
+    if (schema.values) {
+      validateValue(value[key], schema.values, propertyPath, issues);
+    } else {
+      issues.push({
+        severity: 'warning',
+        path: propertyPath,
+        message: 'Unknown property; it will be ignored',
+        suggestion: didYouMean(key, knownKeys),
+      });
+    }
+  }
+};
+
+// ============================================================================
+// Checks across properties
+// ============================================================================
+
+const isKnownTool = (tool: string): boolean =>
+  CLAUDE_CODE_TOOLS.includes(tool) || tool.startsWith('mcp__');
+
+const checkTools = (
+  tools: unknown,
+  path: string,
+  issues: ConfigIssue[]
+): void => {
+  if (!Array.isArray(tools)) return;
+  tools.forEach((tool, index) => {
+    if (typeof tool === 'string' && !isKnownTool(tool)) {
+      issues.push({
+        severity: 'warning',
+        path: joinPath(path, index),
+        message: `Claude Code has no built-in tool named "${tool}"`,
+        suggestion:
+          didYouMean(tool, CLAUDE_CODE_TOOLS) ??
+          'MCP tools are named mcp__<server>__<tool>',
+      });
+    }
+  });
+};
+
+const checkUniqueIds = (
+  items: unknown,
+  key: string,
+  path: string,
+  issues: ConfigIssue[]
+): void => {
+  if (!Array.isArray(items)) return;
+  const seen = new Set<unknown>();
+  items.forEach((item, index) => {
+    if (!isPlainObject(item) || typeof item[key] !== 'string') return;
+    if (seen.has(item[key])) {
+      issues.push({
+        severity: 'error',
+        path: joinPath(joinPath(path, index), key),
+        message: `Duplicate ${key} ${JSON.stringify(item[key])}`,
+        suggestion: `Give each entry a unique ${key}`,
+      });
+    }
+    seen.add(item[key]);
+  });
+};
+
+const checkSettings = (
+  settings: unknown,
+  path: string,
+  issues: ConfigIssue[],
+  options: ValidateConfigOptions
+): void => {
+  if (!isPlainObject(settings)) return;
+
+  // Toolsets
+  const toolsets = Array.isArray(settings.toolsets) ? settings.toolsets : [];
+  const toolsetsPath = joinPath(path, 'toolsets');
+  checkUniqueIds(toolsets, 'name', toolsetsPath, issues);
+  toolsets.forEach((toolset, index) => {
+    if (isPlainObject(toolset)) {
+      checkTools(
+        toolset.allowedTools,
+        joinPath(joinPath(toolsetsPath, index), 'allowedTools'),
+        issues
+      );
+    }
+  });
+  const toolsetNames = toolsets
+    .filter(isPlainObject)
+    .map(toolset => toolset.name)
+    .filter((name): name is string => typeof name === 'string');
+  if (
+    typeof settings.defaultToolset === 'string' &&
+    !toolsetNames.includes(settings.defaultToolset)
+  ) {
+    issues.push({
+      severity: 'error',
+      path: joinPath(path, 'defaultToolset'),
+      message: `No toolset is named "${settings.defaultToolset}"`,
+      suggestion:
+        didYouMean(settings.defaultToolset, toolsetNames) ??
+        'Use the name of a toolset in settings.toolsets, or null',
+    });
+  }
+
+  // Event hooks: each handler type needs its matching property.
+  const events = isPlainObject(settings.events) ? settings.events : {};
+  const hooksPath = joinPath(joinPath(path, 'events'), 'hooks');
+  checkUniqueIds(events.hooks, 'id', hooksPath, issues);
+  if (Array.isArray(events.hooks)) {
+    events.hooks.forEach((hook, index) => {
+      if (!isPlainObject(hook)) return;
+      const hookPath = joinPath(hooksPath, index);
+      if (
+        typeof hook.type === 'string' &&
+        EVENT_HANDLER_TYPES.includes(hook.type as never) &&
+        hook[hook.type] === undefined
+      ) {
+        issues.push({
+          severity: 'error',
+          path: joinPath(hookPath, hook.type),
+          message: `Hooks of type "${hook.type}" need a "${hook.type}" property`,
+          expected: 'string',
+        });
+      }
+      if (hook.inProcess === true && hook.type !== 'script') {
+        issues.push({
+          severity: 'warning',
+          path: joinPath(hookPath, 'inProcess'),
+          message: 'Only script hooks can run in-process; it will be ignored',
+        });
+      }
+      if (isPlainObject(hook.filter)) {
+        const filterPath = joinPath(hookPath, 'filter');
+        checkTools(hook.filter.tools, joinPath(filterPath, 'tools'), issues);
+        checkTools(
+          hook.filter.toolsExclude,
+          joinPath(filterPath, 'toolsExclude'),
+          issues
+        );
+      }
+    });
+  }
+
+  // Transforms
+  const transforms = isPlainObject(settings.transforms)
+    ? settings.transforms
+    : {};
+  const transformsPath = joinPath(joinPath(path, 'transforms'), 'transforms');
+  checkUniqueIds(transforms.transforms, 'id', transformsPath, issues);
+  if (Array.isArray(transforms.transforms)) {
+    transforms.transforms.forEach((transform, index) => {
+      if (isPlainObject(transform) && isPlainObject(transform.filter)) {
+        checkTools(
+          transform.filter.tools,
+          joinPath(
+            joinPath(joinPath(transformsPath, index), 'filter'),
+            'tools'
+          ),
+          issues
+        );
+      }
+    });
+  }
+
+  // Patches
+  if (options.knownPatchIds && isPlainObject(settings.patches)) {
+    for (const id of Object.keys(settings.patches)) {
+      if (!options.knownPatchIds.includes(id)) {
+        issues.push({
+          severity: 'warning',
+          path: joinPath(joinPath(path, 'patches'), id),
+          message: `Unknown patch "${id}"; it will be ignored`,
+          suggestion: didYouMean(id, options.knownPatchIds),
+        });
+      }
+    }
+  }
+};
+
+/**
+ * Validates a parsed config.json against the TweakccConfig schema.
+ */
+export const validateConfig = (
+  config: unknown,
+  options: ValidateConfigOptions = {}
+): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  validateValue(config, configSchema, '', issues);
+  if (isPlainObject(config)) {
+    checkSettings(config.settings, 'settings', issues, options);
+    if (isPlainObject(config.profiles)) {
+      for (const [name, profile] of Object.entries(config.profiles)) {
+        if (isPlainObject(profile)) {
+          checkSettings(
+            profile.settings,
+            joinPath(joinPath('profiles', name), 'settings'),
+            issues,
+            options
+          );
+        }
+      }
+    }
+  }
+  return issues;
+};
+
+/**
+ * Reads and validates the config file.  A missing file is valid (the defaults are used).
+ */
+export const validateConfigFile = async (
+  options: ValidateConfigOptions = {},
+  file = CONFIG_FILE
+): Promise<ConfigIssue[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    return [
+      {
+        severity: 'error',
+        path: '',
+        message: `Not valid JSON: ${error instanceof Error ? error.message : error}`,
+      },
+    ];
+  }
+  // Old configs are checked as they'll be after readConfigFile() migrates them.
+  return validateConfig(migrateConfig(config).config, options);
+};
+
+export const hasConfigErrors = (issues: ConfigIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'error');
+
+/**
+ * Prints config issues, errors first.
+ */
+export const printConfigIssues = (issues: ConfigIssue[]): void => {
+  const sorted = [...issues].sort(
+    (a, b) =>
+      (a.severity === 'error' ? 0 : 1) - (b.severity === 'error' ? 0 : 1)
+  );
+  for (const issue of sorted) {
+    const label =
+      issue.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
+    console.log(
+      `${label} ${chalk.bold(issue.path || '(root)')}: ${issue.message}`
+    );
+    if (issue.expected) {
+      console.log(chalk.gray(`  expected: ${issue.expected}`));
+    }
+    if (issue.actual) {
+      console.log(chalk.gray(`  actual:   ${issue.actual}`));
+    }
+    if (issue.suggestion) {
+      console.log(chalk.cyan(`  ${issue.suggestion}`));
+    }
+  }
+};
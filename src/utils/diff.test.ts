@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, formatUnifiedDiff } from './diff.js';
+
+describe('diffLines', () => {
+  it('returns only equal ops for identical input', () => {
+    const ops = diffLines(['a', 'b'], ['a', 'b']);
+    expect(ops.every(op => op.type === 'equal')).toBe(true);
+    expect(ops.map(op => op.line)).toEqual(['a', 'b']);
+  });
+
+  it('finds a minimal set of inserts and deletes', () => {
+    const ops = diffLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e']);
+    expect(ops).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'delete', line: 'b' },
+      { type: 'insert', line: 'x' },
+      { type: 'equal', line: 'c' },
+      { type: 'equal', line: 'd' },
+      { type: 'insert', line: 'e' },
+    ]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ['a'])).toEqual([{ type: 'insert', line: 'a' }]);
+    expect(diffLines(['a'], [])).toEqual([{ type: 'delete', line: 'a' }]);
+  });
+
+  it('reconstructs both sides', () => {
+    const a = ['1', '2', '3', '4', '5', '6', '7'];
+    const b = ['0', '1', '3', '4', 'x', '6', '7', '8'];
+    const ops = diffLines(a, b);
+    expect(ops.filter(op => op.type !== 'insert').map(op => op.line)).toEqual(
+      a
+    );
+    expect(ops.filter(op => op.type !== 'delete').map(op => op.line)).toEqual(
+      b
+    );
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('returns an empty string when nothing changed', () => {
+    const ops = diffLines(['a'], ['a']);
+    expect(formatUnifiedDiff(ops, { oldLabel: 'a', newLabel: 'b' })).toBe('');
+  });
+
+  it('formats hunks with context and line numbers', () => {
+    const a = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
+    const b = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10'];
+    const diff = formatUnifiedDiff(diffLines(a, b), {
+      oldLabel: 'a/cli.js',
+      newLabel: 'b/cli.js',
+      context: 2,
+      oldStartLine: 100,
+      newStartLine: 100,
+      hunkHeading: 'themes',
+    });
+    expect(diff).toBe(
+      [
+        '--- a/cli.js',
+        '+++ b/cli.js',
+        '@@ -102,5 +102,5 @@ themes',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const a = Array.from({ length: 20 }, (_, i) => String(i));
+    const b = [...a];
+    b[1] = 'x';
+    b[18] = 'y';
+    const diff = formatUnifiedDiff(diffLines(a, b), {
+      oldLabel: 'a',
+      newLabel: 'b',
+    });
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Line-based diffing utilities (Myers' O(ND) algorithm) and unified diff formatting.
+ */
+
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Computes a minimal line diff between `a` and `b`.
+ *
+ * Common prefix/suffix lines are stripped before running Myers' algorithm, and only the
+ * diagonals that were actually visited are kept for backtracking, so memory use is O(D^2)
+ * rather than O((N+M)^2).  This keeps it usable on pretty-printed multi-megabyte files as
+ * long as the number of differing lines is small.
+ */
+export const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const aMid = a.slice(start, endA);
+  const bMid = b.slice(start, endB);
+  const n = aMid.length;
+  const m = bMid.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  // Forward pass.  trace[d] holds V[-(d+1)..(d+1)] as it was *before* step d.
+  let done = n === 0 && m === 0;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && aMid[x] === bMid[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  // Backtrack from (n, m) to (0, 0).
+  const middle: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const base = d + 1;
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[base + k - 1] < vd[base + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = vd[base + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      middle.push({ type: 'equal', line: aMid[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        middle.push({ type: 'insert', line: bMid[y - 1] });
+      } else {
+        middle.push({ type: 'delete', line: aMid[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  middle.reverse();
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: 'equal' as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ type: 'equal' as const, line })),
+  ];
+};
+
+export interface UnifiedDiffOptions {
+  oldLabel: string;
+  newLabel: string;
+  context?: number; // Lines of context around each change (default: 3)
+  oldStartLine?: number; // 1-based line number of the first line of `a` (default: 1)
+  newStartLine?: number; // 1-based line number of the first line of `b` (default: 1)
+  hunkHeading?: string; // Text appended after each @@ ... @@ header
+}
+
+/**
+ * Formats a list of diff operations as a unified diff.  Returns an empty string if there
+ * are no changes.
+ */
+export const formatUnifiedDiff = (
+  ops: DiffOp[],
+  options: UnifiedDiffOptions
+): string => {
+  const context = options.context ?? 3;
+  const changeIndices: number[] = [];
+  ops.forEach((op, i) => {
+    if (op.type !== 'equal') changeIndices.push(i);
+  });
+  if (changeIndices.length === 0) {
+    return '';
+  }
+
+  // Group changes that are close enough to share context into hunks.
+  const groups: Array<{ from: number; to: number }> = [];
+  for (const i of changeIndices) {
+    const last = groups[groups.length - 1];
+    if (last && i - last.to <= 2 * context + 1) {
+      last.to = i;
+    } else {
+      groups.push({ from: i, to: i });
+    }
+  }
+
+  // Line numbers (1-based) of the old/new file at the start of each op.
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = options.oldStartLine ?? 1;
+  let newLine = options.newStartLine ?? 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  const lines = [`--- ${options.oldLabel}`, `+++ ${options.newLabel}`];
+  for (const group of groups) {
+    const from = Math.max(0, group.from - context);
+    const to = Math.min(ops.length - 1, group.to + context);
+    const hunkOps = ops.slice(from, to + 1);
+    const oldCount = hunkOps.filter(op => op.type !== 'insert').length;
+    const newCount = hunkOps.filter(op => op.type !== 'delete').length;
+    // Per the unified diff format, an empty range starts at the line *before* it.
+    const oldStart = oldCount === 0 ? oldLineAt[from] - 1 : oldLineAt[from];
+    const newStart = newCount === 0 ? newLineAt[from] - 1 : newLineAt[from];
+    const heading = options.hunkHeading ? ` ${options.hunkHeading}` : '';
+
+    lines.push(
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${heading}`
+    );
+    for (const op of hunkOps) {
+      const prefix =
+        op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      lines.push(prefix + op.line);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const { cacheDir, extractedDir } = await vi.hoisted(async () => {
+  const os = await import('node:os');
+  const path = await import('node:path');
+  return {
+    cacheDir: path.join(os.tmpdir(), `tweakcc-download-test-${process.pid}`),
+    extractedDir: path.join(
+      os.tmpdir(),
+      `tweakcc-download-test-extracted-${process.pid}`
+    ),
+  };
+});
+
+vi.mock('./types.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./types.js')>()),
+  PROMPT_CACHE_DIR: cacheDir,
+  EXTRACTED_PROMPTS_DIR: extractedDir,
+}));
+
+import {
+  configurePromptData,
+  downloadStringsFile,
+  findBundledDataPath,
+  findPackageRoot,
+} from './download.js';
+
+const UNKNOWN_VERSION = '0.0.0-test';
+const SAMPLE = { version: UNKNOWN_VERSION, prompts: [] };
+
+describe('downloadStringsFile', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let userDir: string;
+
+  beforeEach(async () => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    userDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-prompts-'));
+    configurePromptData(undefined, false);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await fs.rm(userDir, { recursive: true, force: true });
+    await fs.rm(cacheDir, { recursive: true, force: true });
+    await fs.rm(extractedDir, { recursive: true, force: true });
+  });
+
+  it('should load versions bundled in data/prompts without the network', async () => {
+    configurePromptData(undefined, true);
+    const stringsFile = await downloadStringsFile('2.0.14');
+    expect(stringsFile.prompts.length).toBeGreaterThan(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should load from the configured directory', async () => {
+    await fs.writeFile(
+      path.join(userDir, `prompts-${UNKNOWN_VERSION}.json`),
+      JSON.stringify(SAMPLE)
+    );
+    configurePromptData({ dir: userDir }, true);
+
+    expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fail without touching the network when offline', async () => {
+    configurePromptData({ mirrorUrl: 'https://mirror.example' }, true);
+    await expect(downloadStringsFile(UNKNOWN_VERSION)).rejects.toThrow(
+      /not available offline/
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should try the mirror before GitHub and cache the result', async () => {
+    fetchMock.mockResolvedValue({ ok: true, json: async () => SAMPLE });
+    configurePromptData(
+      { mirrorUrl: 'https://mirror.example/prompts/' },
+      false
+    );
+
+    expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `https://mirror.example/prompts/prompts-${UNKNOWN_VERSION}.json`
+    );
+
+    // Second call is served from the cache.
+    expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to GitHub when the mirror fails', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      })
+      .mockResolvedValueOnce({ ok: true, json: async () => SAMPLE });
+    configurePromptData({ mirrorUrl: 'https://mirror.example' }, false);
+
+    expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toContain('raw.githubusercontent.com');
+  });
+
+  it('should fall back to extracted prompt data when not published', async () => {
+    await fs.mkdir(extractedDir, { recursive: true });
+    await fs.writeFile(
+      path.join(extractedDir, `prompts-${UNKNOWN_VERSION}.json`),
+      JSON.stringify(SAMPLE)
+    );
+    fetchMock.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+    });
+
+    expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Extracted data isn't cached, so published data replaces it once available.
+    await expect(
+      fs.stat(path.join(cacheDir, `prompts-${UNKNOWN_VERSION}.json`))
+    ).rejects.toThrow();
+
+    configurePromptData(undefined, true);
+    expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+  });
+
+  it('should prefer environment variables over config', async () => {
+    await fs.writeFile(
+      path.join(userDir, `prompts-${UNKNOWN_VERSION}.json`),
+      JSON.stringify(SAMPLE)
+    );
+    vi.stubEnv('TWEAKCC_PROMPTS_DIR', userDir);
+    try {
+      configurePromptData({ dir: '/nonexistent' }, true);
+      expect(await downloadStringsFile(UNKNOWN_VERSION)).toEqual(SAMPLE);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe('findPackageRoot', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-package-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should find the nearest package.json named tweakcc, skipping other packages'", async () => {
+    const root = path.join(dir, 'node_modules', 'tweakcc');
+    const nested = path.join(root, 'node_modules', 'other', 'dist');
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(
+      path.join(root, 'package.json'),
+      JSON.stringify({ name: 'tweakcc' })
+    );
+    await fs.writeFile(
+      path.join(root, 'node_modules', 'other', 'package.json'),
+      JSON.stringify({ name: 'other' })
+    );
+
+    expect(findPackageRoot(nested)).toBe(root);
+    expect(findPackageRoot(root)).toBe(root);
+  });
+
+  it('should return null outside a tweakcc package', () => {
+    expect(findPackageRoot(dir)).toBeNull();
+  });
+
+  it("should only look in the package's data directory", () => {
+    const root = findPackageRoot(path.dirname(fileURLToPath(import.meta.url)))!;
+    expect(findBundledDataPath('prompts')).toBe(
+      path.join(root, 'data', 'prompts')
+    );
+    expect(findBundledDataPath('no-such-file')).toBeNull();
+  });
+});
@@ -1,44 +1,145 @@
 import * as fs from 'node:fs/promises';
+import * as fsSync from 'node:fs';
 import * as path from 'path';
+import { fileURLToPath } from 'node:url';
 import type { StringsFile } from './promptSync.js';
-import { PROMPT_CACHE_DIR } from './types.js';
+import {
+  EXTRACTED_PROMPTS_DIR,
+  PROMPT_CACHE_DIR,
+  PromptDataConfig,
+} from './types.js';
+
+const GITHUB_PROMPTS_URL =
+  'https://raw.githubusercontent.com/Piebald-AI/tweakcc/refs/heads/main/data/prompts';
 
 /**
- * Downloads the strings file for a given CC version from GitHub
- * Checks cache first before downloading
- * @param version - Version string in format "X.Y.Z" (e.g., "2.0.30")
- * @returns Promise that resolves to the parsed JSON content
+ * Where prompt data may be loaded from, in addition to the cache and the copy bundled
+ * with tweakcc.  Set once at startup by configurePromptData().
  */
-export async function downloadStringsFile(
+interface PromptDataOptions extends PromptDataConfig {
+  offline: boolean; // Never touch the network
+}
+
+let promptDataOptions: PromptDataOptions = { offline: false };
+
+/**
+ * Configures the prompt data resolution chain used by downloadStringsFile().  The
+ * TWEAKCC_PROMPTS_DIR and TWEAKCC_PROMPTS_MIRROR environment variables take precedence
+ * over config.json's `promptData` settings.
+ */
+export const configurePromptData = (
+  config: PromptDataConfig | undefined,
+  offline: boolean
+): void => {
+  promptDataOptions = {
+    dir: process.env.TWEAKCC_PROMPTS_DIR || config?.dir,
+    mirrorUrl: process.env.TWEAKCC_PROMPTS_MIRROR || config?.mirrorUrl,
+    offline,
+  };
+};
+
+/**
+ * Finds the root of the tweakcc package containing `dir`: the nearest directory at or above it
+ * with a package.json named "tweakcc".  Returns null if there isn't one.
+ */
+export const findPackageRoot = (dir: string): string | null => {
+  while (true) {
+    try {
+      const packageJson = JSON.parse(
+        fsSync.readFileSync(path.join(dir, 'package.json'), 'utf8')
+      );
+      if (packageJson.name === 'tweakcc') {
+        return dir;
+      }
+    } catch {
+      // No package.json, or not valid JSON
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+};
+
+/**
+ * Finds a file or directory in the data directory shipped with tweakcc.  This module lives in
+ * src/utils when run from source and is bundled into dist/index.js when built, so the data
+ * directory is found relative to the package root rather than to this file.
+ */
+export const findBundledDataPath = (name: string): string | null => {
+  const root = findPackageRoot(path.dirname(fileURLToPath(import.meta.url)));
+  if (!root) {
+    return null;
+  }
+  const candidate = path.join(root, 'data', name);
+  return fsSync.existsSync(candidate) ? candidate : null;
+};
+
+/**
+ * Local directories that may contain published prompt data, in the order they're checked.
+ */
+export const getLocalPromptDataDirs = (): string[] =>
+  [
+    PROMPT_CACHE_DIR,
+    findBundledDataPath('prompts'),
+    promptDataOptions.dir,
+  ].filter((dir): dir is string => !!dir);
+
+const readStringsFileFromDir = async (
+  dir: string,
   version: string
-): Promise<StringsFile> {
-  // Check cache first
-  const cacheFilePath = path.join(PROMPT_CACHE_DIR, `prompts-${version}.json`);
+): Promise<StringsFile | null> => {
+  const filePath = path.join(dir, `prompts-${version}.json`);
   try {
-    const cachedContent = await fs.readFile(cacheFilePath, 'utf-8');
-    const cached = JSON.parse(cachedContent) as StringsFile;
-    return cached;
+    const content = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(content) as StringsFile;
   } catch {
-    // Cache miss or invalid - proceed to download
+    // Missing or invalid - try the next source
+    return null;
   }
+};
 
-  // Construct the GitHub raw URL
-  const url = `https://raw.githubusercontent.com/Piebald-AI/tweakcc/refs/heads/main/data/prompts/prompts-${version}.json`;
+const writeToCache = async (
+  version: string,
+  stringsFile: StringsFile
+): Promise<void> => {
+  const cacheFilePath = path.join(PROMPT_CACHE_DIR, `prompts-${version}.json`);
+  try {
+    await fs.mkdir(PROMPT_CACHE_DIR, { recursive: true });
+    await fs.writeFile(
+      cacheFilePath,
+      JSON.stringify(stringsFile, null, 2),
+      'utf-8'
+    );
+  } catch (cacheError) {
+    console.warn(`Failed to write to cache to ${cacheFilePath}: ${cacheError}`);
+  }
+};
 
+/**
+ * Fetches a strings file over HTTP.  `isGitHub` selects GitHub-specific error messages.
+ */
+const fetchStringsFile = async (
+  url: string,
+  version: string,
+  isGitHub: boolean
+): Promise<StringsFile> => {
   try {
-    // Fetch the file from GitHub
     const response = await fetch(url);
 
     if (!response.ok) {
       // Provide specific error messages for common HTTP errors
       let errorMessage: string;
-      if (response.status === 429) {
+      if (response.status === 429 && isGitHub) {
         errorMessage =
           'Rate limit exceeded. GitHub has temporarily blocked requests. Please wait a few minutes and try again.';
-      } else if (response.status === 404) {
+      } else if (response.status === 404 && isGitHub) {
         errorMessage = `Prompts file not found for Claude Code v${version}. This version was released within the past day or so and will be supported within a few hours.`;
+      } else if (response.status === 404) {
+        errorMessage = `Prompts file not found for Claude Code v${version} at ${url}.`;
       } else if (response.status >= 500) {
-        errorMessage = `GitHub server error (${response.status}). Please try again later.`;
+        errorMessage = `${isGitHub ? 'GitHub server' : 'Server'} error (${response.status}). Please try again later.`;
       } else {
         errorMessage = `HTTP ${response.status}: ${response.statusText}`;
       }
@@ -48,23 +149,7 @@ export async function downloadStringsFile(
     }
 
     // Parse JSON directly
-    const jsonData = (await response.json()) as StringsFile;
-
-    // Save to cache
-    try {
-      await fs.mkdir(PROMPT_CACHE_DIR, { recursive: true });
-      await fs.writeFile(
-        cacheFilePath,
-        JSON.stringify(jsonData, null, 2),
-        'utf-8'
-      );
-    } catch (cacheError) {
-      console.warn(
-        `Failed to write to cache to ${cacheFilePath}: ${cacheError}`
-      );
-    }
-
-    return jsonData;
+    return (await response.json()) as StringsFile;
   } catch (error) {
     if (error instanceof Error) {
       // If it's already our custom error with the message displayed, re-throw it
@@ -72,6 +157,7 @@ export async function downloadStringsFile(
         error.message.includes('Rate limit') ||
         error.message.includes('not found') ||
         error.message.includes('server error') ||
+        error.message.includes('Server error') ||
         error.message.includes('HTTP')
       ) {
         throw error;
@@ -82,6 +168,83 @@ export async function downloadStringsFile(
     }
     throw error;
   }
+};
+
+/**
+ * Loads the strings file for a given CC version.  Sources are tried in order:
+ *
+ * 1. The prompt data cache (PROMPT_CACHE_DIR)
+ * 2. The data/prompts directory bundled with tweakcc
+ * 3. The user-configured directory (`promptData.dir` / TWEAKCC_PROMPTS_DIR)
+ * 4. The user-configured mirror (`promptData.mirrorUrl` / TWEAKCC_PROMPTS_MIRROR)
+ * 5. GitHub
+ * 6. Prompt data generated by `tweakcc prompts extract` (EXTRACTED_PROMPTS_DIR)
+ *
+ * Downloaded files are cached.  In offline mode (see configurePromptData) steps 4 and 5
+ * are skipped, so the network is never touched.
+ * @param version - Version string in format "X.Y.Z" (e.g., "2.0.30")
+ * @returns Promise that resolves to the parsed JSON content
+ */
+export async function downloadStringsFile(
+  version: string
+): Promise<StringsFile> {
+  const localDirs = getLocalPromptDataDirs();
+
+  for (const dir of localDirs) {
+    const stringsFile = await readStringsFileFromDir(dir, version);
+    if (stringsFile) {
+      return stringsFile;
+    }
+  }
+
+  if (promptDataOptions.offline) {
+    const extracted = await readStringsFileFromDir(
+      EXTRACTED_PROMPTS_DIR,
+      version
+    );
+    if (extracted) {
+      return extracted;
+    }
+    throw new Error(
+      `Prompts file for Claude Code v${version} is not available offline (looked in ${localDirs.join(', ')}). Run without --offline, run 'tweakcc prompts extract', or set TWEAKCC_PROMPTS_DIR to a directory containing prompts-${version}.json.`
+    );
+  }
+
+  let stringsFile: StringsFile | null = null;
+  if (promptDataOptions.mirrorUrl) {
+    const mirrorUrl = `${promptDataOptions.mirrorUrl.replace(/\/+$/, '')}/prompts-${version}.json`;
+    try {
+      stringsFile = await fetchStringsFile(mirrorUrl, version, false);
+    } catch (error) {
+      console.warn(
+        `Failed to download prompts from mirror ${mirrorUrl}, falling back to GitHub: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  if (!stringsFile) {
+    try {
+      stringsFile = await fetchStringsFile(
+        `${GITHUB_PROMPTS_URL}/prompts-${version}.json`,
+        version,
+        true
+      );
+    } catch (error) {
+      // Not published (yet); use locally extracted data if the user has generated it.
+      // It isn't cached so that published data replaces it once available.
+      const extracted = await readStringsFileFromDir(
+        EXTRACTED_PROMPTS_DIR,
+        version
+      );
+      if (extracted) {
+        return extracted;
+      }
+      throw error;
+    }
+  }
+
+  await writeToCache(version, stringsFile);
+  return stringsFile;
 }
 
 /**
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  checkKnownHash,
+  importKnownHashes,
+  mergeKnownHashes,
+  parseKnownHashes,
+} from './hashRegistry.js';
+
+const HASH_A = 'a'.repeat(64);
+const HASH_B = 'b'.repeat(64);
+
+describe('hashRegistry', () => {
+  it('should validate registry files', () => {
+    expect(
+      parseKnownHashes({ '2.0.31': { npm: [HASH_A.toUpperCase()] } })
+    ).toEqual({ '2.0.31': { npm: [HASH_A] } });
+    expect(() => parseKnownHashes([])).toThrow('Expected an object');
+    expect(() => parseKnownHashes({ latest: {} })).toThrow(
+      '"latest" is not a Claude Code version'
+    );
+    expect(() => parseKnownHashes({ '2.0.31': { brew: [] } })).toThrow(
+      'unknown installation type "brew"'
+    );
+    expect(() => parseKnownHashes({ '2.0.31': { npm: ['abc'] } })).toThrow(
+      '2.0.31.npm: expected an array of SHA-256 hashes'
+    );
+  });
+
+  it('should check hashes by version and installation type', () => {
+    const registry = mergeKnownHashes(
+      { '2.0.31': { npm: [HASH_A] } },
+      { '2.0.31': { npm: [HASH_A], native: [HASH_B] } }
+    );
+    expect(registry).toEqual({
+      '2.0.31': { npm: [HASH_A], native: [HASH_B] },
+    });
+
+    expect(checkKnownHash(registry, '2.0.31', 'npm', HASH_A)).toBe(
+      'known-good'
+    );
+    expect(checkKnownHash(registry, '2.0.31', 'npm', HASH_B)).toBe('modified');
+    expect(checkKnownHash(registry, '2.0.32', 'npm', HASH_A)).toBe('unknown');
+  });
+
+  it('should import registry files into the user registry', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-hashes-'));
+    try {
+      const userFile = path.join(dir, 'known-hashes.json');
+      const importFile = path.join(dir, 'import.json');
+
+      await fs.writeFile(
+        importFile,
+        JSON.stringify({ '2.0.31': { npm: [HASH_A], native: [HASH_B] } })
+      );
+      expect(await importKnownHashes(importFile, userFile)).toBe(2);
+      expect(await importKnownHashes(importFile, userFile)).toBe(0);
+      expect(JSON.parse(await fs.readFile(userFile, 'utf8'))).toEqual({
+        '2.0.31': { npm: [HASH_A], native: [HASH_B] },
+      });
+
+      await fs.writeFile(importFile, '{"2.0.31": {"npm": "oops"}}');
+      await expect(importKnownHashes(importFile, userFile)).rejects.toThrow(
+        `Invalid hash registry ${importFile}`
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { KNOWN_HASHES_FILE } from './types.js';
+import { findBundledDataPath } from './download.js';
+import { InstallationType } from './installations.js';
+
+// Registry of the SHA-256 hashes of unmodified Claude Code builds, so tweakcc can tell whether
+// a file is pristine before backing it up.  For npm installs the hash is of cli.js; for native
+// installs it's of the JS embedded in the binary (see extractClaudeJsFromNativeInstallation).
+// The registry shipped in data/known-hashes.json is merged with the user's own known-hashes.json,
+// which `tweakcc hashes import` adds to.  Both have this format:
+//
+//   { "2.0.31": { "npm": ["<sha256>"], "native": ["<sha256>"] } }
+
+export type KnownHashes = Record<
+  string,
+  Partial<Record<InstallationType, string[]>>
+>;
+
+export type HashStatus =
+  | 'known-good' // Matches a published hash
+  | 'modified' // There are published hashes for this version and type, but none match
+  | 'unknown'; // No published hashes for this version and type
+
+const INSTALLATION_TYPES: InstallationType[] = ['npm', 'native'];
+
+/**
+ * Checks that `value` is a registry in the format above, returning it with every hash in
+ * lowercase.  Throws an error naming the first problem found.
+ */
+export const parseKnownHashes = (value: unknown): KnownHashes => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Expected an object mapping versions to hashes');
+  }
+  const registry: KnownHashes = {};
+  for (const [version, entry] of Object.entries(value)) {
+    if (!/^\d+\.\d+\.\d+/.test(version)) {
+      throw new Error(`"${version}" is not a Claude Code version`);
+    }
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new Error(`${version}: expected an object with "npm"/"native"`);
+    }
+    registry[version] = {};
+    for (const [type, hashes] of Object.entries(entry)) {
+      if (!INSTALLATION_TYPES.includes(type as InstallationType)) {
+        throw new Error(
+          `${version}: unknown installation type "${type}" (expected "npm" or "native")`
+        );
+      }
+      if (
+        !Array.isArray(hashes) ||
+        !hashes.every(h => typeof h === 'string' && /^[0-9a-f]{64}$/i.test(h))
+      ) {
+        throw new Error(
+          `${version}.${type}: expected an array of SHA-256 hashes (64 hex digits)`
+        );
+      }
+      registry[version][type as InstallationType] = hashes.map(h =>
+        h.toLowerCase()
+      );
+    }
+  }
+  return registry;
+};
+
+/**
+ * Merges registries; hashes listed in any of them are kept.
+ */
+export const mergeKnownHashes = (...registries: KnownHashes[]): KnownHashes => {
+  const merged: KnownHashes = {};
+  for (const registry of registries) {
+    for (const [version, entry] of Object.entries(registry)) {
+      merged[version] ??= {};
+      for (const type of INSTALLATION_TYPES) {
+        const hashes = [
+          ...(merged[version][type] ?? []),
+          ...(entry[type] ?? []),
+        ];
+        if (hashes.length > 0) {
+          merged[version][type] = [...new Set(hashes)];
+        }
+      }
+    }
+  }
+  return merged;
+};
+
+const readKnownHashesFile = async (file: string): Promise<KnownHashes> => {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+  try {
+    return parseKnownHashes(JSON.parse(content));
+  } catch (error) {
+    throw new Error(
+      `Invalid hash registry ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+};
+
+/**
+ * Loads the registry shipped with tweakcc merged with the user's.
+ */
+export const loadKnownHashes = async (
+  userFile: string = KNOWN_HASHES_FILE
+): Promise<KnownHashes> => {
+  const bundledFile = findBundledDataPath('known-hashes.json');
+  return mergeKnownHashes(
+    bundledFile ? await readKnownHashesFile(bundledFile) : {},
+    await readKnownHashesFile(userFile)
+  );
+};
+
+/**
+ * Adds the hashes in `file` to the user's registry.  Returns the number of hashes that weren't
+ * already in it.
+ */
+export const importKnownHashes = async (
+  file: string,
+  userFile: string = KNOWN_HASHES_FILE
+): Promise<number> => {
+  const imported = await readKnownHashesFile(file);
+  const existing = await readKnownHashesFile(userFile);
+  const merged = mergeKnownHashes(existing, imported);
+  await fs.mkdir(path.dirname(userFile), { recursive: true });
+  await fs.writeFile(userFile, JSON.stringify(merged, null, 2));
+  return countHashes(merged) - countHashes(existing);
+};
+
+export const countHashes = (registry: KnownHashes): number =>
+  Object.values(registry).reduce(
+    (count, entry) =>
+      count +
+      INSTALLATION_TYPES.reduce((n, t) => n + (entry[t]?.length ?? 0), 0),
+    0
+  );
+
+/**
+ * Looks up the hash of a version's cli.js (npm) or embedded JS (native) in the registry.
+ */
+export const checkKnownHash = (
+  registry: KnownHashes,
+  version: string,
+  type: InstallationType,
+  sha256: string
+): HashStatus => {
+  const hashes = registry[version]?.[type];
+  if (!hashes || hashes.length === 0) {
+    return 'unknown';
+  }
+  return hashes.includes(sha256.toLowerCase()) ? 'known-good' : 'modified';
+};
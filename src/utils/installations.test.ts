@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import { BACKUPS_DIR } from './types.js';
+import {
+  findTweakccMarkers,
+  getBackupDir,
+  getBackupFile,
+  getInstallationBackupsDir,
+  getInstallationType,
+  isSameInstallation,
+} from './installations.js';
+
+const npmInstall = {
+  cliPath: '/usr/lib/node_modules/@anthropic-ai/claude-code/cli.js',
+  version: '2.0.0',
+};
+const nativeInstall = {
+  nativeInstallationPath: '/home/user/.local/bin/claude',
+  version: '2.0.0',
+};
+
+describe('installations', () => {
+  it('should find tweakcc markers', () => {
+    expect(findTweakccMarkers('var x=1;')).toEqual([]);
+    expect(
+      findTweakccMarkers(
+        'globalThis.TWEAKCC_EVENTS=[];function getTweakccBaseDir(){}'
+      )
+    ).toEqual(['TWEAKCC_EVENTS', 'getTweakccBaseDir']);
+  });
+
+  it('should keep a separate backup for each installation', () => {
+    const otherNpmInstall = {
+      cliPath:
+        '/home/user/.nvm/lib/node_modules/@anthropic-ai/claude-code/cli.js',
+      version: '2.0.0',
+    };
+
+    expect(getInstallationType(npmInstall)).toBe('npm');
+    expect(getInstallationType(nativeInstall)).toBe('native');
+    expect(path.dirname(getInstallationBackupsDir(npmInstall))).toBe(
+      BACKUPS_DIR
+    );
+    expect(path.basename(getInstallationBackupsDir(npmInstall))).toMatch(
+      /^npm-[0-9a-f]{12}$/
+    );
+    expect(path.basename(getInstallationBackupsDir(nativeInstall))).toMatch(
+      /^native-[0-9a-f]{12}$/
+    );
+    expect(getInstallationBackupsDir(otherNpmInstall)).not.toBe(
+      getInstallationBackupsDir(npmInstall)
+    );
+
+    // ...with a directory per version
+    expect(getBackupDir(npmInstall)).toBe(
+      path.join(getInstallationBackupsDir(npmInstall), '2.0.0')
+    );
+    expect(getBackupDir(npmInstall, '1.0.0')).toBe(
+      getBackupDir({ ...npmInstall, version: '1.0.0' })
+    );
+
+    expect(path.basename(getBackupFile(npmInstall))).toBe('cli.js.backup');
+    expect(path.basename(getBackupFile(nativeInstall))).toBe(
+      'native-binary.backup'
+    );
+  });
+
+  it('should compare installations by path', () => {
+    expect(
+      isSameInstallation(npmInstall, { ...npmInstall, version: '1.0.0' })
+    ).toBe(true);
+    expect(isSameInstallation(npmInstall, nativeInstall)).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import * as crypto from 'node:crypto';
+import * as path from 'node:path';
+import { BACKUPS_DIR, ClaudeCodeInstallationInfo } from './types.js';
+
+// Helpers for telling Claude Code installations apart.  A machine can have several at once
+// (e.g. a global npm install, one per nvm Node version and a native binary); each one gets its
+// own backup directory, with a subdirectory per backed up version (see backups.ts).
+
+export type InstallationType = 'npm' | 'native';
+
+/**
+ * Strings that only appear in Claude Code once tweakcc has patched it.
+ */
+export const TWEAKCC_MARKERS = [
+  'TWEAKCC_EVENTS',
+  'TWEAKCC_TRANSFORMS',
+  'getTweakccBaseDir',
+  'tweakcc patches are applied',
+  '(tweakcc)',
+  'Toolsets are managed with tweakcc',
+];
+
+/**
+ * Returns the tweakcc markers found in `content`; an empty list means it's unpatched.
+ */
+export const findTweakccMarkers = (content: string): string[] =>
+  TWEAKCC_MARKERS.filter(marker => content.includes(marker));
+
+export const getInstallationType = (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): InstallationType => (ccInstInfo.nativeInstallationPath ? 'native' : 'npm');
+
+/**
+ * The file tweakcc patches: cli.js for npm installs, the binary for native ones.
+ */
+export const getInstallationPath = (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): string => ccInstInfo.nativeInstallationPath ?? ccInstInfo.cliPath!;
+
+/**
+ * The directory an installation's backups are kept in, named after its type and a hash of its
+ * path.  Each backed up version has its own subdirectory.
+ */
+export const getInstallationBackupsDir = (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): string => {
+  const hash = crypto
+    .createHash('sha256')
+    .update(path.resolve(getInstallationPath(ccInstInfo)))
+    .digest('hex')
+    .slice(0, 12);
+  return path.join(BACKUPS_DIR, `${getInstallationType(ccInstInfo)}-${hash}`);
+};
+
+/**
+ * The directory the backup of a version of an installation (by default, the installed version)
+ * is kept in.
+ */
+export const getBackupDir = (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  version: string = ccInstInfo.version
+): string => path.join(getInstallationBackupsDir(ccInstInfo), version);
+
+export const getBackupFileName = (type: InstallationType): string =>
+  type === 'native' ? 'native-binary.backup' : 'cli.js.backup';
+
+export const getBackupFile = (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  version: string = ccInstInfo.version
+): string =>
+  path.join(
+    getBackupDir(ccInstInfo, version),
+    getBackupFileName(getInstallationType(ccInstInfo))
+  );
+
+/**
+ * Metadata stored next to each backup.
+ */
+export interface BackupInfo {
+  version: string; // Claude Code version that was backed up
+  type: InstallationType;
+  sourcePath: string; // Installation the backup was taken from
+  sha256: string; // Hash of the backup file, checked by `tweakcc backups verify`
+  size: number;
+  createdAt: string;
+}
+
+export const BACKUP_INFO_FILE_NAME = 'backup.json';
+
+/**
+ * Whether two installation infos refer to the same installation.
+ */
+export const isSameInstallation = (
+  a: ClaudeCodeInstallationInfo,
+  b: ClaudeCodeInstallationInfo
+): boolean =>
+  path.resolve(getInstallationPath(a)) === path.resolve(getInstallationPath(b));
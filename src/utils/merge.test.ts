@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { hasConflictMarkers, mergeThreeWay } from './merge.js';
+
+const labels = { ours: 'ours', theirs: 'theirs' };
+const lines = (...l: string[]) => l.join('\n');
+
+describe('mergeThreeWay', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e', 'f');
+
+  it('returns the other side when only one side changed', () => {
+    const ours = lines('a', 'B', 'c', 'd', 'e', 'f');
+    expect(mergeThreeWay(base, ours, base, labels)).toEqual({
+      content: ours,
+      conflicts: 0,
+    });
+    expect(mergeThreeWay(base, base, ours, labels)).toEqual({
+      content: ours,
+      conflicts: 0,
+    });
+  });
+
+  it('applies non-overlapping changes from both sides', () => {
+    const ours = lines('a', 'B', 'c', 'd', 'e', 'f');
+    const theirs = lines('a', 'b', 'c', 'd', 'E', 'f', 'g');
+    expect(mergeThreeWay(base, ours, theirs, labels)).toEqual({
+      content: lines('a', 'B', 'c', 'd', 'E', 'f', 'g'),
+      conflicts: 0,
+    });
+  });
+
+  it('accepts identical changes on both sides', () => {
+    const both = lines('a', 'b', 'X', 'd', 'e', 'f');
+    expect(mergeThreeWay(base, both, both, labels)).toEqual({
+      content: both,
+      conflicts: 0,
+    });
+  });
+
+  it('marks overlapping changes as conflicts', () => {
+    const ours = lines('a', 'b', 'mine', 'd', 'e', 'f');
+    const theirs = lines('a', 'b', 'yours', 'd', 'e', 'F');
+    const result = mergeThreeWay(base, ours, theirs, labels);
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      lines(
+        'a',
+        'b',
+        '<<<<<<< ours',
+        'mine',
+        '=======',
+        'yours',
+        '>>>>>>> theirs',
+        'd',
+        'e',
+        'F'
+      )
+    );
+    expect(hasConflictMarkers(result.content)).toBe(true);
+  });
+
+  it('treats insertions at the same place as a conflict', () => {
+    const ours = lines('a', 'b', 'c', 'mine', 'd', 'e', 'f');
+    const theirs = lines('a', 'b', 'c', 'yours', 'd', 'e', 'f');
+    const result = mergeThreeWay(base, ours, theirs, labels);
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain('mine\n=======\nyours');
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('ignores lookalikes that are not whole markers', () => {
+    expect(hasConflictMarkers('a\n<<<<<<<<< b\n==\n>>> c')).toBe(false);
+    expect(
+      hasConflictMarkers('a\n<<<<<<< ours\nb\n=======\nc\n>>>>>>> theirs')
+    ).toBe(true);
+    expect(hasConflictMarkers('a\n>>>>>>> theirs')).toBe(true);
+  });
+
+  it('ignores markdown headings underlined with seven =', () => {
+    expect(hasConflictMarkers('Heading\n=======\n\nText')).toBe(false);
+  });
+});
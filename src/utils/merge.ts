@@ -0,0 +1,168 @@
+/**
+ * Line-based three-way merging, in the style of `git merge-file`.
+ */
+
+import { diffLines } from './diff.js';
+
+/**
+ * A change one side made to the base: base lines [baseStart, baseEnd) were replaced with
+ * `lines`.
+ */
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKER_LENGTH = 7;
+
+const computeHunks = (base: string[], side: string[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let basePos = 0;
+  let current: Hunk | null = null;
+
+  for (const op of diffLines(base, side)) {
+    if (op.type === 'equal') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      basePos++;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: basePos, baseEnd: basePos, lines: [] };
+    }
+    if (op.type === 'delete') {
+      basePos++;
+      current.baseEnd = basePos;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+};
+
+/**
+ * Returns one side's version of base lines [start, end), given that all of its hunks in
+ * `hunks` fall within that range.
+ */
+const applyHunks = (
+  base: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number
+): string[] => {
+  const result: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(pos, hunk.baseStart), ...hunk.lines);
+    pos = hunk.baseEnd;
+  }
+  result.push(...base.slice(pos, end));
+  return result;
+};
+
+/**
+ * Merges the changes `ours` and `theirs` each made to `base`.  Changes to different parts
+ * of the text are both applied.  Changes that overlap (or touch) are conflicts, unless both
+ * sides made the same change; conflicts are written with git-style markers:
+ *
+ *     <<<<<<< ours label
+ *     our lines
+ *     =======
+ *     their lines
+ *     >>>>>>> theirs label
+ */
+export const mergeThreeWay = (
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels
+): MergeResult => {
+  const baseLines = base.split('\n');
+  const ourHunks = computeHunks(baseLines, ours.split('\n'));
+  const theirHunks = computeHunks(baseLines, theirs.split('\n'));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let basePos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourHunks.length || j < theirHunks.length) {
+    // Start a group with whichever hunk comes first, then pull in every hunk from either
+    // side that overlaps the group.
+    const startWithOurs =
+      j >= theirHunks.length ||
+      (i < ourHunks.length && ourHunks[i].baseStart <= theirHunks[j].baseStart);
+    const first = startWithOurs ? ourHunks[i] : theirHunks[j];
+    const groupStart = first.baseStart;
+    let groupEnd = first.baseEnd;
+    const ourGroup: Hunk[] = [];
+    const theirGroup: Hunk[] = [];
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      while (i < ourHunks.length && ourHunks[i].baseStart <= groupEnd) {
+        groupEnd = Math.max(groupEnd, ourHunks[i].baseEnd);
+        ourGroup.push(ourHunks[i++]);
+        grew = true;
+      }
+      while (j < theirHunks.length && theirHunks[j].baseStart <= groupEnd) {
+        groupEnd = Math.max(groupEnd, theirHunks[j].baseEnd);
+        theirGroup.push(theirHunks[j++]);
+        grew = true;
+      }
+    }
+
+    output.push(...baseLines.slice(basePos, groupStart));
+    basePos = groupEnd;
+
+    const ourLines = applyHunks(baseLines, ourGroup, groupStart, groupEnd);
+    const theirLines = applyHunks(baseLines, theirGroup, groupStart, groupEnd);
+
+    if (theirGroup.length === 0) {
+      output.push(...ourLines);
+    } else if (ourGroup.length === 0) {
+      output.push(...theirLines);
+    } else if (ourLines.join('\n') === theirLines.join('\n')) {
+      output.push(...ourLines);
+    } else {
+      conflicts++;
+      output.push(
+        `${'<'.repeat(CONFLICT_MARKER_LENGTH)} ${labels.ours}`,
+        ...ourLines,
+        '='.repeat(CONFLICT_MARKER_LENGTH),
+        ...theirLines,
+        `${'>'.repeat(CONFLICT_MARKER_LENGTH)} ${labels.theirs}`
+      );
+    }
+  }
+  output.push(...baseLines.slice(basePos));
+
+  return { content: output.join('\n'), conflicts };
+};
+
+/**
+ * Checks whether `content` still contains conflict markers written by mergeThreeWay().  The
+ * `=======` separator isn't checked on its own, because a line of seven `=` is also a markdown
+ * heading underline; it's only a marker between a `<<<<<<< ` line and a `>>>>>>> ` line, and
+ * those are markers either way.
+ */
+export const hasConflictMarkers = (content: string): boolean =>
+  /^(<{7}|>{7}) /m.test(content);
@@ -233,7 +233,7 @@ export async function hashFileInChunks(
   filePath: string,
   algorithm: string = 'sha256',
   chunkSize: number = 64 * 1024
-) {
+): Promise<string> {
   return new Promise((resolve, reject) => {
     const hash = crypto.createHash(algorithm);
     const stream = fs.createReadStream(filePath, { highWaterMark: chunkSize });
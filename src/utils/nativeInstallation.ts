@@ -3,6 +3,7 @@
  */
 
 import fs from 'node:fs';
+import path from 'node:path';
 import { execSync } from 'node:child_process';
 import LIEF from 'node-lief';
 import { isDebug } from './misc.js';
@@ -78,7 +79,7 @@ function parseStringPointer(buffer: Buffer, offset: number): StringPointer {
 /**
  * True if the module represents the native claude entrypoint.
  */
-function isClaudeModule(moduleName: string): boolean {
+export function isClaudeModule(moduleName: string): boolean {
   return (
     moduleName.endsWith('/claude') ||
     moduleName === 'claude' ||
@@ -478,10 +479,141 @@ export function extractClaudeJsFromNativeInstallation(
   }
 }
 
+/**
+ * One module of the Bun module graph embedded in a native installation.
+ */
+export interface NativeModule {
+  name: string; // e.g. /$bunfs/root/claude or B:/~BUN/root/claude.exe
+  contents: Buffer;
+  sourcemap: Buffer;
+  bytecode: Buffer;
+  encoding: number; // See NATIVE_MODULE_ENCODINGS
+  loader: number;
+  moduleFormat: number; // See NATIVE_MODULE_FORMATS
+  side: number;
+}
+
+export interface NativeModuleGraph {
+  entryPointId: number;
+  modules: NativeModule[];
+}
+
+// Names for BunModule's enums, by value.
+export const NATIVE_MODULE_ENCODINGS = ['binary', 'latin1', 'utf8'];
+export const NATIVE_MODULE_FORMATS = ['none', 'esm', 'cjs'];
+
+/**
+ * Reads every module of the Bun module graph embedded in a native installation binary.
+ * Throws if the binary can't be parsed.
+ */
+export function readNativeModuleGraph(
+  nativeInstallationPath: string
+): NativeModuleGraph {
+  LIEF.logging.disable();
+  const binary = LIEF.parse(nativeInstallationPath);
+  const { bunOffsets, bunData } = getBunData(binary);
+
+  const modules: NativeModule[] = [];
+  mapModules(bunData, bunOffsets, (module, moduleName) => {
+    modules.push({
+      name: moduleName,
+      contents: getStringPointerContent(bunData, module.contents),
+      sourcemap: getStringPointerContent(bunData, module.sourcemap),
+      bytecode: getStringPointerContent(bunData, module.bytecode),
+      encoding: module.encoding,
+      loader: module.loader,
+      moduleFormat: module.moduleFormat,
+      side: module.side,
+    });
+    return undefined;
+  });
+
+  return { entryPointId: bunOffsets.entryPointId, modules };
+}
+
+/**
+ * Writes a module graph to `outDir` for inspection: each module's contents, sourcemap and
+ * bytecode as separate files, and a graph.json describing them.  Returns the path of
+ * graph.json.
+ */
+export function writeNativeModuleGraph(
+  graph: NativeModuleGraph,
+  outDir: string
+): string {
+  fs.mkdirSync(outDir, { recursive: true });
+  const modules = graph.modules.map((module, index) => {
+    // /$bunfs/root/claude -> 0-claude
+    const baseName = `${index}-${module.name
+      .replace(/^.*[/\\]/, '')
+      .replace(/[^\w.-]/g, '_')}`;
+    const write = (suffix: string, data: Buffer): string | null => {
+      if (data.length === 0) {
+        return null;
+      }
+      fs.writeFileSync(path.join(outDir, baseName + suffix), data);
+      return baseName + suffix;
+    };
+    return {
+      name: module.name,
+      entryPoint: index === graph.entryPointId,
+      encoding: NATIVE_MODULE_ENCODINGS[module.encoding] ?? module.encoding,
+      loader: module.loader,
+      moduleFormat:
+        NATIVE_MODULE_FORMATS[module.moduleFormat] ?? module.moduleFormat,
+      side: module.side,
+      size: module.contents.length,
+      contents: write('', module.contents),
+      sourcemap: write('.map', module.sourcemap),
+      bytecode: write('.jsc', module.bytecode),
+    };
+  });
+
+  const graphFile = path.join(outDir, 'graph.json');
+  fs.writeFileSync(
+    graphFile,
+    JSON.stringify({ entryPointId: graph.entryPointId, modules }, null, 2)
+  );
+  return graphFile;
+}
+
+/**
+ * Finds a module by its index, full name (/$bunfs/root/foo.node) or file name (foo.node).
+ * Throws if there's no such module, or if a file name matches more than one.
+ */
+export function findNativeModule(
+  graph: NativeModuleGraph,
+  query: string
+): NativeModule {
+  if (/^\d+$/.test(query) && graph.modules[Number(query)]) {
+    return graph.modules[Number(query)];
+  }
+  const exact = graph.modules.find(m => m.name === query);
+  if (exact) {
+    return exact;
+  }
+  const byFileName = graph.modules.filter(
+    m => m.name.replace(/^.*[/\\]/, '') === query
+  );
+  if (byFileName.length === 1) {
+    return byFileName[0];
+  }
+  throw new Error(
+    byFileName.length === 0
+      ? `No module named "${query}" in the binary`
+      : `"${query}" matches more than one module: ${byFileName.map(m => m.name).join(', ')}`
+  );
+}
+
+/**
+ * Rebuilds the Bun data with the claude module's contents replaced by `modifiedClaudeJs` and
+ * other modules' contents replaced by `moduleReplacements` (keyed by full module name).  A
+ * replaced module's bytecode is dropped, because it was compiled from the old contents.
+ */
 function rebuildBunData(
   bunData: Buffer,
   bunOffsets: BunOffsets,
-  modifiedClaudeJs: Buffer | null
+  modifiedClaudeJs: Buffer | null,
+  moduleReplacements: Map<string, Buffer> = new Map()
 ): Buffer {
   // Phase 1: Collect all string data
   const stringsData: Buffer[] = [];
@@ -502,14 +634,18 @@ function rebuildBunData(
 
     // Check if this is claude.js and we have modified contents
     let contentsBytes: Buffer;
+    let bytecodeBytes = getStringPointerContent(bunData, module.bytecode);
+    const replacement = moduleReplacements.get(moduleName);
     if (modifiedClaudeJs && isClaudeModule(moduleName)) {
       contentsBytes = modifiedClaudeJs;
+    } else if (replacement) {
+      contentsBytes = replacement;
+      bytecodeBytes = Buffer.alloc(0);
     } else {
       contentsBytes = getStringPointerContent(bunData, module.contents);
     }
 
     const sourcemapBytes = getStringPointerContent(bunData, module.sourcemap);
-    const bytecodeBytes = getStringPointerContent(bunData, module.bytecode);
 
     modulesMetadata.push({
       name: nameBytes,
@@ -692,6 +828,13 @@ function atomicWriteBinary(
     fs.chmodSync(tempPath, origStat.mode);
   }
 
+  replaceBinary(tempPath, outputPath);
+}
+
+/**
+ * Moves `tempPath` over `outputPath`, removing `tempPath` if that fails.
+ */
+export function replaceBinary(tempPath: string, outputPath: string): void {
   try {
     fs.renameSync(tempPath, outputPath);
   } catch (error) {
@@ -944,20 +1087,33 @@ function repackELF(
 /**
  * Repacks a modified claude.js back into the native installation binary.
  * @param binPath - Path to the original native installation binary
- * @param modifiedClaudeJs - Modified claude.js contents as a Buffer
+ * @param modifiedClaudeJs - Modified claude.js contents as a Buffer, or null to keep it
  * @param outputPath - Where to write the repacked binary
+ * @param moduleReplacements - New contents for other modules, keyed by full module name
+ * @returns The names in moduleReplacements that aren't modules in the binary
  */
 export function repackNativeInstallation(
   binPath: string,
-  modifiedClaudeJs: Buffer,
-  outputPath: string
-): void {
+  modifiedClaudeJs: Buffer | null,
+  outputPath: string,
+  moduleReplacements: Map<string, Buffer> = new Map()
+): string[] {
   LIEF.logging.disable();
   const binary = LIEF.parse(binPath);
 
   // Extract Bun data and rebuild with modified claude.js
   const { bunOffsets, bunData } = getBunData(binary);
-  const newBuffer = rebuildBunData(bunData, bunOffsets, modifiedClaudeJs);
+  const missing = new Set(moduleReplacements.keys());
+  mapModules(bunData, bunOffsets, (_module, moduleName) => {
+    missing.delete(moduleName);
+    return undefined;
+  });
+  const newBuffer = rebuildBunData(
+    bunData,
+    bunOffsets,
+    modifiedClaudeJs,
+    moduleReplacements
+  );
 
   switch (binary.format) {
     case 'MachO':
@@ -972,4 +1128,5 @@ export function repackNativeInstallation(
     default:
       throw new Error(`Unsupported binary format: ${binary.format}`);
   }
+  return [...missing];
 }
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  analyzeCliJs,
+  formatReportJson,
+  formatReportSarif,
+  formatSearchJson,
+  formatSearchSarif,
+  searchPattern,
+  withLogsOnStderr,
+} from './analyzer.js';
+
+vi.mock('../nativeInstallation.js', () => ({
+  extractClaudeJsFromNativeInstallation: vi.fn(),
+  repackNativeInstallation: vi.fn(),
+}));
+
+const CLI_JS =
+  'var C1=(A,B,Q)=>{};var Xz={};' +
+  'function Tx({color:A,backgroundColor:B,dimColor:C=!1,bold:D=!1}){}' +
+  'Xz.red("a");Xz.bold.cyan("b");Xz.gray("c");' +
+  'switch(z){case"tool_use":break}';
+
+describe('analyzer', () => {
+  it('should report where each pattern resolved', () => {
+    const report = analyzeCliJs(CLI_JS);
+
+    const chalkVar = report.patterns.find(p => p.id === 'chalk-var')!;
+    expect(chalkVar).toMatchObject({
+      name: 'chalkVar',
+      found: true,
+      value: 'Xz',
+      location: CLI_JS.indexOf('Xz='),
+      length: 2,
+    });
+    expect(
+      CLI_JS.slice(
+        chalkVar.contextIndex!,
+        chalkVar.contextIndex! + chalkVar.context!.length
+      )
+    ).toBe(chalkVar.context);
+
+    const textComponent = report.patterns.find(p => p.id === 'text-component')!;
+    expect(textComponent.location).toBe(CLI_JS.indexOf('Tx('));
+
+    // Failures keep what the finder logged instead of printing it.
+    const reactVar = report.patterns.find(p => p.id === 'react-var')!;
+    expect(reactVar.found).toBe(false);
+    expect(reactVar.messages).toContain(
+      '^ patch: getReactVar: failed to find reactModuleVarNonBun'
+    );
+  });
+
+  it('should format the report as JSON', () => {
+    const json = JSON.parse(
+      formatReportJson(analyzeCliJs(CLI_JS), '/tmp/cli.js')
+    );
+    expect(json.file).toBe('/tmp/cli.js');
+    expect(json.passed).toBe(false);
+    expect(
+      json.patterns.find((p: { id: string }) => p.id === 'chalk-var')
+    ).toMatchObject({
+      status: 'pass',
+      value: 'Xz',
+      offset: CLI_JS.indexOf('Xz='),
+    });
+    expect(
+      json.hookPoints.find((h: { id: string }) => h.id === 'tool-use-case')
+    ).toMatchObject({
+      count: 1,
+      matches: [{ offset: CLI_JS.indexOf('case"tool_use"') }],
+    });
+  });
+
+  it('should format the report as SARIF', () => {
+    const sarif = JSON.parse(
+      formatReportSarif(analyzeCliJs(CLI_JS), '/tmp/cli.js')
+    );
+    expect(sarif.version).toBe('2.1.0');
+    const [run] = sarif.runs;
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toContain(
+      'pattern/chalk-var'
+    );
+
+    const results = run.results as {
+      ruleId: string;
+      kind: string;
+      locations?: {
+        physicalLocation: {
+          artifactLocation: { uri: string };
+          region: { charOffset: number };
+        };
+      }[];
+    }[];
+    const chalkVar = results.find(r => r.ruleId === 'pattern/chalk-var')!;
+    expect(chalkVar.kind).toBe('pass');
+    expect(chalkVar.locations![0].physicalLocation).toMatchObject({
+      artifactLocation: { uri: 'file:///tmp/cli.js' },
+      region: { charOffset: CLI_JS.indexOf('Xz=') },
+    });
+    expect(results.find(r => r.ruleId === 'pattern/react-var')!.kind).toBe(
+      'fail'
+    );
+  });
+
+  it('should format search results', () => {
+    const results = searchPattern(CLI_JS, 'Xz\\.\\w+');
+    expect(results.count).toBe(3);
+
+    const json = JSON.parse(formatSearchJson('Xz\\.\\w+', results, 'cli.js'));
+    expect(json).toMatchObject({ passed: true, count: 3 });
+    expect(json.matches[0]).toMatchObject({
+      offset: CLI_JS.indexOf('Xz.red'),
+      length: 'Xz.red'.length,
+    });
+
+    const sarif = JSON.parse(
+      formatSearchSarif('nope', searchPattern(CLI_JS, 'nope'), '/tmp/cli.js')
+    );
+    expect(sarif.runs[0].results).toEqual([
+      expect.objectContaining({ ruleId: 'search', kind: 'fail' }),
+    ]);
+  });
+
+  it('should keep stdout for the JSON report when the startup check logs', async () => {
+    const stdout: string[] = [];
+    const logSpy = vi
+      .spyOn(console, 'log')
+      .mockImplementation(message => stdout.push(message));
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      await withLogsOnStderr('json', async () => {
+        console.log('Migrated config.json to config version 2');
+      });
+      console.log(formatReportJson(analyzeCliJs(CLI_JS), 'cli.js'));
+
+      expect(() => JSON.parse(stdout.join('\n'))).not.toThrow();
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Migrated config.json to config version 2'
+      );
+    } finally {
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    }
+  });
+});
@@ -4,9 +4,12 @@
 // Usage: npx tweakcc --analyze
 //        npx tweakcc --analyze --verbose
 //        npx tweakcc --analyze --search "pattern"
+//        npx tweakcc --analyze --format json|sarif
 
 import chalk from 'chalk';
+import { pathToFileURL } from 'node:url';
 import {
+  escapeIdent,
   findChalkVar,
   getReactVar,
   getRequireFuncName,
@@ -17,12 +20,47 @@ import {
 import { findSelectComponentName, findDividerComponentName, getMainAppComponentBodyStart, getAppStateVarAndGetterFunction } from './toolsets.js';
 import { findSlashCommandListEndPosition } from './slashCommands.js';
 
+export type AnalyzeFormat = 'text' | 'json' | 'sarif';
+export const ANALYZE_FORMATS: AnalyzeFormat[] = ['text', 'json', 'sarif'];
+
+/**
+ * Runs `fn` with console.log sent to stderr when `format` is meant for another program, so
+ * that stdout holds nothing but the report.  For the startup check, which reports prompt
+ * syncs and backups on stdout.
+ */
+export const withLogsOnStderr = async <T>(
+  format: AnalyzeFormat,
+  fn: () => Promise<T>
+): Promise<T> => {
+  if (format === 'text') {
+    return fn();
+  }
+  const log = console.log;
+  console.log = console.error;
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+};
+
 export interface PatternResult {
+  id: string; // Stable across releases, for tracking a pattern in JSON/SARIF output
   name: string;
   found: boolean;
   value?: string;
-  location?: number;
+  location?: number; // Offset of the match, or of the definition of the identifier found
+  length?: number;
   context?: string;
+  contextIndex?: number; // Offset of `context`
+  messages?: string[]; // What the finder logged, which usually says why it failed
+}
+
+export interface SearchMatch {
+  index: number;
+  length: number;
+  context: string;
+  contextIndex: number; // Offset of `context`
 }
 
 export interface AnalysisReport {
@@ -30,13 +68,19 @@ export interface AnalysisReport {
   fileSize: number;
   patterns: PatternResult[];
   potentialHooks: {
+    id: string;
     name: string;
     count: number;
-    samples: string[];
+    matches: SearchMatch[]; // The first few
   }[];
   warnings: string[];
 }
 
+export interface SearchResults {
+  count: number;
+  matches: SearchMatch[];
+}
+
 /**
  * Analyze cli.js content and report on pattern matches
  */
@@ -62,29 +106,29 @@ export const analyzeCliJs = (
   // =========================================================================
 
   // Core utilities
-  testPattern(report, 'chalkVar', () => findChalkVar(content));
-  testPattern(report, 'reactVar', () => getReactVar(content));
-  testPattern(report, 'requireFunc', () => getRequireFuncName(content));
-  testPattern(report, 'moduleLoader', () => getModuleLoaderFunction(content));
+  testPattern(report, content, 'chalk-var', 'chalkVar', () => findChalkVar(content));
+  testPattern(report, content, 'react-var', 'reactVar', () => getReactVar(content));
+  testPattern(report, content, 'require-func', 'requireFunc', () => getRequireFuncName(content));
+  testPattern(report, content, 'module-loader', 'moduleLoader', () => getModuleLoaderFunction(content));
 
   // Components
-  testPattern(report, 'textComponent', () => findTextComponent(content));
-  testPattern(report, 'boxComponent', () => findBoxComponent(content));
-  testPattern(report, 'selectComponent', () => findSelectComponentName(content));
-  testPattern(report, 'dividerComponent', () => findDividerComponentName(content));
+  testPattern(report, content, 'text-component', 'textComponent', () => findTextComponent(content));
+  testPattern(report, content, 'box-component', 'boxComponent', () => findBoxComponent(content));
+  testPattern(report, content, 'select-component', 'selectComponent', () => findSelectComponentName(content));
+  testPattern(report, content, 'divider-component', 'dividerComponent', () => findDividerComponentName(content));
 
   // App structure
-  testPattern(report, 'mainAppBodyStart', () => {
+  testPattern(report, content, 'main-app-body-start', 'mainAppBodyStart', () => {
     const pos = getMainAppComponentBodyStart(content);
-    return pos !== null ? `position: ${pos}` : null;
+    return pos !== null ? { value: `position: ${pos}`, location: pos } : null;
   });
-  testPattern(report, 'appStateVar', () => {
+  testPattern(report, content, 'app-state-var', 'appStateVar', () => {
     const result = getAppStateVarAndGetterFunction(content);
     return result ? `${result.appStateVar} / ${result.appStateGetterFunction}` : null;
   });
-  testPattern(report, 'slashCommandArrayEnd', () => {
+  testPattern(report, content, 'slash-command-array-end', 'slashCommandArrayEnd', () => {
     const pos = findSlashCommandListEndPosition(content);
-    return pos !== null ? `position: ${pos}` : null;
+    return pos !== null ? { value: `position: ${pos}`, location: pos } : null;
   });
 
   // =========================================================================
@@ -92,94 +136,161 @@ export const analyzeCliJs = (
   // =========================================================================
 
   // Tool-related patterns - VERIFIED patterns from cli.js 2.0.55
-  searchForHookPoints(report, content, 'tool_use case', /case\s*["']tool_use["']\s*:/g);
-  searchForHookPoints(report, content, 'tool.run pattern (VERIFIED)', /let\s+[$\w]+=await\s+[$\w]+\.run\([$\w]+\);return\{type:"tool_result"/g);
-  searchForHookPoints(report, content, 'tool input parse (VERIFIED)', /let\s+[$\w]+=[$\w]+\.input;if\("parse"in/g);
-  searchForHookPoints(report, content, 'tool result return (VERIFIED)', /return\{type:"tool_result",tool_use_id:[$\w]+\.id,content:[$\w]+\}/g);
-  searchForHookPoints(report, content, 'tool name check', /if\(([$\w]+)\.name===["'](\w+)["']\)/g);
+  searchForHookPoints(report, content, 'tool-use-case', 'tool_use case', /case\s*["']tool_use["']\s*:/g);
+  searchForHookPoints(report, content, 'tool-run', 'tool.run pattern (VERIFIED)', /let\s+[$\w]+=await\s+[$\w]+\.run\([$\w]+\);return\{type:"tool_result"/g);
+  searchForHookPoints(report, content, 'tool-input-parse', 'tool input parse (VERIFIED)', /let\s+[$\w]+=[$\w]+\.input;if\("parse"in/g);
+  searchForHookPoints(report, content, 'tool-result-return', 'tool result return (VERIFIED)', /return\{type:"tool_result",tool_use_id:[$\w]+\.id,content:[$\w]+\}/g);
+  searchForHookPoints(report, content, 'tool-name-check', 'tool name check', /if\(([$\w]+)\.name===["'](\w+)["']\)/g);
 
   // Message-related patterns
-  searchForHookPoints(report, content, 'role:user', /\{role:\s*["']user["']/g);
-  searchForHookPoints(report, content, 'role:assistant', /\{role:\s*["']assistant["']/g);
-  searchForHookPoints(report, content, 'role:system', /\{role:\s*["']system["']/g);
-  searchForHookPoints(report, content, 'message append', /appendFileSync\(/g);
-  searchForHookPoints(report, content, 'messages.push', /messages\.push\(/g);
+  searchForHookPoints(report, content, 'role-user', 'role:user', /\{role:\s*["']user["']/g);
+  searchForHookPoints(report, content, 'role-assistant', 'role:assistant', /\{role:\s*["']assistant["']/g);
+  searchForHookPoints(report, content, 'role-system', 'role:system', /\{role:\s*["']system["']/g);
+  searchForHookPoints(report, content, 'message-append', 'message append', /appendFileSync\(/g);
+  searchForHookPoints(report, content, 'messages-push', 'messages.push', /messages\.push\(/g);
 
   // Thinking-related patterns
-  searchForHookPoints(report, content, 'thinking case', /case\s*["']thinking["']\s*:/g);
-  searchForHookPoints(report, content, 'thinking words', /\{words:\s*\[/g);
-  searchForHookPoints(report, content, 'isThinking', /isThinking/g);
-  searchForHookPoints(report, content, 'streamMode', /streamMode/g);
+  searchForHookPoints(report, content, 'thinking-case', 'thinking case', /case\s*["']thinking["']\s*:/g);
+  searchForHookPoints(report, content, 'thinking-words', 'thinking words', /\{words:\s*\[/g);
+  searchForHookPoints(report, content, 'is-thinking', 'isThinking', /isThinking/g);
+  searchForHookPoints(report, content, 'stream-mode', 'streamMode', /streamMode/g);
 
   // Streaming patterns
-  searchForHookPoints(report, content, 'stream chunk', /chunk|onChunk|handleChunk/gi);
-  searchForHookPoints(report, content, 'SSE/stream', /text\/event-stream|EventSource/g);
+  searchForHookPoints(report, content, 'stream-chunk', 'stream chunk', /chunk|onChunk|handleChunk/gi);
+  searchForHookPoints(report, content, 'sse-stream', 'SSE/stream', /text\/event-stream|EventSource/g);
 
   // API/Network patterns
-  searchForHookPoints(report, content, 'fetch call', /\bfetch\s*\(/g);
-  searchForHookPoints(report, content, 'API endpoint', /\/v1\/messages|\/v1\/complete/g);
-  searchForHookPoints(report, content, 'anthropic', /anthropic/gi);
+  searchForHookPoints(report, content, 'fetch-call', 'fetch call', /\bfetch\s*\(/g);
+  searchForHookPoints(report, content, 'api-endpoint', 'API endpoint', /\/v1\/messages|\/v1\/complete/g);
+  searchForHookPoints(report, content, 'anthropic', 'anthropic', /anthropic/gi);
 
   // MCP patterns
-  searchForHookPoints(report, content, 'MCP client', /mcpClient|MCP|mcp_/gi);
-  searchForHookPoints(report, content, 'MCP connect', /\.connect\s*\(/g);
+  searchForHookPoints(report, content, 'mcp-client', 'MCP client', /mcpClient|MCP|mcp_/gi);
+  searchForHookPoints(report, content, 'mcp-connect', 'MCP connect', /\.connect\s*\(/g);
 
   // State management patterns
-  searchForHookPoints(report, content, 'useState', /useState\s*\(/g);
-  searchForHookPoints(report, content, 'useEffect', /useEffect\s*\(/g);
-  searchForHookPoints(report, content, 'useMemo', /useMemo\s*\(/g);
+  searchForHookPoints(report, content, 'use-state', 'useState', /useState\s*\(/g);
+  searchForHookPoints(report, content, 'use-effect', 'useEffect', /useEffect\s*\(/g);
+  searchForHookPoints(report, content, 'use-memo', 'useMemo', /useMemo\s*\(/g);
 
   // Permission patterns
-  searchForHookPoints(report, content, 'permission check', /checkPermission|hasPermission|askPermission/g);
-  searchForHookPoints(report, content, 'auto-accept', /autoAccept|auto_accept/gi);
+  searchForHookPoints(report, content, 'permission-check', 'permission check', /checkPermission|hasPermission|askPermission/g);
+  searchForHookPoints(report, content, 'auto-accept', 'auto-accept', /autoAccept|auto_accept/gi);
 
   return report;
 };
 
+type FinderResult = string | { value: string; location: number } | undefined | null;
+
 function testPattern(
   report: AnalysisReport,
+  content: string,
+  id: string,
   name: string,
-  finder: () => string | undefined | null
+  finder: () => FinderResult
 ): void {
+  // The finders log why they failed; keep that for the report instead of printing it.
+  const messages: string[] = [];
+  const originalConsoleError = console.error;
+  const originalConsoleLog = console.log;
+  console.error = console.log = (...args: unknown[]) => {
+    messages.push(args.map(String).join(' '));
+  };
+  let pattern: PatternResult;
   try {
     const result = finder();
-    report.patterns.push({
-      name,
-      found: result != null && result !== undefined,
-      value: result ?? undefined,
-    });
+    pattern = { id, name, found: result != null };
+    if (typeof result === 'string') {
+      pattern.value = result;
+      const definition = findDefinition(content, result);
+      if (definition) {
+        pattern.location = definition.index;
+        pattern.length = definition.length;
+      }
+    } else if (result != null) {
+      pattern.value = result.value;
+      pattern.location = result.location;
+      pattern.length = 0;
+    }
+    if (pattern.location !== undefined) {
+      Object.assign(
+        pattern,
+        getContext(content, pattern.location, pattern.length!)
+      );
+    }
   } catch (error) {
-    report.patterns.push({
+    pattern = {
+      id,
       name,
       found: false,
       value: `ERROR: ${error instanceof Error ? error.message : String(error)}`,
-    });
+    };
+  } finally {
+    console.error = originalConsoleError;
+    console.log = originalConsoleLog;
   }
+  if (messages.length > 0) {
+    pattern.messages = messages;
+  }
+  report.patterns.push(pattern);
 }
 
+/**
+ * Finds where an identifier is defined: `function X(`, `class X`, `var X=`, or a later
+ * declarator like `,X=`.
+ */
+const findDefinition = (
+  content: string,
+  identifier: string
+): { index: number; length: number } | null => {
+  const escaped = escapeIdent(identifier);
+  const match = content.match(
+    new RegExp(
+      `\\b(?:function\\s*\\*?\\s*|class\\s+|(?:var|let|const)\\s+)${escaped}(?![$\\w])|[,;{]${escaped}=(?!=)`
+    )
+  );
+  if (!match || match.index === undefined) {
+    return null;
+  }
+  const index = match.index + match[0].lastIndexOf(identifier);
+  return { index, length: identifier.length };
+};
+
+const getContext = (
+  content: string,
+  index: number,
+  length: number,
+  before: number = 30,
+  after: number = 50
+): { context: string; contextIndex: number } => {
+  const contextIndex = Math.max(0, index - before);
+  return {
+    context: content.slice(
+      contextIndex,
+      Math.min(content.length, index + length + after)
+    ),
+    contextIndex,
+  };
+};
+
 function searchForHookPoints(
   report: AnalysisReport,
   content: string,
+  id: string,
   name: string,
   pattern: RegExp
 ): void {
   const matches = Array.from(content.matchAll(pattern));
-  const samples: string[] = [];
-
-  for (const match of matches.slice(0, 3)) {
-    if (match.index !== undefined) {
-      // Get context around the match
-      const start = Math.max(0, match.index - 30);
-      const end = Math.min(content.length, match.index + match[0].length + 50);
-      const context = content.slice(start, end).replace(/\n/g, '\\n');
-      samples.push(`[${match.index}] ...${context}...`);
-    }
-  }
 
   report.potentialHooks.push({
+    id,
     name,
     count: matches.length,
-    samples,
+    matches: matches.slice(0, 3).map(match => ({
+      index: match.index,
+      length: match[0].length,
+      ...getContext(content, match.index, match[0].length),
+    })),
   });
 }
 
@@ -190,20 +301,17 @@ export const searchPattern = (
   content: string,
   pattern: string,
   maxResults: number = 10
-): { count: number; matches: { index: number; context: string }[] } => {
+): SearchResults => {
   const regex = new RegExp(pattern, 'gi');
   const matches = Array.from(content.matchAll(regex));
-  const results: { index: number; context: string }[] = [];
+  const results: SearchMatch[] = [];
 
   for (const match of matches.slice(0, maxResults)) {
-    if (match.index !== undefined) {
-      const start = Math.max(0, match.index - 50);
-      const end = Math.min(content.length, match.index + match[0].length + 100);
-      results.push({
-        index: match.index,
-        context: content.slice(start, end),
-      });
-    }
+    results.push({
+      index: match.index,
+      length: match[0].length,
+      ...getContext(content, match.index, match[0].length, 50, 100),
+    });
   }
 
   return { count: matches.length, matches: results };
@@ -234,6 +342,9 @@ export const printReport = (report: AnalysisReport, verbose: boolean = false): v
     console.log();
     for (const pattern of missingPatterns) {
       console.log(chalk.red('✗'), chalk.white(pattern.name + ':'), chalk.red(pattern.value || 'not found'));
+      for (const message of pattern.messages ?? []) {
+        console.log(chalk.gray('    ' + message));
+      }
     }
   }
 
@@ -249,8 +360,9 @@ export const printReport = (report: AnalysisReport, verbose: boolean = false): v
     const countColor = hook.count > 0 ? chalk.green : chalk.red;
     console.log(countColor(`[${hook.count.toString().padStart(4)}]`), chalk.white(hook.name));
 
-    if (verbose && hook.samples.length > 0) {
-      for (const sample of hook.samples) {
+    if (verbose && hook.matches.length > 0) {
+      for (const match of hook.matches) {
+        const sample = `[${match.index}] ...${match.context.replace(/\n/g, '\\n')}...`;
         console.log(chalk.gray('        ' + sample.slice(0, 100) + (sample.length > 100 ? '...' : '')));
       }
     }
@@ -272,7 +384,7 @@ export const printReport = (report: AnalysisReport, verbose: boolean = false): v
  */
 export const printSearchResults = (
   pattern: string,
-  results: { count: number; matches: { index: number; context: string }[] }
+  results: SearchResults
 ): void => {
   console.log(chalk.bold(`\nSearch results for: ${chalk.cyan(pattern)}`));
   console.log(chalk.gray(`Found ${results.count} matches\n`));
@@ -284,3 +396,250 @@ export const printSearchResults = (
     console.log();
   }
 };
+
+// Machine-readable output, for tracking which patterns still resolve in each Claude Code
+// release.  Pattern and hook point ids are stable; offsets are character offsets into the
+// file analyzed.
+
+const toPatternJson = (pattern: PatternResult) => ({
+  id: pattern.id,
+  name: pattern.name,
+  status: pattern.found ? 'pass' : 'fail',
+  value: pattern.value ?? null,
+  offset: pattern.location ?? null,
+  length: pattern.length ?? null,
+  snippet: pattern.context ?? null,
+  snippetOffset: pattern.contextIndex ?? null,
+  messages: pattern.messages ?? [],
+});
+
+const toMatchJson = (match: SearchMatch) => ({
+  offset: match.index,
+  length: match.length,
+  snippet: match.context,
+  snippetOffset: match.contextIndex,
+});
+
+/**
+ * The analysis report as JSON.  `passed` is true if every core pattern was found.
+ */
+export const formatReportJson = (
+  report: AnalysisReport,
+  file: string
+): string =>
+  JSON.stringify(
+    {
+      file,
+      claudeCodeVersion: report.version,
+      fileSize: report.fileSize,
+      passed: report.patterns.every(p => p.found),
+      patterns: report.patterns.map(toPatternJson),
+      hookPoints: report.potentialHooks.map(hook => ({
+        id: hook.id,
+        name: hook.name,
+        count: hook.count,
+        matches: hook.matches.map(toMatchJson),
+      })),
+      warnings: report.warnings,
+    },
+    null,
+    2
+  );
+
+/**
+ * Custom search results as JSON.  `passed` is true if there was at least one match.
+ */
+export const formatSearchJson = (
+  pattern: string,
+  results: SearchResults,
+  file: string
+): string =>
+  JSON.stringify(
+    {
+      file,
+      pattern,
+      passed: results.count > 0,
+      count: results.count,
+      matches: results.matches.map(toMatchJson),
+    },
+    null,
+    2
+  );
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  kind: 'pass' | 'fail' | 'informational';
+  level: 'none' | 'error' | 'note';
+  message: { text: string };
+  locations?: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { charOffset: number; charLength: number };
+      contextRegion: {
+        charOffset: number;
+        charLength: number;
+        snippet: { text: string };
+      };
+    };
+  }[];
+}
+
+const toSarifLocations = (
+  uri: string,
+  index: number,
+  length: number,
+  context: string,
+  contextIndex: number
+): SarifResult['locations'] => [
+  {
+    physicalLocation: {
+      artifactLocation: { uri },
+      region: { charOffset: index, charLength: length },
+      contextRegion: {
+        charOffset: contextIndex,
+        charLength: context.length,
+        snippet: { text: context },
+      },
+    },
+  },
+];
+
+const toSarifLog = (
+  rules: SarifRule[],
+  results: SarifResult[],
+  claudeCodeVersion?: string
+) =>
+  JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'tweakcc',
+              informationUri: 'https://github.com/Piebald-AI/tweakcc',
+              rules,
+            },
+          },
+          ...(claudeCodeVersion && { properties: { claudeCodeVersion } }),
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+
+/**
+ * The analysis report as a SARIF 2.1.0 log: one rule per pattern and hook point, a pass or
+ * fail result per core pattern, and an informational result per hook point match.
+ */
+export const formatReportSarif = (
+  report: AnalysisReport,
+  file: string
+): string => {
+  const uri = pathToFileURL(file).href;
+  const rules: SarifRule[] = [
+    ...report.patterns.map(p => ({
+      id: `pattern/${p.id}`,
+      name: p.name,
+      shortDescription: { text: `Finds ${p.name} in cli.js` },
+    })),
+    ...report.potentialHooks.map(h => ({
+      id: `hook-point/${h.id}`,
+      name: h.name,
+      shortDescription: { text: `Potential hook point: ${h.name}` },
+    })),
+  ];
+
+  const results: SarifResult[] = [];
+  for (const pattern of report.patterns) {
+    results.push({
+      ruleId: `pattern/${pattern.id}`,
+      kind: pattern.found ? 'pass' : 'fail',
+      level: pattern.found ? 'none' : 'error',
+      message: {
+        text: pattern.found
+          ? `${pattern.name}: ${pattern.value}`
+          : `${pattern.name} not found${pattern.value ? `: ${pattern.value}` : ''}${pattern.messages ? ` (${pattern.messages.join('; ')})` : ''}`,
+      },
+      ...(pattern.location !== undefined && {
+        locations: toSarifLocations(
+          uri,
+          pattern.location,
+          pattern.length ?? 0,
+          pattern.context ?? '',
+          pattern.contextIndex ?? pattern.location
+        ),
+      }),
+    });
+  }
+  for (const hook of report.potentialHooks) {
+    for (const match of hook.matches) {
+      results.push({
+        ruleId: `hook-point/${hook.id}`,
+        kind: 'informational',
+        level: 'note',
+        message: { text: `${hook.name} (${hook.count} matches in total)` },
+        locations: toSarifLocations(
+          uri,
+          match.index,
+          match.length,
+          match.context,
+          match.contextIndex
+        ),
+      });
+    }
+  }
+  return toSarifLog(rules, results, report.version);
+};
+
+/**
+ * Custom search results as a SARIF 2.1.0 log, with a result per match.  A search with no
+ * matches has a single failing result.
+ */
+export const formatSearchSarif = (
+  pattern: string,
+  results: SearchResults,
+  file: string
+): string => {
+  const uri = pathToFileURL(file).href;
+  const rule: SarifRule = {
+    id: 'search',
+    name: 'search',
+    shortDescription: { text: `Matches /${pattern}/gi` },
+  };
+  const sarifResults: SarifResult[] =
+    results.count === 0
+      ? [
+          {
+            ruleId: rule.id,
+            kind: 'fail',
+            level: 'error',
+            message: { text: `No matches for /${pattern}/gi` },
+          },
+        ]
+      : results.matches.map(match => ({
+          ruleId: rule.id,
+          kind: 'pass',
+          level: 'none',
+          message: {
+            text: `Match ${JSON.stringify(match.context.slice(match.index - match.contextIndex, match.index - match.contextIndex + match.length))} (${results.count} matches in total)`,
+          },
+          locations: toSarifLocations(
+            uri,
+            match.index,
+            match.length,
+            match.context,
+            match.contextIndex
+          ),
+        }));
+  return toSarifLog([rule], sarifResults);
+};
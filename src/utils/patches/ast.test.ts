@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearAstCache,
+  findFunctionsReturning,
+  findNodes,
+  findObjectsWithProperty,
+  getFunctionIdentifiers,
+  isLiteral,
+  parseJs,
+  toLocationResult,
+} from './ast.js';
+
+const slice = (content: string, node: { start: number; end: number }) =>
+  content.slice(node.start, node.end);
+
+describe('ast', () => {
+  beforeEach(() => {
+    clearAstCache();
+  });
+
+  it('should find functions by the literal they return', () => {
+    const content =
+      'var A=1;function Bq(A){if(A.includes("[1m]"))return 1e6;return 200000}' +
+      'function Cq(){return 20000}var Dq=()=>200000;function Eq(){if(x)return 200000;return 1}';
+    const found = findFunctionsReturning(content, 200000);
+    expect(found.map(fn => slice(content, fn))).toEqual([
+      'function Bq(A){if(A.includes("[1m]"))return 1e6;return 200000}',
+      '()=>200000',
+    ]);
+    expect(getFunctionIdentifiers(found[0])).toEqual(['Bq', 'A']);
+    expect(findFunctionsReturning(content, 1000000)).toEqual([]);
+  });
+
+  it('should find object literals by property', () => {
+    const content =
+      'let O=[{label:"Dark mode",value:"dark"},{label:"Light mode",value:"light"}],' +
+      'P={"label":"Dark mode"},Q={[k]:"Dark mode"},R={label:`Dark mode`,hidden:!0};';
+    const found = findObjectsWithProperty(content, 'label', 'Dark mode');
+    expect(found.map(node => slice(content, node))).toEqual([
+      '{label:"Dark mode",value:"dark"}',
+      '{"label":"Dark mode"}',
+      '{label:`Dark mode`,hidden:!0}',
+    ]);
+    expect(findObjectsWithProperty(content, 'hidden', true)).toHaveLength(1);
+    expect(toLocationResult(found[0])).toEqual({
+      startIndex: content.indexOf('{label'),
+      endIndex: content.indexOf('},') + 1,
+    });
+  });
+
+  it('should visit nodes in source order with their parents', () => {
+    const content = 'f(1,g(2),3)';
+    const literals = findNodes(
+      content,
+      (node, parent) =>
+        node.type === 'NumericLiteral' && parent?.type === 'CallExpression'
+    );
+    expect(literals.map(node => node.value)).toEqual([1, 2, 3]);
+    expect(isLiteral(literals[0], 1)).toBe(true);
+  });
+
+  it('should parse cli.js-style files and cache the result', () => {
+    const content =
+      '#!/usr/bin/env node\nimport{createRequire as A}from"node:module";' +
+      'var B=A(import.meta.url);function C(){return 200000}';
+    const ast = parseJs(content);
+    expect(parseJs(content)).toBe(ast);
+    expect(findFunctionsReturning(content, 200000)).toHaveLength(1);
+  });
+});
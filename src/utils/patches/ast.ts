@@ -0,0 +1,257 @@
+// Structural queries over cli.js, for locating code by its shape rather than by the exact text
+// the minifier happened to produce.  A regex like /function ([$\w]+)\(\)\{return 200000\}/
+// breaks as soon as the function gains a parameter or a branch; "a function whose last
+// statement is `return 200000`" doesn't.
+//
+// Parsing all of cli.js takes a few seconds, so locators should keep their regex as the fast
+// path and only fall back to these queries when it doesn't match:
+//
+//   const match = oldFile.match(pattern);
+//   if (match) return ...;
+//   const [fn] = findFunctionsReturning(oldFile, 200000);
+//
+// The AST of the last file parsed is cached, so several fallbacks during one run only parse
+// it once.  Every query returns nodes; use toLocationResult to turn one into a span.
+
+import { parse } from '@babel/parser';
+import type { LocationResult } from './index.js';
+
+/**
+ * The parts of a Babel AST node the queries below use.  @babel/types isn't a dependency, so
+ * the rest of a node is reached through the index signature.
+ */
+export interface AstNode {
+  type: string;
+  start: number;
+  end: number;
+  [key: string]: unknown;
+}
+
+export type LiteralValue = string | number | boolean | null;
+
+// Keys that hold metadata rather than child nodes.
+const NON_CHILD_KEYS = new Set([
+  'loc',
+  'start',
+  'end',
+  'extra',
+  'leadingComments',
+  'trailingComments',
+  'innerComments',
+  'errors',
+  'comments',
+  'tokens',
+]);
+
+let astCache: { content: string; ast: AstNode } | null = null;
+
+/**
+ * Parses `content`, returning the cached AST if it was the last content parsed.  Syntax errors
+ * are recovered from where possible, so a file that Bun or Node accept still parses.
+ */
+export const parseJs = (content: string): AstNode => {
+  if (astCache?.content === content) {
+    return astCache.ast;
+  }
+  const ast = parse(content, {
+    sourceType: 'unambiguous',
+    errorRecovery: true,
+    allowReturnOutsideFunction: true,
+    allowAwaitOutsideFunction: true,
+    allowImportExportEverywhere: true,
+    plugins: ['jsx'],
+  }) as unknown as AstNode;
+  astCache = { content, ast };
+  return ast;
+};
+
+/**
+ * Drop the cached AST (useful for testing or multiple runs).
+ */
+export const clearAstCache = (): void => {
+  astCache = null;
+};
+
+const isAstNode = (value: unknown): value is AstNode =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as AstNode).type === 'string' &&
+  typeof (value as AstNode).start === 'number';
+
+/**
+ * Visits every node under `root` in source order, passing its parent.  Return `false` from
+ * `visit` to skip a node's children.  The walk uses an explicit stack rather than recursion,
+ * since the AST of cli.js has millions of nodes.
+ */
+export const walkAst = (
+  root: AstNode,
+  visit: (node: AstNode, parent: AstNode | null) => boolean | void
+): void => {
+  const stack: [AstNode, AstNode | null][] = [[root, null]];
+  while (stack.length > 0) {
+    const [node, parent] = stack.pop()!;
+    if (visit(node, parent) === false) {
+      continue;
+    }
+    const children: AstNode[] = [];
+    for (const key of Object.keys(node)) {
+      if (NON_CHILD_KEYS.has(key)) {
+        continue;
+      }
+      const value = node[key];
+      if (Array.isArray(value)) {
+        children.push(...value.filter(isAstNode));
+      } else if (isAstNode(value)) {
+        children.push(value);
+      }
+    }
+    // Push in reverse so children are visited in source order.
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push([children[i], node]);
+    }
+  }
+};
+
+/**
+ * Returns every node in `content` matching `predicate`, in source order.
+ */
+export const findNodes = (
+  content: string,
+  predicate: (node: AstNode, parent: AstNode | null) => boolean
+): AstNode[] => {
+  const found: AstNode[] = [];
+  walkAst(parseJs(content), (node, parent) => {
+    if (predicate(node, parent)) {
+      found.push(node);
+    }
+  });
+  return found;
+};
+
+export const toLocationResult = (
+  node: AstNode,
+  identifiers?: string[]
+): LocationResult => ({
+  startIndex: node.start,
+  endIndex: node.end,
+  ...(identifiers && { identifiers }),
+});
+
+/**
+ * Whether `node` is a literal with the given value.  `1e6` and `1000000` are the same number.
+ */
+export const isLiteral = (node: unknown, value: LiteralValue): boolean => {
+  if (!isAstNode(node)) {
+    return false;
+  }
+  switch (node.type) {
+    case 'NumericLiteral':
+    case 'StringLiteral':
+    case 'BooleanLiteral':
+      return node.value === value;
+    case 'NullLiteral':
+      return value === null;
+    case 'TemplateLiteral': {
+      // `foo` with no ${} is just a string.
+      const quasis = node.quasis as AstNode[];
+      return (
+        typeof value === 'string' &&
+        (node.expressions as AstNode[]).length === 0 &&
+        (quasis[0].value as { cooked: string }).cooked === value
+      );
+    }
+    case 'UnaryExpression':
+      // Minifiers write true/false as !0/!1.
+      return (
+        node.operator === '!' &&
+        typeof value === 'boolean' &&
+        isLiteral(node.argument, value ? 0 : 1)
+      );
+    default:
+      return false;
+  }
+};
+
+/**
+ * The name of an object property's key: `a`, `"a"` and `["a"]` are all "a".
+ */
+export const getPropertyKey = (property: AstNode): string | null => {
+  const key = property.key as AstNode | undefined;
+  if (!key) {
+    return null;
+  }
+  if (key.type === 'Identifier' && !property.computed) {
+    return key.name as string;
+  }
+  if (key.type === 'StringLiteral' || key.type === 'NumericLiteral') {
+    return String(key.value);
+  }
+  return null;
+};
+
+export const isFunction = (node: AstNode): boolean =>
+  node.type === 'FunctionDeclaration' ||
+  node.type === 'FunctionExpression' ||
+  node.type === 'ArrowFunctionExpression' ||
+  node.type === 'ObjectMethod' ||
+  node.type === 'ClassMethod';
+
+/**
+ * The name and parameter names of a function, as `identifiers` for a LocationResult.  The
+ * name is '' for anonymous functions, and destructured parameters are ''.
+ */
+export const getFunctionIdentifiers = (fn: AstNode): string[] => {
+  const id = (fn.id ?? fn.key) as AstNode | null | undefined;
+  const name = id?.type === 'Identifier' ? (id.name as string) : '';
+  const params = (fn.params as AstNode[]).map(param =>
+    param.type === 'Identifier' ? (param.name as string) : ''
+  );
+  return [name, ...params];
+};
+
+/**
+ * Finds functions that always end by returning `value`: `function f(){return 200000}`,
+ * `function f(A){if(A)return 1e6;return 200000}` and `()=>200000` all return 200000.
+ */
+export const findFunctionsReturning = (
+  content: string,
+  value: LiteralValue
+): AstNode[] =>
+  findNodes(content, node => {
+    if (!isFunction(node)) {
+      return false;
+    }
+    const body = node.body as AstNode;
+    if (body.type !== 'BlockStatement') {
+      return isLiteral(body, value);
+    }
+    const statements = body.body as AstNode[];
+    const last = statements[statements.length - 1];
+    return last?.type === 'ReturnStatement' && isLiteral(last.argument, value);
+  });
+
+/**
+ * Finds object literals with a property `key` whose value is the literal `value`, such as
+ * `{label:"Dark mode",value:"dark"}` for ('label', 'Dark mode').
+ */
+export const findObjectsWithProperty = (
+  content: string,
+  key: string,
+  value: LiteralValue
+): AstNode[] => findNodes(content, node => hasProperty(node, key, value));
+
+/**
+ * Whether `node` is an object literal with a property `key` set to the literal `value`.
+ */
+export const hasProperty = (
+  node: AstNode,
+  key: string,
+  value: LiteralValue
+): boolean =>
+  node.type === 'ObjectExpression' &&
+  (node.properties as AstNode[]).some(
+    property =>
+      property.type === 'ObjectProperty' &&
+      getPropertyKey(property) === key &&
+      isLiteral(property.value, value)
+  );
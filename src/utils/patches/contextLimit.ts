@@ -1,6 +1,7 @@
 // Please see the note about writing patches in ./index.js.
 
 import { showDiff } from './index.js';
+import { AstNode, findFunctionsReturning } from './ast.js';
 
 const getContextLimitLocation = (oldFile: string): number | null => {
   // Pattern: function funcName(paramName){if(paramName.includes("[1m]"))return 1e6;return 200000}
@@ -9,12 +10,21 @@ const getContextLimitLocation = (oldFile: string): number | null => {
     /function ([$\w]+)\(([$\w]*)\)\{((?:if\([$\w]+\.includes\("\[1m\]"\)\)return 1e6;)?return 200000)\}/;
   const match = oldFile.match(pattern);
 
-  if (!match || match.index === undefined) {
-    console.error('patch: context limit: failed to find match');
-    return null;
+  if (match && match.index !== undefined) {
+    return match.index + match[0].indexOf('{') + 1;
   }
 
-  return match.index + match[0].indexOf('{') + 1;
+  // Fall back to any function that ends with `return 200000`, as long as there's only one.
+  const candidates = findFunctionsReturning(oldFile, 200000).filter(
+    fn => (fn.body as AstNode).type === 'BlockStatement'
+  );
+  if (candidates.length !== 1) {
+    console.error(
+      `patch: context limit: failed to find match (${candidates.length} functions return 200000)`
+    );
+    return null;
+  }
+  return (candidates[0].body as AstNode).start + 1;
 };
 
 export const writeContextLimit = (oldFile: string): string | null => {
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  BUILTIN_EVENT_TYPES,
+  DEFAULT_SETTINGS,
+  TRANSFORM_TYPES,
+} from '../types.js';
+import {
+  createCorpusConfig,
+  findCorpusFiles,
+  runCorpusFile,
+  toCorpusSnapshot,
+} from './corpus.js';
+
+describe('createCorpusConfig', () => {
+  it('should give every patch something to do', () => {
+    const { settings } = createCorpusConfig();
+
+    expect(settings.toolsets).toEqual([
+      { name: 'corpus', allowedTools: ['Read', 'Grep'] },
+    ]);
+    expect(settings.events!.enabled).toBe(true);
+    expect(settings.events!.hooks[0].events).toEqual(BUILTIN_EVENT_TYPES);
+    expect(settings.transforms!.transforms.map(t => t.transform)).toEqual(
+      TRANSFORM_TYPES
+    );
+    expect(settings.patches).toEqual({ 'system-prompts': false });
+  });
+
+  it('should not share settings with the defaults', () => {
+    createCorpusConfig().settings.themes.pop();
+    expect(createCorpusConfig().settings.themes).toEqual(
+      DEFAULT_SETTINGS.themes
+    );
+  });
+});
+
+describe('findCorpusFiles', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-corpus-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should find versioned cli.js files, oldest first', async () => {
+    await fs.writeFile(path.join(dir, 'latest.js'), 'x={VERSION:"2.0.31"};');
+    await fs.mkdir(path.join(dir, 'claude-code-2.0.9'));
+    await fs.writeFile(
+      path.join(dir, 'claude-code-2.0.9', 'cli.js'),
+      'x={VERSION:"2.0.9"};'
+    );
+    // Skipped: a native binary, a .js file without a version and a directory without cli.js.
+    await fs.writeFile(
+      path.join(dir, 'claude'),
+      Buffer.concat([
+        Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0, 0, 0]),
+        Buffer.from('x={VERSION:"2.0.50"};'),
+      ])
+    );
+    await fs.writeFile(path.join(dir, 'notes.js'), 'console.log("hi");');
+    await fs.mkdir(path.join(dir, 'empty'));
+
+    expect(await findCorpusFiles(dir)).toEqual([
+      { file: path.join(dir, 'claude-code-2.0.9', 'cli.js'), version: '2.0.9' },
+      { file: path.join(dir, 'latest.js'), version: '2.0.31' },
+    ]);
+  });
+});
+
+describe('toCorpusSnapshot', () => {
+  it('should keep only the status, failing step and injected region', () => {
+    const snapshot = toCorpusSnapshot({
+      version: '2.0.31',
+      outcomes: [
+        {
+          id: 'applied',
+          status: 'applied',
+          required: true,
+          durationMs: 12,
+          bytesAdded: 3,
+          bytesRemoved: 1,
+          edit: {
+            startIndex: 100,
+            startLine: 7,
+            oldText: 'a=1;',
+            newText: 'a=100;',
+          },
+        },
+        {
+          id: 'missing',
+          status: 'pattern-not-found',
+          required: false,
+          step: 'failed to find foo',
+          durationMs: 3,
+          bytesAdded: 0,
+          bytesRemoved: 0,
+        },
+        {
+          id: 'skipped',
+          status: 'skipped-by-config',
+          required: true,
+          durationMs: 0,
+          bytesAdded: 0,
+          bytesRemoved: 0,
+        },
+      ],
+    });
+
+    expect(snapshot).toEqual({
+      applied: {
+        status: 'applied',
+        injected: { startLine: 7, oldText: 'a=1;', newText: 'a=100;' },
+      },
+      missing: { status: 'pattern-not-found', step: 'failed to find foo' },
+      skipped: { status: 'skipped-by-config' },
+    });
+  });
+});
+
+// Runs every patch against a local corpus of real cli.js files (see corpus.ts) and compares
+// the results with the snapshots in <corpus>/__snapshots__.  Skipped unless
+// TWEAKCC_CORPUS_DIR is set; run with `-u` to accept changes.
+const corpusDir = process.env.TWEAKCC_CORPUS_DIR;
+
+describe.skipIf(!corpusDir)('patch regression corpus', () => {
+  it('should match the snapshot for every version', async () => {
+    const files = await findCorpusFiles(corpusDir!);
+    expect(files.length).toBeGreaterThan(0);
+
+    for (const file of files) {
+      const result = await runCorpusFile(file);
+      await expect(
+        JSON.stringify(toCorpusSnapshot(result), null, 2) + '\n'
+      ).toMatchFileSnapshot(
+        path.join(corpusDir!, '__snapshots__', `${file.version}.json`)
+      );
+    }
+  }, 600_000);
+});
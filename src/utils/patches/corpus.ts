@@ -0,0 +1,163 @@
+// Regression corpus for patch patterns: a directory of real cli.js files, one per Claude Code
+// version, that every patch is run against to catch patterns drifting as Claude Code changes.
+// The corpus isn't checked in (the files are large and not ours to redistribute); point
+// `tweakcc doctor patches --corpus <dir>` or TWEAKCC_CORPUS_DIR (for corpus.test.ts) at a
+// local one.  Files can be named anything ending in .js, or be <dir>/<anything>/cli.js; the
+// version is read from the file itself.
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  BUILTIN_EVENT_TYPES,
+  DEFAULT_SETTINGS,
+  Settings,
+  TRANSFORM_TYPES,
+  TweakccConfig,
+} from '../types.js';
+import { extractVersionFromContent } from '../config.js';
+import { compareVersions } from '../promptSync.js';
+import {
+  clearReactVarCache,
+  clearRequireFuncNameCache,
+  runPatches,
+} from './index.js';
+import { clearAstCache } from './ast.js';
+import { PatchOutcome, PatchStatus } from './report.js';
+
+export interface CorpusFile {
+  file: string;
+  version: string;
+}
+
+/**
+ * What a patch did to one corpus file.  This is what corpus.test.ts snapshots.
+ */
+export interface CorpusPatchResult {
+  status: PatchStatus;
+  step?: string; // Why it didn't apply
+  injected?: {
+    startLine: number;
+    oldText: string;
+    newText: string;
+  };
+}
+
+export interface CorpusResult {
+  version: string;
+  outcomes: PatchOutcome[];
+}
+
+/**
+ * Settings that give every patch something to do: a toolset, a hook for every built-in event
+ * and a transform of every type.  System prompts are left out because they depend on the
+ * prompt data for each version rather than on patterns in cli.js.
+ */
+export const createCorpusConfig = (): TweakccConfig => {
+  const settings: Settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+  settings.toolsets = [{ name: 'corpus', allowedTools: ['Read', 'Grep'] }];
+  settings.events = {
+    enabled: true,
+    hooks: [
+      {
+        id: 'corpus',
+        events: BUILTIN_EVENT_TYPES,
+        type: 'command',
+        command: 'true',
+        enabled: true,
+      },
+    ],
+  };
+  settings.transforms = {
+    enabled: true,
+    transforms: TRANSFORM_TYPES.map(transform => ({
+      id: `corpus-${transform}`,
+      transform,
+      script: 'corpus.js',
+      enabled: true,
+    })),
+  };
+  settings.patches = { 'system-prompts': false };
+  return {
+    ccVersion: '',
+    ccInstallationDir: null,
+    lastModified: '',
+    changesApplied: false,
+    settings,
+  };
+};
+
+/**
+ * Lists the cli.js files in a corpus directory, oldest version first.  Files without a
+ * version are skipped.
+ */
+export const findCorpusFiles = async (dir: string): Promise<CorpusFile[]> => {
+  const candidates: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (entry.isFile() && entry.name.endsWith('.js')) {
+      candidates.push(path.join(dir, entry.name));
+    } else if (entry.isDirectory()) {
+      const cliPath = path.join(dir, entry.name, 'cli.js');
+      try {
+        await fs.access(cliPath);
+        candidates.push(cliPath);
+      } catch {
+        // Not a Claude Code package
+      }
+    }
+  }
+
+  const files: CorpusFile[] = [];
+  for (const file of candidates) {
+    const version = extractVersionFromContent(await fs.readFile(file, 'utf8'));
+    if (version) {
+      files.push({ file, version });
+    }
+  }
+  return files.sort((a, b) => compareVersions(a.version, b.version));
+};
+
+/**
+ * Runs every patch against one corpus file, in memory.
+ */
+export const runCorpusFile = async (
+  corpusFile: CorpusFile,
+  config: TweakccConfig = createCorpusConfig()
+): Promise<CorpusResult> => {
+  const content = await fs.readFile(corpusFile.file, 'utf8');
+  // These are cached per file.
+  clearReactVarCache();
+  clearRequireFuncNameCache();
+  clearAstCache();
+  const { outcomes } = await runPatches(
+    config,
+    { cliPath: corpusFile.file, version: corpusFile.version },
+    content,
+    true,
+    { quiet: true }
+  );
+  return { version: corpusFile.version, outcomes };
+};
+
+/**
+ * Reduces a corpus result to what should stay the same between runs: which patches applied
+ * and the region each one injected.
+ */
+export const toCorpusSnapshot = (
+  result: CorpusResult
+): Record<string, CorpusPatchResult> =>
+  Object.fromEntries(
+    result.outcomes.map(outcome => [
+      outcome.id,
+      {
+        status: outcome.status,
+        ...(outcome.step && { step: outcome.step }),
+        ...(outcome.edit && {
+          injected: {
+            startLine: outcome.edit.startLine,
+            oldText: outcome.edit.oldText,
+            newText: outcome.edit.newText,
+          },
+        }),
+      },
+    ])
+  );
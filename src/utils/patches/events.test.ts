@@ -1,4 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
 import {
   findEventEmitterInsertionPoint,
   generateEventEmitterCode,
@@ -7,8 +11,23 @@ import {
   writeThinkingEvents,
   writeStreamEvents,
   writeEvents,
+  writeToolDecisions,
+  writeToolErrorEvent,
+  writeToolPermissionEvent,
+  writeConversationEvents,
+  writeMcpEvents,
+  EVENT_INJECTION_POINTS,
+  getEmittableEvents,
 } from './events.js';
-import { EventsConfig } from '../types.js';
+import { BUILTIN_EVENT_TYPES, EventsConfig } from '../types.js';
+
+// Runs a patched snippet defining `fn`, recording what it emits.
+const runPatched = (code: string, ...args: unknown[]) => {
+  const emitted: [string, unknown][] = [];
+  const events = { emit: (event: string, data: unknown) => emitted.push([event, data]) };
+  const fn = new Function('TWEAKCC_EVENTS', `${code};return fn;`)(events);
+  return { result: fn(...args), emitted };
+};
 
 // Mock sample cli.js content for pattern matching tests
 const SAMPLE_CLI_JS = `
@@ -183,6 +202,28 @@ describe('events.ts', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should honor decisions when asked to decide', async () => {
+      const content = 'async function fn(Z,I){let Y=Z.input;if("parse"in I&&I.parse)Y=I.parse(Y);let J=await I.run(Y);return{type:"tool_result",tool_use_id:Z.id,content:J}}';
+      const events = { emit: vi.fn(), decide: vi.fn() };
+      const fn = new Function('TWEAKCC_EVENTS', `${writeToolLifecycleEvents(content, true)};return fn;`)(events);
+      const tool = { run: async (input: { command: string }) => `ran ${input.command}` };
+      const toolUse = { id: 't1', name: 'Bash', input: { command: 'rm -rf /' } };
+
+      events.decide.mockReturnValue({ decision: 'deny', reason: 'Dangerous' });
+      expect(await fn(toolUse, tool)).toEqual({
+        type: 'tool_result',
+        tool_use_id: 't1',
+        content: 'Blocked by a tweakcc hook: Dangerous',
+        is_error: true,
+      });
+
+      events.decide.mockReturnValue({ decision: 'allow', input: { command: 'ls' } });
+      expect((await fn(toolUse, tool)).content).toBe('ran ls');
+
+      events.decide.mockReturnValue(null);
+      expect((await fn(toolUse, tool)).content).toBe('ran rm -rf /');
+    });
   });
 
   describe('writeThinkingEvents', () => {
@@ -195,6 +236,14 @@ describe('events.ts', () => {
       expect(result).toContain("TWEAKCC_EVENTS.emit('thinking:update'");
     });
 
+    it('should inject thinking:end when a thinking block stops', () => {
+      const content = 'case"thinking_delta":{if(G.type==="thinking")this._emit("thinking",Q.delta.thinking,G.thinking)}case"content_block_stop":{this._emit("contentBlock",M.content.at(-1));break}';
+
+      const result = writeThinkingEvents(content);
+
+      expect(result).toContain("case\"content_block_stop\":{if(M.content.at(-1)?.type===\"thinking\")TWEAKCC_EVENTS.emit('thinking:end'");
+    });
+
     it('should return original content if pattern not found', () => {
       const content = 'function foo() { return bar; }';
 
@@ -230,6 +279,281 @@ describe('events.ts', () => {
     });
   });
 
+  describe('decision hooks', () => {
+    // Runs the generated emitter for real, with command hooks.
+    const createEmitter = (hooks: EventsConfig['hooks']) =>
+      new Function('require', `${generateEventEmitterCode('require', { enabled: true, hooks })};return TWEAKCC_EVENTS;`)(
+        createRequire(import.meta.url)
+      );
+    const hook = (id: string, command: string, extra = {}) => ({
+      id,
+      events: 'tool:before' as const,
+      type: 'command' as const,
+      command,
+      async: false,
+      enabled: true,
+      ...extra,
+    });
+
+    it('should combine decisions, passing rewritten input along', () => {
+      const events = createEmitter([
+        hook('rewrite', `echo 'not json'; echo '{"decision":"allow","input":{"command":"ls"}}'`),
+        hook('check', `grep -q '"command":"ls"' && echo '{"decision":"ask","reason":"saw ls"}'`),
+        hook('async', 'exit 1', { async: true, onError: 'abort' }),
+      ]);
+
+      expect(events.decide('tool:before', { toolName: 'Bash', input: { command: 'rm -rf /' } })).toEqual({
+        decision: 'ask',
+        reason: 'saw ls',
+        input: { command: 'ls' },
+      });
+    });
+
+    it('should let any deny win, and deny when an aborting hook fails', () => {
+      const events = createEmitter([
+        hook('allow', `echo '{"decision":"allow"}'`),
+        hook('block', 'echo "Dangerous command" >&2; exit 1', { onError: 'abort' }),
+        hook('filtered', `echo '{"decision":"deny"}'`, { filter: { tools: ['Read'] } }),
+      ]);
+
+      expect(events.decide('tool:before', { toolName: 'Bash', input: {} })).toEqual({
+        decision: 'deny',
+        reason: 'Dangerous command',
+      });
+      expect(events.decide('tool:before', { toolName: 'Read', input: {} })).toMatchObject({ decision: 'deny' });
+    });
+
+    it('should return null when no hook decides', () => {
+      const events = createEmitter([hook('quiet', 'true'), hook('failing', 'exit 3')]);
+
+      expect(events.decide('tool:before', { toolName: 'Bash', input: {} })).toBeNull();
+      expect(events.toPermissionResult(null)).toBeNull();
+    });
+
+    it('should call in-process hooks for their decision', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tweakcc-events-'));
+      try {
+        const script = path.join(dir, 'hook.js');
+        fs.writeFileSync(
+          script,
+          'exports.hook = data => { if (data.input.loop) for (;;); return data.input.command === "ls" ? { decision: "allow", input: { command: "ls -a" } } : { decision: "deny", reason: data.toolName }; };'
+        );
+        const inProcess = { type: 'script' as const, script, inProcess: true, timeout: 100 };
+        const events = createEmitter([hook('in-process', '', inProcess), hook('stuck', '', { ...inProcess, onError: 'abort', filter: { tools: ['Loop'] } })]);
+
+        expect(events.decide('tool:before', { toolName: 'Bash', input: { command: 'ls' } })).toEqual({
+          decision: 'allow',
+          input: { command: 'ls -a' },
+        });
+        expect(events.decide('tool:before', { toolName: 'Bash', input: { command: 'rm' } })).toEqual({ decision: 'deny', reason: 'Bash' });
+        expect(events.decide('tool:before', { toolName: 'Loop', input: { loop: true } })).toEqual({
+          decision: 'deny',
+          reason: 'Blocked by hook stuck (Timed out after 100ms)',
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should ask worker hooks for their decision', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tweakcc-events-'));
+      try {
+        const script = path.join(dir, 'worker.js');
+        fs.writeFileSync(
+          script,
+          `require('readline').createInterface({ input: process.stdin }).on('line', line => {
+            const { id, params } = JSON.parse(line);
+            const result = params.input.command === 'ls' ? { decision: 'allow' } : { decision: 'deny', reason: 'Only ls' };
+            console.log(JSON.stringify({ jsonrpc: '2.0', id, result }));
+          });`
+        );
+        const events = createEmitter([
+          { id: 'worker', events: 'tool:before', type: 'worker', worker: `node ${JSON.stringify(script)}`, async: false, enabled: true },
+        ]);
+
+        events.emit('session:start', {});
+        expect(events.decide('tool:before', { toolName: 'Bash', input: { command: 'ls' } })).toEqual({ decision: 'allow' });
+        expect(events.decide('tool:before', { toolName: 'Bash', input: { command: 'rm' } })).toEqual({ decision: 'deny', reason: 'Only ls' });
+        events.emit('session:end', {});
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should turn deny and ask decisions into permission results', () => {
+      const events = createEmitter([]);
+
+      expect(events.toPermissionResult({ decision: 'deny', reason: 'No' })).toEqual({ behavior: 'deny', message: 'No' });
+      expect(events.toPermissionResult({ decision: 'ask' })).toMatchObject({ behavior: 'ask' });
+      expect(events.toPermissionResult({ decision: 'allow', input: { a: 2 } })).toBeNull();
+    });
+
+    it("should still run the tool's own permission check after an allow", async () => {
+      const events = createEmitter([
+        hook('rewrite', `echo '{"decision":"allow","input":{"command":"ls -a"}}'`),
+      ]);
+      const tool = {
+        name: 'Bash',
+        checkPermissions: vi.fn(async (input: object) => ({ behavior: 'ask', message: 'Run it?', input })),
+      };
+
+      expect(await events.checkToolPermissions(tool, { command: 'ls' }, {})).toEqual({
+        behavior: 'ask',
+        message: 'Run it?',
+        input: { command: 'ls -a' },
+        updatedInput: { command: 'ls -a' },
+      });
+      expect(tool.checkPermissions).toHaveBeenCalledWith({ command: 'ls -a' }, {});
+    });
+
+    it('should answer the permission check itself on deny', () => {
+      const events = createEmitter([hook('deny', `echo '{"decision":"deny","reason":"No"}'`)]);
+      const tool = { name: 'Bash', checkPermissions: vi.fn() };
+
+      expect(events.checkToolPermissions(tool, { command: 'rm' }, {})).toEqual({ behavior: 'deny', message: 'No' });
+      expect(tool.checkPermissions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('writeToolDecisions', () => {
+    const content = 'async function fn(A,Q,B){let Y=await A.checkPermissions(Q,B);return Y}';
+
+    it('should check permissions through the event emitter', async () => {
+      const tool = { name: 'Bash' };
+      const events = { checkToolPermissions: vi.fn(async () => ({ behavior: 'deny', message: 'No' })) };
+      const fn = new Function('TWEAKCC_EVENTS', `${writeToolDecisions(content)};return fn;`)(events);
+
+      expect(await fn(tool, { command: 'rm' }, { context: true })).toEqual({ behavior: 'deny', message: 'No' });
+      expect(events.checkToolPermissions).toHaveBeenCalledWith(tool, { command: 'rm' }, { context: true });
+    });
+
+    it('should pass a member-chain receiver as the tool', async () => {
+      const tool = { name: 'Bash' };
+      const events = { checkToolPermissions: vi.fn(async () => ({ behavior: 'allow' })) };
+      const patched = writeToolDecisions('async function fn(A,Q,B){let Y=await A.tool.checkPermissions(Q,B);return Y}')!;
+      const fn = new Function('TWEAKCC_EVENTS', `${patched};return fn;`)(events);
+
+      expect(patched).toContain('await TWEAKCC_EVENTS.checkToolPermissions(A.tool,Q,B)');
+      expect(await fn({ tool }, { command: 'ls' }, {})).toEqual({ behavior: 'allow' });
+      expect(events.checkToolPermissions).toHaveBeenCalledWith(tool, { command: 'ls' }, {});
+    });
+
+    it('should only patch a single call site', () => {
+      expect(writeToolDecisions(content + content)).toBeNull();
+    });
+  });
+
+  describe('writeToolErrorEvent', () => {
+    it('should emit tool:error from the tool runner catch', () => {
+      const content = 'async function fn(Z,I){try{let Y=Z.input;let J=await I.run(Y);return{type:"tool_result",tool_use_id:Z.id,content:J}}catch(W){return{type:"tool_result",tool_use_id:Z.id,content:`Error: ${W instanceof Error?W.message:String(W)}`,is_error:!0}}}';
+
+      const result = writeToolErrorEvent(content);
+
+      expect(result).toContain("TWEAKCC_EVENTS.emit('tool:error',{toolName:Z.name,toolId:Z.id,error:W instanceof Error?W.message:String(W)});return{type:\"tool_result\"");
+    });
+
+    it('should return original content if pattern not found', () => {
+      const content = 'function foo() { return bar; }';
+      expect(writeToolErrorEvent(content)).toBe(content);
+    });
+  });
+
+  describe('writeToolPermissionEvent', () => {
+    it('should emit tool:permission before the decision is acted on', () => {
+      const content = 'function fn(W){switch(W.behavior){case"allow":return 1;case"deny":return 2;case"ask":return 3}}';
+
+      const { result, emitted } = runPatched(writeToolPermissionEvent(content)!, { behavior: 'ask', message: 'Allow Bash?' });
+
+      expect(result).toBe(3);
+      expect(emitted).toEqual([['tool:permission', { behavior: 'ask', message: 'Allow Bash?' }]]);
+    });
+
+    it('should keep a switch that is the body of an if', () => {
+      const content = 'function fn(c,W){if(c)switch(W.behavior){case"allow":return 1;case"deny":return 2}return 0}';
+      const patched = writeToolPermissionEvent(content)!;
+
+      expect(runPatched(patched, false, { behavior: 'allow' })).toEqual({ result: 0, emitted: [] });
+      expect(runPatched(patched, true, { behavior: 'deny' })).toEqual({
+        result: 2,
+        emitted: [['tool:permission', { behavior: 'deny', message: undefined }]],
+      });
+    });
+  });
+
+  describe('writeConversationEvents', () => {
+    const content = 'function fn(A,B){return B?{session_id:"s",hook_event_name:"SessionEnd",reason:A}:{session_id:"s",hook_event_name:"SessionStart",source:A}}';
+
+    it('should emit conversation events from session hook inputs', () => {
+      const patched = writeConversationEvents(content)!;
+
+      expect(runPatched(patched, 'startup', false)).toEqual({
+        result: { session_id: 's', hook_event_name: 'SessionStart', source: 'startup' },
+        emitted: [['conversation:start', { source: 'startup' }]],
+      });
+      expect(runPatched(patched, 'resume', false).emitted).toEqual([['conversation:resume', { source: 'resume' }]]);
+      expect(runPatched(patched, 'compact', false).emitted).toEqual([]);
+    });
+
+    it('should only emit session:end when the session ends', () => {
+      const patched = writeConversationEvents(content)!;
+
+      expect(runPatched(patched, 'clear', true).emitted).toEqual([['conversation:end', { reason: 'clear' }]]);
+      const { result, emitted } = runPatched(patched, 'prompt_input_exit', true);
+      expect(result.reason).toBe('prompt_input_exit');
+      expect(emitted.map(([event]) => event)).toEqual(['conversation:end', 'session:end']);
+    });
+  });
+
+  describe('writeMcpEvents', () => {
+    it('should emit MCP connect, disconnect and tool call events', () => {
+      const content = 'function fn(A,G,B,Q){G.onclose=()=>{};G.onclose();G.callTool({name:B,arguments:Q});return{name:A,client:G,type:"connected",capabilities:{}}}';
+      const client = { onclose: null, callTool(this: unknown) { return this; } };
+
+      const { result, emitted } = runPatched(writeMcpEvents(content)!, 'github', client, 'search', { q: 'x' });
+
+      expect(result).toMatchObject({ name: 'github', client, type: 'connected' });
+      expect(emitted).toEqual([
+        ['mcp:disconnect', { server: 'github' }],
+        ['mcp:tool:call', { toolName: 'search', input: { q: 'x' } }],
+        ['mcp:connect', { server: 'github' }],
+      ]);
+    });
+
+    it('should wrap the whole receiver of a member-chain callTool', () => {
+      const content = 'function fn(A,B,Q){return A.client.callTool({name:B,arguments:Q})}';
+      const connection = { client: { callTool(this: unknown) { return this; } } };
+
+      const patched = writeMcpEvents(content)!;
+      expect(patched).toContain("(TWEAKCC_EVENTS.emit('mcp:tool:call',{toolName:B,input:Q}),A.client).callTool(");
+      const { result, emitted } = runPatched(patched, connection, 'search', { q: 'x' });
+
+      expect(result).toBe(connection.client);
+      expect(emitted).toEqual([['mcp:tool:call', { toolName: 'search', input: { q: 'x' } }]]);
+    });
+
+    it('should return original content if no pattern matches', () => {
+      const content = 'function foo() { return bar; }';
+      expect(writeMcpEvents(content)).toBe(content);
+    });
+  });
+
+  describe('getEmittableEvents', () => {
+    it('should have an injection point for every built-in event', () => {
+      const covered = EVENT_INJECTION_POINTS.flatMap(point => point.events);
+      expect([...new Set(covered)].sort()).toEqual([...BUILTIN_EVENT_TYPES].sort());
+    });
+
+    it('should report the events a cli.js can emit', () => {
+      const emittable = getEmittableEvents(SAMPLE_CLI_JS);
+
+      expect(emittable.has('tool:before')).toBe(true);
+      expect(emittable.has('stream:end')).toBe(true);
+      expect(emittable.has('session:start')).toBe(true);
+      expect(emittable.has('tool:error')).toBe(false);
+      expect(emittable.has('session:end')).toBe(false);
+    });
+  });
+
   describe('writeEvents (orchestrator)', () => {
     it('should return null if events not enabled', () => {
       const config: EventsConfig = {
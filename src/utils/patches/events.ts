@@ -13,7 +13,9 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { showDiff, getRequireFuncName, getReactVar } from './index.js';
-import { EventsConfig } from '../types.js';
+import { generatePluginLoaderCode } from './plugins.js';
+import { generateHookWorkerCode } from './hookWorkers.js';
+import { EventsConfig, TweakccEventType } from '../types.js';
 
 // ============================================================================
 // EVENT EMITTER INJECTION
@@ -56,7 +58,7 @@ export const generateEventEmitterCode = (
 // TWEAKCC EVENT EMITTER - Injected by tweakcc
 // ============================================================================
 const TWEAKCC_EVENTS = (function() {
-  const { spawn, execSync } = ${requireFunc}('child_process');
+  const { spawn, spawnSync, execSync } = ${requireFunc}('child_process');
   const { appendFileSync, mkdirSync } = ${requireFunc}('fs');
   const { dirname, join } = ${requireFunc}('path');
   const { homedir } = ${requireFunc}('os');
@@ -180,6 +182,39 @@ const TWEAKCC_EVENTS = (function() {
     }
   }
 
+  function buildHookEnv(hook, event, eventData) {
+    // Build environment variables
+    // SECURITY: Base64 encode JSON data to prevent shell injection
+    const jsonData = JSON.stringify(eventData);
+    const base64Data = Buffer.from(jsonData).toString('base64');
+
+    const baseEnv = {
+      ...process.env,
+      ...(hook.env || {}),
+      TWEAKCC_EVENT: event,
+      TWEAKCC_DATA: jsonData,
+      TWEAKCC_DATA_BASE64: base64Data,
+      TWEAKCC_HOOK_ID: hook.id,
+      TWEAKCC_HOOK_NAME: hook.name || hook.id
+    };
+
+    // Add tool-specific env vars (these are safe - controlled values)
+    if (eventData.toolName) baseEnv.TWEAKCC_TOOL_NAME = String(eventData.toolName);
+    if (eventData.toolId) baseEnv.TWEAKCC_TOOL_ID = String(eventData.toolId);
+
+    return baseEnv;
+  }
+
+  function resolveScriptPath(script) {
+    return script.startsWith('~') ? script.replace('~', homedir()) : script;
+  }
+${generatePluginLoaderCode(requireFunc)}
+  // In-process script hooks export a hook(data) function, called with the event data.
+  function callInProcessHook(hook, eventData) {
+    const fn = loadPlugin(resolveScriptPath(hook.script), 'hook');
+    return callPlugin(fn, [eventData], hook.timeout || 5000);
+  }
+${generateHookWorkerCode(requireFunc)}
   function executeHook(hook, event, data) {
     const eventData = {
       event,
@@ -208,24 +243,19 @@ const TWEAKCC_EVENTS = (function() {
     };
 
     try {
-      // Build environment variables
-      // SECURITY: Base64 encode JSON data to prevent shell injection
-      const jsonData = JSON.stringify(eventData);
-      const base64Data = Buffer.from(jsonData).toString('base64');
-
-      const baseEnv = {
-        ...process.env,
-        ...(hook.env || {}),
-        TWEAKCC_EVENT: event,
-        TWEAKCC_DATA: jsonData,
-        TWEAKCC_DATA_BASE64: base64Data,
-        TWEAKCC_HOOK_ID: hook.id,
-        TWEAKCC_HOOK_NAME: hook.name || hook.id
-      };
+      if (hook.type === 'worker' && hook.worker) {
+        // Worker hooks can get hundreds of events a second, so skip building an environment
+        // they don't use and logging each one.
+        if (hook.async !== false) {
+          notifyWorker(hook, event, eventData);
+        } else {
+          const response = requestWorker(hook, event, eventData);
+          if (response.error) handleError(new Error(response.error.message));
+        }
+        return;
+      }
 
-      // Add tool-specific env vars (these are safe - controlled values)
-      if (eventData.toolName) baseEnv.TWEAKCC_TOOL_NAME = String(eventData.toolName);
-      if (eventData.toolId) baseEnv.TWEAKCC_TOOL_ID = String(eventData.toolId);
+      const baseEnv = buildHookEnv(hook, event, eventData);
 
       const execOptions = {
         env: baseEnv,
@@ -320,12 +350,20 @@ const TWEAKCC_EVENTS = (function() {
         } else {
           sendWebhook().catch(handleError);
         }
+      } else if (hook.type === 'script' && hook.script && hook.inProcess) {
+        // Returned promises aren't waited for, even for sync hooks, but their errors are handled.
+        try {
+          const result = callInProcessHook(hook, eventData);
+          if (result && typeof result.then === 'function') {
+            result.then(undefined, handleError);
+          }
+        } catch (e) {
+          handleError(e);
+        }
       } else if (hook.type === 'script' && hook.script) {
         // Dynamic script execution
         try {
-          const scriptPath = hook.script.startsWith('~')
-            ? hook.script.replace('~', homedir())
-            : hook.script;
+          const scriptPath = resolveScriptPath(hook.script);
 
           // Use child process to run the script
           const child = spawn('node', [scriptPath], {
@@ -350,23 +388,183 @@ const TWEAKCC_EVENTS = (function() {
     }
   }
 
+  function subscribes(hook, event) {
+    if (!hook.enabled) return false;
+    const events = Array.isArray(hook.events) ? hook.events : [hook.events];
+    return events.includes(event) || events.some(e => e.startsWith('custom:') && event.startsWith('custom:'));
+  }
+
+  // Sync command, script and worker hooks on these events decide whether the event goes ahead,
+  // so they only run through decide(), never emit().
+  const DECISION_EVENTS = ['tool:before'];
+
+  function isDecisionHook(hook, event) {
+    return DECISION_EVENTS.includes(event) && hook.async === false && (hook.type === 'command' || hook.type === 'script' || hook.type === 'worker');
+  }
+
   function emit(event, data = {}) {
     log('debug', 'Event emitted', { event, data });
 
+    if (event === 'session:start') {
+      startWorkers();
+    }
+
     for (const hook of hooks) {
-      if (!hook.enabled) continue;
+      if (subscribes(hook, event) && !isDecisionHook(hook, event)) {
+        executeHook(hook, event, data);
+      }
+    }
 
-      const events = Array.isArray(hook.events) ? hook.events : [hook.events];
+    if (event === 'session:end') {
+      stopWorkers();
+    }
+  }
 
-      if (events.includes(event) || events.some(e => e.startsWith('custom:') && event.startsWith('custom:'))) {
-        executeHook(hook, event, data);
+  const DECISION_RANK = { allow: 0, ask: 1, deny: 2 };
+
+  function isDecision(result) {
+    return !!result && typeof result === 'object' && ['allow', 'ask', 'deny'].includes(result.decision);
+  }
+
+  // A decision is the last line of stdout that's a JSON object with a valid "decision".
+  function parseDecision(stdout) {
+    const lines = String(stdout || '').trim().split('\\n').reverse();
+    for (const line of lines) {
+      try {
+        const result = JSON.parse(line);
+        if (isDecision(result)) {
+          return result;
+        }
+      } catch (e) {
+        // Not JSON; hooks can print other output too
+      }
+    }
+    return null;
+  }
+
+  // Runs a decision hook and returns its decision, or null if it made none.  A hook that fails
+  // with onError: 'abort' denies, with its stderr (or error, for in-process and worker hooks) as
+  // the reason.
+  function runDecisionHook(hook, event, eventData) {
+    const startTime = Date.now();
+    if (hook.type === 'script' && hook.inProcess) {
+      // In-process decision hooks return their decision instead of printing it.
+      try {
+        const result = callInProcessHook(hook, eventData);
+        const decision = isDecision(result) ? result : null;
+        log('info', 'Decision hook executed', { hookId: hook.id, event, decision: decision && decision.decision, duration: Date.now() - startTime });
+        return decision;
+      } catch (e) {
+        log('error', 'Decision hook failed', { hookId: hook.id, event, error: e.message, duration: Date.now() - startTime });
+        return hook.onError === 'abort' ? { decision: 'deny', reason: 'Blocked by hook ' + hook.id + ' (' + e.message + ')' } : null;
+      }
+    }
+    if (hook.type === 'worker') {
+      // Worker decision hooks respond with their decision as the result.
+      const response = requestWorker(hook, event, eventData);
+      const duration = Date.now() - startTime;
+      if (response.error) {
+        log('error', 'Decision hook failed', { hookId: hook.id, event, error: response.error.message, duration });
+        return hook.onError === 'abort' ? { decision: 'deny', reason: 'Blocked by hook ' + hook.id + ' (' + response.error.message + ')' } : null;
+      }
+      const decision = isDecision(response.result) ? response.result : null;
+      log('info', 'Decision hook executed', { hookId: hook.id, event, decision: decision && decision.decision, duration });
+      return decision;
+    }
+
+    const command = hook.type === 'command' ? 'sh' : 'node';
+    const args = hook.type === 'command' ? ['-c', hook.command] : [resolveScriptPath(hook.script)];
+    const result = spawnSync(command, args, {
+      env: buildHookEnv(hook, event, eventData),
+      cwd: hook.cwd || (hook.type === 'script' ? dirname(resolveScriptPath(hook.script)) : process.cwd()),
+      timeout: hook.timeout || 5000,
+      input: JSON.stringify(eventData),
+      encoding: 'utf8'
+    });
+    const duration = Date.now() - startTime;
+    // EPIPE only means the hook exited without reading all of the event data on stdin.
+    const spawnError = result.error && result.error.code !== 'EPIPE' ? result.error : null;
+
+    if (spawnError || result.status !== 0) {
+      const error = spawnError ? spawnError.message : 'exit code ' + result.status;
+      log('error', 'Decision hook failed', { hookId: hook.id, event, error, duration });
+      if (hook.onError === 'abort') {
+        return { decision: 'deny', reason: String(result.stderr || '').trim() || 'Blocked by hook ' + hook.id + ' (' + error + ')' };
+      }
+      return null;
+    }
+
+    const decision = parseDecision(result.stdout);
+    log('info', 'Decision hook executed', { hookId: hook.id, event, decision: decision && decision.decision, duration });
+    return decision;
+  }
+
+  // Runs the decision hooks for an event and combines what they return: any deny wins, then any
+  // ask.  An input returned by one hook is what the hooks after it see, and what the event goes
+  // ahead with.  Returns null if no hook made a decision.
+  function decide(event, data = {}) {
+    let result = null;
+    let input = data.input;
+    for (const hook of hooks) {
+      if (!subscribes(hook, event) || !isDecisionHook(hook, event)) continue;
+
+      const eventData = {
+        event,
+        timestamp: new Date().toISOString(),
+        hookId: hook.id,
+        hookName: hook.name || hook.id,
+        ...data,
+        input
+      };
+      if (!matchesFilter(hook, eventData)) continue;
+
+      const decision = runDecisionHook(hook, event, eventData);
+      if (!decision) continue;
+
+      if (decision.input !== undefined) input = decision.input;
+      if (!result || DECISION_RANK[decision.decision] > DECISION_RANK[result.decision]) {
+        result = { decision: decision.decision, reason: decision.reason };
       }
+      if (decision.decision === 'deny') break;
     }
+
+    if (result && input !== data.input) result.input = input;
+    if (result) log('info', 'Decision', { event, ...result });
+    return result;
+  }
+
+  // Turns a deny or ask decision into one of Claude Code's permission results, so that Claude
+  // Code denies the tool call (with the reason as its error) or prompts for it.  An allow isn't
+  // a permission result: it only stands for the hooks not objecting.
+  function toPermissionResult(decision) {
+    if (!decision || decision.decision === 'allow') return null;
+    const message = decision.reason || (decision.decision === 'deny' ? 'Denied by a tweakcc hook' : 'A tweakcc hook asked for approval');
+    return { behavior: decision.decision, message };
+  }
+
+  // Stands in for tool.checkPermissions(input, context).  A deny or ask from the hooks is the
+  // answer; otherwise the tool's own check runs as usual, on the input the hooks returned, so
+  // that its prompts and Claude Code's permission rules still apply.
+  function checkToolPermissions(tool, input, context) {
+    const decision = decide('tool:before', { toolName: tool.name, input });
+    const denied = toPermissionResult(decision);
+    if (denied) return denied;
+
+    const updatedInput = decision && decision.input !== undefined ? decision.input : input;
+    const result = tool.checkPermissions(updatedInput, context);
+    if (updatedInput === input) return result;
+    // Results without their own updatedInput would have the tool run with the original input.
+    const withInput = permission =>
+      permission && permission.behavior !== 'deny' && permission.updatedInput === undefined ? { ...permission, updatedInput } : permission;
+    return result && typeof result.then === 'function' ? result.then(withInput) : withInput(result);
   }
 
   // Public API
   return {
     emit,
+    decide,
+    toPermissionResult,
+    checkToolPermissions,
     log,
     hooks
   };
@@ -497,7 +695,9 @@ export const findToolBeforeHookLocation = (
 
 /**
  * Sub-patch 2: Inject tool:before and tool:after events
- * This wraps tool execution to emit events
+ * This wraps tool execution to emit events.  With `decide`, blocking tool:before hooks are run
+ * here too (see writeToolDecisions): a deny becomes an error tool_result with the reason, and
+ * so does an ask, since this runner has no permission prompt to show.
  *
  * ✓ VERIFIED: Pattern found at position 5327809 in cli.js 2.0.55:
  *   let Y=Z.input;...let J=await I.run(Y);return{type:"tool_result",tool_use_id:Z.id,content:J}
@@ -508,11 +708,15 @@ export const findToolBeforeHookLocation = (
  *   Y = input to tool (parsed from Z.input)
  *   J = result from tool execution
  */
-export const writeToolLifecycleEvents = (oldFile: string): string | null => {
+const TOOL_RUN_PATTERN = /let\s+([$\w]+)=await\s+([$\w]+)\.run\(([$\w]+)\);return\{type:"tool_result",tool_use_id:([$\w]+)\.id,content:([$\w]+)\}/;
+
+export const writeToolLifecycleEvents = (
+  oldFile: string,
+  decide = false
+): string | null => {
   // Verified pattern: let J=await I.run(Y);return{type:"tool_result",tool_use_id:Z.id,content:J}
   // We need to wrap the I.run(Y) call to emit before/after events
-  const toolRunPattern = /let\s+([$\w]+)=await\s+([$\w]+)\.run\(([$\w]+)\);return\{type:"tool_result",tool_use_id:([$\w]+)\.id,content:([$\w]+)\}/;
-  const match = oldFile.match(toolRunPattern);
+  const match = oldFile.match(TOOL_RUN_PATTERN);
 
   if (!match || match.index === undefined) {
     console.error('patch: events: writeToolLifecycleEvents: could not find verified tool.run pattern');
@@ -527,7 +731,12 @@ export const writeToolLifecycleEvents = (oldFile: string): string | null => {
 
   // Replace the tool execution with wrapped version that emits events
   const originalCode = match[0];
-  const newCode = `TWEAKCC_EVENTS.emit('tool:before',{toolName:${toolUseVar}.name,toolId:${toolUseVar}.id,input:${inputVar}});let ${resultVar}=await ${toolImplVar}.run(${inputVar});TWEAKCC_EVENTS.emit('tool:after',{toolName:${toolUseVar}.name,toolId:${toolUseVar}.id,result:${returnContentVar}});return{type:"tool_result",tool_use_id:${toolUseVar}.id,content:${returnContentVar}}`;
+  const decisionCode = decide
+    ? `let tweakccDecision=TWEAKCC_EVENTS.decide('tool:before',{toolName:${toolUseVar}.name,toolId:${toolUseVar}.id,input:${inputVar}});` +
+      `if(tweakccDecision&&tweakccDecision.decision!=="allow")return{type:"tool_result",tool_use_id:${toolUseVar}.id,content:"Blocked by a tweakcc hook"+(tweakccDecision.decision==="ask"?" (it asked for approval, which this tool call can't prompt for)":"")+(tweakccDecision.reason?": "+tweakccDecision.reason:""),is_error:!0};` +
+      `if(tweakccDecision?.input!==undefined)${inputVar}="parse"in ${toolImplVar}&&${toolImplVar}.parse?${toolImplVar}.parse(tweakccDecision.input):tweakccDecision.input;`
+    : '';
+  const newCode = `TWEAKCC_EVENTS.emit('tool:before',{toolName:${toolUseVar}.name,toolId:${toolUseVar}.id,input:${inputVar}});${decisionCode}let ${resultVar}=await ${toolImplVar}.run(${inputVar});TWEAKCC_EVENTS.emit('tool:after',{toolName:${toolUseVar}.name,toolId:${toolUseVar}.id,result:${returnContentVar}});return{type:"tool_result",tool_use_id:${toolUseVar}.id,content:${returnContentVar}}`;
 
   const newFile = oldFile.replace(originalCode, newCode);
 
@@ -541,6 +750,99 @@ export const writeToolLifecycleEvents = (oldFile: string): string | null => {
   return newFile;
 };
 
+// The whole receiver, e.g. A.tool in A.tool.checkPermissions(Q,B), is the tool.
+const CHECK_PERMISSIONS_CALL_PATTERN = /(await\s+)?(?<![$\w.])((?:[$\w]+\.)*[$\w]+)\.checkPermissions\(([$\w]+),([$\w]+)\)(?!\.)/g;
+
+/**
+ * Sub-patch 2a: Run blocking tool:before hooks where Claude Code asks a tool whether it needs
+ * permission.  Deny and ask are the answer, and go through Claude Code's own handling (an error
+ * tool_result with the reason, or the permission prompt).  Otherwise, allow included, the
+ * tool's own check runs, with the input the hooks returned.
+ *
+ * Returns null unless there's exactly one call site, in which case the decisions are made
+ * in writeToolLifecycleEvents instead.
+ *
+ * ? UNVERIFIED: Expected in the permission check, with the tool and its input:
+ *   let Y=await A.checkPermissions(Q,B)
+ */
+export const writeToolDecisions = (oldFile: string): string | null => {
+  const matches = Array.from(oldFile.matchAll(CHECK_PERMISSIONS_CALL_PATTERN));
+
+  if (matches.length !== 1 || matches[0].index === undefined) {
+    console.log(`patch: events: writeToolDecisions: expected one checkPermissions call, found ${matches.length} (optional)`);
+    return null;
+  }
+
+  const [original, awaitKeyword = '', toolVar, inputVar, contextVar] = matches[0];
+  const startIndex = matches[0].index;
+  const newCode = `${awaitKeyword}TWEAKCC_EVENTS.checkToolPermissions(${toolVar},${inputVar},${contextVar})`;
+
+  const newFile = oldFile.slice(0, startIndex) + newCode + oldFile.slice(startIndex + original.length);
+
+  showDiff(oldFile, newFile, newCode, startIndex, startIndex + original.length);
+
+  return newFile;
+};
+
+const TOOL_ERROR_PATTERN = /\}catch\(([$\w]+)\)\{return\{type:"tool_result",tool_use_id:([$\w]+)\.id,content:`Error: /;
+
+/**
+ * Sub-patch 2b: Inject tool:error where the same tool runner turns an exception into an error
+ * result
+ *
+ * ? UNVERIFIED: Expected right after the tool.run pattern above:
+ *   }catch(W){return{type:"tool_result",tool_use_id:Z.id,content:`Error: ${W instanceof Error?W.message:String(W)}`,is_error:!0}}
+ */
+export const writeToolErrorEvent = (oldFile: string): string | null => {
+  const match = oldFile.match(TOOL_ERROR_PATTERN);
+
+  if (!match || match.index === undefined) {
+    console.log('patch: events: writeToolErrorEvent: could not find tool error pattern (optional)');
+    return oldFile;
+  }
+
+  const errorVar = match[1]; // W
+  const toolUseVar = match[2]; // Z
+  const insertPoint = match.index + `}catch(${errorVar}){`.length;
+  const eventCode = `TWEAKCC_EVENTS.emit('tool:error',{toolName:${toolUseVar}.name,toolId:${toolUseVar}.id,error:${errorVar} instanceof Error?${errorVar}.message:String(${errorVar})});`;
+
+  const newFile = oldFile.slice(0, insertPoint) + eventCode + oldFile.slice(insertPoint);
+
+  showDiff(oldFile, newFile, eventCode, insertPoint, insertPoint);
+
+  return newFile;
+};
+
+const TOOL_PERMISSION_PATTERN = /switch\(([$\w]+)\.behavior\)\{case"allow":/;
+
+/**
+ * Sub-patch 2c: Inject tool:permission where a permission decision (allow, deny or ask) is
+ * acted on
+ *
+ * ? UNVERIFIED: Expected in the canUseTool handler:
+ *   switch(W.behavior){case"allow":{...}case"deny":{...}case"ask":{...}}
+ */
+export const writeToolPermissionEvent = (oldFile: string): string | null => {
+  const match = oldFile.match(TOOL_PERMISSION_PATTERN);
+
+  if (!match || match.index === undefined) {
+    console.log('patch: events: writeToolPermissionEvent: could not find permission decision pattern (optional)');
+    return oldFile;
+  }
+
+  const decisionVar = match[1]; // W
+  // Emitted from inside the discriminant rather than as a statement before the switch, which
+  // could be the body of an if or else.
+  const discriminant = `switch(${decisionVar}.behavior)`;
+  const newCode = `switch((TWEAKCC_EVENTS.emit('tool:permission',{behavior:${decisionVar}.behavior,message:${decisionVar}.message}),${decisionVar}.behavior))`;
+
+  const newFile = oldFile.slice(0, match.index) + newCode + oldFile.slice(match.index + discriminant.length);
+
+  showDiff(oldFile, newFile, newCode, match.index, match.index + discriminant.length);
+
+  return newFile;
+};
+
 // ============================================================================
 // MESSAGE LIFECYCLE EVENTS
 // ============================================================================
@@ -568,7 +870,9 @@ export const findMessageAppendLocation = (
 };
 
 /**
- * Sub-patch 3: Inject message events
+ * Sub-patch 3: Inject message:user and message:system events.  Assistant messages are written
+ * one content block at a time, so message:assistant:start/end come from the stream instead
+ * (see writeStreamEvents).
  */
 export const writeMessageEvents = (oldFile: string): string | null => {
   const location = findMessageAppendLocation(oldFile);
@@ -580,7 +884,7 @@ export const writeMessageEvents = (oldFile: string): string | null => {
 
   const { location: insertPoint, messageVar } = location;
 
-  const eventCode = `TWEAKCC_EVENTS.emit('message:'+${messageVar}.type,{message:${messageVar},uuid:${messageVar}.uuid});`;
+  const eventCode = `if(${messageVar}.type==="user"||${messageVar}.type==="system")TWEAKCC_EVENTS.emit(${messageVar}.type==="user"?'message:user':'message:system',{message:${messageVar},uuid:${messageVar}.uuid});`;
 
   const newFile = oldFile.slice(0, insertPoint) + eventCode + oldFile.slice(insertPoint);
 
@@ -627,6 +931,10 @@ export const findThinkingLocation = (
   };
 };
 
+const THINKING_DELTA_PATTERN = /case"thinking_delta":\{if\(([$\w]+)\.type==="thinking"\)this\._emit\("thinking"/;
+const THINKING_START_PATTERN = /case"thinking":([$\w]+)\[[$\w]+\.index\]=\{\.\.\.[$\w]+\.content_block,thinking:""\}/;
+const CONTENT_BLOCK_STOP_PATTERN = /case"content_block_stop":\{this\._emit\("contentBlock",([$\w]+)\.content\.at\(-1\)\)/;
+
 /**
  * Sub-patch 4: Inject thinking events
  *
@@ -639,8 +947,7 @@ export const findThinkingLocation = (
 export const writeThinkingEvents = (oldFile: string): string | null => {
   // Pattern: case"thinking_delta":{if(G.type==="thinking")this._emit("thinking"
   // This is where thinking content is streamed
-  const thinkingDeltaPattern = /case"thinking_delta":\{if\(([$\w]+)\.type==="thinking"\)this\._emit\("thinking"/;
-  const match = oldFile.match(thinkingDeltaPattern);
+  const match = oldFile.match(THINKING_DELTA_PATTERN);
 
   if (!match || match.index === undefined) {
     console.log('patch: events: writeThinkingEvents: could not find thinking_delta pattern (optional)');
@@ -661,14 +968,30 @@ export const writeThinkingEvents = (oldFile: string): string | null => {
 
   // Also inject thinking:start at content_block_start for thinking type
   // Pattern: case"content_block_start":switch(QA.content_block.type){...case"thinking":
-  const thinkingStartPattern = /case"thinking":([$\w]+)\[[$\w]+\.index\]=\{\.\.\.[$\w]+\.content_block,thinking:""\}/;
-  const startMatch = newFile.match(thinkingStartPattern);
+  const startMatch = newFile.match(THINKING_START_PATTERN);
+  let finalFile = newFile;
 
   if (startMatch && startMatch.index !== undefined) {
     const startOriginal = startMatch[0];
     const startNew = `case"thinking":TWEAKCC_EVENTS.emit('thinking:start',{index:QA.index});${startMatch[1]}[QA.index]={...QA.content_block,thinking:""}`;
-    const finalFile = newFile.replace(startOriginal, startNew);
+    finalFile = finalFile.replace(startOriginal, startNew);
+  }
+
+  // And thinking:end when a thinking block is finished, in the same stream handler
+  // ? UNVERIFIED: case"content_block_stop":{this._emit("contentBlock",G.content.at(-1));break}
+  const stopMatch = finalFile.match(CONTENT_BLOCK_STOP_PATTERN);
+
+  if (stopMatch && stopMatch.index !== undefined) {
+    const snapshotVar = stopMatch[1];
+    const stopOriginal = 'case"content_block_stop":{';
+    const stopNew = `case"content_block_stop":{if(${snapshotVar}.content.at(-1)?.type==="thinking")TWEAKCC_EVENTS.emit('thinking:end',{thinking:${snapshotVar}.content.at(-1).thinking});`;
+    finalFile =
+      finalFile.slice(0, stopMatch.index) +
+      stopNew +
+      finalFile.slice(stopMatch.index + stopOriginal.length);
+  }
 
+  if (finalFile !== newFile) {
     showDiff(oldFile, finalFile, '[thinking events]', match.index, match.index + originalCode.length);
     return finalFile;
   }
@@ -681,8 +1004,12 @@ export const writeThinkingEvents = (oldFile: string): string | null => {
 // STREAM EVENTS
 // ============================================================================
 
+const MESSAGE_START_PATTERN = /case"message_start":\{([$\w]+)=([$\w]+)\.message,([$\w]+)=Date\.now\(\)/;
+const TEXT_DELTA_PATTERN = /case"text_delta":\{if\(([$\w]+)\.type==="text"\)/;
+const MESSAGE_STOP_PATTERN = /case"message_stop":\{this\._addMessageParam/;
+
 /**
- * Sub-patch 4b: Inject stream events
+ * Sub-patch 4b: Inject stream events, and message:assistant:start/end with them
  *
  * ✓ VERIFIED: Patterns found in cli.js 2.0.55:
  *   case"content_block_delta" - stream chunk events
@@ -695,22 +1022,20 @@ export const writeStreamEvents = (oldFile: string): string | null => {
 
   // 1. stream:start at message_start
   // Pattern: case"message_start":{q=QA.message,N=Date.now()-H
-  const messageStartPattern = /case"message_start":\{([$\w]+)=([$\w]+)\.message,([$\w]+)=Date\.now\(\)/;
-  const startMatch = newFile.match(messageStartPattern);
+  const startMatch = newFile.match(MESSAGE_START_PATTERN);
 
   if (startMatch && startMatch.index !== undefined) {
     const msgVar = startMatch[1];
     const eventVar = startMatch[2];
     const timeVar = startMatch[3];
     const original = startMatch[0];
-    const replacement = `case"message_start":{TWEAKCC_EVENTS.emit('stream:start',{messageId:${eventVar}.message?.id});${msgVar}=${eventVar}.message,${timeVar}=Date.now()`;
+    const replacement = `case"message_start":{TWEAKCC_EVENTS.emit('stream:start',{messageId:${eventVar}.message?.id});TWEAKCC_EVENTS.emit('message:assistant:start',{messageId:${eventVar}.message?.id});${msgVar}=${eventVar}.message,${timeVar}=Date.now()`;
     newFile = newFile.replace(original, replacement);
   }
 
   // 2. stream:chunk at text_delta
   // Pattern: case"text_delta":{if(G.type==="text")
-  const textDeltaPattern = /case"text_delta":\{if\(([$\w]+)\.type==="text"\)/;
-  const chunkMatch = newFile.match(textDeltaPattern);
+  const chunkMatch = newFile.match(TEXT_DELTA_PATTERN);
 
   if (chunkMatch && chunkMatch.index !== undefined) {
     const blockVar = chunkMatch[1];
@@ -721,12 +1046,11 @@ export const writeStreamEvents = (oldFile: string): string | null => {
 
   // 3. stream:end at message_stop
   // Pattern: case"message_stop":
-  const messageStopPattern = /case"message_stop":\{this\._addMessageParam/;
-  const stopMatch = newFile.match(messageStopPattern);
+  const stopMatch = newFile.match(MESSAGE_STOP_PATTERN);
 
   if (stopMatch && stopMatch.index !== undefined) {
     const original = stopMatch[0];
-    const replacement = `case"message_stop":{TWEAKCC_EVENTS.emit('stream:end',{});this._addMessageParam`;
+    const replacement = `case"message_stop":{TWEAKCC_EVENTS.emit('stream:end',{});TWEAKCC_EVENTS.emit('message:assistant:end',{});this._addMessageParam`;
     newFile = newFile.replace(original, replacement);
   }
 
@@ -748,28 +1072,34 @@ export const writeStreamEvents = (oldFile: string): string | null => {
  *
  * ✓ VERIFIED: Uses same pattern as toolsets.ts (getMainAppComponentBodyStart)
  */
-export const writeSessionStartEvent = (oldFile: string): string | null => {
-  // Find the main app component initialization
+const findAppComponentSignature = (fileContents: string): RegExpMatchArray | null => {
   // Pattern from toolsets.ts: getMainAppComponentBodyStart
   const appComponentPattern =
     /function ([$\w]+)\(\{(?:(?:commands|debug|initialPrompt|initialTools|initialMessages|initialCheckpoints|initialFileHistorySnapshots|mcpClients|dynamicMcpConfig|mcpCliEndpoint|autoConnectIdeFlag|strictMcpConfig|systemPrompt|appendSystemPrompt|onBeforeQuery|onTurnComplete|disabled):[$\w]+(?:=(?:[^,]+,|[^}]+\})|[,}]))+\)/g;
 
-  const allMatches = Array.from(oldFile.matchAll(appComponentPattern));
+  const allMatches = Array.from(fileContents.matchAll(appComponentPattern));
   const matches = allMatches.filter(m => m[0].includes('commands:'));
 
-  if (matches.length === 0) {
-    console.error('patch: events: writeSessionStartEvent: could not find app component');
-    return null;
-  }
-
   // Take the longest match
-  let longestMatch = matches[0];
+  let longestMatch: RegExpMatchArray | null = null;
   for (const match of matches) {
-    if (match[0].length > longestMatch[0].length) {
+    if (!longestMatch || match[0].length > longestMatch[0].length) {
       longestMatch = match;
     }
   }
 
+  return longestMatch;
+};
+
+export const writeSessionStartEvent = (oldFile: string): string | null => {
+  // Find the main app component initialization
+  const longestMatch = findAppComponentSignature(oldFile);
+
+  if (!longestMatch) {
+    console.error('patch: events: writeSessionStartEvent: could not find app component');
+    return null;
+  }
+
   if (longestMatch.index === undefined) {
     return null;
   }
@@ -803,6 +1133,50 @@ export const writeSessionStartEvent = (oldFile: string): string | null => {
   return newFile;
 };
 
+// Claude Code runs its own SessionStart and SessionEnd hooks (from ~/.claude/settings.json) at
+// the points tweakcc's conversation and session events correspond to, and builds their input
+// with the source or reason as a variable.  The events are emitted from inside that object
+// literal with a comma expression, so they don't depend on the statements around it.
+const SESSION_START_HOOK_PATTERN = /hook_event_name:"SessionStart",source:([$\w]+)/;
+const SESSION_END_HOOK_PATTERN = /hook_event_name:"SessionEnd",reason:([$\w]+)/;
+
+/**
+ * Sub-patch 5b: Inject conversation:start, conversation:resume, conversation:end and
+ * session:end
+ *
+ * ? UNVERIFIED: Expected where Claude Code builds its hook inputs:
+ *   {...Y2(),hook_event_name:"SessionStart",source:A}  (A = startup, resume, clear or compact)
+ *   {...Y2(),hook_event_name:"SessionEnd",reason:A}    (A = clear, logout, prompt_input_exit or other)
+ *
+ * A /clear ends one conversation and starts another without ending the session; compacting
+ * continues the same conversation, so it emits nothing.
+ */
+export const writeConversationEvents = (oldFile: string): string | null => {
+  let newFile = oldFile;
+
+  const startMatch = newFile.match(SESSION_START_HOOK_PATTERN);
+  if (startMatch && startMatch.index !== undefined) {
+    const sourceVar = startMatch[1];
+    const replacement = `hook_event_name:"SessionStart",source:(${sourceVar}!=="compact"&&TWEAKCC_EVENTS.emit(${sourceVar}==="resume"?'conversation:resume':'conversation:start',{source:${sourceVar}}),${sourceVar})`;
+    newFile = newFile.slice(0, startMatch.index) + replacement + newFile.slice(startMatch.index + startMatch[0].length);
+  }
+
+  const endMatch = newFile.match(SESSION_END_HOOK_PATTERN);
+  if (endMatch && endMatch.index !== undefined) {
+    const reasonVar = endMatch[1];
+    const replacement = `hook_event_name:"SessionEnd",reason:(TWEAKCC_EVENTS.emit('conversation:end',{reason:${reasonVar}}),${reasonVar}!=="clear"&&TWEAKCC_EVENTS.emit('session:end',{reason:${reasonVar}}),${reasonVar})`;
+    newFile = newFile.slice(0, endMatch.index) + replacement + newFile.slice(endMatch.index + endMatch[0].length);
+  }
+
+  if (newFile !== oldFile) {
+    showDiff(oldFile, newFile, '[conversation events]', 0, 100);
+    return newFile;
+  }
+
+  console.log('patch: events: writeConversationEvents: no session hook patterns matched (optional)');
+  return oldFile;
+};
+
 // ============================================================================
 // MCP EVENTS
 // ============================================================================
@@ -828,30 +1202,68 @@ export const findMcpConnectLocation = (
   };
 };
 
+const MCP_CONNECTED_PATTERN = /\{name:([$\w]+),client:([$\w]+),type:"connected",/;
+// The whole receiver, e.g. A.client in A.client.callTool(...), which is wrapped as one.
+const MCP_CALL_TOOL_PATTERN = /(?<![$\w.])((?:[$\w]+\.)*[$\w]+)\.callTool\(\{name:([$\w]+),arguments:([$\w]+)/;
+
+// How far before the connected result to look for the client's onclose handler.
+const MCP_ONCLOSE_WINDOW = 5000;
+
+const findMcpOnClose = (
+  fileContents: string,
+  connectedMatch: RegExpMatchArray
+): number | null => {
+  const clientVar = connectedMatch[2];
+  const windowStart = Math.max(0, connectedMatch.index! - MCP_ONCLOSE_WINDOW);
+  const index = fileContents
+    .slice(windowStart, connectedMatch.index)
+    .lastIndexOf(`${clientVar}.onclose=()=>{`);
+  return index === -1 ? null : windowStart + index;
+};
+
 /**
- * Sub-patch 6: Inject MCP events (optional - may not find location)
+ * Sub-patch 6: Inject mcp:connect, mcp:disconnect and mcp:tool:call
  *
- * ? UNVERIFIED: MCP patterns are complex due to multiple client implementations
- * Patterns to look for:
- *   - MCPClient constructor
- *   - .connect() calls on MCP clients
- *   - MCP tool invocations
+ * ? UNVERIFIED: Expected in the MCP client code:
+ *   {name:A,client:G,type:"connected",capabilities:...}  - a server connected
+ *   G.onclose=()=>{...}                                   - set up shortly before that
+ *   G.callTool({name:B,arguments:Q,...},...)               - an MCP tool is called (or
+ *                                                            A.client.callTool(...))
  */
 export const writeMcpEvents = (oldFile: string): string | null => {
-  const newFile = oldFile;
+  let newFile = oldFile;
+
+  const connectedMatch = newFile.match(MCP_CONNECTED_PATTERN);
+  if (connectedMatch && connectedMatch.index !== undefined) {
+    const nameVar = connectedMatch[1];
+    const clientVar = connectedMatch[2];
+
+    // Patch the later site first so the earlier index stays valid.
+    const replacement = `{name:(TWEAKCC_EVENTS.emit('mcp:connect',{server:${nameVar}}),${nameVar}),client:${clientVar},type:"connected",`;
+    const onCloseIndex = findMcpOnClose(newFile, connectedMatch);
+    newFile = newFile.slice(0, connectedMatch.index) + replacement + newFile.slice(connectedMatch.index + connectedMatch[0].length);
+
+    if (onCloseIndex !== null) {
+      const insertPoint = onCloseIndex + `${clientVar}.onclose=()=>{`.length;
+      const eventCode = `TWEAKCC_EVENTS.emit('mcp:disconnect',{server:${nameVar}});`;
+      newFile = newFile.slice(0, insertPoint) + eventCode + newFile.slice(insertPoint);
+    }
+  }
 
-  // MCP server connection pattern
-  // Look for: mcpClients.map or similar patterns that iterate MCP clients
-  const mcpIterPattern = /([$\w]+)\.map\(\(?([$\w]+)\)?\s*=>\s*\{[^}]*connect/;
-  const iterMatch = newFile.match(mcpIterPattern);
+  const callMatch = newFile.match(MCP_CALL_TOOL_PATTERN);
+  if (callMatch && callMatch.index !== undefined) {
+    const [original, clientVar, nameVar, argsVar] = callMatch;
+    // (emit(), A.client).callTool(...) still calls callTool with `this` as the client.
+    const replacement = `(TWEAKCC_EVENTS.emit('mcp:tool:call',{toolName:${nameVar},input:${argsVar}}),${clientVar}).callTool({name:${nameVar},arguments:${argsVar}`;
+    newFile = newFile.slice(0, callMatch.index) + replacement + newFile.slice(callMatch.index + original.length);
+  }
 
-  if (iterMatch && iterMatch.index !== undefined) {
-    // We could inject mcp:connect here, but it's complex
-    console.log('patch: events: found MCP iteration pattern (future: inject mcp:connect)');
+  if (newFile !== oldFile) {
+    showDiff(oldFile, newFile, '[mcp events]', 0, 100);
+    return newFile;
   }
 
-  // For now, MCP events are not fully implemented
-  // The event types exist and can be emitted manually via /emit
+  console.log('patch: events: writeMcpEvents: no MCP patterns matched (optional)');
   return oldFile;
 };
 
@@ -945,6 +1357,56 @@ export const writeEmitSlashCommand = (oldFile: string): string | null => {
   return newFile;
 };
 
+// ============================================================================
+// EVENT AVAILABILITY
+// ============================================================================
+
+/**
+ * Where each built-in event is emitted from, as a check for that spot in an unpatched cli.js.
+ * Keep this in sync with the sub-patches above.
+ */
+export const EVENT_INJECTION_POINTS: {
+  events: TweakccEventType[];
+  find: (fileContents: string) => boolean;
+}[] = [
+  { events: ['tool:before', 'tool:after'], find: c => TOOL_RUN_PATTERN.test(c) },
+  { events: ['tool:error'], find: c => TOOL_ERROR_PATTERN.test(c) },
+  { events: ['tool:permission'], find: c => TOOL_PERMISSION_PATTERN.test(c) },
+  { events: ['message:user', 'message:system'], find: c => findMessageAppendLocation(c) !== null },
+  { events: ['message:assistant:start', 'stream:start'], find: c => MESSAGE_START_PATTERN.test(c) },
+  { events: ['message:assistant:end', 'stream:end'], find: c => MESSAGE_STOP_PATTERN.test(c) },
+  { events: ['stream:chunk'], find: c => TEXT_DELTA_PATTERN.test(c) },
+  { events: ['thinking:update'], find: c => THINKING_DELTA_PATTERN.test(c) },
+  { events: ['thinking:start'], find: c => THINKING_DELTA_PATTERN.test(c) && THINKING_START_PATTERN.test(c) },
+  { events: ['thinking:end'], find: c => THINKING_DELTA_PATTERN.test(c) && CONTENT_BLOCK_STOP_PATTERN.test(c) },
+  { events: ['session:start'], find: c => findAppComponentSignature(c) !== null },
+  { events: ['conversation:start', 'conversation:resume'], find: c => SESSION_START_HOOK_PATTERN.test(c) },
+  { events: ['conversation:end', 'session:end'], find: c => SESSION_END_HOOK_PATTERN.test(c) },
+  { events: ['mcp:connect'], find: c => MCP_CONNECTED_PATTERN.test(c) },
+  {
+    events: ['mcp:disconnect'],
+    find: c => {
+      const match = c.match(MCP_CONNECTED_PATTERN);
+      return !!match && findMcpOnClose(c, match) !== null;
+    },
+  },
+  { events: ['mcp:tool:call'], find: c => MCP_CALL_TOOL_PATTERN.test(c) },
+];
+
+/**
+ * Returns the built-in events the events patch can emit in this (unpatched) cli.js.  Custom
+ * events can always be emitted with /emit.
+ */
+export const getEmittableEvents = (fileContents: string): Set<TweakccEventType> => {
+  const emittable = new Set<TweakccEventType>();
+  for (const point of EVENT_INJECTION_POINTS) {
+    if (point.find(fileContents)) {
+      point.events.forEach(event => emittable.add(event));
+    }
+  }
+  return emittable;
+};
+
 // ============================================================================
 // MAIN ORCHESTRATOR
 // ============================================================================
@@ -970,14 +1432,36 @@ export const writeEvents = (
     return null;
   }
 
-  // Step 2: Inject tool lifecycle events (optional - may not find location)
-  const toolResult = writeToolLifecycleEvents(result);
+  // Step 2a: Make blocking tool:before hooks' decisions at the permission check (optional)
+  const decisionResult = writeToolDecisions(result);
+  if (decisionResult) {
+    result = decisionResult;
+    console.log('patch: events: step 2a applied (writeToolDecisions)');
+  }
+
+  // Step 2: Inject tool lifecycle events (optional - may not find location), making the
+  // decisions there if step 2a didn't
+  const toolResult = writeToolLifecycleEvents(result, !decisionResult);
   if (toolResult) {
     result = toolResult;
   } else {
     console.log('patch: events: step 2 skipped (writeToolLifecycleEvents) - location not found');
   }
 
+  // Step 2b: Inject tool:error (optional)
+  const toolErrorResult = writeToolErrorEvent(result);
+  if (toolErrorResult && toolErrorResult !== result) {
+    result = toolErrorResult;
+    console.log('patch: events: step 2b applied (writeToolErrorEvent)');
+  }
+
+  // Step 2c: Inject tool:permission (optional)
+  const permissionResult = writeToolPermissionEvent(result);
+  if (permissionResult && permissionResult !== result) {
+    result = permissionResult;
+    console.log('patch: events: step 2c applied (writeToolPermissionEvent)');
+  }
+
   // Step 3: Inject message events (optional)
   const messageResult = writeMessageEvents(result);
   if (messageResult) {
@@ -994,6 +1478,13 @@ export const writeEvents = (
     console.log('patch: events: step 4 skipped (writeSessionStartEvent) - location not found');
   }
 
+  // Step 4b: Inject conversation and session:end events (optional)
+  const conversationResult = writeConversationEvents(result);
+  if (conversationResult && conversationResult !== result) {
+    result = conversationResult;
+    console.log('patch: events: step 4b applied (writeConversationEvents)');
+  }
+
   // Step 5: Inject thinking events (optional)
   const thinkingResult = writeThinkingEvents(result);
   if (thinkingResult && thinkingResult !== result) {
@@ -1010,8 +1501,9 @@ export const writeEvents = (
 
   // Step 7: Inject MCP events (optional)
   const mcpResult = writeMcpEvents(result);
-  if (mcpResult) {
+  if (mcpResult && mcpResult !== result) {
     result = mcpResult;
+    console.log('patch: events: step 7 applied (writeMcpEvents)');
   }
 
   // Step 8: Add /emit slash command for testing
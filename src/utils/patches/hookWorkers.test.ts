@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { generateHookWorkerCode } from './hookWorkers.js';
+import { EventHookConfig } from '../types.js';
+
+type WorkerResponse = {
+  id: number;
+  result?: {
+    seen: [method: string, coalesced: number, textLength: number][];
+    params: Record<string, unknown>;
+  };
+  error?: { message: string };
+};
+
+type HookWorkers = {
+  startWorkers: () => unknown;
+  stopWorkers: () => void;
+  notifyWorker: (hook: EventHookConfig, event: string, data: object) => void;
+  requestWorker: (
+    hook: EventHookConfig,
+    event: string,
+    data: object
+  ) => WorkerResponse;
+};
+
+// Notes notifications, answers requests with what it's seen so far, and exits on custom:crash.
+// It starts reading after START_DELAY ms, so that events back up until then.
+const WORKER_JS = `
+const readline = require('readline');
+const seen = [];
+setTimeout(() => {
+  readline.createInterface({ input: process.stdin }).on('line', line => {
+    const message = JSON.parse(line);
+    if (message.method === 'custom:crash') process.exit(3);
+    if (message.id === undefined) {
+      seen.push([message.method, message.params.coalesced || 1, (message.params.text || '').length]);
+      return;
+    }
+    console.log('Handling ' + message.method);
+    console.log(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: { seen, params: message.params } }));
+  });
+}, Number(process.env.START_DELAY || 0));
+`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('hookWorkers', () => {
+  let dir: string;
+  let workers: HookWorkers | null;
+  let logs: string[];
+
+  // Runs the generated code for real, as the event emitter does.
+  const createWorkers = (hooks: EventHookConfig[]): HookWorkers => {
+    workers = new Function(
+      'require',
+      'hooks',
+      'log',
+      `${generateHookWorkerCode('require')}return { startWorkers, stopWorkers, notifyWorker, requestWorker };`
+    )(createRequire(import.meta.url), hooks, (_: string, message: string) =>
+      logs.push(message)
+    );
+    return workers!;
+  };
+
+  const workerHook = (
+    extra: Partial<EventHookConfig> = {}
+  ): EventHookConfig => ({
+    id: 'worker',
+    events: ['stream:chunk', 'tool:before', 'custom:crash'],
+    type: 'worker',
+    worker: `node ${JSON.stringify(path.join(dir, 'worker.js'))}`,
+    async: false,
+    enabled: true,
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-workers-'));
+    await fs.writeFile(path.join(dir, 'worker.js'), WORKER_JS);
+    workers = null;
+    logs = [];
+  });
+
+  afterEach(async () => {
+    workers?.stopWorkers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should stream notifications and answer requests', async () => {
+    const hook = workerHook();
+    const { startWorkers, notifyWorker, requestWorker } = createWorkers([hook]);
+    startWorkers();
+
+    notifyWorker(hook, 'stream:chunk', { text: 'Hello', index: 0 });
+    const response = requestWorker(hook, 'tool:before', { toolName: 'Bash' });
+
+    expect(response.result).toEqual({
+      seen: [['stream:chunk', 1, 5]],
+      params: { toolName: 'Bash' },
+    });
+    // Logs arrive asynchronously, once the main thread isn't waiting.
+    await sleep(100);
+    expect(logs).toContain('Worker output');
+  });
+
+  it('should coalesce high-frequency events while a worker falls behind', () => {
+    const hook = workerHook({ env: { START_DELAY: '300' } });
+    const { notifyWorker, requestWorker } = createWorkers([hook]);
+
+    const text = 'x'.repeat(8192);
+    for (let i = 0; i < 40; i++) {
+      notifyWorker(hook, 'stream:chunk', { text, index: 0 });
+    }
+    const { seen } = requestWorker(hook, 'tool:before', {}).result!;
+
+    // Nothing's lost, but the chunks that backed up arrive together.
+    expect(seen.reduce((total, [, , length]) => total + length, 0)).toBe(
+      40 * 8192
+    );
+    expect(seen.length).toBeLessThan(40);
+    expect(seen.at(-1)![1]).toBeGreaterThan(1);
+  });
+
+  it('should restart crashed workers with retry', async () => {
+    const hook = workerHook({
+      onError: 'retry',
+      retryCount: 1,
+      retryDelay: 10,
+    });
+    const { startWorkers, notifyWorker, requestWorker } = createWorkers([hook]);
+    startWorkers();
+    const restarts = () =>
+      logs.filter(message => message === 'Restarting worker...').length;
+
+    notifyWorker(hook, 'custom:crash', {});
+    await sleep(500);
+    expect(requestWorker(hook, 'tool:before', {}).result).toBeDefined();
+    expect(restarts()).toBe(1);
+
+    // Answering a request reset the count, so it's restarted again...
+    notifyWorker(hook, 'custom:crash', {});
+    await sleep(500);
+    expect(restarts()).toBe(2);
+
+    // ...but not after a second failure in a row.
+    notifyWorker(hook, 'custom:crash', {});
+    await sleep(500);
+    expect(restarts()).toBe(2);
+    expect(requestWorker(hook, 'tool:before', {}).error).toEqual({
+      message: 'Worker not running',
+    });
+  });
+
+  it('should time out requests', () => {
+    const hook = workerHook({ env: { START_DELAY: '5000' }, timeout: 100 });
+    const { requestWorker } = createWorkers([hook]);
+
+    expect(requestWorker(hook, 'tool:before', {}).error).toEqual({
+      message: 'Timed out after 100ms',
+    });
+  });
+});
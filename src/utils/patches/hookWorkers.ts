@@ -0,0 +1,285 @@
+// Worker hooks: `type: 'worker'` hooks run a long-lived child process that events are streamed
+// to as newline-delimited JSON-RPC 2.0 over its stdin, instead of spawning a process per
+// event.  The event emitter (./events.ts) includes the code generated here.
+//
+// The children are owned by a worker thread (the "host"), so that they can keep reading and
+// writing while the main thread is blocked waiting for the response to a sync hook's request.
+//
+// Protocol, one JSON object per line:
+// - Async hooks get notifications: {"jsonrpc":"2.0","method":"tool:after","params":{...}}
+// - Sync hooks get requests, and Claude Code waits (up to `timeout`) for the response:
+//     -> {"jsonrpc":"2.0","id":1,"method":"tool:before","params":{...}}
+//     <- {"jsonrpc":"2.0","id":1,"result":{"decision":"allow"}}
+//   A response with an "error" is treated as the hook failing.
+// - Anything else the worker prints is logged.
+// - stdin is closed at session:end; workers should exit when it is.
+
+/**
+ * Events that fire many times a second.  While a worker is falling behind, consecutive
+ * notifications of one of these are merged into one, joining the given property.
+ */
+export const COALESCED_EVENTS: Record<string, string> = {
+  'stream:chunk': 'text',
+  'thinking:update': 'thinking',
+};
+
+/**
+ * Notifications waiting for a worker beyond this are dropped, oldest first.  Requests are
+ * never dropped.
+ */
+export const MAX_WORKER_QUEUE = 1000;
+
+/**
+ * A worker that has run this long, or has answered a request, is considered to have started
+ * successfully: its restart count is reset, so `retryCount` limits consecutive failures.
+ */
+export const WORKER_STABLE_MS = 60_000;
+
+/**
+ * The host thread's code.  It receives `{ hooks, signal, responses }` as workerData: the
+ * worker hooks, an Int32Array over a SharedArrayBuffer that it sets to 1 after posting a
+ * response, and the MessagePort to post responses to.
+ */
+const generateHostCode = (): string => `
+const { parentPort, workerData } = require('worker_threads');
+const { spawn } = require('child_process');
+
+const COALESCED_EVENTS = ${JSON.stringify(COALESCED_EVENTS)};
+const MAX_WORKER_QUEUE = ${MAX_WORKER_QUEUE};
+const WORKER_STABLE_MS = ${WORKER_STABLE_MS};
+const { hooks, signal, responses } = workerData;
+const workers = {};
+
+function log(level, message, data) {
+  parentPort.postMessage({ type: 'log', level, message, data });
+}
+
+function respond(id, response) {
+  responses.postMessage({ id, ...response });
+  Atomics.store(signal, 0, 1);
+  Atomics.notify(signal, 0);
+}
+
+function startWorker(worker) {
+  const { hook } = worker;
+  const child = spawn('sh', ['-c', hook.worker], {
+    cwd: hook.cwd || process.cwd(),
+    env: { ...process.env, ...(hook.env || {}), TWEAKCC_HOOK_ID: hook.id, TWEAKCC_HOOK_NAME: hook.name || hook.id },
+    stdio: ['pipe', 'pipe', 'pipe']
+  });
+  worker.child = child;
+  worker.startedAt = Date.now();
+  worker.blocked = false;
+  worker.pending = new Set();
+  log('info', 'Worker started', { hookId: hook.id, pid: child.pid });
+
+  let stdout = '';
+  child.stdout.setEncoding('utf8');
+  child.stdout.on('data', chunk => {
+    stdout += chunk;
+    const lines = stdout.split('\\n');
+    stdout = lines.pop();
+    for (const line of lines) {
+      handleLine(worker, line);
+    }
+  });
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', chunk => log('debug', 'Worker stderr', { hookId: hook.id, output: chunk.trim() }));
+  child.stdin.on('error', () => {}); // Reported by 'exit'
+  child.stdin.on('drain', () => {
+    worker.blocked = false;
+    flush(worker);
+  });
+
+  let exited = false;
+  const onExit = (error, code) => {
+    if (exited) return;
+    exited = true;
+    worker.child = null;
+    for (const id of worker.pending) {
+      respond(id, { error: { message: 'Worker exited' } });
+    }
+    if (worker.stopping) return;
+
+    log('error', 'Worker exited', { hookId: hook.id, error: error && error.message, code });
+    if (Date.now() - worker.startedAt >= WORKER_STABLE_MS) worker.restarts = 0;
+    // Same as retries elsewhere: only with onError: 'retry', up to retryCount times, backing off.
+    const maxRetries = hook.retryCount ?? 3;
+    if (hook.onError === 'retry' && worker.restarts < maxRetries) {
+      const delay = (hook.retryDelay ?? 1000) * Math.pow(2, worker.restarts);
+      worker.restarts++;
+      log('warn', 'Restarting worker...', { hookId: hook.id, attempt: worker.restarts, maxRetries, delay });
+      setTimeout(() => startWorker(worker), delay);
+    } else {
+      worker.dead = true;
+      for (const entry of worker.queue) {
+        if (entry.message.id !== undefined) respond(entry.message.id, { error: { message: 'Worker exited' } });
+      }
+      worker.queue = [];
+    }
+  };
+  child.on('error', error => onExit(error, null));
+  child.on('exit', code => onExit(null, code));
+
+  flush(worker);
+}
+
+function handleLine(worker, line) {
+  if (!line.trim()) return;
+  let message = null;
+  try {
+    message = JSON.parse(line);
+  } catch (e) {
+    // Not JSON
+  }
+  if (message && message.id !== undefined && worker.pending.has(message.id) && ('result' in message || 'error' in message)) {
+    worker.pending.delete(message.id);
+    if (!message.error) worker.restarts = 0;
+    respond(message.id, message.error ? { error: { message: String(message.error.message || 'Worker error') } } : { result: message.result });
+  } else {
+    log('info', 'Worker output', { hookId: worker.hook.id, output: line });
+  }
+}
+
+function flush(worker) {
+  const { child } = worker;
+  while (child && !worker.blocked && worker.queue.length > 0) {
+    const { message } = worker.queue.shift();
+    if (message.id !== undefined) worker.pending.add(message.id);
+    worker.blocked = !child.stdin.write(JSON.stringify(message) + '\\n');
+  }
+}
+
+function enqueue(worker, event, message) {
+  const { queue } = worker;
+  const last = queue[queue.length - 1];
+  const property = COALESCED_EVENTS[event];
+  if (property && last && last.message.id === undefined && last.message.method === event && last.message.params.index === message.params.index) {
+    const params = last.message.params;
+    params[property] = String(params[property] ?? '') + String(message.params[property] ?? '');
+    params.coalesced = (params.coalesced || 1) + 1;
+    return;
+  }
+
+  queue.push({ message });
+  if (queue.length > MAX_WORKER_QUEUE) {
+    const index = queue.findIndex(entry => entry.message.id === undefined);
+    if (index !== -1) {
+      queue.splice(index, 1);
+      worker.dropped++;
+      if (worker.dropped === 1 || worker.dropped % 100 === 0) {
+        log('warn', 'Worker is falling behind; dropping events', { hookId: worker.hook.id, dropped: worker.dropped });
+      }
+    }
+  }
+  flush(worker);
+}
+
+parentPort.on('message', message => {
+  if (message.type === 'stop') {
+    for (const worker of Object.values(workers)) {
+      worker.stopping = true;
+      if (worker.child) {
+        for (const { message } of worker.queue) {
+          worker.child.stdin.write(JSON.stringify(message) + '\\n');
+        }
+        worker.child.stdin.end();
+      }
+      worker.queue = [];
+    }
+    return;
+  }
+
+  const worker = workers[message.hookId];
+  if (!worker) return;
+  if (worker.stopping || worker.dead) {
+    if (message.type === 'request') respond(message.id, { error: { message: 'Worker not running' } });
+    return;
+  }
+  const rpc = { jsonrpc: '2.0', ...(message.type === 'request' && { id: message.id }), method: message.event, params: message.params };
+  enqueue(worker, message.event, rpc);
+});
+
+for (const hook of hooks) {
+  const worker = { hook, child: null, queue: [], pending: new Set(), blocked: false, restarts: 0, startedAt: 0, dropped: 0, stopping: false, dead: false };
+  workers[hook.id] = worker;
+  startWorker(worker);
+}
+`;
+
+/**
+ * Generate the code that runs worker hooks, for inclusion in the event emitter.  It expects
+ * `hooks` and `log` to be in scope, and defines:
+ *
+ * - `startWorkers()` starts the host and every enabled worker hook, once.  Called at
+ *   session:start, or by the first event sent to a worker.
+ * - `notifyWorker(hook, event, eventData)` sends a notification.
+ * - `requestWorker(hook, event, eventData)` sends a request and blocks until the worker
+ *   responds or `timeout` passes, returning `{ result }` or `{ error: { message } }`.
+ *   Only the main thread waits; the host keeps serving the other workers.
+ * - `stopWorkers()` closes every worker's stdin.  Called at session:end.
+ */
+export const generateHookWorkerCode = (requireFunc: string): string => `
+  const HOOK_WORKER_HOST = ${JSON.stringify(generateHostCode())};
+  let workerHost = null;
+  let workerRequestId = 0;
+
+  function startWorkers() {
+    if (workerHost) return workerHost;
+    const workerHooks = hooks.filter(hook => hook.enabled && hook.type === 'worker' && hook.worker);
+    if (workerHooks.length === 0) return null;
+
+    const { Worker, MessageChannel } = ${requireFunc}('worker_threads');
+    const { port1, port2 } = new MessageChannel();
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const thread = new Worker(HOOK_WORKER_HOST, {
+      eval: true,
+      workerData: { hooks: workerHooks, signal, responses: port2 },
+      transferList: [port2]
+    });
+    thread.on('message', message => {
+      if (message.type === 'log') log(message.level, message.message, message.data);
+    });
+    thread.on('error', e => log('error', 'Worker host failed', { error: e.message }));
+    thread.unref();
+    port1.unref();
+    workerHost = { thread, signal, responses: port1 };
+    return workerHost;
+  }
+
+  function stopWorkers() {
+    if (workerHost) workerHost.thread.postMessage({ type: 'stop' });
+  }
+
+  function notifyWorker(hook, event, eventData) {
+    const host = startWorkers();
+    if (host) host.thread.postMessage({ type: 'notify', hookId: hook.id, event, params: eventData });
+  }
+
+  function requestWorker(hook, event, eventData) {
+    const host = startWorkers();
+    if (!host) return { error: { message: 'Worker not running' } };
+    const { receiveMessageOnPort } = ${requireFunc}('worker_threads');
+    const timeout = hook.timeout || 5000;
+    const id = ++workerRequestId;
+    const deadline = Date.now() + timeout;
+    host.thread.postMessage({ type: 'request', hookId: hook.id, id, event, params: eventData });
+
+    // The host sets the signal after posting any response, including late ones to earlier
+    // requests, so keep waiting until ours arrives.
+    for (;;) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return { error: { message: 'Timed out after ' + timeout + 'ms' } };
+      }
+      Atomics.wait(host.signal, 0, 0, remaining);
+      Atomics.store(host.signal, 0, 0);
+      let received;
+      while ((received = receiveMessageOnPort(host.responses))) {
+        if (received.message.id === id) {
+          return received.message;
+        }
+      }
+    }
+  }
+`;
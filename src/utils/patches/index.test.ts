@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { restoreNativeBinaryFromBackup } from '../config.js';
+import {
+  readNativeModuleGraph,
+  repackNativeInstallation,
+  replaceBinary,
+} from '../nativeInstallation.js';
+import { ClaudeCodeInstallationInfo } from '../types.js';
+import { writePatchedContent } from './index.js';
+
+const { home } = await vi.hoisted(async () => {
+  const os = await import('node:os');
+  const path = await import('node:path');
+  return { home: path.join(os.tmpdir(), `tweakcc-write-test-${process.pid}`) };
+});
+
+// The patched JS is also saved to ~/.tweakcc for debugging.
+vi.mock('node:os', async importOriginal => {
+  const os = await importOriginal<typeof import('node:os')>();
+  return {
+    ...os,
+    default: { ...os, homedir: () => home },
+    homedir: () => home,
+  };
+});
+
+vi.mock('node:child_process', async importOriginal => ({
+  ...(await importOriginal<typeof import('node:child_process')>()),
+  spawnSync: vi.fn(),
+}));
+
+vi.mock('../nativeInstallation.js', async () => {
+  const fsSync = await import('node:fs');
+  return {
+    extractClaudeJsFromNativeInstallation: vi.fn(),
+    isClaudeModule: (name: string) => name.endsWith('/claude'),
+    readNativeModuleGraph: vi.fn(),
+    // Writes the staging binary, as the real one does.
+    repackNativeInstallation: vi.fn(
+      (_binPath: string, _js: Buffer, outputPath: string) => {
+        fsSync.writeFileSync(outputPath, 'repacked');
+        return [];
+      }
+    ),
+    replaceBinary: vi.fn(),
+  };
+});
+
+// Only the restore from backup matters here.
+vi.mock('../config.js', () => ({
+  extractVersionFromContent: vi.fn(),
+  restoreClijsFromBackup: vi.fn(),
+  restoreNativeBinaryFromBackup: vi.fn(async () => true),
+  updateConfigFile: vi.fn(),
+}));
+
+const graphWith = (contents: string) => ({
+  entryPointId: 0,
+  modules: [
+    {
+      name: '/$bunfs/root/claude',
+      contents: Buffer.from(contents),
+      sourcemap: Buffer.alloc(0),
+      bytecode: Buffer.alloc(0),
+      encoding: 0,
+      loader: 0,
+      moduleFormat: 0,
+      side: 0,
+    },
+  ],
+});
+
+describe('writePatchedContent', () => {
+  const binPath = path.join(home, 'bin', 'claude');
+  const stagingPath = path.join(home, 'bin', 'claude.tweakcc-new');
+  const ccInstInfo: ClaudeCodeInstallationInfo = {
+    version: '2.0.31',
+    nativeInstallationPath: binPath,
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await fs.mkdir(path.join(home, '.tweakcc'), { recursive: true });
+    await fs.mkdir(path.dirname(binPath), { recursive: true });
+    vi.mocked(readNativeModuleGraph).mockReturnValue(graphWith('patched'));
+    vi.mocked(spawnSync).mockReturnValue({
+      status: 0,
+      stdout: '2.0.31 (Claude Code)\n',
+      stderr: '',
+    } as never);
+  });
+
+  afterEach(async () => {
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  it('should replace the binary once the repacked one passes verification', async () => {
+    await writePatchedContent(ccInstInfo, 'patched');
+
+    expect(repackNativeInstallation).toHaveBeenCalledWith(
+      binPath,
+      Buffer.from('patched'),
+      stagingPath,
+      new Map()
+    );
+    expect(readNativeModuleGraph).toHaveBeenCalledWith(stagingPath);
+    expect(replaceBinary).toHaveBeenCalledWith(stagingPath, binPath);
+    expect(restoreNativeBinaryFromBackup).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [
+      'parse',
+      () =>
+        vi.mocked(readNativeModuleGraph).mockImplementation(() => {
+          throw new Error('Bun data not found');
+        }),
+    ],
+    [
+      'compare',
+      () =>
+        vi.mocked(readNativeModuleGraph).mockReturnValue(graphWith('other')),
+    ],
+    [
+      'run',
+      () =>
+        vi.mocked(spawnSync).mockReturnValue({
+          status: 1,
+          stdout: '',
+          stderr: 'Segmentation fault',
+        } as never),
+    ],
+  ])(
+    'should remove the staging binary and restore the backup when %s fails',
+    async (stage, fail) => {
+      fail();
+
+      await expect(writePatchedContent(ccInstInfo, 'patched')).rejects.toThrow(
+        `The repacked binary failed verification (${stage})`
+      );
+      await expect(fs.access(stagingPath)).rejects.toThrow();
+      expect(restoreNativeBinaryFromBackup).toHaveBeenCalledWith(ccInstInfo);
+      expect(replaceBinary).not.toHaveBeenCalled();
+    }
+  );
+});
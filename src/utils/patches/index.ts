@@ -9,14 +9,18 @@ import {
 } from '../config.js';
 import {
   ClaudeCodeInstallationInfo,
+  NativeModuleReplacement,
   TweakccConfig,
-  NATIVE_BINARY_BACKUP_FILE,
 } from '../types.js';
+import { getBackupFile } from '../installations.js';
 import { isDebug, replaceFileBreakingHardLinks } from '../misc.js';
 import {
   extractClaudeJsFromNativeInstallation,
   repackNativeInstallation,
+  replaceBinary,
 } from '../nativeInstallation.js';
+import { verifyRepackedBinary } from '../repackVerification.js';
+import { autoCommitPrompts } from '../promptGit.js';
 
 // Notes to patch-writers:
 //
@@ -31,29 +35,14 @@ import {
 //   search down to 80ms.  More specific boundaries like explicitly requiring a particular
 //   character such as ',' or ';' can speed up matching even further, e.g. down to 30ms.
 //
+// - When a regex keeps breaking because the minifier reorders or rewrites code, add a fallback
+//   that finds it by shape with the queries in ./ast.ts (e.g. "the function that returns 200000",
+//   "the object literal with label:"Dark mode"").  Keep the regex as the fast path: parsing
+//   cli.js takes seconds, and only happens if some regex fails.
+//
 
-import { writeShowMoreItemsInSelectMenus } from './showMoreItemsInSelectMenus.js';
-import { writeThemes } from './themes.js';
-import { writeContextLimit } from './contextLimit.js';
-import { writeInputBoxBorder } from './inputBorderBox.js';
-import { writeSpinnerNoFreeze } from './spinnerNoFreeze.js';
-import { writeThinkerFormat } from './thinkerFormat.js';
-import { writeThinkerSymbolMirrorOption } from './thinkerMirrorOption.js';
-import { writeThinkerSymbolChars } from './thinkerSymbolChars.js';
-import { writeThinkerSymbolSpeed } from './thinkerSymbolSpeed.js';
-import { writeThinkerSymbolWidthLocation } from './thinkerSymbolWidth.js';
-import { writeThinkerVerbs } from './thinkerVerbs.js';
-import { writeUserMessageDisplay } from './userMessageDisplay.js';
-import { writeVerboseProperty } from './verboseProperty.js';
-import { writeModelCustomizations } from './modelSelector.js';
-import { writeThinkingVisibility } from './thinkingVisibility.js';
-import { writePatchesAppliedIndication } from './patchesAppliedIndication.js';
-import { applySystemPrompts } from './systemPrompts.js';
-import { writeFixLspSupport } from './fixLspSupport.js';
-import { writeToolsets } from './toolsets.js';
-import { writeConversationTitle } from './conversationTitle.js';
-import { writeEvents } from './events.js';
-import { writeTransforms } from './transforms.js';
+import { isPatchEnabled, PATCH_REGISTRY, PatchContext } from './registry.js';
+import { PatchOutcome, runPatch } from './report.js';
 
 export interface LocationResult {
   startIndex: number;
@@ -424,27 +413,35 @@ export const findBoxComponent = (fileContents: string): string | undefined => {
   return boxVarMatch[1];
 };
 
-export const applyCustomization = async (
-  config: TweakccConfig,
-  ccInstInfo: ClaudeCodeInstallationInfo
-): Promise<TweakccConfig> => {
-  let content: string;
-
+/**
+ * Reads the unpatched Claude Code JS.
+ *
+ * With `restore`, the installation is first restored from its backup, as `--apply` has
+ * always done.  Without it, the backup (or the installation itself, if there's no backup
+ * yet) is read directly and nothing on disk is touched.
+ */
+export const readOriginalContent = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  restore: boolean
+): Promise<string> => {
   if (ccInstInfo.nativeInstallationPath) {
     // For native installations: restore the binary, then extract to memory
-    await restoreNativeBinaryFromBackup(ccInstInfo);
+    if (restore) {
+      await restoreNativeBinaryFromBackup(ccInstInfo);
+    }
 
     // Extract from backup if it exists, otherwise from the native installation
+    const backupFile = getBackupFile(ccInstInfo);
     let backupExists = false;
     try {
-      await fs.stat(NATIVE_BINARY_BACKUP_FILE);
+      await fs.stat(backupFile);
       backupExists = true;
     } catch {
       // Backup doesn't exist, extract from native installation
     }
 
     const pathToExtractFrom = backupExists
-      ? NATIVE_BINARY_BACKUP_FILE
+      ? backupFile
       : ccInstInfo.nativeInstallationPath;
 
     if (isDebug()) {
@@ -461,175 +458,95 @@ export const applyCustomization = async (
     }
 
     // Save original extracted JS for debugging
-    const tweakccDir = path.join(os.homedir(), '.tweakcc');
-    const origPath = path.join(tweakccDir, 'native-claudejs-orig.js');
-    fsSync.writeFileSync(origPath, claudeJsBuffer);
-    if (isDebug()) {
-      console.log(`Saved original extracted JS from native to: ${origPath}`);
-    }
-
-    content = claudeJsBuffer.toString('utf8');
-  } else {
-    // For NPM installations: restore cli.js from backup, then read it
-    await restoreClijsFromBackup(ccInstInfo);
-
-    if (!ccInstInfo.cliPath) {
-      throw new Error('cliPath is required for NPM installations');
+    if (restore) {
+      const tweakccDir = path.join(os.homedir(), '.tweakcc');
+      const origPath = path.join(tweakccDir, 'native-claudejs-orig.js');
+      fsSync.writeFileSync(origPath, claudeJsBuffer);
+      if (isDebug()) {
+        console.log(`Saved original extracted JS from native to: ${origPath}`);
+      }
     }
 
-    content = await fs.readFile(ccInstInfo.cliPath, { encoding: 'utf8' });
+    return claudeJsBuffer.toString('utf8');
   }
 
-  const items: string[] = [];
-
-  // Apply system prompt customizations
-  const systemPromptsResult = await applySystemPrompts(
-    content,
-    ccInstInfo.version
-  );
-  content = systemPromptsResult.newContent;
-  items.push(...systemPromptsResult.items);
-
-  let result: string | null = null;
-
-  // Apply themes
-  if (config.settings.themes && config.settings.themes.length > 0) {
-    if ((result = writeThemes(content, config.settings.themes)))
-      content = result;
-  }
-
-  // Apply thinking verbs
-  // prettier-ignore
-  if (config.settings.thinkingVerbs) {
-    if ((result = writeThinkerVerbs(content, config.settings.thinkingVerbs.verbs)))
-      content = result;
-    if ((result = writeThinkerFormat(content, config.settings.thinkingVerbs.format)))
-      content = result;
+  if (!ccInstInfo.cliPath) {
+    throw new Error('cliPath is required for NPM installations');
   }
 
-  // Apply thinking style
-  // prettier-ignore
-  if ((result = writeThinkerSymbolChars(content, config.settings.thinkingStyle.phases)))
-    content = result;
-  // prettier-ignore
-  if ((result = writeThinkerSymbolSpeed(content, config.settings.thinkingStyle.updateInterval)))
-    content = result;
-  // prettier-ignore
-  if ((result = writeThinkerSymbolWidthLocation(content, Math.max(...config.settings.thinkingStyle.phases.map(p => p.length)) + 1)))
-    content = result;
-  // prettier-ignore
-  if ((result = writeThinkerSymbolMirrorOption(content, config.settings.thinkingStyle.reverseMirror)))
-    content = result;
-
-  // Apply user message display customization
-  if (config.settings.userMessageDisplay) {
-    if (
-      (result = writeUserMessageDisplay(
-        content,
-        config.settings.userMessageDisplay.prefix.format,
-        config.settings.userMessageDisplay.prefix.foreground_color,
-        config.settings.userMessageDisplay.prefix.background_color,
-        config.settings.userMessageDisplay.prefix.styling.includes('bold'),
-        config.settings.userMessageDisplay.prefix.styling.includes('italic'),
-        config.settings.userMessageDisplay.prefix.styling.includes('underline'),
-        config.settings.userMessageDisplay.prefix.styling.includes(
-          'strikethrough'
-        ),
-        config.settings.userMessageDisplay.prefix.styling.includes('inverse'),
-        config.settings.userMessageDisplay.message.foreground_color,
-        config.settings.userMessageDisplay.message.background_color,
-        config.settings.userMessageDisplay.message.styling.includes('bold'),
-        config.settings.userMessageDisplay.message.styling.includes('italic'),
-        config.settings.userMessageDisplay.message.styling.includes(
-          'underline'
-        ),
-        config.settings.userMessageDisplay.message.styling.includes(
-          'strikethrough'
-        ),
-        config.settings.userMessageDisplay.message.styling.includes('inverse')
-      ))
-    ) {
-      content = result;
-    }
+  if (restore) {
+    // For NPM installations: restore cli.js from backup, then read it
+    await restoreClijsFromBackup(ccInstInfo);
+    return await fs.readFile(ccInstInfo.cliPath, { encoding: 'utf8' });
   }
 
-  // Apply input box border customization
-  if (
-    config.settings.inputBox &&
-    typeof config.settings.inputBox.removeBorder === 'boolean'
-  ) {
-    if (
-      (result = writeInputBoxBorder(
-        content,
-        config.settings.inputBox.removeBorder
-      ))
-    )
-      content = result;
+  try {
+    return await fs.readFile(getBackupFile(ccInstInfo), { encoding: 'utf8' });
+  } catch {
+    // No backup yet, so the installed cli.js is still the original.
+    return await fs.readFile(ccInstInfo.cliPath, { encoding: 'utf8' });
   }
+};
 
-  // Apply verbose property patch (always true by default)
-  if ((result = writeVerboseProperty(content))) content = result;
-
-  // Apply spinner no-freeze patch (always enabled)
-  if ((result = writeSpinnerNoFreeze(content))) content = result;
-
-  // Apply context limit patch (always enabled)
-  if ((result = writeContextLimit(content))) content = result;
-
-  // Apply model customizations (known names, mapping, selector options) (always enabled)
-  if ((result = writeModelCustomizations(content))) content = result;
-
-  // Apply show more items in select menus patch (always enabled)
-  if ((result = writeShowMoreItemsInSelectMenus(content, 25))) content = result;
-
-  // Apply thinking visibility patch (always enabled)
-  if ((result = writeThinkingVisibility(content))) content = result;
+/**
+ * Runs every patch in PATCH_REGISTRY over `content` in memory and records an outcome for each
+ * one, including patches that are turned off.
+ *
+ * In a dry run, applied system prompt hashes aren't recorded and each patch's edit region
+ * is kept in its outcome so a diff can be generated.
+ */
+export const runPatches = async (
+  config: TweakccConfig,
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  content: string,
+  dryRun: boolean,
+  options: { quiet?: boolean } = {}
+): Promise<{ content: string; outcomes: PatchOutcome[] }> => {
+  const context: PatchContext = { config, ccInstInfo, dryRun, items: [] };
+  const outcomes: PatchOutcome[] = [];
+
+  for (const patch of PATCH_REGISTRY) {
+    const enabled =
+      isPatchEnabled(config.settings, patch) &&
+      (patch.isConfigured?.(config.settings) ?? true);
+
+    // Don't run a patch if something it depends on didn't apply.
+    const missingDependency = patch.dependencies?.find(
+      dep => !outcomes.some(o => o.id === dep && o.status === 'applied')
+    );
 
-  // Apply patches applied indication
-  const showTweakccVersion = config.settings.misc?.showTweakccVersion ?? true;
-  const showPatchesApplied = config.settings.misc?.showPatchesApplied ?? true;
-  if (
-    (result = writePatchesAppliedIndication(
+    const result = await runPatch(
+      patch.id,
       content,
-      '3.2.0',
-      items,
-      showTweakccVersion,
-      showPatchesApplied
-    ))
-  )
-    content = result;
-
-  // Apply LSP support fixes (always enabled)
-  if ((result = writeFixLspSupport(content))) content = result;
-
-  // Apply toolset restrictions (enabled if toolsets configured)
-  if (config.settings.toolsets && config.settings.toolsets.length > 0) {
-    if (
-      (result = writeToolsets(
-        content,
-        config.settings.toolsets,
-        config.settings.defaultToolset
-      ))
-    )
-      content = result;
-  }
-
-  // Apply conversation title management (always enabled)
-  if ((result = writeConversationTitle(content))) content = result;
-
-  // Apply custom events hook system (enabled if events configured)
-  if (config.settings.events?.enabled && config.settings.events.hooks?.length > 0) {
-    if ((result = writeEvents(content, config.settings.events)))
-      content = result;
+      c => patch.apply(c, context),
+      {
+        enabled: enabled && !missingDependency,
+        required: patch.required ?? true,
+        collectEdit: dryRun,
+        quiet: options.quiet,
+      }
+    );
+    if (enabled && missingDependency) {
+      result.outcome.step = `depends on ${missingDependency}, which was not applied`;
+    }
+    content = result.content;
+    outcomes.push(result.outcome);
   }
 
-  // Apply transform/middleware plugin system (enabled if transforms configured)
-  if (config.settings.transforms?.enabled && config.settings.transforms.transforms?.length > 0) {
-    if ((result = writeTransforms(content, config.settings.transforms)))
-      content = result;
-  }
+  return { content, outcomes };
+};
 
-  // Write the modified content back
+/**
+ * Writes patched JS back into the installation (cli.js, or repacked into the native binary
+ * along with any replaced modules).  A repacked binary is written next to the installed one
+ * and only moved over it once verifyRepackedBinary passes; if it doesn't, the installation is
+ * restored from its backup and this throws, naming the stage that failed.
+ */
+export const writePatchedContent = async (
+  ccInstInfo: ClaudeCodeInstallationInfo,
+  content: string,
+  nativeModules: NativeModuleReplacement[] = []
+): Promise<void> => {
   if (ccInstInfo.nativeInstallationPath) {
     // For native installations: repack the modified claude.js back into the binary
     if (isDebug()) {
@@ -647,11 +564,43 @@ export const applyCustomization = async (
     }
 
     const modifiedBuffer = Buffer.from(content, 'utf8');
-    repackNativeInstallation(
-      ccInstInfo.nativeInstallationPath,
+    const moduleReplacements = new Map<string, Buffer>();
+    for (const { module, file } of nativeModules) {
+      moduleReplacements.set(module, await fs.readFile(file));
+    }
+    // e.g. claude.exe -> claude.tweakcc-new.exe, so Windows still runs it
+    const binPath = ccInstInfo.nativeInstallationPath;
+    const { dir, name, ext } = path.parse(binPath);
+    const stagingPath = path.join(dir, `${name}.tweakcc-new${ext}`);
+    const missing = repackNativeInstallation(
+      binPath,
       modifiedBuffer,
-      ccInstInfo.nativeInstallationPath
+      stagingPath,
+      moduleReplacements
     );
+    for (const module of missing) {
+      console.warn(
+        `Warning: settings.nativeModules: Claude Code ${ccInstInfo.version} has no module named ${module}; skipping it.`
+      );
+      moduleReplacements.delete(module);
+    }
+
+    if (isDebug()) {
+      console.log(`Verifying repacked binary: ${stagingPath}`);
+    }
+    const failure = verifyRepackedBinary(stagingPath, {
+      claudeJs: modifiedBuffer,
+      moduleReplacements,
+      version: ccInstInfo.version,
+    });
+    if (failure) {
+      await fs.rm(stagingPath, { force: true });
+      const restored = await restoreNativeBinaryFromBackup(ccInstInfo);
+      throw new Error(
+        `The repacked binary failed verification (${failure.stage}): ${failure.message}.  ${restored ? 'Claude Code was restored from its backup.' : 'Claude Code was not modified.'}`
+      );
+    }
+    replaceBinary(stagingPath, binPath);
   } else {
     // For NPM installations: replace the cli.js file
     if (!ccInstInfo.cliPath) {
@@ -660,8 +609,58 @@ export const applyCustomization = async (
 
     await replaceFileBreakingHardLinks(ccInstInfo.cliPath, content, 'patch');
   }
+};
 
-  return await updateConfigFile(config => {
+export interface ApplyResult {
+  config: TweakccConfig;
+  outcomes: PatchOutcome[];
+}
+
+export const applyCustomization = async (
+  config: TweakccConfig,
+  ccInstInfo: ClaudeCodeInstallationInfo
+): Promise<ApplyResult> => {
+  const originalContent = await readOriginalContent(ccInstInfo, true);
+  const { content, outcomes } = await runPatches(
+    config,
+    ccInstInfo,
+    originalContent,
+    false
+  );
+
+  // Write the modified content back
+  await writePatchedContent(ccInstInfo, content, config.settings.nativeModules);
+
+  const newConfig = await updateConfigFile(config => {
     config.changesApplied = true;
   });
+
+  // Record the prompts that are now applied
+  await autoCommitPrompts('Apply', ccInstInfo.version);
+
+  return { config: newConfig, outcomes };
+};
+
+export interface DryRunResult {
+  originalContent: string;
+  patchedContent: string;
+  outcomes: PatchOutcome[];
+}
+
+/**
+ * Runs the same pipeline as applyCustomization entirely in memory.  Neither the Claude Code
+ * installation nor the config file is modified.
+ */
+export const dryRunCustomization = async (
+  config: TweakccConfig,
+  ccInstInfo: ClaudeCodeInstallationInfo
+): Promise<DryRunResult> => {
+  const originalContent = await readOriginalContent(ccInstInfo, false);
+  const { content, outcomes } = await runPatches(
+    config,
+    ccInstInfo,
+    originalContent,
+    true
+  );
+  return { originalContent, patchedContent: content, outcomes };
 };
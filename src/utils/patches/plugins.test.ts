@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { generatePluginLoaderCode } from './plugins.js';
+
+type PluginLoader = {
+  loadPlugin: (
+    script: string,
+    exportName: string
+  ) => (...args: unknown[]) => unknown;
+  callPlugin: (
+    fn: (...args: unknown[]) => unknown,
+    args: unknown[],
+    timeout: number
+  ) => unknown;
+};
+
+// Runs the generated code for real, as the injected runners do.
+const createLoader = (): PluginLoader =>
+  new Function(
+    'require',
+    `${generatePluginLoaderCode('require')}return { loadPlugin, callPlugin };`
+  )(createRequire(import.meta.url));
+
+describe('plugins', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-plugins-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load plugins once and reload them when they change', async () => {
+    const { loadPlugin, callPlugin } = createLoader();
+    const script = path.join(dir, 'upper.js');
+    await fs.writeFile(
+      script,
+      'let calls = 0;\nexports.transform = data => data.toUpperCase() + ++calls;'
+    );
+
+    const transform = loadPlugin(script, 'transform');
+    expect(callPlugin(transform, ['a', {}], 1000)).toBe('A1');
+    expect(loadPlugin(script, 'transform')).toBe(transform);
+    expect(callPlugin(transform, ['b', {}], 1000)).toBe('B2');
+
+    await fs.writeFile(script, 'module.exports = data => data + "!";');
+    await fs.utimes(script, new Date(), new Date(Date.now() + 5000));
+    const reloaded = loadPlugin(script, 'transform');
+    expect(reloaded).not.toBe(transform);
+    expect(callPlugin(reloaded, ['c'], 1000)).toBe('c!');
+  });
+
+  it('should require the named export', async () => {
+    const { loadPlugin } = createLoader();
+    const script = path.join(dir, 'hook.js');
+    await fs.writeFile(script, 'exports.transform = data => data;');
+
+    expect(() => loadPlugin(script, 'hook')).toThrow(
+      `${script} does not export a hook function`
+    );
+  });
+
+  it('should interrupt plugins that run too long', async () => {
+    const { loadPlugin, callPlugin } = createLoader();
+    const script = path.join(dir, 'loop.js');
+    await fs.writeFile(
+      script,
+      'exports.transform = data => { if (data) for (;;); return 1; };'
+    );
+
+    const transform = loadPlugin(script, 'transform');
+    expect(() => callPlugin(transform, [true], 50)).toThrow(
+      'Timed out after 50ms'
+    );
+    expect(callPlugin(transform, [false], 50)).toBe(1);
+    expect(() =>
+      callPlugin(
+        () => {
+          throw new Error('boom');
+        },
+        [],
+        50
+      )
+    ).toThrow('boom');
+  });
+});
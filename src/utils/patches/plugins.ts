@@ -0,0 +1,63 @@
+// In-process plugins: transforms and script hooks with `inProcess: true` are required into
+// Claude Code once and called directly, instead of spawning `node script` on every call.
+// The transform runner (./transforms.ts) and the event emitter (./events.ts) each include
+// the code generated here.
+
+/**
+ * Generate the code that loads and calls in-process plugins, for inclusion in an injected
+ * runner.  It defines two functions:
+ *
+ * - `loadPlugin(script, exportName)` requires `script` and returns its `exportName` export,
+ *   or the module itself if it exports a single function.  The file's mtime is checked on
+ *   every call and the module is required again when it changes, so edits take effect
+ *   without restarting Claude Code.  Only the plugin's own file is reloaded, not modules it
+ *   requires.
+ * - `callPlugin(fn, args, timeout)` calls the plugin, throwing if it runs for longer than
+ *   `timeout` ms.
+ */
+export const generatePluginLoaderCode = (requireFunc: string): string => `
+  const pluginModules = {};
+
+  function loadPlugin(script, exportName) {
+    const scriptPath = ${requireFunc}('path').resolve(script);
+    // Checked on every call rather than watched, so that editors that save by replacing the
+    // file are picked up too.
+    const mtimeMs = ${requireFunc}('fs').statSync(scriptPath).mtimeMs;
+    const cached = pluginModules[scriptPath];
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.fn;
+    }
+
+    delete ${requireFunc}.cache[${requireFunc}.resolve(scriptPath)];
+    const exported = ${requireFunc}(scriptPath);
+    const fn = typeof exported === 'function' ? exported : exported && exported[exportName];
+    if (typeof fn !== 'function') {
+      throw new Error(scriptPath + ' does not export a ' + exportName + ' function');
+    }
+    pluginModules[scriptPath] = { mtimeMs, fn };
+    return fn;
+  }
+
+  // Plugins are called from a vm script because vm's timeout is enforced by a watchdog
+  // thread, which interrupts the plugin even if it never yields (a timer can't).  Anything
+  // the plugin does asynchronously isn't covered.
+  const { Script, createContext } = ${requireFunc}('vm');
+  const pluginSandbox = createContext({});
+  const pluginCall = new Script('result = fn.apply(undefined, args)');
+
+  function callPlugin(fn, args, timeout) {
+    pluginSandbox.fn = fn;
+    pluginSandbox.args = args;
+    try {
+      pluginCall.runInContext(pluginSandbox, { timeout });
+      return pluginSandbox.result;
+    } catch (err) {
+      if (err && err.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new Error('Timed out after ' + timeout + 'ms');
+      }
+      throw err;
+    } finally {
+      pluginSandbox.fn = pluginSandbox.args = pluginSandbox.result = undefined;
+    }
+  }
+`;
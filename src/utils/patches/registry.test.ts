@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, Settings } from '../types.js';
+import {
+  PATCH_REGISTRY,
+  getPatchDefinition,
+  isPatchEnabled,
+} from './registry.js';
+
+describe('registry', () => {
+  it('should have unique patch IDs', () => {
+    const ids = PATCH_REGISTRY.map(patch => patch.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should only depend on patches that run earlier', () => {
+    PATCH_REGISTRY.forEach((patch, index) => {
+      for (const dep of patch.dependencies ?? []) {
+        const depIndex = PATCH_REGISTRY.findIndex(p => p.id === dep);
+        expect(depIndex, `${patch.id} depends on ${dep}`).toBeGreaterThan(-1);
+        expect(depIndex).toBeLessThan(index);
+      }
+    });
+  });
+
+  it('should look up patches by ID', () => {
+    expect(getPatchDefinition('context-limit')?.name).toBe('Context limit');
+    expect(getPatchDefinition('nonexistent')).toBeUndefined();
+  });
+
+  describe('isPatchEnabled', () => {
+    const patch = getPatchDefinition('model-customizations')!;
+
+    it('should fall back to the default when not set', () => {
+      const settings: Settings = { ...DEFAULT_SETTINGS, patches: {} };
+      expect(isPatchEnabled(settings, patch)).toBe(patch.defaultEnabled);
+    });
+
+    it('should respect settings.patches', () => {
+      const settings: Settings = {
+        ...DEFAULT_SETTINGS,
+        patches: { 'model-customizations': false },
+      };
+      expect(isPatchEnabled(settings, patch)).toBe(false);
+    });
+
+    it('should handle configs without a patches map', () => {
+      const settings = { ...DEFAULT_SETTINGS } as Partial<Settings>;
+      delete settings.patches;
+      expect(isPatchEnabled(settings as Settings, patch)).toBe(true);
+    });
+  });
+
+  describe('isConfigured', () => {
+    it('should skip configurable patches when there is nothing to apply', () => {
+      const settings: Settings = {
+        ...DEFAULT_SETTINGS,
+        toolsets: [],
+        events: { enabled: true, hooks: [] },
+      };
+      expect(getPatchDefinition('toolsets')!.isConfigured!(settings)).toBe(
+        false
+      );
+      expect(getPatchDefinition('events')!.isConfigured!(settings)).toBe(false);
+    });
+
+    it('should honor misc.expandThinkingBlocks', () => {
+      const settings: Settings = {
+        ...DEFAULT_SETTINGS,
+        misc: { ...DEFAULT_SETTINGS.misc, expandThinkingBlocks: false },
+      };
+      expect(
+        getPatchDefinition('thinking-visibility')!.isConfigured!(settings)
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+// The list of every patch tweakcc can apply, in the order they're applied.  Each patch can be
+// turned off with `settings.patches[id] = false` in config.json or from the Patches view.
+
+import {
+  ClaudeCodeInstallationInfo,
+  Settings,
+  TweakccConfig,
+} from '../types.js';
+import { writeShowMoreItemsInSelectMenus } from './showMoreItemsInSelectMenus.js';
+import { writeThemes } from './themes.js';
+import { writeContextLimit } from './contextLimit.js';
+import { writeInputBoxBorder } from './inputBorderBox.js';
+import { writeSpinnerNoFreeze } from './spinnerNoFreeze.js';
+import { writeThinkerFormat } from './thinkerFormat.js';
+import { writeThinkerSymbolMirrorOption } from './thinkerMirrorOption.js';
+import { writeThinkerSymbolChars } from './thinkerSymbolChars.js';
+import { writeThinkerSymbolSpeed } from './thinkerSymbolSpeed.js';
+import { writeThinkerSymbolWidthLocation } from './thinkerSymbolWidth.js';
+import { writeThinkerVerbs } from './thinkerVerbs.js';
+import { writeUserMessageDisplay } from './userMessageDisplay.js';
+import { writeVerboseProperty } from './verboseProperty.js';
+import { writeModelCustomizations } from './modelSelector.js';
+import { writeThinkingVisibility } from './thinkingVisibility.js';
+import { writePatchesAppliedIndication } from './patchesAppliedIndication.js';
+import { applySystemPrompts } from './systemPrompts.js';
+import { writeFixLspSupport } from './fixLspSupport.js';
+import { writeToolsets } from './toolsets.js';
+import { writeConversationTitle } from './conversationTitle.js';
+import { writeEvents } from './events.js';
+import { writeTransforms } from './transforms.js';
+
+/**
+ * State shared by all patches during a single run.
+ */
+export interface PatchContext {
+  config: TweakccConfig;
+  ccInstInfo: ClaudeCodeInstallationInfo;
+  dryRun: boolean;
+  items: string[]; // Applied system prompt names, shown by patches-applied-indication
+}
+
+export interface PatchDefinition {
+  id: string;
+  name: string;
+  description: string;
+  defaultEnabled: boolean;
+  required?: boolean; // Default: true.  See PatchOutcome.required.
+  dependencies?: string[]; // Patches that must have applied for this one to run
+  // Whether the user's settings give this patch anything to do (e.g. at least one theme).
+  // Patches without settings of their own omit this.
+  isConfigured?: (settings: Settings) => boolean;
+  apply: (
+    content: string,
+    context: PatchContext
+  ) => string | null | Promise<string | null>;
+}
+
+export const PATCH_REGISTRY: PatchDefinition[] = [
+  {
+    id: 'system-prompts',
+    name: 'System prompts',
+    description: 'Apply your edits to the system prompt markdown files',
+    defaultEnabled: true,
+    apply: async (content, { ccInstInfo, dryRun, items }) => {
+      const result = await applySystemPrompts(
+        content,
+        ccInstInfo.version,
+        undefined,
+        !dryRun
+      );
+      items.push(...result.items);
+      return result.newContent;
+    },
+  },
+  {
+    id: 'themes',
+    name: 'Themes',
+    description: 'Replace the built-in themes with your themes',
+    defaultEnabled: true,
+    isConfigured: settings => settings.themes?.length > 0,
+    apply: (content, { config }) =>
+      writeThemes(content, config.settings.themes),
+  },
+  {
+    id: 'thinking-verbs',
+    name: 'Thinking verbs',
+    description: 'Use your list of verbs while Claude is working',
+    defaultEnabled: true,
+    isConfigured: settings => !!settings.thinkingVerbs,
+    apply: (content, { config }) =>
+      writeThinkerVerbs(content, config.settings.thinkingVerbs.verbs),
+  },
+  {
+    id: 'thinking-verbs-format',
+    name: 'Thinking verb format',
+    description: 'Use your format string for the thinking verb',
+    defaultEnabled: true,
+    isConfigured: settings => !!settings.thinkingVerbs,
+    apply: (content, { config }) =>
+      writeThinkerFormat(content, config.settings.thinkingVerbs.format),
+  },
+  {
+    id: 'thinker-symbol-chars',
+    name: 'Spinner characters',
+    description: 'Use your thinking spinner animation phases',
+    defaultEnabled: true,
+    apply: (content, { config }) =>
+      writeThinkerSymbolChars(content, config.settings.thinkingStyle.phases),
+  },
+  {
+    id: 'thinker-symbol-speed',
+    name: 'Spinner speed',
+    description: 'Use your thinking spinner update interval',
+    defaultEnabled: true,
+    apply: (content, { config }) =>
+      writeThinkerSymbolSpeed(
+        content,
+        config.settings.thinkingStyle.updateInterval
+      ),
+  },
+  {
+    id: 'thinker-symbol-width',
+    name: 'Spinner width',
+    description: 'Widen the spinner to fit the widest animation phase',
+    defaultEnabled: true,
+    dependencies: ['thinker-symbol-chars'],
+    apply: (content, { config }) =>
+      writeThinkerSymbolWidthLocation(
+        content,
+        Math.max(...config.settings.thinkingStyle.phases.map(p => p.length)) + 1
+      ),
+  },
+  {
+    id: 'thinker-symbol-mirror',
+    name: 'Spinner mirroring',
+    description: 'Play the spinner phases forwards and then in reverse',
+    defaultEnabled: true,
+    apply: (content, { config }) =>
+      writeThinkerSymbolMirrorOption(
+        content,
+        config.settings.thinkingStyle.reverseMirror
+      ),
+  },
+  {
+    id: 'user-message-display',
+    name: 'User message display',
+    description: 'Style user messages in the chat history',
+    defaultEnabled: true,
+    isConfigured: settings => !!settings.userMessageDisplay,
+    apply: (content, { config }) => {
+      const { prefix, message } = config.settings.userMessageDisplay;
+      return writeUserMessageDisplay(
+        content,
+        prefix.format,
+        prefix.foreground_color,
+        prefix.background_color,
+        prefix.styling.includes('bold'),
+        prefix.styling.includes('italic'),
+        prefix.styling.includes('underline'),
+        prefix.styling.includes('strikethrough'),
+        prefix.styling.includes('inverse'),
+        message.foreground_color,
+        message.background_color,
+        message.styling.includes('bold'),
+        message.styling.includes('italic'),
+        message.styling.includes('underline'),
+        message.styling.includes('strikethrough'),
+        message.styling.includes('inverse')
+      );
+    },
+  },
+  {
+    id: 'input-box-border',
+    name: 'Input box border',
+    description: 'Show or remove the border around the input box',
+    defaultEnabled: true,
+    isConfigured: settings =>
+      typeof settings.inputBox?.removeBorder === 'boolean',
+    apply: (content, { config }) =>
+      writeInputBoxBorder(content, config.settings.inputBox.removeBorder),
+  },
+  {
+    id: 'verbose-property',
+    name: 'Verbose spinner',
+    description:
+      "Always show the spinner's verbose details (elapsed time, tokens)",
+    defaultEnabled: true,
+    apply: writeVerboseProperty,
+  },
+  {
+    id: 'spinner-no-freeze',
+    name: 'Spinner freeze fix',
+    description:
+      'Keep the spinner animating when CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC is set',
+    defaultEnabled: true,
+    apply: writeSpinnerNoFreeze,
+  },
+  {
+    id: 'context-limit',
+    name: 'Context limit',
+    description:
+      'Read the context limit from the CLAUDE_CODE_CONTEXT_LIMIT environment variable',
+    defaultEnabled: true,
+    apply: writeContextLimit,
+  },
+  {
+    id: 'model-customizations',
+    name: 'Model selector',
+    description: 'Add older Claude models to the /model selector',
+    defaultEnabled: true,
+    apply: writeModelCustomizations,
+  },
+  {
+    id: 'show-more-items-in-select-menus',
+    name: 'Longer select menus',
+    description: 'Show up to 25 items in select menus',
+    defaultEnabled: true,
+    apply: content => writeShowMoreItemsInSelectMenus(content, 25),
+  },
+  {
+    id: 'thinking-visibility',
+    name: 'Expand thinking blocks',
+    description: 'Show thinking blocks expanded instead of collapsed',
+    defaultEnabled: true,
+    isConfigured: settings => settings.misc?.expandThinkingBlocks ?? true,
+    apply: writeThinkingVisibility,
+  },
+  {
+    id: 'patches-applied-indication',
+    name: 'Patches applied indicator',
+    description: 'Show the tweakcc version and applied patches at startup',
+    defaultEnabled: true,
+    // This is cosmetic, so it isn't required.
+    required: false,
+    apply: (content, { config, items }) =>
+      writePatchesAppliedIndication(
+        content,
+        '3.2.0',
+        items,
+        config.settings.misc?.showTweakccVersion ?? true,
+        config.settings.misc?.showPatchesApplied ?? true
+      ),
+  },
+  {
+    id: 'fix-lsp-support',
+    name: 'LSP support fix',
+    description: "Make Claude Code's built-in LSP server support work",
+    defaultEnabled: true,
+    // Newer Claude Code versions may not need the fix.
+    required: false,
+    apply: writeFixLspSupport,
+  },
+  {
+    id: 'toolsets',
+    name: 'Toolsets',
+    description: 'Add the /toolset command and your toolsets',
+    defaultEnabled: true,
+    isConfigured: settings => settings.toolsets?.length > 0,
+    apply: (content, { config }) =>
+      writeToolsets(
+        content,
+        config.settings.toolsets,
+        config.settings.defaultToolset
+      ),
+  },
+  {
+    id: 'conversation-title',
+    name: 'Conversation titles',
+    description: 'Add the /title and /rename commands',
+    defaultEnabled: true,
+    apply: writeConversationTitle,
+  },
+  {
+    id: 'events',
+    name: 'Events',
+    description: 'Run your event hooks',
+    defaultEnabled: true,
+    isConfigured: settings =>
+      !!settings.events?.enabled && settings.events.hooks?.length > 0,
+    apply: (content, { config }) =>
+      writeEvents(content, config.settings.events!),
+  },
+  {
+    id: 'transforms',
+    name: 'Transforms',
+    description: 'Run your transforms',
+    defaultEnabled: true,
+    isConfigured: settings =>
+      !!settings.transforms?.enabled &&
+      settings.transforms.transforms?.length > 0,
+    apply: (content, { config }) =>
+      writeTransforms(content, config.settings.transforms!),
+  },
+];
+
+export const getPatchDefinition = (id: string): PatchDefinition | undefined =>
+  PATCH_REGISTRY.find(patch => patch.id === id);
+
+/**
+ * Whether a patch is switched on in `settings.patches` (ignoring whether it has anything to
+ * do; see PatchDefinition.isConfigured).
+ */
+export const isPatchEnabled = (
+  settings: Settings,
+  patch: PatchDefinition
+): boolean => settings.patches?.[patch.id] ?? patch.defaultEnabled;
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  findChangedRegion,
+  formatCompatibilityMatrix,
+  generatePatchDiff,
+  getRequiredFailures,
+  runPatch,
+} from './report.js';
+
+describe('report', () => {
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('findChangedRegion', () => {
+    it('should strip the common prefix and suffix', () => {
+      expect(findChangedRegion('abcXYZdef', 'abc123def')).toEqual({
+        start: 3,
+        oldEnd: 6,
+        newEnd: 6,
+      });
+    });
+
+    it('should handle pure insertions', () => {
+      expect(findChangedRegion('abcdef', 'abc__def')).toEqual({
+        start: 3,
+        oldEnd: 3,
+        newEnd: 5,
+      });
+    });
+  });
+
+  describe('runPatch', () => {
+    it('should record applied patches with byte counts', async () => {
+      const { content, outcome } = await runPatch('test', 'a=1;b=2;', c =>
+        c.replace('b=2', 'b=200')
+      );
+
+      expect(content).toBe('a=1;b=200;');
+      expect(outcome.status).toBe('applied');
+      expect(outcome.required).toBe(true);
+      expect(outcome.bytesAdded).toBe(2);
+      expect(outcome.bytesRemoved).toBe(0);
+      expect(outcome.edit).toBeUndefined();
+      expect(outcome.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should only count the changed bytes of distant edits', async () => {
+      const unchanged = 'x=0;'.repeat(1000);
+      const { outcome } = await runPatch('test', `a=1;${unchanged}b=2;`, c =>
+        c.replace('a=1', 'a=10').replace('b=2;', 'c=3;b=2;')
+      );
+
+      expect(outcome.bytesAdded).toBe(5);
+      expect(outcome.bytesRemoved).toBe(0);
+    });
+
+    it('should not run patches disabled by config', async () => {
+      const patchFn = vi.fn(() => 'changed');
+      const { content, outcome } = await runPatch('test', 'original', patchFn, {
+        enabled: false,
+      });
+
+      expect(patchFn).not.toHaveBeenCalled();
+      expect(content).toBe('original');
+      expect(outcome.status).toBe('skipped-by-config');
+    });
+
+    it('should record the failing step when the pattern is not found', async () => {
+      const { content, outcome } = await runPatch('test', 'original', () => {
+        console.error('patch: test: step one ok');
+        console.error('patch: test: failed to find step two');
+        return null;
+      });
+
+      expect(content).toBe('original');
+      expect(outcome.status).toBe('pattern-not-found');
+      expect(outcome.step).toBe('test: failed to find step two');
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should catch errors thrown by the patch', async () => {
+      const { content, outcome } = await runPatch('test', 'original', () => {
+        throw new Error('boom');
+      });
+
+      expect(content).toBe('original');
+      expect(outcome.status).toBe('error');
+      expect(outcome.step).toBe('boom');
+    });
+
+    it('should not print errors when quiet', async () => {
+      const { outcome } = await runPatch(
+        'quiet',
+        'abc',
+        () => {
+          console.error('patch: quiet: failed to find pattern');
+          return null;
+        },
+        { quiet: true }
+      );
+      expect(outcome.step).toBe('quiet: failed to find pattern');
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should restore console.error afterwards', async () => {
+      const before = console.error;
+      await runPatch('test', 'original', () => null);
+      expect(console.error).toBe(before);
+    });
+
+    it('should support async patch functions', async () => {
+      const { content, outcome } = await runPatch(
+        'test',
+        'x',
+        async c => c + 'y'
+      );
+      expect(content).toBe('xy');
+      expect(outcome.status).toBe('applied');
+    });
+  });
+
+  describe('getRequiredFailures', () => {
+    it('should only return required patches that failed', async () => {
+      const outcomes = [
+        (await runPatch('applied', 'a', c => c + 'b')).outcome,
+        (await runPatch('skipped', 'a', () => null, { enabled: false }))
+          .outcome,
+        (await runPatch('optional', 'a', () => null, { required: false }))
+          .outcome,
+        (await runPatch('missing', 'a', () => null)).outcome,
+        (
+          await runPatch('broken', 'a', () => {
+            throw new Error('boom');
+          })
+        ).outcome,
+      ];
+
+      expect(getRequiredFailures(outcomes).map(o => o.id)).toEqual([
+        'missing',
+        'broken',
+      ]);
+    });
+  });
+
+  describe('generatePatchDiff', () => {
+    it('should produce one section per changed patch', async () => {
+      const first = await runPatch(
+        'first',
+        'a=1;b=2;c=3;',
+        c => c.replace('a=1', 'a=10'),
+        { collectEdit: true }
+      );
+      const second = await runPatch(
+        'second',
+        first.content,
+        c => c.replace('c=3', 'c=30'),
+        { collectEdit: true }
+      );
+      const unchanged = await runPatch('unchanged', second.content, c => c, {
+        collectEdit: true,
+      });
+
+      const diff = generatePatchDiff(
+        [first.outcome, second.outcome, unchanged.outcome],
+        'cli.js'
+      );
+
+      expect(diff).toContain('--- a/cli.js\t(before first)');
+      expect(diff).toContain('-a=1;');
+      expect(diff).toContain('+a=10;');
+      expect(diff).toContain('@@ second @ offset 0');
+      expect(diff).toContain('+c=30;');
+      expect(diff).not.toContain('unchanged');
+    });
+  });
+
+  describe('formatCompatibilityMatrix', () => {
+    it('should show a row per patch and a column per version', async () => {
+      const run = (id: string, result: string | null) =>
+        runPatch(id, 'abc', () => result).then(r => r.outcome);
+      const matrix = formatCompatibilityMatrix([
+        {
+          label: '2.0.30',
+          outcomes: [await run('themes', 'abcd'), await run('events', 'x')],
+        },
+        {
+          label: '2.0.31',
+          outcomes: [await run('themes', 'abcd'), await run('events', null)],
+        },
+      ]);
+      const lines = matrix.split('\n').map(line => line.trimEnd());
+
+      expect(lines[0]).toBe('Patch   2.0.30  2.0.31');
+      expect(lines[1]).toBe('themes  ✓       ✓');
+      expect(lines[2]).toBe('events  ✓       ✗');
+    });
+  });
+});
@@ -0,0 +1,387 @@
+// Per-patch outcomes for applyCustomization: whether each patch applied, why it didn't,
+// how long it took, how many bytes it changed, and (for --dry-run) a reviewable unified
+// diff of every edit.
+
+import chalk from 'chalk';
+import { diffLines, formatUnifiedDiff } from '../diff.js';
+
+/**
+ * Characters of unchanged code kept on each side of an edit for the diff.
+ */
+const EDIT_CONTEXT_CHARS = 200;
+
+/**
+ * The region of cli.js touched by a single patch, relative to the content *before* the
+ * patch ran.  Patches that edit several distant places produce one large region.
+ */
+export interface PatchEdit {
+  startIndex: number;
+  startLine: number; // 1-based line number of startIndex in the pretty-printed file
+  oldText: string;
+  newText: string;
+}
+
+export type PatchStatus =
+  | 'applied'
+  | 'skipped-by-config'
+  | 'pattern-not-found'
+  | 'error';
+
+/**
+ * The result of running a single patch.
+ */
+export interface PatchOutcome {
+  id: string;
+  status: PatchStatus;
+  required: boolean; // A required patch that doesn't apply makes `--apply` exit non-zero
+  step?: string; // The sub-step that failed, e.g. "writeToolsetFieldToAppState: failed to find ..."
+  durationMs: number;
+  bytesAdded: number;
+  bytesRemoved: number;
+  edit?: PatchEdit; // Only recorded when edits are being collected (dry runs)
+}
+
+/**
+ * Splits minified JS into reviewable lines by breaking after `;`, `{` and `}`.  This is
+ * not a real formatter (it will happily break inside strings), but it turns a single
+ * multi-megabyte line into something a line-based diff can work with.
+ */
+const splitForReview = (code: string): string[] => code.split(/(?<=[;{}])|\n/);
+
+const countReviewLines = (code: string, endIndex: number): number => {
+  let count = 0;
+  for (let i = 0; i < endIndex; i++) {
+    const ch = code.charCodeAt(i);
+    // '\n', ';', '{', '}'
+    if (ch === 10 || ch === 59 || ch === 123 || ch === 125) count++;
+  }
+  return count;
+};
+
+/**
+ * Finds the changed region between two versions of the file by stripping their common
+ * prefix and suffix.
+ */
+export const findChangedRegion = (
+  before: string,
+  after: string
+): { start: number; oldEnd: number; newEnd: number } => {
+  const minLength = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < minLength && before[start] === after[start]) {
+    start++;
+  }
+  let oldEnd = before.length;
+  let newEnd = after.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    before[oldEnd - 1] === after[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+  return { start, oldEnd, newEnd };
+};
+
+/**
+ * Counts the bytes added and removed between two versions of the file.  The changed region is
+ * line-diffed (splitting like splitForReview, but keeping the separators) so that the unchanged
+ * code between distant edits isn't counted, and each hunk is then trimmed to the characters
+ * that actually changed.
+ */
+const countChangedBytes = (
+  before: string,
+  after: string
+): { bytesAdded: number; bytesRemoved: number } => {
+  const split = (code: string) => code.split(/(?<=[;{}\n])/);
+  let bytesAdded = 0;
+  let bytesRemoved = 0;
+  let deleted = '';
+  let inserted = '';
+  const endHunk = () => {
+    const { start, oldEnd, newEnd } = findChangedRegion(deleted, inserted);
+    bytesAdded += Buffer.byteLength(inserted.slice(start, newEnd));
+    bytesRemoved += Buffer.byteLength(deleted.slice(start, oldEnd));
+    deleted = '';
+    inserted = '';
+  };
+  for (const op of diffLines(split(before), split(after))) {
+    if (op.type === 'delete') {
+      deleted += op.line;
+    } else if (op.type === 'insert') {
+      inserted += op.line;
+    } else if (deleted || inserted) {
+      endHunk();
+    }
+  }
+  endHunk();
+  return { bytesAdded, bytesRemoved };
+};
+
+/**
+ * Measures the edit between the content before and after a patch, optionally keeping the
+ * edited region (with some context) for diffing.
+ */
+const measureEdit = (
+  before: string,
+  after: string,
+  collectEdit: boolean
+): Pick<PatchOutcome, 'bytesAdded' | 'bytesRemoved' | 'edit'> => {
+  if (after === before) {
+    return { bytesAdded: 0, bytesRemoved: 0 };
+  }
+
+  const { start, oldEnd, newEnd } = findChangedRegion(before, after);
+  const measured: Pick<PatchOutcome, 'bytesAdded' | 'bytesRemoved' | 'edit'> =
+    countChangedBytes(before.slice(start, oldEnd), after.slice(start, newEnd));
+
+  if (collectEdit) {
+    const contextStart = Math.max(0, start - EDIT_CONTEXT_CHARS);
+    measured.edit = {
+      startIndex: contextStart,
+      startLine: countReviewLines(before, contextStart) + 1,
+      oldText: before.slice(
+        contextStart,
+        Math.min(before.length, oldEnd + EDIT_CONTEXT_CHARS)
+      ),
+      newText: after.slice(
+        contextStart,
+        Math.min(after.length, newEnd + EDIT_CONTEXT_CHARS)
+      ),
+    };
+  }
+
+  return measured;
+};
+
+/**
+ * Patch functions report why they didn't match via `console.error('patch: ...')`.  The
+ * last such message is the sub-step that failed.
+ */
+const findFailingStep = (messages: string[]): string | undefined => {
+  const patchMessages = messages.filter(m => m.startsWith('patch: '));
+  const last = patchMessages[patchMessages.length - 1] ?? messages.at(-1);
+  return last?.replace(/^patch: /, '');
+};
+
+export interface RunPatchOptions {
+  enabled?: boolean; // false if the user's config turns this patch off (default: true)
+  required?: boolean; // default: true
+  collectEdit?: boolean; // Keep the edited region for generatePatchDiff (default: false)
+  quiet?: boolean; // Record the patch's error messages but print nothing (default: false)
+}
+
+/**
+ * Runs one patch function over `content` and records its outcome.  The patch function
+ * returns null when its pattern isn't found; exceptions are caught and recorded as errors
+ * so that one broken patch doesn't prevent the others from running.
+ */
+export const runPatch = async (
+  id: string,
+  content: string,
+  patchFn: (content: string) => string | null | Promise<string | null>,
+  options: RunPatchOptions = {}
+): Promise<{ content: string; outcome: PatchOutcome }> => {
+  const {
+    enabled = true,
+    required = true,
+    collectEdit = false,
+    quiet = false,
+  } = options;
+  const outcome: PatchOutcome = {
+    id,
+    status: 'skipped-by-config',
+    required,
+    durationMs: 0,
+    bytesAdded: 0,
+    bytesRemoved: 0,
+  };
+  if (!enabled) {
+    return { content, outcome };
+  }
+
+  // Capture the patch's error messages (still printing them) to find the failing step.
+  const messages: string[] = [];
+  const originalConsoleError = console.error;
+  const originalConsoleLog = console.log;
+  console.error = (...args: unknown[]) => {
+    messages.push(args.map(String).join(' '));
+    if (!quiet) {
+      originalConsoleError(...args);
+    }
+  };
+  if (quiet) {
+    console.log = () => {};
+  }
+
+  const startTime = performance.now();
+  try {
+    const result = await patchFn(content);
+    if (result === null) {
+      outcome.status = 'pattern-not-found';
+      outcome.step = findFailingStep(messages);
+    } else {
+      outcome.status = 'applied';
+      Object.assign(outcome, measureEdit(content, result, collectEdit));
+      content = result;
+    }
+  } catch (error) {
+    outcome.status = 'error';
+    outcome.step = error instanceof Error ? error.message : String(error);
+  } finally {
+    console.error = originalConsoleError;
+    console.log = originalConsoleLog;
+    outcome.durationMs = performance.now() - startTime;
+  }
+
+  return { content, outcome };
+};
+
+/**
+ * Required patches that were enabled but didn't apply.
+ */
+export const getRequiredFailures = (outcomes: PatchOutcome[]): PatchOutcome[] =>
+  outcomes.filter(
+    o =>
+      o.required && (o.status === 'pattern-not-found' || o.status === 'error')
+  );
+
+/**
+ * Generates a unified diff with one section per patch that changed the file.  Each
+ * section compares the file immediately before and after that patch, pretty-printed
+ * around the edit.
+ */
+export const generatePatchDiff = (
+  outcomes: PatchOutcome[],
+  fileLabel: string
+): string => {
+  const sections: string[] = [];
+  for (const entry of outcomes) {
+    if (!entry.edit) continue;
+    const { oldText, newText, startLine, startIndex } = entry.edit;
+    const section = formatUnifiedDiff(
+      diffLines(splitForReview(oldText), splitForReview(newText)),
+      {
+        oldLabel: `a/${fileLabel}\t(before ${entry.id})`,
+        newLabel: `b/${fileLabel}\t(after ${entry.id})`,
+        oldStartLine: startLine,
+        newStartLine: startLine,
+        hunkHeading: `${entry.id} @ offset ${startIndex}`,
+      }
+    );
+    if (section) sections.push(section);
+  }
+  return sections.join('');
+};
+
+const STATUS_LABELS: Record<PatchStatus, [string, (text: string) => string]> = {
+  applied: ['applied', chalk.green],
+  'skipped-by-config': ['skipped', chalk.gray],
+  'pattern-not-found': ['not found', chalk.red],
+  error: ['error', chalk.red],
+};
+const STATUS_WIDTH = 9;
+
+const formatBytes = (outcome: PatchOutcome): string => {
+  if (outcome.status !== 'applied') return '-';
+  if (outcome.bytesAdded === 0 && outcome.bytesRemoved === 0) {
+    return 'no change';
+  }
+  return `+${outcome.bytesAdded} / -${outcome.bytesRemoved}`;
+};
+
+/**
+ * Prints a summary table of patch outcomes to the console.
+ */
+export const printPatchReport = (outcomes: PatchOutcome[]): void => {
+  const idWidth = Math.max(5, ...outcomes.map(o => o.id.length));
+
+  console.log(
+    chalk.bold(
+      `${'Patch'.padEnd(idWidth)}  ${'Status'.padEnd(STATUS_WIDTH)}  ${'Time'.padStart(7)}  Bytes`
+    )
+  );
+  console.log(
+    chalk.gray(
+      `${'─'.repeat(idWidth)}  ${'─'.repeat(STATUS_WIDTH)}  ${'─'.repeat(7)}  ${'─'.repeat(17)}`
+    )
+  );
+  for (const outcome of outcomes) {
+    // Pad before coloring so the ANSI codes don't throw off the alignment.
+    const [label, color] = STATUS_LABELS[outcome.status];
+    const status = color(label.padEnd(STATUS_WIDTH));
+    const time =
+      outcome.status === 'skipped-by-config'
+        ? ''
+        : `${outcome.durationMs.toFixed(0)}ms`;
+    const optional = outcome.required ? '' : chalk.gray(' (optional)');
+    console.log(
+      `${outcome.id.padEnd(idWidth)}  ${status}  ${time.padStart(7)}  ${chalk.gray(formatBytes(outcome))}${optional}`
+    );
+    if (outcome.step) {
+      console.log(chalk.gray(`${' '.repeat(idWidth)}  └ ${outcome.step}`));
+    }
+  }
+
+  const applied = outcomes.filter(o => o.status === 'applied').length;
+  const enabled = outcomes.filter(o => o.status !== 'skipped-by-config').length;
+  const totalAdded = outcomes.reduce((sum, o) => sum + o.bytesAdded, 0);
+  const totalRemoved = outcomes.reduce((sum, o) => sum + o.bytesRemoved, 0);
+  console.log(
+    chalk.bold(
+      `\n${applied}/${enabled} enabled patches applied (+${totalAdded} / -${totalRemoved} bytes)`
+    )
+  );
+
+  const failures = getRequiredFailures(outcomes);
+  if (failures.length > 0) {
+    console.log(
+      chalk.red(
+        `${failures.length} required patch${failures.length === 1 ? '' : 'es'} failed: ${failures.map(f => f.id).join(', ')}`
+      )
+    );
+  }
+};
+
+const MATRIX_SYMBOLS: Record<PatchStatus, [string, (text: string) => string]> =
+  {
+    applied: ['✓', chalk.green],
+    'skipped-by-config': ['-', chalk.gray],
+    'pattern-not-found': ['✗', chalk.red],
+    error: ['!', chalk.red],
+  };
+
+/**
+ * Formats the outcomes of running the patches against several files (e.g. one per Claude Code
+ * version) as a table with a row per patch and a column per file.
+ */
+export const formatCompatibilityMatrix = (
+  columns: { label: string; outcomes: PatchOutcome[] }[]
+): string => {
+  const ids = [...new Set(columns.flatMap(c => c.outcomes.map(o => o.id)))];
+  const idWidth = Math.max(5, ...ids.map(id => id.length));
+  const lines = [
+    chalk.bold(
+      [
+        'Patch'.padEnd(idWidth),
+        ...columns.map(c => c.label.padEnd(Math.max(c.label.length, 1))),
+      ].join('  ')
+    ),
+  ];
+  for (const id of ids) {
+    const cells = columns.map(column => {
+      const outcome = column.outcomes.find(o => o.id === id);
+      const [symbol, color] = outcome
+        ? MATRIX_SYMBOLS[outcome.status]
+        : [' ', (text: string) => text];
+      // Pad before coloring so the ANSI codes don't throw off the alignment.
+      return color(symbol.padEnd(column.label.length));
+    });
+    lines.push([id.padEnd(idWidth), ...cells].join('  '));
+  }
+  lines.push(
+    chalk.gray('\n✓ applied   ✗ pattern not found   ! error   - skipped')
+  );
+  return lines.join('\n');
+};
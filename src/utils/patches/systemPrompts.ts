@@ -9,6 +9,7 @@ import {
   getPromptFilePath,
 } from '../promptSync.js';
 import { setAppliedHash, computeMD5Hash } from '../systemPromptHashIndex.js';
+import { hasConflictMarkers } from '../merge.js';
 
 /**
  * Detects if the cli.js file uses Unicode escape sequences for non-ASCII characters.
@@ -33,12 +34,14 @@ const stringifyRegex = (regex: RegExp): string => {
  * @param content - The current content of cli.js
  * @param version - The Claude Code version
  * @param escapeNonAscii - Whether to escape non-ASCII characters (auto-detected if not specified)
+ * @param recordAppliedHashes - Whether to record applied prompt hashes (false for dry runs)
  * @returns PatchApplied object with modified content and items for display
  */
 export const applySystemPrompts = async (
   content: string,
   version: string,
-  escapeNonAscii?: boolean
+  escapeNonAscii?: boolean,
+  recordAppliedHashes: boolean = true
 ): Promise<PatchApplied> => {
   // Auto-detect if we should escape non-ASCII characters based on cli.js content
   const shouldEscapeNonAscii = escapeNonAscii ?? detectUnicodeEscaping(content);
@@ -75,6 +78,16 @@ export const applySystemPrompts = async (
     const match = content.match(pattern);
 
     if (match && match.index !== undefined) {
+      // Leave the prompt as-is until the user resolves the conflicts from a merge
+      if (hasConflictMarkers(prompt.content)) {
+        console.log(
+          chalk.yellow(
+            `Skipping system prompt "${prompt.name}": ${getPromptFilePath(promptId)} has unresolved merge conflicts`
+          )
+        );
+        continue;
+      }
+
       // Generate the interpolated content using the actual variables from the match
       const interpolatedContent = getInterpolatedContent(match);
 
@@ -146,8 +159,10 @@ export const applySystemPrompts = async (
       content = content.replace(pattern, interpolatedContent);
 
       // Store the hash of the applied prompt content
-      const appliedHash = computeMD5Hash(prompt.content);
-      await setAppliedHash(promptId, appliedHash);
+      if (recordAppliedHashes) {
+        const appliedHash = computeMD5Hash(prompt.content);
+        await setAppliedHash(promptId, appliedHash);
+      }
 
       // Show diff in debug mode
       if (isDebug()) {
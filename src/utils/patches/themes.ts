@@ -2,6 +2,44 @@
 
 import { Theme } from '../types.js';
 import { LocationResult, showDiff } from './index.js';
+import {
+  AstNode,
+  findNodes,
+  hasProperty,
+  isLiteral,
+  toLocationResult,
+} from './ast.js';
+
+// Structural fallbacks for when the minified text of the theme picker changes.  The options
+// array is [{label:"Dark mode",value:"dark"},...] and the name mapping is
+// return{dark:"Dark mode",...}.
+const findThemeOptionsArray = (oldFile: string): LocationResult | null => {
+  const [array] = findNodes(
+    oldFile,
+    node =>
+      node.type === 'ArrayExpression' &&
+      (node.elements as AstNode[]).some(
+        element => element && hasProperty(element, 'label', 'Dark mode')
+      )
+  );
+  return array ? toLocationResult(array) : null;
+};
+
+const findThemeNamesReturn = (oldFile: string): LocationResult | null => {
+  const [ret] = findNodes(
+    oldFile,
+    node =>
+      node.type === 'ReturnStatement' &&
+      (node.argument as AstNode | null)?.type === 'ObjectExpression' &&
+      ((node.argument as AstNode).properties as AstNode[]).some(property =>
+        isLiteral(property.value, 'Dark mode')
+      )
+  );
+  // Up to the closing brace, leaving any `;` alone, like the regex.
+  return ret
+    ? { startIndex: ret.start, endIndex: (ret.argument as AstNode).end }
+    : null;
+};
 
 function getThemesLocation(oldFile: string): {
   switchStatement: LocationResult;
@@ -23,12 +61,26 @@ function getThemesLocation(oldFile: string): {
   const objArrMatch = oldFile.match(objArrPat);
   const objMatch = oldFile.match(objPat);
 
-  if (!objArrMatch || objArrMatch.index == undefined) {
+  const objArr =
+    objArrMatch && objArrMatch.index != undefined
+      ? {
+          startIndex: objArrMatch.index,
+          endIndex: objArrMatch.index + objArrMatch[0].length,
+        }
+      : findThemeOptionsArray(oldFile);
+  if (!objArr) {
     console.error('patch: themes: failed to find objArrMatch');
     return null;
   }
 
-  if (!objMatch || objMatch.index == undefined) {
+  const obj =
+    objMatch && objMatch.index != undefined
+      ? {
+          startIndex: objMatch.index,
+          endIndex: objMatch.index + objMatch[0].length,
+        }
+      : findThemeNamesReturn(oldFile);
+  if (!obj) {
     console.error('patch: themes: failed to find objMatch');
     return null;
   }
@@ -39,14 +91,8 @@ function getThemesLocation(oldFile: string): {
       endIndex: switchMatch.index + switchMatch[0].length,
       identifiers: [switchMatch[1].trim()],
     },
-    objArr: {
-      startIndex: objArrMatch.index,
-      endIndex: objArrMatch.index + objArrMatch[0].length,
-    },
-    obj: {
-      startIndex: objMatch.index,
-      endIndex: objMatch.index + objMatch[0].length,
-    },
+    objArr,
+    obj,
   };
 }
 
@@ -1,15 +1,39 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
 import {
   findTransformRunnerInsertionPoint,
   generateTransformRunnerCode,
   writeTransformRunner,
   writePromptTransform,
+  writeSystemPromptTransform,
   writeResponseTransform,
+  writeStreamTransform,
   writeToolInputTransform,
   writeToolOutputTransform,
   writeTransforms,
 } from './transforms.js';
 import { TransformsConfig, TransformConfig } from '../types.js';
+import { clearRequireFuncNameCache } from './index.js';
+
+// Minified like Claude Code 2.1: the function that turns a submitted prompt into a user
+// message, the system prompt block builder, and the streaming loop.
+const PROMPT_JS =
+  'function bN1(A,B,Q){let Y=typeof A==="string"?A:A.find((W)=>W.type==="text")?.text||"",J=Q||"id";return{messages:[{role:"user",content:A}],shouldQuery:!0}}';
+const SYSTEM_PROMPT_JS =
+  'function Wd(A){return A.map((B)=>({text:B,cacheScope:null}))}' +
+  'function Yd(A,B,Q){return Wd(A,{skipGlobalCacheForSystemPrompt:Q?.skipGlobalCacheForSystemPrompt}).map((I)=>({type:"text",text:I.text,...B&&I.cacheScope!==null&&{cache_control:{type:"ephemeral"}}}))}';
+const STREAM_JS =
+  'async function*Sx(A){let q,Y=[];for await(let J of A)switch(J.type){' +
+  'case"message_start":q=J.message;break;' +
+  'case"content_block_start":Y[J.index]={...J.content_block};break;' +
+  'case"content_block_delta":{let W=Y[J.index],X=J.delta;if(!W)throw E("streaming_error",{index:J.index}),RangeError("Content block not found");' +
+  'switch(X.type){case"text_delta":if(W.type!=="text")throw E("streaming_error",{type:W.type}),Error("Content block is not a text block");W.text+=X.text;break}' +
+  'yield{type:"stream_event",event:J};break}' +
+  'case"content_block_stop":{let W=Y[J.index];if(!W)throw E("streaming_error",{index:J.index}),RangeError("Content block not found");' +
+  'if(!q)throw E("streaming_error",{}),Error("Message not found");yield{message:{...q,content:[W]},type:"assistant"};break}}}';
 
 // Sample cli.js content for pattern matching
 const SAMPLE_CLI_JS = `
@@ -17,14 +41,11 @@ import{createRequire as abc}from"node:module";
 var xyz=abc(import.meta.url);
 var someVar=123;
 
-function processMessages() {
-  // User message pattern
-  const msg = {role:"user",content:userInput};
-  messages.push(msg);
-
-  // Assistant message pattern
-  const response = {role:"assistant",content:assistantResponse};
+${PROMPT_JS}
+${SYSTEM_PROMPT_JS}
+${STREAM_JS}
 
+function processMessages() {
   // Tool execution pattern
   let Y=Z.input;if("parse"in I&&I.parse)Y=I.parse(Y);let J=await I.run(Y);return{type:"tool_result",tool_use_id:Z.id,content:J}
 }
@@ -153,6 +174,33 @@ describe('transforms.ts', () => {
       expect(code).toContain('timeout');
       expect(code).toContain('10000');
     });
+
+    it('should call in-process transforms directly', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tweakcc-transforms-'));
+      try {
+        const script = path.join(dir, 'transform.js');
+        fs.writeFileSync(
+          script,
+          'exports.transform = (data, context) => data === "skip" ? undefined : data + ":" + context.toolName + ":" + context.type;'
+        );
+        const config: TransformsConfig = {
+          enabled: true,
+          transforms: [
+            { id: 'in-process', transform: 'tool:output', script, inProcess: true, enabled: true },
+            { id: 'broken', transform: 'tool:output', script: path.join(dir, 'missing.js'), inProcess: true, enabled: true },
+          ],
+        };
+        const runner = new Function(
+          'require',
+          `${generateTransformRunnerCode('require', config)};return TWEAKCC_TRANSFORMS;`
+        )(createRequire(import.meta.url));
+
+        expect(runner.run('tool:output', 'out', { toolName: 'Bash' })).toBe('out:Bash:tool:output');
+        expect(runner.run('tool:output', 'skip', { toolName: 'Bash' })).toBe('skip');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('writeTransformRunner', () => {
@@ -173,42 +221,129 @@ describe('transforms.ts', () => {
   });
 
   describe('writePromptTransform', () => {
-    it('should wrap user message content with transform', () => {
-      const content = 'const msg = {role:"user",content:userInput}';
+    it('should transform the prompt where it becomes a user message', () => {
+      const result = writePromptTransform(PROMPT_JS);
 
-      const result = writePromptTransform(content);
+      expect(result).toBe(
+        PROMPT_JS.replace('{let Y=', "{A=TWEAKCC_TRANSFORMS.runOnPrompt('prompt:before',A);let Y=")
+      );
+    });
 
-      expect(result).not.toBeNull();
-      expect(result).toContain('TWEAKCC_TRANSFORMS.hasTransforms');
-      expect(result).toContain("'prompt:before'");
+    it('should only patch a single site', () => {
+      expect(writePromptTransform('const msg = {role:"user",content:userInput}')).toBeNull();
+      expect(writePromptTransform(PROMPT_JS + PROMPT_JS.replace('bN1', 'cN1'))).toBeNull();
     });
+  });
 
-    it('should return null if pattern not found', () => {
-      const content = 'function foo() { return bar; }';
+  describe('writeSystemPromptTransform', () => {
+    it('should transform the system prompt where it becomes text blocks', () => {
+      const result = writeSystemPromptTransform(SYSTEM_PROMPT_JS);
+
+      expect(result).toContain(
+        "function Yd(A,B,Q){A=TWEAKCC_TRANSFORMS.runOnSystemPrompt(A);return Wd(A,"
+      );
+    });
 
-      const result = writePromptTransform(content);
+    it('should support system prompt builders without options', () => {
+      const content = 'function ZP(A,B){return Ks(A).map((Q)=>({type:"text",text:Q,...B?{cache_control:{type:"ephemeral"}}:{}}))}';
 
-      expect(result).toBeNull();
+      expect(writeSystemPromptTransform(content)).toContain(
+        "function ZP(A,B){A=TWEAKCC_TRANSFORMS.runOnSystemPrompt(A);return Ks(A)"
+      );
+      expect(writeSystemPromptTransform('function f(A,B){return g(A).map((Q)=>Q)}')).toBeNull();
     });
   });
 
   describe('writeResponseTransform', () => {
-    it('should wrap assistant message content with transform', () => {
-      const content = 'const response = {role:"assistant",content:assistantResponse}';
+    it('should transform text blocks when they finish', () => {
+      const result = writeResponseTransform(STREAM_JS);
 
-      const result = writeResponseTransform(content);
+      expect(result).toContain(
+        'Error("Message not found");if(W.type==="text")W.text=TWEAKCC_TRANSFORMS.runOnText(\'response:before\',W.text);yield{message:'
+      );
+    });
 
-      expect(result).not.toBeNull();
-      expect(result).toContain('TWEAKCC_TRANSFORMS.hasTransforms');
-      expect(result).toContain("'response:before'");
+    it('should support content_block_stop handlers without logging', () => {
+      const content =
+        'case"content_block_stop":{let W=Y[J.index];if(!W)throw RangeError("Content block not found");if(!q)throw Error("Message not found");let X={message:{...q,content:[W]}}';
+
+      expect(writeResponseTransform(content)).toContain(
+        'if(!q)throw Error("Message not found");if(W.type==="text")W.text='
+      );
+      expect(writeResponseTransform('const response = {role:"assistant",content:assistantResponse}')).toBeNull();
     });
+  });
 
-    it('should return original content if pattern not found', () => {
-      const content = 'function foo() { return bar; }';
+  describe('writeStreamTransform', () => {
+    it('should transform text deltas before they are added', () => {
+      const result = writeStreamTransform(STREAM_JS);
 
-      const result = writeResponseTransform(content);
+      expect(result).toContain(
+        'Error("Content block is not a text block");X.text=TWEAKCC_TRANSFORMS.runOnText(\'response:stream\',X.text);W.text+=X.text;'
+      );
+      expect(writeStreamTransform('case"text_delta":{if(G.type==="text")this._emit("text",Q.delta.text)}')).toBeNull();
+    });
+  });
 
-      expect(result).toBe(content);
+  describe('prompt and response transforms', () => {
+    it('should run in the patched code', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tweakcc-transforms-'));
+      clearRequireFuncNameCache();
+      try {
+        const script = path.join(dir, 'transform.js');
+        fs.writeFileSync(
+          script,
+          `exports.transform = (data, context) => {
+            switch (context.type) {
+              case 'prompt:before': return '<context>repo</context>\\n' + data;
+              case 'prompt:system': return [...data, 'Repo context'];
+              case 'response:stream': return data.replace(/sk-\\w+/g, '[REDACTED]');
+              case 'response:before': return data.trim();
+            }
+          };`
+        );
+        const config: TransformsConfig = {
+          enabled: true,
+          transforms: (['prompt:before', 'prompt:system', 'response:before', 'response:stream'] as const).map(transform => ({
+            id: transform,
+            transform,
+            script,
+            inProcess: true,
+            enabled: true,
+          })),
+        };
+        const patched = writeTransforms(`${PROMPT_JS}${SYSTEM_PROMPT_JS}${STREAM_JS}`, config)!;
+        const { bN1, Yd, Sx } = new Function('require', 'E', `${patched};return { bN1, Yd, Sx };`)(
+          createRequire(import.meta.url),
+          () => {}
+        );
+
+        expect(bN1('fix it').messages[0].content).toBe('<context>repo</context>\nfix it');
+        expect(bN1([{ type: 'image' }, { type: 'text', text: 'look' }]).messages[0].content).toEqual([
+          { type: 'image' },
+          { type: 'text', text: '<context>repo</context>\nlook' },
+        ]);
+        expect(Yd(['You are Claude Code.'], false).map((block: { text: string }) => block.text)).toEqual([
+          'You are Claude Code.',
+          'Repo context',
+        ]);
+
+        async function* events() {
+          yield { type: 'message_start', message: { id: 'msg' } };
+          yield { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } };
+          yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'key: sk-abc ' } };
+          yield { type: 'content_block_stop', index: 0 };
+        }
+        const yielded = [];
+        for await (const part of Sx(events())) {
+          yielded.push(part);
+        }
+        expect(yielded[0].event.delta.text).toBe('key: [REDACTED] ');
+        expect(yielded[1].message.content).toEqual([{ type: 'text', text: 'key: [REDACTED]' }]);
+      } finally {
+        clearRequireFuncNameCache();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
     });
   });
 
@@ -15,7 +15,8 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { showDiff, getRequireFuncName } from './index.js';
-import { TransformsConfig } from '../types.js';
+import { generatePluginLoaderCode } from './plugins.js';
+import { TransformType, TransformsConfig } from '../types.js';
 
 // ============================================================================
 // TRANSFORM RUNNER INJECTION
@@ -69,6 +70,30 @@ const TWEAKCC_TRANSFORMS = (function() {
     }
     return scriptPath;
   }
+${generatePluginLoaderCode(requireFunc)}
+  /**
+   * Run an in-process transform: call the transform(data, context) function its module
+   * exports, which returns the modified data (or undefined to leave it unchanged)
+   */
+  function executeInProcessTransform(transformConfig, inputData) {
+    try {
+      const transform = loadPlugin(resolvePath(transformConfig.script), 'transform');
+      const context = { ...inputData.context, type: inputData.type, transformId: transformConfig.id };
+      const result = callPlugin(transform, [inputData.data, context], transformConfig.timeout || 5000);
+
+      if (result && typeof result.then === 'function') {
+        // Transforms run synchronously, so there's nothing to wait for the promise with.
+        result.then(undefined, () => {});
+        log('error', 'In-process transform returned a promise', { id: transformConfig.id });
+        return inputData;
+      }
+      log('debug', 'Transform succeeded', { id: transformConfig.id, hasResult: result !== undefined });
+      return { data: result === undefined ? inputData.data : result };
+    } catch (err) {
+      log('error', 'Transform execution failed', { id: transformConfig.id, error: err.message });
+      return inputData; // Return original on error
+    }
+  }
 
   /**
    * Execute a transform script and return the modified data
@@ -160,7 +185,8 @@ const TWEAKCC_TRANSFORMS = (function() {
       }
 
       log('debug', 'Running transform', { id: transform.id, type });
-      data = executeTransform(transform, { data, context, type });
+      const execute = transform.inProcess ? executeInProcessTransform : executeTransform;
+      data = execute(transform, { data, context, type });
 
       // If transform returns an object with 'data' property, extract it
       if (data && typeof data === 'object' && 'data' in data) {
@@ -171,10 +197,60 @@ const TWEAKCC_TRANSFORMS = (function() {
     return data;
   }
 
+  function hasTransforms(type) {
+    return (transformsByType[type] || []).length > 0;
+  }
+
+  /**
+   * Run transforms on text, keeping the text if a transform returns something else
+   */
+  function runOnText(type, text, context) {
+    if (!hasTransforms(type) || typeof text !== 'string') {
+      return text;
+    }
+    const result = runTransforms(type, text, context);
+    return typeof result === 'string' ? result : text;
+  }
+
+  /**
+   * Run transforms on a prompt: a string, or content blocks whose first text block is
+   * transformed
+   */
+  function runOnPrompt(type, content, context) {
+    if (!Array.isArray(content)) {
+      return runOnText(type, content, context);
+    }
+    const index = content.findIndex(block => block && block.type === 'text');
+    if (!hasTransforms(type) || index === -1) {
+      return content;
+    }
+    const blocks = [...content];
+    blocks[index] = { ...blocks[index], text: runOnText(type, blocks[index].text, context) };
+    return blocks;
+  }
+
+  /**
+   * Run prompt:system transforms on the system prompt, an array of strings.  Transforms can
+   * return a new array, or a string that replaces the whole prompt.
+   */
+  function runOnSystemPrompt(blocks) {
+    if (!hasTransforms('prompt:system') || !Array.isArray(blocks)) {
+      return blocks;
+    }
+    const result = runTransforms('prompt:system', blocks);
+    if (typeof result === 'string') {
+      return [result];
+    }
+    return Array.isArray(result) && result.every(block => typeof block === 'string') ? result : blocks;
+  }
+
   // Public API
   return {
     run: runTransforms,
-    hasTransforms: (type) => (transformsByType[type] || []).length > 0,
+    runOnText,
+    runOnPrompt,
+    runOnSystemPrompt,
+    hasTransforms,
   };
 })();
 // ============================================================================
@@ -218,96 +294,68 @@ export const writeTransformRunner = (
 // PROMPT TRANSFORM HOOKS
 // ============================================================================
 
-/**
- * Find where user messages are processed before being sent to the API
- * Looking for the query/message construction
- *
- * ? UNVERIFIED: These patterns are speculative:
- *   - /async\s+(?:function\s+)?([$\w]+)\s*\([^)]*\)\s*\{[^{}]*role:\s*["']user["']/
- *   - /\{role:"user",content:([$\w]+)\}/
- *
- * TODO: Run `npx tweakcc --analyze` to verify patterns
- */
-export const findPromptTransformLocation = (
-  fileContents: string
-): { location: number; messageVar: string } | null => {
-  // Look for where messages are assembled for the API call
-  // Pattern: messages.push({ role: "user", content: ... })
-  // Or: { role: "user", content: userMessage }
-
-  // Try to find the onSubmit or message send handler
-  const submitPattern = /async\s+(?:function\s+)?([$\w]+)\s*\([^)]*\)\s*\{[^{}]*role:\s*["']user["']/;
-  const match = fileContents.match(submitPattern);
-
-  if (match && match.index !== undefined) {
-    // Look for the content assignment
-    const afterMatch = fileContents.slice(match.index, match.index + 500);
-    const contentPattern = /content:\s*([$\w]+)/;
-    const contentMatch = afterMatch.match(contentPattern);
-
-    if (contentMatch) {
-      return {
-        location: match.index + (contentMatch.index || 0),
-        messageVar: contentMatch[1],
-      };
-    }
-  }
-
-  // Alternative: find message submission
-  const altPattern = /\{role:"user",content:([$\w]+)\}/;
-  const altMatch = fileContents.match(altPattern);
-
-  if (altMatch && altMatch.index !== undefined) {
-    return {
-      location: altMatch.index,
-      messageVar: altMatch[1],
-    };
-  }
-
-  return null;
-};
+const PROMPT_INPUT_PATTERN =
+  /function [$\w]+\(([$\w]+)(?:,[$\w]+)*\)\{(?=let [$\w]+=typeof \1==="string"\?\1:\1\.find\(\(?([$\w]+)\)?=>\2\.type==="text"\)\?\.text\|\|"")/g;
 
 /**
  * Sub-patch 2: Inject prompt:before transform hook
+ *
+ * ✓ VERIFIED: Found once in Claude Code 2.1.268, at the start of the function that turns a
+ * submitted prompt into a user message (processTextPrompt).  Minified:
+ *   function X(A,B,Q){let Y=typeof A==="string"?A:A.find((W)=>W.type==="text")?.text||""
+ *
+ * The prompt is transformed before anything else sees it, so the transformed prompt is also
+ * what's shown in the conversation.
  */
 export const writePromptTransform = (oldFile: string): string | null => {
-  // Find where user content is used in message construction
-  const userContentPattern = /\{role:"user",content:([$\w]+)([,}])/g;
-  const matches = Array.from(oldFile.matchAll(userContentPattern));
+  const matches = Array.from(oldFile.matchAll(PROMPT_INPUT_PATTERN));
 
-  if (matches.length === 0) {
-    console.error('patch: transforms: writePromptTransform: could not find user message pattern');
+  if (matches.length !== 1 || matches[0].index === undefined) {
+    console.error(`patch: transforms: writePromptTransform: expected one prompt input function, found ${matches.length}`);
     return null;
   }
 
-  let newFile = oldFile;
-  let offset = 0;
+  const inputVar = matches[0][1]; // A
+  const insertPoint = matches[0].index + matches[0][0].length;
+  const newCode = `${inputVar}=TWEAKCC_TRANSFORMS.runOnPrompt('prompt:before',${inputVar});`;
 
-  // Replace each occurrence
-  for (const match of matches) {
-    if (match.index === undefined) continue;
+  const newFile = oldFile.slice(0, insertPoint) + newCode + oldFile.slice(insertPoint);
 
-    const contentVar = match[1];
-    const suffix = match[2];
-    const originalText = match[0];
+  showDiff(oldFile, newFile, newCode, insertPoint, insertPoint);
 
-    // Wrap the content variable with transform
-    const newText = `{role:"user",content:TWEAKCC_TRANSFORMS.hasTransforms('prompt:before')?TWEAKCC_TRANSFORMS.run('prompt:before',${contentVar}):${contentVar}${suffix}`;
+  return newFile;
+};
 
-    const adjustedIndex = match.index + offset;
-    newFile =
-      newFile.slice(0, adjustedIndex) +
-      newText +
-      newFile.slice(adjustedIndex + originalText.length);
+const SYSTEM_PROMPT_BLOCKS_PATTERN =
+  /function [$\w]+\(([$\w]+),[$\w]+(?:,([$\w]+))?\)\{(?=return [$\w]+\(\1(?:,\{skipGlobalCacheForSystemPrompt:\2\?\.skipGlobalCacheForSystemPrompt\})?\)\.map\(\(?([$\w]+)\)?=>\(\{type:"text",text:\3(?:\.text)?,)/g;
 
-    offset += newText.length - originalText.length;
-  }
+/**
+ * Sub-patch 3: Inject prompt:system transform hook
+ *
+ * ✓ VERIFIED: Found once in Claude Code 2.1.268, in the function that turns the system prompt
+ * (an array of strings) into the request's text blocks (buildSystemPromptBlocks).  Minified:
+ *   function X(A,B,Q){return Y(A,{skipGlobalCacheForSystemPrompt:Q?.skipGlobalCacheForSystemPrompt}).map((I)=>({type:"text",text:I.text,
+ * Older versions don't pass the options:
+ *   function X(A,B){return Y(A).map((Q)=>({type:"text",text:Q,
+ *
+ * Every request goes through it, so transforms see the system prompt of each request,
+ * including Claude Code's own side requests (titles, summaries).
+ */
+export const writeSystemPromptTransform = (oldFile: string): string | null => {
+  const matches = Array.from(oldFile.matchAll(SYSTEM_PROMPT_BLOCKS_PATTERN));
 
-  if (newFile === oldFile) {
+  if (matches.length !== 1 || matches[0].index === undefined) {
+    console.error(`patch: transforms: writeSystemPromptTransform: expected one system prompt builder, found ${matches.length}`);
     return null;
   }
 
-  showDiff(oldFile, newFile, '[prompt transforms]', 0, 100);
+  const systemPromptVar = matches[0][1]; // A
+  const insertPoint = matches[0].index + matches[0][0].length;
+  const newCode = `${systemPromptVar}=TWEAKCC_TRANSFORMS.runOnSystemPrompt(${systemPromptVar});`;
+
+  const newFile = oldFile.slice(0, insertPoint) + newCode + oldFile.slice(insertPoint);
+
+  showDiff(oldFile, newFile, newCode, insertPoint, insertPoint);
 
   return newFile;
 };
@@ -316,57 +364,67 @@ export const writePromptTransform = (oldFile: string): string | null => {
 // RESPONSE TRANSFORM HOOKS
 // ============================================================================
 
+const CONTENT_BLOCK_STOP_PATTERN =
+  /if\(!([$\w]+)\)throw (?:[^;]*?,)?RangeError\("Content block not found"\);if\(![$\w]+\)throw (?:[^;]*?,)?Error\("Message not found"\);/g;
+
 /**
- * Sub-patch 3: Inject response:before transform hook
- * This hooks into where assistant messages are displayed/processed
+ * Sub-patch 4: Inject response:before transform hook
+ *
+ * ✓ VERIFIED: Found once in Claude Code 2.1.268, in the content_block_stop case of the
+ * streaming loop, right before a finished content block becomes an assistant message:
+ *   case"content_block_stop":{let W=Y[J.index];if(!W)throw RangeError("Content block not found");if(!q)throw Error("Message not found");
+ * (2.1 logs an event before each error: `throw E("...",{...}),RangeError(...)`.)
+ *
+ * Transforms see the text of each finished text block.  What they return is what's shown and
+ * kept in the conversation.
  */
 export const writeResponseTransform = (oldFile: string): string | null => {
-  // Find where assistant content is rendered or processed
-  // Pattern: role:"assistant", content: X
-  const assistantPattern = /\{role:"assistant",content:([$\w]+)([,}])/g;
-  const matches = Array.from(oldFile.matchAll(assistantPattern));
-
-  if (matches.length === 0) {
-    // Try alternative pattern for response handling
-    const altPattern = /case\s*["']assistant["']\s*:/;
-    const altMatch = oldFile.match(altPattern);
-
-    if (!altMatch || altMatch.index === undefined) {
-      console.log('patch: transforms: writeResponseTransform: could not find assistant message pattern');
-      return oldFile; // Non-fatal, just skip
-    }
+  const matches = Array.from(oldFile.matchAll(CONTENT_BLOCK_STOP_PATTERN));
+
+  if (matches.length !== 1 || matches[0].index === undefined) {
+    console.error(`patch: transforms: writeResponseTransform: expected one content_block_stop handler, found ${matches.length}`);
+    return null;
   }
 
-  let newFile = oldFile;
-  let offset = 0;
+  const blockVar = matches[0][1]; // W
+  const insertPoint = matches[0].index + matches[0][0].length;
+  const newCode = `if(${blockVar}.type==="text")${blockVar}.text=TWEAKCC_TRANSFORMS.runOnText('response:before',${blockVar}.text);`;
 
-  for (const match of matches) {
-    if (match.index === undefined) continue;
+  const newFile = oldFile.slice(0, insertPoint) + newCode + oldFile.slice(insertPoint);
 
-    const contentVar = match[1];
-    const suffix = match[2];
-    const originalText = match[0];
+  showDiff(oldFile, newFile, newCode, insertPoint, insertPoint);
 
-    // Only transform first few occurrences (display-related)
-    const newText = `{role:"assistant",content:TWEAKCC_TRANSFORMS.hasTransforms('response:before')?TWEAKCC_TRANSFORMS.run('response:before',${contentVar}):${contentVar}${suffix}`;
+  return newFile;
+};
 
-    const adjustedIndex = match.index + offset;
-    newFile =
-      newFile.slice(0, adjustedIndex) +
-      newText +
-      newFile.slice(adjustedIndex + originalText.length);
+const TEXT_DELTA_PATTERN =
+  /Error\("Content block is not a text block"\);(?=([$\w]+)\.text\+=([$\w]+)\.text;)/g;
 
-    offset += newText.length - originalText.length;
+/**
+ * Sub-patch 5: Inject response:stream transform hook
+ *
+ * ✓ VERIFIED: Found once in Claude Code 2.1.268, in the text_delta case of the streaming loop:
+ *   case"text_delta":if(W.type!=="text")throw Error("Content block is not a text block");W.text+=J.text;break
+ *
+ * The delta is transformed in place before it's added to the block, so the streamed text that's
+ * displayed and the finished block both have the transformed text.  Each delta is transformed
+ * on its own; text split across deltas isn't seen together.
+ */
+export const writeStreamTransform = (oldFile: string): string | null => {
+  const matches = Array.from(oldFile.matchAll(TEXT_DELTA_PATTERN));
 
-    // Only transform first 3 occurrences to avoid performance issues
-    if (offset > 0 && matches.indexOf(match) >= 2) break;
+  if (matches.length !== 1 || matches[0].index === undefined) {
+    console.error(`patch: transforms: writeStreamTransform: expected one text_delta handler, found ${matches.length}`);
+    return null;
   }
 
-  if (newFile === oldFile) {
-    return oldFile;
-  }
+  const deltaVar = matches[0][2]; // J
+  const insertPoint = matches[0].index + matches[0][0].length;
+  const newCode = `${deltaVar}.text=TWEAKCC_TRANSFORMS.runOnText('response:stream',${deltaVar}.text);`;
+
+  const newFile = oldFile.slice(0, insertPoint) + newCode + oldFile.slice(insertPoint);
 
-  showDiff(oldFile, newFile, '[response transforms]', 0, 100);
+  showDiff(oldFile, newFile, newCode, insertPoint, insertPoint);
 
   return newFile;
 };
@@ -376,7 +434,7 @@ export const writeResponseTransform = (oldFile: string): string | null => {
 // ============================================================================
 
 /**
- * Sub-patch 4: Inject tool:input transform hook
+ * Sub-patch 6: Inject tool:input transform hook
  *
  * ✓ VERIFIED: Pattern found at position 5327809 in cli.js 2.0.55:
  *   let Y=Z.input;if("parse"in I&&I.parse)Y=I.parse(Y);let J=await I.run(Y)
@@ -416,7 +474,7 @@ export const writeToolInputTransform = (oldFile: string): string | null => {
 };
 
 /**
- * Sub-patch 5: Inject tool:output transform hook
+ * Sub-patch 7: Inject tool:output transform hook
  *
  * ✓ VERIFIED: Pattern found at position 5327839 in cli.js 2.0.55:
  *   return{type:"tool_result",tool_use_id:Z.id,content:J}
@@ -475,31 +533,27 @@ export const writeTransforms = (
     return null;
   }
 
-  // Step 2: Inject prompt:before transform hook
-  const hasPromptTransform = config.transforms.some(
-    t => t.enabled && (t.transform === 'prompt:before' || t.transform === 'prompt:system')
-  );
-  if (hasPromptTransform) {
-    const promptResult = writePromptTransform(result);
-    if (promptResult) {
-      result = promptResult;
-    } else {
-      console.log('patch: transforms: step 2 skipped (writePromptTransform)');
+  // Steps 2-5: Inject prompt and response transform hooks.  Each is optional: a hook whose
+  // site can't be found is skipped, and the rest of the transforms still apply.
+  const textHooks: [TransformType, (file: string) => string | null][] = [
+    ['prompt:before', writePromptTransform],
+    ['prompt:system', writeSystemPromptTransform],
+    ['response:before', writeResponseTransform],
+    ['response:stream', writeStreamTransform],
+  ];
+  for (const [index, [type, writeHook]] of textHooks.entries()) {
+    if (!config.transforms.some(t => t.enabled && t.transform === type)) {
+      continue;
     }
-  }
-
-  // Step 3: Inject response:before transform hook
-  const hasResponseTransform = config.transforms.some(
-    t => t.enabled && (t.transform === 'response:before' || t.transform === 'response:stream')
-  );
-  if (hasResponseTransform) {
-    const responseResult = writeResponseTransform(result);
-    if (responseResult) {
-      result = responseResult;
+    const hookResult = writeHook(result);
+    if (hookResult) {
+      result = hookResult;
+    } else {
+      console.log(`patch: transforms: step ${index + 2} skipped (${writeHook.name})`);
     }
   }
 
-  // Step 4: Inject tool:input transform hook
+  // Step 6: Inject tool:input transform hook
   const hasToolInputTransform = config.transforms.some(
     t => t.enabled && t.transform === 'tool:input'
   );
@@ -510,7 +564,7 @@ export const writeTransforms = (
     }
   }
 
-  // Step 5: Inject tool:output transform hook
+  // Step 7: Inject tool:output transform hook
   const hasToolOutputTransform = config.transforms.some(
     t => t.enabled && t.transform === 'tool:output'
   );
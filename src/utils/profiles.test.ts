@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'node:path';
+import {
+  DEFAULT_SETTINGS,
+  SYSTEM_PROMPTS_DIR,
+  TweakccConfig,
+} from './types.js';
+import {
+  PROFILES_DIR,
+  configureSystemPromptsDir,
+  deleteProfile,
+  getActiveProfileName,
+  getSystemPromptsDir,
+  listProfiles,
+  saveProfile,
+  setProfileScopedSystemPrompts,
+  switchProfile,
+  validateProfileName,
+} from './profiles.js';
+
+const createConfig = (): TweakccConfig => ({
+  ccVersion: '',
+  ccInstallationDir: null,
+  lastModified: '',
+  changesApplied: true,
+  settings: JSON.parse(JSON.stringify(DEFAULT_SETTINGS)),
+});
+
+describe('profiles', () => {
+  it('should start with an unsaved default profile', () => {
+    const config = createConfig();
+    expect(getActiveProfileName(config)).toBe('default');
+    expect(listProfiles(config)).toEqual(['default']);
+  });
+
+  it('should swap settings when switching profiles', () => {
+    const config = createConfig();
+    saveProfile(config, 'demo');
+    config.settings.thinkingVerbs.verbs = ['Demoing'];
+
+    switchProfile(config, 'demo');
+    expect(config.activeProfile).toBe('demo');
+    expect(config.changesApplied).toBe(false);
+    expect(config.settings.thinkingVerbs.verbs).toEqual(
+      DEFAULT_SETTINGS.thinkingVerbs.verbs
+    );
+
+    // The edits made in the default profile were kept.
+    switchProfile(config, 'default');
+    expect(config.settings.thinkingVerbs.verbs).toEqual(['Demoing']);
+    expect(listProfiles(config)).toEqual(['default', 'demo']);
+  });
+
+  it('should not share settings objects between profiles', () => {
+    const config = createConfig();
+    saveProfile(config, 'demo');
+    config.settings.toolsets.push({ name: 'mine', allowedTools: '*' });
+    expect(config.profiles!.demo.settings.toolsets).toEqual(
+      DEFAULT_SETTINGS.toolsets
+    );
+  });
+
+  it('should reject unknown profiles and deleting the active profile', () => {
+    const config = createConfig();
+    expect(() => switchProfile(config, 'nope')).toThrow(/doesn't exist/);
+    expect(() => deleteProfile(config, 'default')).toThrow(/active profile/);
+
+    saveProfile(config, 'demo');
+    deleteProfile(config, 'demo');
+    expect(listProfiles(config)).toEqual(['default']);
+  });
+
+  it('should validate profile names', () => {
+    expect(validateProfileName('pairing-2')).toBeNull();
+    expect(validateProfileName('../etc')).not.toBeNull();
+    expect(validateProfileName('a b')).not.toBeNull();
+  });
+
+  it('should scope system prompts per profile', () => {
+    const config = createConfig();
+    configureSystemPromptsDir(config);
+    expect(getSystemPromptsDir()).toBe(SYSTEM_PROMPTS_DIR);
+
+    saveProfile(config, 'minimal');
+    setProfileScopedSystemPrompts(config, 'minimal', true);
+    switchProfile(config, 'minimal');
+    configureSystemPromptsDir(config);
+    expect(getSystemPromptsDir()).toBe(
+      path.join(PROFILES_DIR, 'minimal', 'system-prompts')
+    );
+
+    // The flag survives switching away and back.
+    switchProfile(config, 'default');
+    switchProfile(config, 'minimal');
+    expect(config.profiles!.minimal.scopedSystemPrompts).toBe(true);
+
+    configureSystemPromptsDir(createConfig());
+  });
+});
@@ -0,0 +1,140 @@
+import * as path from 'path';
+import {
+  CONFIG_DIR,
+  Settings,
+  SYSTEM_PROMPTS_DIR,
+  TweakccConfig,
+} from './types.js';
+
+// Named customization profiles.  `config.settings` is always the active profile's settings,
+// so the rest of tweakcc (and the UI, which edits it in place) doesn't need to know about
+// profiles; the other profiles are stored in `config.profiles` and swapped in by
+// switchProfile().
+
+export const DEFAULT_PROFILE = 'default';
+export const PROFILES_DIR = path.join(CONFIG_DIR, 'profiles');
+
+/**
+ * Returns the name of the active profile.
+ */
+export const getActiveProfileName = (config: TweakccConfig): string =>
+  config.activeProfile ?? DEFAULT_PROFILE;
+
+/**
+ * Lists all profiles, including the active one even if it has never been saved.
+ */
+export const listProfiles = (config: TweakccConfig): string[] => {
+  const names = new Set(Object.keys(config.profiles ?? {}));
+  names.add(getActiveProfileName(config));
+  return [...names].sort();
+};
+
+/**
+ * Checks that `name` can be used as a profile name; it's also used as a directory name.
+ */
+export const validateProfileName = (name: string): string | null => {
+  if (!/^[\w.-]+$/.test(name) || name === '.' || name === '..') {
+    return 'Profile names may only contain letters, numbers, ".", "-" and "_"';
+  }
+  return null;
+};
+
+// Settings are copied in and out of profiles so that editing one doesn't change another.
+const cloneSettings = (settings: Settings): Settings =>
+  JSON.parse(JSON.stringify(settings));
+
+/**
+ * Saves the current settings as profile `name`, creating or overwriting it.  If `name` is the
+ * active profile, this just records its current settings.
+ */
+export const saveProfile = (config: TweakccConfig, name: string): void => {
+  if (!config.profiles) {
+    config.profiles = {};
+  }
+  config.profiles[name] = {
+    ...config.profiles[name],
+    settings: cloneSettings(config.settings),
+  };
+};
+
+/**
+ * Makes `name` the active profile: the current settings are saved to the active profile and
+ * `name`'s settings are loaded.  Throws if the profile doesn't exist.
+ */
+export const switchProfile = (config: TweakccConfig, name: string): void => {
+  const target = config.profiles?.[name];
+  const activeName = getActiveProfileName(config);
+  if (name === activeName) {
+    return;
+  }
+  if (!target) {
+    throw new Error(
+      `Profile "${name}" doesn't exist. Available profiles: ${listProfiles(config).join(', ')}`
+    );
+  }
+
+  saveProfile(config, activeName);
+  config.settings = cloneSettings(target.settings);
+  config.activeProfile = name;
+  config.changesApplied = false;
+};
+
+/**
+ * Deletes profile `name`.  The active profile can't be deleted.
+ */
+export const deleteProfile = (config: TweakccConfig, name: string): void => {
+  if (name === getActiveProfileName(config)) {
+    throw new Error(
+      `Can't delete the active profile "${name}"; switch to another profile first`
+    );
+  }
+  if (!config.profiles?.[name]) {
+    throw new Error(`Profile "${name}" doesn't exist`);
+  }
+  delete config.profiles[name];
+};
+
+/**
+ * Sets whether profile `name` keeps its system prompts in its own directory instead of the
+ * shared SYSTEM_PROMPTS_DIR.
+ */
+export const setProfileScopedSystemPrompts = (
+  config: TweakccConfig,
+  name: string,
+  scoped: boolean
+): void => {
+  if (!config.profiles?.[name]) {
+    saveProfile(config, name);
+  }
+  if (scoped) {
+    config.profiles![name].scopedSystemPrompts = true;
+  } else {
+    delete config.profiles![name].scopedSystemPrompts;
+  }
+};
+
+/**
+ * Returns the system prompts directory for profile `name` (the active profile by default).
+ */
+export const getProfileSystemPromptsDir = (
+  config: TweakccConfig,
+  name = getActiveProfileName(config)
+): string =>
+  config.profiles?.[name]?.scopedSystemPrompts
+    ? path.join(PROFILES_DIR, name, 'system-prompts')
+    : SYSTEM_PROMPTS_DIR;
+
+let systemPromptsDir = SYSTEM_PROMPTS_DIR;
+
+/**
+ * Returns the directory the active profile's system prompt markdown files are in.
+ */
+export const getSystemPromptsDir = (): string => systemPromptsDir;
+
+/**
+ * Points getSystemPromptsDir() at the active profile's system prompts.  Called at startup and
+ * whenever the active profile changes.
+ */
+export const configureSystemPromptsDir = (config: TweakccConfig): void => {
+  systemPromptsDir = getProfileSystemPromptsDir(config);
+};
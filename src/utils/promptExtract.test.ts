@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { StringsFile } from './promptSync.js';
+
+// Keep the native installation code (and node-lief) out of these tests.
+vi.mock('./patches/index.js', () => ({ readOriginalContent: vi.fn() }));
+vi.mock('./misc.js', () => ({ isDebug: () => false }));
+
+import {
+  buildStringsFile,
+  extractPromptStrings,
+  looksLikePrompt,
+} from './promptExtract.js';
+
+const PROSE =
+  'You are an interactive assistant that helps users with software engineering tasks. ' +
+  'You should always be concise. Use the instructions below and the tools available to you. ' +
+  'You must never guess URLs. When the user asks for help, tell them how to give feedback. ' +
+  'Always explain what a command does before running it. Prefer editing existing files. ' +
+  'Never commit changes unless the user explicitly asks you to. Keep responses short. ' +
+  'Follow the conventions of the code around you, and check that libraries are available. ';
+
+describe('promptExtract', () => {
+  describe('looksLikePrompt', () => {
+    it('should accept long instructional prose', () => {
+      expect(looksLikePrompt(PROSE)).toBe(true);
+    });
+
+    it('should reject short strings and base64 data', () => {
+      expect(looksLikePrompt('You must be brief.')).toBe(false);
+      expect(looksLikePrompt('AGFzbQEAAAAB'.repeat(100))).toBe(false);
+    });
+  });
+
+  describe('extractPromptStrings', () => {
+    it('should extract string literals', () => {
+      const code = `var a=1,b=${JSON.stringify(PROSE)};function c(){return "short"}`;
+      const result = extractPromptStrings(code);
+      expect(result).toHaveLength(1);
+      expect(result[0].pieces).toEqual([PROSE]);
+      expect(result[0].identifiers).toEqual([]);
+    });
+
+    it('should split template literals around identifiers', () => {
+      const code =
+        'var p=`Hello ${NAME}. ' +
+        PROSE +
+        'Use ${TOOL.name} or ${f(NAME)} ${{a:OTHER}}.`;';
+      const [prompt] = extractPromptStrings(code);
+
+      expect(prompt.pieces).toEqual([
+        'Hello ${',
+        '}. ' + PROSE + 'Use ${',
+        '.name} or ${',
+        '(',
+        ')} ${{a:OTHER}}.',
+      ]);
+      // NAME, TOOL, f, NAME: OTHER is an object property value, not a variable.
+      expect(prompt.identifiers).toEqual([0, 1, 2, 0]);
+    });
+
+    it('should drop strings nested in an extracted template literal', () => {
+      const inner = JSON.stringify(PROSE);
+      const code = 'var p=`' + PROSE + '${X?' + inner + ':""}`;';
+      const result = extractPromptStrings(code);
+      expect(result).toHaveLength(1);
+      expect(result[0].identifiers).toEqual([0]);
+    });
+  });
+
+  describe('buildStringsFile', () => {
+    const reference: StringsFile = {
+      version: '1.0.0',
+      prompts: [
+        {
+          name: 'Main prompt',
+          id: 'main',
+          description: 'The main system prompt',
+          pieces: ['Hi ${', '}. ' + PROSE],
+          identifiers: [0],
+          identifierMap: { '0': 'USER_NAME' },
+          version: '1.0.0',
+        },
+        {
+          name: 'Version banner',
+          id: 'banner',
+          description: 'Mentions the version',
+          pieces: ['Claude Code <<CCVERSION>>. ' + PROSE],
+          identifiers: [],
+          identifierMap: {},
+          version: '0.9.0',
+        },
+      ],
+    };
+
+    it('should keep metadata and version for unchanged prompts', () => {
+      const result = buildStringsFile(
+        [
+          {
+            pieces: ['Claude Code 1.1.0. ' + PROSE],
+            identifiers: [],
+            start: 0,
+            end: 0,
+          },
+        ],
+        '1.1.0',
+        reference
+      );
+      expect(result.version).toBe('1.1.0');
+      expect(result.prompts[0]).toMatchObject({
+        id: 'banner',
+        version: '0.9.0',
+        pieces: ['Claude Code <<CCVERSION>>. ' + PROSE],
+      });
+    });
+
+    it('should carry metadata over to changed prompts', () => {
+      const result = buildStringsFile(
+        [
+          {
+            pieces: ['Hi ${', '}. ' + PROSE + 'A new sentence.'],
+            identifiers: [0],
+            start: 0,
+            end: 0,
+          },
+        ],
+        '1.1.0',
+        reference
+      );
+      expect(result.prompts[0]).toMatchObject({
+        id: 'main',
+        name: 'Main prompt',
+        identifierMap: { '0': 'USER_NAME' },
+        version: '1.1.0',
+      });
+    });
+
+    it('should generate IDs for new prompts', () => {
+      const result = buildStringsFile(
+        [
+          {
+            pieces: ['Brand new ${', '} prompt. ' + PROSE + 'Goodbye.'],
+            identifiers: [0],
+            start: 0,
+            end: 0,
+          },
+        ],
+        '1.1.0',
+        reference
+      );
+      const [prompt] = result.prompts;
+      expect(prompt.id).toMatch(/^extracted-[0-9a-f]{8}$/);
+      expect(prompt.identifierMap).toEqual({ '0': 'VAR_0' });
+      expect(prompt.version).toBe('1.1.0');
+      expect(prompt.description.startsWith('Brand new ${')).toBe(true);
+    });
+  });
+});
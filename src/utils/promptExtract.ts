@@ -0,0 +1,375 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+import { parse } from '@babel/parser';
+import type { StringsFile, StringsPrompt } from './promptSync.js';
+import { compareVersions } from './promptSync.js';
+import { getLocalPromptDataDirs } from './download.js';
+import { computeMD5Hash } from './systemPromptHashIndex.js';
+import { ClaudeCodeInstallationInfo, EXTRACTED_PROMPTS_DIR } from './types.js';
+import { isDebug } from './misc.js';
+import { readOriginalContent } from './patches/index.js';
+
+// Local version of tools/promptExtractor.js, so that tweakcc can generate prompt data for a
+// Claude Code version before it's been published to data/prompts.  Names, IDs, descriptions
+// and variable names aren't in cli.js, so they're carried over from the most recent
+// published prompt data.
+
+/**
+ * Minimal shape of a Babel AST node; the extractor walks the tree generically.
+ */
+interface AstNode {
+  type: string;
+  start?: number | null;
+  end?: number | null;
+  [key: string]: unknown;
+}
+
+/**
+ * A prompt found in cli.js, before names and variables are attached.
+ */
+export interface ExtractedPrompt {
+  pieces: string[];
+  identifiers: number[];
+  start: number;
+  end: number;
+}
+
+const isAstNode = (value: unknown): value is AstNode =>
+  !!value && typeof value === 'object' && 'type' in value;
+
+const forEachChild = (node: AstNode, fn: (child: AstNode) => void): void => {
+  for (const key in node) {
+    if (key === 'loc' || key === 'start' || key === 'end') continue;
+    const value = node[key];
+    if (Array.isArray(value)) {
+      value.forEach(v => isAstNode(v) && fn(v));
+    } else if (isAstNode(value)) {
+      fn(value);
+    }
+  }
+};
+
+/**
+ * Heuristically decides whether a string looks like a prompt (long, natural-language
+ * instructions) rather than code, base64 data, etc.
+ */
+export const looksLikePrompt = (text: string, minLength = 500): boolean => {
+  if (text.length < minLength) return false;
+
+  const first10 = text.substring(0, 10);
+  if (first10.startsWith('AGFzbQ') || /^[A-Z0-9+/=]{10}$/.test(first10)) {
+    return false;
+  }
+
+  const sample = text.substring(0, 500);
+  const words = sample.split(/\s+/).filter(w => w.length > 0);
+  if (words.length === 0) return false;
+
+  const uppercaseWords = words.filter(
+    w => w === w.toUpperCase() && /[A-Z]/.test(w)
+  );
+  if (uppercaseWords.length / words.length > 0.6) return false;
+
+  const lowerText = text.toLowerCase();
+  const hasYou = lowerText.includes('you');
+  const hasAI = lowerText.includes('ai') || lowerText.includes('assistant');
+  const hasInstruct =
+    lowerText.includes('must') ||
+    lowerText.includes('should') ||
+    lowerText.includes('always');
+  if (!hasYou && !hasAI && !hasInstruct) return false;
+
+  if (!/[.!?]\s+[A-Z(]/.test(text)) return false;
+
+  const avgWordLength =
+    words.reduce((sum, w) => sum + w.length, 0) / words.length;
+  if (avgWordLength > 15) return false;
+
+  const spaceCount = (sample.match(/\s/g) || []).length;
+  if (spaceCount / sample.length < 0.1) return false;
+
+  return true;
+};
+
+/**
+ * Collects the identifiers interpolated into a template literal, with positions relative to
+ * the start of its content.  Mirrors tools/promptExtractor.js: object property values and
+ * member expression properties are not treated as variables.
+ */
+const collectTemplateIdentifiers = (
+  expressions: AstNode[],
+  contentStart: number
+): Array<{ name: string; start: number; end: number }> => {
+  const found: Array<{ name: string; start: number; end: number }> = [];
+
+  const visit = (node: AstNode, isTopLevel: boolean): void => {
+    if (node.type === 'Identifier' && isTopLevel) {
+      found.push({
+        name: node.name as string,
+        start: node.start! - contentStart,
+        end: node.end! - contentStart,
+      });
+    }
+
+    if (node.type === 'CallExpression') {
+      if (isAstNode(node.callee)) visit(node.callee, true);
+      (node.arguments as unknown[]).forEach(
+        arg => isAstNode(arg) && visit(arg, true)
+      );
+      return;
+    }
+    if (node.type === 'MemberExpression') {
+      if (isAstNode(node.object)) visit(node.object, true);
+      return;
+    }
+    if (node.type === 'TemplateLiteral') {
+      (node.expressions as unknown[]).forEach(
+        expr => isAstNode(expr) && visit(expr, true)
+      );
+      return;
+    }
+    if (node.type === 'ObjectExpression') {
+      (node.properties as unknown[]).forEach(prop => {
+        if (isAstNode(prop) && isAstNode(prop.value)) visit(prop.value, false);
+      });
+      return;
+    }
+    forEachChild(node, child => visit(child, true));
+  };
+
+  expressions.forEach(expr => visit(expr, true));
+  return found.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Finds every prompt-like string and template literal in `code`.  Template literals are split
+ * into pieces around their interpolated identifiers, which are label-encoded in order of first
+ * appearance.  Strings nested inside another extracted string are dropped.
+ */
+export const extractPromptStrings = (
+  code: string,
+  minLength = 500
+): ExtractedPrompt[] => {
+  const ast = parse(code, {
+    sourceType: 'module',
+    plugins: ['jsx', 'typescript'],
+  }) as unknown as AstNode;
+
+  const found: ExtractedPrompt[] = [];
+
+  const traverse = (node: AstNode): void => {
+    if (node.type === 'StringLiteral') {
+      const value = node.value as string;
+      if (looksLikePrompt(value, minLength)) {
+        found.push({
+          pieces: [value],
+          identifiers: [],
+          start: node.start!,
+          end: node.end!,
+        });
+      }
+    }
+
+    if (node.type === 'TemplateLiteral') {
+      // Take the template's content directly from the source, excluding the backticks.
+      const contentStart = node.start! + 1;
+      const fullContent = code.substring(contentStart, node.end! - 1);
+
+      if (looksLikePrompt(fullContent, minLength)) {
+        const identifiers = collectTemplateIdentifiers(
+          (node.expressions as unknown[]).filter(isAstNode),
+          contentStart
+        );
+
+        const pieces: string[] = [];
+        const labels = new Map<string, number>();
+        const encoded: number[] = [];
+        let lastPos = 0;
+        for (const id of identifiers) {
+          pieces.push(fullContent.substring(lastPos, id.start));
+          if (!labels.has(id.name)) labels.set(id.name, labels.size);
+          encoded.push(labels.get(id.name)!);
+          lastPos = id.end;
+        }
+        pieces.push(fullContent.substring(lastPos));
+
+        found.push({
+          pieces,
+          identifiers: encoded,
+          start: node.start!,
+          end: node.end!,
+        });
+      }
+    }
+
+    forEachChild(node, traverse);
+  };
+
+  traverse(ast);
+
+  // Drop strings that are inside another extracted string: sort by start, longest first.
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: ExtractedPrompt[] = [];
+  let coveredUntil = -1;
+  for (const item of found) {
+    if (item.end <= coveredUntil) continue;
+    result.push(item);
+    coveredUntil = Math.max(coveredUntil, item.end);
+  }
+  return result;
+};
+
+const contentKey = (prompt: { pieces: string[]; identifiers: number[] }) =>
+  prompt.pieces.join('\u0000') + '\u0001' + prompt.identifiers.join(',');
+
+// Characters compared at each end of a prompt when looking for a changed version of it.
+const SIMILARITY_CHARS = 100;
+
+/**
+ * Builds a StringsFile for `version` from prompts extracted from its cli.js.  Prompts are
+ * matched against `reference` (published data for an earlier version) to recover their
+ * names, IDs, descriptions and variable names:
+ *
+ * - Identical prompts keep their reference version.
+ * - Prompts that start or end the same way as a reference prompt are treated as changed
+ *   versions of it.
+ * - Anything else is given a generated ID.
+ */
+export const buildStringsFile = (
+  extracted: ExtractedPrompt[],
+  version: string,
+  reference: StringsFile | null
+): StringsFile => {
+  const escapedVersion = version.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const versionPattern = new RegExp(escapedVersion, 'g');
+  const referencePrompts = reference?.prompts ?? [];
+  const used = new Set<StringsPrompt>();
+
+  const exactMatches = new Map<string, StringsPrompt>();
+  for (const prompt of referencePrompts) {
+    exactMatches.set(contentKey(prompt), prompt);
+  }
+
+  const prompts = extracted.map((item): StringsPrompt => {
+    const pieces = item.pieces.map(piece =>
+      piece.replace(versionPattern, '<<CCVERSION>>')
+    );
+    const candidate = { pieces, identifiers: item.identifiers };
+
+    const exact = exactMatches.get(contentKey(candidate));
+    if (exact && !used.has(exact)) {
+      used.add(exact);
+      return { ...exact, pieces, identifiers: item.identifiers };
+    }
+
+    const joined = pieces.join('');
+    const similar = referencePrompts.find(prompt => {
+      if (used.has(prompt)) return false;
+      const refJoined = prompt.pieces.join('');
+      return (
+        refJoined.slice(0, SIMILARITY_CHARS) ===
+          joined.slice(0, SIMILARITY_CHARS) ||
+        refJoined.slice(-SIMILARITY_CHARS) === joined.slice(-SIMILARITY_CHARS)
+      );
+    });
+
+    const labelCount = new Set(item.identifiers).size;
+    const fallbackMap: Record<string, string> = {};
+    for (let label = 0; label < labelCount; label++) {
+      fallbackMap[String(label)] = `VAR_${label}`;
+    }
+
+    if (similar) {
+      used.add(similar);
+      // Variable names only carry over if the variables are used in the same order.
+      const sameVariables =
+        similar.identifiers.join(',') === item.identifiers.join(',');
+      return {
+        name: similar.name,
+        id: similar.id,
+        description: similar.description,
+        pieces,
+        identifiers: item.identifiers,
+        identifierMap: sameVariables ? similar.identifierMap : fallbackMap,
+        version,
+      };
+    }
+
+    const hash = computeMD5Hash(joined).slice(0, 8);
+    return {
+      name: `Extracted prompt ${hash}`,
+      id: `extracted-${hash}`,
+      description: joined.trim().replace(/\s+/g, ' ').slice(0, 80),
+      pieces,
+      identifiers: item.identifiers,
+      identifierMap: fallbackMap,
+      version,
+    };
+  });
+
+  return { version, prompts };
+};
+
+/**
+ * Finds the most recent published prompt data for a version at or before `version`, to use
+ * as the reference for buildStringsFile.
+ */
+export const findReferenceStringsFile = async (
+  version: string
+): Promise<StringsFile | null> => {
+  let best: { version: string; file: string } | null = null;
+  for (const dir of getLocalPromptDataDirs()) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const match = entry.match(/^prompts-(\d+\.\d+\.\d+)\.json$/);
+      if (!match || compareVersions(match[1], version) > 0) continue;
+      if (!best || compareVersions(match[1], best.version) > 0) {
+        best = { version: match[1], file: path.join(dir, entry) };
+      }
+    }
+  }
+  if (!best) return null;
+
+  try {
+    return JSON.parse(await fs.readFile(best.file, 'utf8')) as StringsFile;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Extracts a StringsFile from the user's Claude Code installation.
+ */
+export const extractStringsFileFromInstallation = async (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): Promise<StringsFile> => {
+  const code = await readOriginalContent(ccInstInfo, false);
+  const extracted = extractPromptStrings(code);
+  const reference = await findReferenceStringsFile(ccInstInfo.version);
+  if (isDebug()) {
+    console.log(
+      `Extracted ${extracted.length} prompts; reference data: ${reference?.version ?? 'none'}`
+    );
+  }
+  return buildStringsFile(extracted, ccInstInfo.version, reference);
+};
+
+/**
+ * Saves extracted prompt data where downloadStringsFile() falls back to it.  Returns the path.
+ */
+export const saveExtractedStringsFile = async (
+  stringsFile: StringsFile,
+  outFile?: string
+): Promise<string> => {
+  const filePath =
+    outFile ??
+    path.join(EXTRACTED_PROMPTS_DIR, `prompts-${stringsFile.version}.json`);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(stringsFile, null, 2), 'utf8');
+  return filePath;
+};
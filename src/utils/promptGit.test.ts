@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+
+const { configDir, promptsDir } = await vi.hoisted(async () => {
+  const os = await import('node:os');
+  const path = await import('node:path');
+  const configDir = path.join(os.tmpdir(), `tweakcc-prompt-git-${process.pid}`);
+  return { configDir, promptsDir: path.join(configDir, 'system-prompts') };
+});
+
+vi.mock('./types.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./types.js')>()),
+  SYSTEM_PROMPTS_DIR: promptsDir,
+}));
+
+import {
+  autoCommitPrompts,
+  checkoutPromptRef,
+  commitPrompts,
+  createPromptBranch,
+  formatAutoCommitMessage,
+  getChangedPromptIds,
+  getPromptHistory,
+  isGitAvailable,
+  listPromptBranches,
+} from './promptGit.js';
+
+const writePrompt = (id: string, content: string) =>
+  fs.writeFile(path.join(promptsDir, `${id}.md`), content);
+
+describe('formatAutoCommitMessage', () => {
+  it('lists a few prompt IDs in the subject', () => {
+    expect(formatAutoCommitMessage('Sync', '2.0.31', ['a', 'b'])).toBe(
+      'Sync for Claude Code 2.0.31: a, b'
+    );
+  });
+
+  it('lists every prompt ID in the body when there are many', () => {
+    expect(
+      formatAutoCommitMessage('Apply', '2.0.31', ['a', 'b', 'c', 'd', 'e'])
+    ).toBe(
+      'Apply for Claude Code 2.0.31: a, b, c and 2 more\n\n- a\n- b\n- c\n- d\n- e'
+    );
+  });
+
+  it('leaves out an unknown version', () => {
+    expect(formatAutoCommitMessage('Commit', '', ['a'])).toBe('Commit: a');
+  });
+});
+
+describe.skipIf(!isGitAvailable())('prompt repository', () => {
+  beforeEach(async () => {
+    await fs.mkdir(promptsDir, { recursive: true });
+    // Isolate from the user's git config; commits fall back to tweakcc's identity.
+    vi.stubEnv('GIT_CONFIG_GLOBAL', path.join(configDir, 'no-such-config'));
+    vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(configDir, { recursive: true, force: true });
+  });
+
+  it('auto-commits changed prompts with their IDs and the CC version', async () => {
+    await writePrompt('system-prompt-main', 'Hello');
+    await writePrompt('tool-bash', 'Run commands');
+    await fs.writeFile(path.join(promptsDir, 'tool-bash.diff.html'), '<p>');
+
+    await autoCommitPrompts('Sync', '2.0.31');
+
+    const history = await getPromptHistory(10);
+    expect(history).toHaveLength(1);
+    expect(history[0].subject).toBe(
+      'Sync for Claude Code 2.0.31: system-prompt-main, tool-bash'
+    );
+    // The HTML diffs are ignored.
+    expect(getChangedPromptIds()).toEqual([]);
+
+    // Nothing changed, so nothing is committed.
+    await autoCommitPrompts('Apply', '2.0.31');
+    expect(await getPromptHistory(10)).toHaveLength(1);
+  });
+
+  it('switches between branches', async () => {
+    await writePrompt('main', 'Default prompt');
+    await commitPrompts('Initial');
+    const { current: defaultBranch } = await listPromptBranches();
+
+    await createPromptBranch('terse');
+    await checkoutPromptRef('terse');
+    await writePrompt('main', 'Terse prompt');
+    expect(getChangedPromptIds()).toEqual(['main']);
+    expect(await commitPrompts('Be terse')).toMatch(/^[0-9a-f]+$/);
+
+    await checkoutPromptRef(defaultBranch!);
+    expect(await fs.readFile(path.join(promptsDir, 'main.md'), 'utf8')).toBe(
+      'Default prompt'
+    );
+    expect((await listPromptBranches()).branches).toEqual(
+      [defaultBranch!, 'terse'].sort()
+    );
+  });
+
+  it('uses its own repository when a parent one ignores the prompts', async () => {
+    // As when the user runs `git init` in ~/.tweakcc, whose .gitignore excludes system-prompts.
+    execFileSync('git', ['init', '--quiet'], { cwd: configDir });
+    await fs.writeFile(path.join(configDir, '.gitignore'), 'system-prompts\n');
+    await writePrompt('main', 'Hello');
+
+    expect(await commitPrompts('Initial')).toMatch(/^[0-9a-f]+$/);
+    expect(await getPromptHistory(10)).toHaveLength(1);
+    await expect(fs.stat(path.join(promptsDir, '.git'))).resolves.toBeTruthy();
+    expect(
+      execFileSync('git', ['config', 'tweakcc.created'], {
+        cwd: promptsDir,
+        encoding: 'utf8',
+      }).trim()
+    ).toBe('true');
+  });
+
+  it("commits to a parent repository that versions the prompts, but doesn't switch its branches", async () => {
+    execFileSync('git', ['init', '--quiet'], { cwd: configDir });
+    // The user's hooks still run in their repository.
+    const hook = path.join(configDir, '.git', 'hooks', 'pre-commit');
+    await fs.writeFile(hook, `#!/bin/sh\ntouch "${configDir}/hook-ran"\n`);
+    await fs.chmod(hook, 0o755);
+    await writePrompt('main', 'Hello');
+
+    expect(await commitPrompts('Initial')).toMatch(/^[0-9a-f]+$/);
+    await expect(fs.stat(path.join(promptsDir, '.git'))).rejects.toThrow();
+    await expect(
+      fs.stat(path.join(configDir, 'hook-ran'))
+    ).resolves.toBeTruthy();
+
+    await expect(createPromptBranch('terse')).rejects.toThrow(
+      /versioned by the repository at/
+    );
+    await expect(checkoutPromptRef('HEAD~0')).rejects.toThrow(
+      /versioned by the repository at/
+    );
+    expect(
+      execFileSync('git', ['branch', '--format=%(refname:short)'], {
+        cwd: configDir,
+        encoding: 'utf8',
+      }).trim()
+    ).not.toContain('terse');
+  });
+});
@@ -0,0 +1,307 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+import { execFileSync } from 'node:child_process';
+import { getSystemPromptsDir } from './profiles.js';
+
+// Git versioning for the system prompt markdown files.  The repository lives in the system
+// prompts directory itself (~/.tweakcc's .gitignore excludes system-prompts), unless the
+// directory is already versioned by a repository the user set up, in which case that's used
+// and only the system prompts directory is ever staged or committed.  Branches ("profiles") are
+// only switched in a repository of the prompts' own, never in the user's.  Profiles with their
+// own system prompts directory (see profiles.ts) get their own repository.
+
+// Used when the user hasn't configured a git identity, so that commits still work.
+const FALLBACK_IDENTITY = [
+  '-c',
+  'user.name=tweakcc',
+  '-c',
+  'user.email=tweakcc@localhost',
+];
+
+// Set in repositories tweakcc initialized, whose commits can skip the user's hooks.
+const CREATED_BY_TWEAKCC_CONFIG = 'tweakcc.created';
+
+export interface PromptCommit {
+  hash: string;
+  date: string;
+  subject: string;
+}
+
+export interface PromptBranches {
+  current: string | null; // null when HEAD is detached
+  branches: string[];
+}
+
+/**
+ * Runs git in the system prompts directory and returns its stdout, minus trailing newlines.
+ * Throws with git's error output if it fails.
+ */
+const git = (args: string[]): string => {
+  try {
+    return execFileSync('git', args, {
+      cwd: getSystemPromptsDir(),
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).trimEnd();
+  } catch (error) {
+    const stderr =
+      error && typeof error === 'object' && 'stderr' in error
+        ? String(error.stderr).trim()
+        : '';
+    throw new Error(
+      stderr || (error instanceof Error ? error.message : String(error))
+    );
+  }
+};
+
+/**
+ * Checks whether git is installed.
+ */
+export const isGitAvailable = (): boolean => {
+  try {
+    execFileSync('git', ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Makes sure the system prompts directory is in a git repository, initializing one if needed.
+ */
+export const ensurePromptRepo = async (): Promise<void> => {
+  await fs.mkdir(getSystemPromptsDir(), { recursive: true });
+  if (await isVersionedByExistingRepo()) {
+    return;
+  }
+
+  git(['init', '--quiet']);
+  git(['config', CREATED_BY_TWEAKCC_CONFIG, 'true']);
+  // The conflict diffs are regenerated on every sync and aren't worth versioning.
+  await fs.writeFile(
+    path.join(getSystemPromptsDir(), '.gitignore'),
+    '*.diff.html\n'
+  );
+};
+
+/**
+ * Checks whether `dir`, as reported by git (which resolves symlinks), is the system prompts
+ * directory.
+ */
+const isPromptsDir = async (dir: string): Promise<boolean> =>
+  path.resolve(dir) === (await fs.realpath(getSystemPromptsDir()));
+
+/**
+ * Makes sure the system prompts are versioned by a repository of their own, so that switching
+ * branches doesn't switch the rest of a repository the user set up around them.
+ */
+const ensureOwnPromptRepo = async (): Promise<void> => {
+  await ensurePromptRepo();
+  const topLevel = git(['rev-parse', '--show-toplevel']);
+  if (!(await isPromptsDir(topLevel))) {
+    throw new Error(
+      `The system prompts are versioned by the repository at ${topLevel}; use git there to switch branches.`
+    );
+  }
+};
+
+/**
+ * Checks whether the system prompts directory is already in a repository that versions it:
+ * either its own, or one the user set up around it that doesn't ignore it.  A user who
+ * `git init`s ~/.tweakcc gets the second kind, but tweakcc's own .gitignore there excludes
+ * system-prompts, and staging them would fail.
+ */
+const isVersionedByExistingRepo = async (): Promise<boolean> => {
+  let topLevel: string;
+  try {
+    topLevel = git(['rev-parse', '--show-toplevel']);
+  } catch {
+    return false; // Not a repository yet
+  }
+  if (await isPromptsDir(topLevel)) {
+    return true;
+  }
+
+  try {
+    git(['check-ignore', '--quiet', '--', '.']);
+    return false; // Ignored by the parent repository
+  } catch {
+    return true;
+  }
+};
+
+/**
+ * Returns the IDs of the prompts with uncommitted changes.
+ */
+export const getChangedPromptIds = (): string[] => {
+  const status = git([
+    'status',
+    '--porcelain',
+    '--untracked-files=all',
+    '--no-renames',
+    '--',
+    '.',
+  ]);
+  const ids = new Set<string>();
+  for (const line of status.split('\n')) {
+    const file = line.slice(3).replace(/^"|"$/g, '');
+    if (file.endsWith('.md')) {
+      ids.add(path.basename(file, '.md'));
+    }
+  }
+  return [...ids].sort();
+};
+
+/**
+ * Commits all changes to the system prompts.  Returns the short hash of the new commit, or
+ * null if there was nothing to commit.
+ */
+export const commitPrompts = async (
+  message: string
+): Promise<string | null> => {
+  await ensurePromptRepo();
+  git(['add', '--all', '--', '.']);
+  try {
+    git(['diff', '--cached', '--quiet', '--', '.']);
+    return null; // Nothing staged
+  } catch {
+    // Staged changes exist
+  }
+
+  let hasIdentity = true;
+  try {
+    git(['config', 'user.email']);
+  } catch {
+    hasIdentity = false;
+  }
+  let createdByTweakcc = false;
+  try {
+    createdByTweakcc =
+      git(['config', '--local', '--bool', CREATED_BY_TWEAKCC_CONFIG]) ===
+      'true';
+  } catch {
+    // Not set
+  }
+  git([
+    ...(hasIdentity ? [] : FALLBACK_IDENTITY),
+    'commit',
+    '--quiet',
+    ...(createdByTweakcc ? ['--no-verify'] : []),
+    '-m',
+    message,
+    '--',
+    '.',
+  ]);
+  return git(['rev-parse', '--short', 'HEAD']);
+};
+
+// Prompt IDs listed in an auto-commit's subject line; the body lists all of them.
+const MAX_IDS_IN_SUBJECT = 3;
+
+/**
+ * Builds an auto-commit message, e.g. "Sync for Claude Code 2.0.31: foo, bar".  The version is
+ * left out if it's empty (tweakcc hasn't found Claude Code yet).
+ */
+export const formatAutoCommitMessage = (
+  action: string,
+  ccVersion: string,
+  promptIds: string[]
+): string => {
+  let subject = ccVersion ? `${action} for Claude Code ${ccVersion}` : action;
+  if (promptIds.length > 0) {
+    const shown = promptIds.slice(0, MAX_IDS_IN_SUBJECT).join(', ');
+    const more = promptIds.length - MAX_IDS_IN_SUBJECT;
+    subject += `: ${shown}${more > 0 ? ` and ${more} more` : ''}`;
+  }
+  if (promptIds.length <= MAX_IDS_IN_SUBJECT) {
+    return subject;
+  }
+  return `${subject}\n\n${promptIds.map(id => `- ${id}`).join('\n')}`;
+};
+
+/**
+ * Commits any changes to the system prompts after tweakcc has synced or applied them.  Never
+ * throws: versioning is best-effort, and does nothing if git isn't installed.
+ */
+export const autoCommitPrompts = async (
+  action: string,
+  ccVersion: string
+): Promise<void> => {
+  if (!isGitAvailable()) {
+    return;
+  }
+  try {
+    await ensurePromptRepo();
+    const ids = getChangedPromptIds();
+    if (ids.length > 0) {
+      await commitPrompts(formatAutoCommitMessage(action, ccVersion, ids));
+    }
+  } catch (error) {
+    console.warn(
+      `Failed to commit system prompt changes: ${error instanceof Error ? error.message : error}`
+    );
+  }
+};
+
+/**
+ * Returns the most recent commits touching the system prompts, newest first.
+ */
+export const getPromptHistory = async (
+  limit: number
+): Promise<PromptCommit[]> => {
+  await ensurePromptRepo();
+  let log: string;
+  try {
+    log = git([
+      'log',
+      `--max-count=${limit}`,
+      '--date=short',
+      '--format=%h%x09%ad%x09%s',
+      '--',
+      '.',
+    ]);
+  } catch {
+    return []; // No commits yet
+  }
+  return log
+    .split('\n')
+    .filter(line => line)
+    .map(line => {
+      const [hash, date, ...subject] = line.split('\t');
+      return { hash, date, subject: subject.join('\t') };
+    });
+};
+
+/**
+ * Lists the branches ("profiles") of the prompts repository.
+ */
+export const listPromptBranches = async (): Promise<PromptBranches> => {
+  await ensurePromptRepo();
+  const current = git(['branch', '--show-current']) || null;
+  const branches = git(['branch', '--format=%(refname:short)'])
+    .split('\n')
+    .filter(branch => branch);
+  // A new repository has no branches until the first commit.
+  if (current && !branches.includes(current)) {
+    branches.unshift(current);
+  }
+  return { current, branches };
+};
+
+/**
+ * Creates a branch at the current commit.  Throws if the system prompts are versioned by a
+ * repository around them.
+ */
+export const createPromptBranch = async (name: string): Promise<void> => {
+  await ensureOwnPromptRepo();
+  git(['branch', '--', name]);
+};
+
+/**
+ * Checks out a branch or commit.  Git refuses if it would overwrite uncommitted changes.  Throws
+ * if the system prompts are versioned by a repository around them.
+ */
+export const checkoutPromptRef = async (ref: string): Promise<void> => {
+  await ensureOwnPromptRepo();
+  git(['checkout', '--quiet', ref]);
+};
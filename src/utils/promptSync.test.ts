@@ -5,6 +5,7 @@ import type { StringsPrompt, StringsFile } from './promptSync.js';
 
 vi.mock('node:fs/promises');
 vi.mock('./download.js');
+vi.mock('./promptGit.js');
 
 const createEnoent = () => {
   const error: NodeJS.ErrnoException = new Error(
@@ -717,6 +718,119 @@ Greet user as \${SETTINGS.preferredName}!`;
       expect(result.diffHtmlPath).toBeDefined();
     });
 
+    describe('three-way merge', () => {
+      const oldPrompt: StringsPrompt = {
+        ...mockPrompt,
+        version: '1.0.0',
+        pieces: ['Intro.\nGreet user as ${', '.preferredName}!\nOutro.'],
+      };
+      const newPrompt: StringsPrompt = {
+        ...mockPrompt,
+        pieces: ['Intro.\nGreet user as ${', '.preferredName}!\nNew outro.'],
+      };
+      const markdown = (frontmatter: string, content: string) => `<!--
+name: test-prompt
+description: Test prompt
+${frontmatter}
+-->
+
+${content}`;
+
+      const lastWrittenMarkdown = () =>
+        vi
+          .mocked(fs.writeFile)
+          .mock.calls.filter(([filePath]) => String(filePath).endsWith('.md'))
+          .map(([, data]) => data as string)
+          .pop()!;
+
+      beforeEach(async () => {
+        const { downloadStringsFile } = await import('./download.js');
+        const hashIndexModule = await import('./systemPromptHashIndex.js');
+        vi.mocked(downloadStringsFile).mockResolvedValue({
+          version: '1.0.0',
+          prompts: [oldPrompt],
+        });
+        vi.spyOn(hashIndexModule, 'getPromptHash').mockResolvedValue(
+          'different-hash'
+        );
+        vi.spyOn(fs, 'access').mockResolvedValue(undefined);
+        vi.spyOn(fs, 'writeFile').mockResolvedValue(undefined);
+      });
+
+      it('should merge upstream changes that do not overlap', async () => {
+        vi.spyOn(fs, 'readFile').mockResolvedValue(
+          markdown(
+            'ccVersion: 1.0.0',
+            'My intro.\nGreet user as ${SETTINGS.preferredName}!\nOutro.'
+          )
+        );
+
+        const result = await promptSync.syncPrompt(newPrompt);
+
+        expect(result.action).toBe('merged');
+        expect(result.diffHtmlPath).toBeUndefined();
+        const written = promptSync.parseMarkdownPrompt(lastWrittenMarkdown());
+        expect(written.ccVersion).toBe('2.0.0');
+        expect(written.pendingCcVersion).toBeUndefined();
+        expect(written.content).toBe(
+          'My intro.\nGreet user as ${SETTINGS.preferredName}!\nNew outro.'
+        );
+      });
+
+      it('should mark overlapping changes and keep the old ccVersion', async () => {
+        vi.spyOn(fs, 'readFile').mockResolvedValue(
+          markdown(
+            'ccVersion: 1.0.0',
+            'Intro.\nGreet user as ${SETTINGS.preferredName}!\nMy outro.'
+          )
+        );
+
+        const result = await promptSync.syncPrompt(newPrompt);
+
+        expect(result.action).toBe('conflict');
+        expect(result.conflictCount).toBe(1);
+        expect(result.diffHtmlPath).toBeDefined();
+        const written = promptSync.parseMarkdownPrompt(lastWrittenMarkdown());
+        expect(written.ccVersion).toBe('1.0.0');
+        expect(written.pendingCcVersion).toBe('2.0.0');
+        expect(written.content).toContain(
+          '<<<<<<< your version (1.0.0)\nMy outro.\n=======\nNew outro.\n>>>>>>> Claude Code 2.0.0'
+        );
+      });
+
+      it('should leave files with unresolved conflicts alone', async () => {
+        vi.spyOn(fs, 'readFile').mockResolvedValue(
+          markdown(
+            'ccVersion: 1.0.0\npendingCcVersion: 2.0.0',
+            'Intro.\n<<<<<<< yours\nA\n=======\nB\n>>>>>>> theirs'
+          )
+        );
+
+        const result = await promptSync.syncPrompt(newPrompt);
+
+        expect(result.action).toBe('conflict');
+        expect(result.conflictCount).toBe(1);
+        expect(result.diffHtmlPath).toBeUndefined();
+        expect(
+          promptSync.parseMarkdownPrompt(lastWrittenMarkdown()).ccVersion
+        ).toBe('1.0.0');
+      });
+
+      it('should advance ccVersion once the conflict markers are gone', async () => {
+        vi.spyOn(fs, 'readFile').mockResolvedValue(
+          markdown('ccVersion: 1.0.0\npendingCcVersion: 2.0.0', 'Resolved.')
+        );
+
+        const result = await promptSync.syncPrompt(newPrompt);
+
+        expect(result.action).toBe('merged');
+        const written = promptSync.parseMarkdownPrompt(lastWrittenMarkdown());
+        expect(written.ccVersion).toBe('2.0.0');
+        expect(written.pendingCcVersion).toBeUndefined();
+        expect(written.content).toBe('Resolved.');
+      });
+    });
+
     it('should always update variables list', async () => {
       const mockContent = `<!--
 name: test-prompt
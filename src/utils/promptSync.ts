@@ -1,13 +1,15 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'path';
 import matter from 'gray-matter';
-import { SYSTEM_PROMPTS_DIR } from './types.js';
+import { getSystemPromptsDir } from './profiles.js';
 import { downloadStringsFile } from './download.js';
 import {
   storeHashes,
   getPromptHash,
   computeMD5Hash,
 } from './systemPromptHashIndex.js';
+import { hasConflictMarkers, mergeThreeWay } from './merge.js';
+import { autoCommitPrompts } from './promptGit.js';
 import chalk from 'chalk';
 
 /**
@@ -39,6 +41,11 @@ export interface MarkdownPrompt {
   description: string;
   ccVersion: string; // CC version this prompt is based on
   variables?: string[]; // Available variables extracted from identifierMap
+  /**
+   * CC version a merge with unresolved conflicts is bringing this prompt up to.  ccVersion is
+   * advanced to it once the user removes the conflict markers.
+   */
+  pendingCcVersion?: string;
   content: string; // The actual prompt content with ${VARIABLE_NAME} placeholders
   /**
    * Line offset of the first content line within the original markdown file.
@@ -56,10 +63,11 @@ export interface SyncResult {
   id: string;
   name: string;
   description: string;
-  action: 'created' | 'updated' | 'skipped' | 'conflict';
+  action: 'created' | 'updated' | 'merged' | 'skipped' | 'conflict';
   oldVersion?: string;
   newVersion: string;
   diffHtmlPath?: string;
+  conflictCount?: number; // Conflicts marked in the markdown file by a three-way merge
 }
 
 /**
@@ -78,7 +86,8 @@ export const parseMarkdownPrompt = (markdown: string): MarkdownPrompt => {
   const parsed = matter(markdown, {
     delimiters: ['<!--', '-->'],
   });
-  const { name, description, ccVersion, variables } = parsed.data;
+  const { name, description, ccVersion, variables, pendingCcVersion } =
+    parsed.data;
 
   // Compute how many lines appear before the start of parsed.content in the
   // original markdown. This lets us translate content-relative line numbers
@@ -97,6 +106,7 @@ export const parseMarkdownPrompt = (markdown: string): MarkdownPrompt => {
     description: description || '',
     ccVersion: ccVersion || '',
     variables: variables || [],
+    ...(pendingCcVersion ? { pendingCcVersion: String(pendingCcVersion) } : {}),
     content: parsed.content.trim(),
     contentLineOffset,
   };
@@ -294,7 +304,7 @@ export const compareVersions = (v1: string, v2: string): number => {
  * Gets the markdown file path for a prompt (using name, not id)
  */
 export const getPromptFilePath = (promptId: string): string => {
-  return path.join(SYSTEM_PROMPTS_DIR, `${promptId}.md`);
+  return path.join(getSystemPromptsDir(), `${promptId}.md`);
 };
 
 /**
@@ -361,6 +371,9 @@ export const updateVariables = async (
   if (variables && variables.length > 0) {
     updatedData.variables = variables;
   }
+  if (parsed.data.pendingCcVersion) {
+    updatedData.pendingCcVersion = parsed.data.pendingCcVersion;
+  }
 
   const updatedMarkdown = matter.stringify(parsed.content, updatedData, {
     delimiters: ['<!--', '-->'],
@@ -809,12 +822,44 @@ ${upstreamDiffHtml}      </div>
 </html>`;
 
   // Save to system prompts directory
-  const htmlPath = path.join(SYSTEM_PROMPTS_DIR, `${promptId}.diff.html`);
+  const htmlPath = path.join(getSystemPromptsDir(), `${promptId}.diff.html`);
   await fs.writeFile(htmlPath, diffHtml, 'utf-8');
 
   return htmlPath;
 };
 
+/**
+ * Writes the user's merged content for a prompt.  `ccVersion` is the version the content is
+ * based on; `pendingCcVersion` is set while the content still has conflict markers.
+ */
+const writeMergedPrompt = async (
+  prompt: StringsPrompt,
+  content: string,
+  ccVersion: string,
+  pendingCcVersion?: string
+): Promise<void> => {
+  const markdown = generateMarkdownFromPrompt(
+    { ...prompt, version: ccVersion },
+    content
+  );
+  if (!pendingCcVersion) {
+    await writePromptFile(prompt.id, markdown);
+    return;
+  }
+  const parsed = matter(markdown, { delimiters: ['<!--', '-->'] });
+  await writePromptFile(
+    prompt.id,
+    matter.stringify(
+      parsed.content,
+      { ...parsed.data, pendingCcVersion },
+      { delimiters: ['<!--', '-->'] }
+    )
+  );
+};
+
+const countConflicts = (content: string): number =>
+  (content.match(/^<{7} /gm) || []).length;
+
 /**
  * Syncs a single prompt file with the current CC version
  * Similar to ensurePromptFile in config.ts but with version tracking
@@ -844,6 +889,29 @@ export const syncPrompt = async (
   const existingFile = await readPromptFile(prompt.id);
   result.oldVersion = existingFile.ccVersion;
 
+  // A previous merge left conflicts in the file.  Until the user removes the markers, leave
+  // the file alone; once they have, the file is based on the version that was merged in.
+  if (existingFile.pendingCcVersion) {
+    if (hasConflictMarkers(existingFile.content)) {
+      await updateVariables(prompt.id, prompt.identifierMap);
+      result.action = 'conflict';
+      result.conflictCount = countConflicts(existingFile.content);
+      return result;
+    }
+
+    await writeMergedPrompt(
+      prompt,
+      existingFile.content,
+      existingFile.pendingCcVersion
+    );
+    if (existingFile.pendingCcVersion === prompt.version) {
+      result.action = 'merged';
+      return result;
+    }
+    // Anthropic has changed the prompt again since; merge that in as well.
+    existingFile.ccVersion = existingFile.pendingCcVersion;
+  }
+
   // Always update variables list
   await updateVariables(prompt.id, prompt.identifierMap);
 
@@ -875,6 +943,7 @@ export const syncPrompt = async (
         // We need to reconstruct what the old version looked like
         // For now, we'll fetch the old strings file to get the baseline
         let oldBaselineContent = existingFile.content; // Default fallback
+        let hasOldBaseline = false;
         try {
           const oldStringsFile = await downloadStringsFile(
             existingFile.ccVersion
@@ -889,6 +958,7 @@ export const syncPrompt = async (
               oldPrompt.identifiers,
               oldPrompt.identifierMap
             );
+            hasOldBaseline = true;
           }
         } catch {
           // If we can't download the old version, just use existing content as baseline
@@ -906,6 +976,32 @@ export const syncPrompt = async (
           prompt.identifierMap
         );
 
+        // Merge Anthropic's changes into the user's version.  Without the old baseline
+        // there's nothing to merge against, so fall back to the HTML diff alone.
+        if (hasOldBaseline) {
+          const merged = mergeThreeWay(
+            oldBaselineContent.trim(),
+            existingFile.content,
+            newBaselineContent.trim(),
+            {
+              ours: `your version (${existingFile.ccVersion})`,
+              theirs: `Claude Code ${prompt.version}`,
+            }
+          );
+          await writeMergedPrompt(
+            prompt,
+            merged.content,
+            merged.conflicts > 0 ? existingFile.ccVersion : prompt.version,
+            merged.conflicts > 0 ? prompt.version : undefined
+          );
+
+          if (merged.conflicts === 0) {
+            result.action = 'merged';
+            return result;
+          }
+          result.conflictCount = merged.conflicts;
+        }
+
         const markdownFilePath = getPromptFilePath(prompt.id);
         const diffPath = await generateDiffHtml(
           prompt.id,
@@ -948,7 +1044,7 @@ export const syncSystemPrompts = async (
   await storeHashes(stringsFile);
 
   // Ensure system prompts directory exists
-  await fs.mkdir(SYSTEM_PROMPTS_DIR, { recursive: true });
+  await fs.mkdir(getSystemPromptsDir(), { recursive: true });
 
   // Sync each prompt
   for (const prompt of stringsFile.prompts) {
@@ -961,6 +1057,8 @@ export const syncSystemPrompts = async (
     }
   }
 
+  await autoCommitPrompts('Sync', ccVersion);
+
   return summary;
 };
 
@@ -1336,7 +1434,7 @@ export const loadSystemPromptsWithRegex = async (
     const regex = buildSearchRegexFromPieces(jsonPrompt.pieces, ccVersion);
 
     // Try to read the corresponding markdown file for REPLACEMENT content
-    const mdPath = path.join(SYSTEM_PROMPTS_DIR, `${jsonPrompt.id}.md`);
+    const mdPath = path.join(getSystemPromptsDir(), `${jsonPrompt.id}.md`);
     let markdown;
     try {
       markdown = await fs.readFile(mdPath, 'utf8');
@@ -1383,12 +1481,18 @@ export const loadSystemPromptsWithRegex = async (
 export const displaySyncResults = (summary: SyncSummary): void => {
   const created = summary.results.filter(r => r.action === 'created');
   const updated = summary.results.filter(r => r.action === 'updated');
+  const merged = summary.results.filter(r => r.action === 'merged');
   const conflicts = summary.results.filter(r => r.action === 'conflict');
   const skipped = summary.results.filter(r => r.action === 'skipped');
+  // Conflicts that couldn't be merged at all, and have to be resolved with the HTML diff
+  const unmerged = conflicts.filter(r => r.conflictCount === undefined);
 
   // Display skipped files (if any)
   if (
-    (created.length > 0 || updated.length > 0 || conflicts.length > 0) &&
+    (created.length > 0 ||
+      updated.length > 0 ||
+      merged.length > 0 ||
+      conflicts.length > 0) &&
     skipped.length > 0
   ) {
     console.log(chalk.dim(`Skipped ${skipped.length} up-to-date file(s)`));
@@ -1401,7 +1505,7 @@ export const displaySyncResults = (summary: SyncSummary): void => {
       chalk.bold.green(`Created ${created.length} new prompt file(s):`)
     );
     for (const result of created) {
-      console.log(chalk.green(`  ${SYSTEM_PROMPTS_DIR}/${result.id}.md`));
+      console.log(chalk.green(`  ${getSystemPromptsDir()}/${result.id}.md`));
       console.log(chalk.green.dim(`    ${result.description}`));
     }
     console.log();
@@ -1426,6 +1530,23 @@ export const displaySyncResults = (summary: SyncSummary): void => {
     console.log();
   }
 
+  // Display files where Anthropic's changes were merged into the user's changes
+  if (merged.length > 0) {
+    console.log(
+      chalk.bold.blue(
+        `Merged upstream changes into ${merged.length} customized system prompt file(s):`
+      )
+    );
+    for (const result of merged) {
+      console.log(
+        chalk.blue(
+          `  ${result.id}.md  (${result.oldVersion} → ${result.newVersion})`
+        )
+      );
+    }
+    console.log();
+  }
+
   // Display conflicts with warnings
   if (conflicts.length > 0) {
     console.log(
@@ -1439,9 +1560,20 @@ export const displaySyncResults = (summary: SyncSummary): void => {
           ` ${result.id}.md (${result.oldVersion} → ${result.newVersion})`
         )
       );
-      console.log(
-        chalk.yellow(`   Open the diff in your browser: ${result.diffHtmlPath}`)
-      );
+      if (result.conflictCount !== undefined) {
+        console.log(
+          chalk.yellow(
+            `   ${result.conflictCount} conflict(s) marked with <<<<<<< and >>>>>>> in ${getSystemPromptsDir()}/${result.id}.md`
+          )
+        );
+      }
+      if (result.diffHtmlPath) {
+        console.log(
+          chalk.yellow(
+            `   Open the diff in your browser: ${result.diffHtmlPath}`
+          )
+        );
+      }
     }
     console.log();
   }
@@ -1455,7 +1587,7 @@ export const displaySyncResults = (summary: SyncSummary): void => {
     );
     console.log(
       chalk.green(
-        `You can now customize the markdown files at ${SYSTEM_PROMPTS_DIR} in a text editor.`
+        `You can now customize the markdown files at ${getSystemPromptsDir()} in a text editor.`
       )
     );
     console.log(
@@ -1466,7 +1598,25 @@ export const displaySyncResults = (summary: SyncSummary): void => {
     console.log();
   }
 
-  if (conflicts.length > 0) {
+  if (conflicts.length > unmerged.length) {
+    console.log();
+    console.log(`Resolve merge conflicts:`);
+    console.log(
+      `  1. Edit each conflict between the <<<<<<< and >>>>>>> lines, keeping what you want from your version and Claude Code's`
+    );
+    console.log(`  2. Remove the <<<<<<<, ======= and >>>>>>> lines`);
+    console.log(
+      `  3. Run tweakcc again; ccVersion is updated automatically once the markers are gone`
+    );
+    console.log(
+      chalk.dim(
+        `  Prompts with unresolved conflicts are left unchanged in Claude Code.`
+      )
+    );
+    console.log();
+  }
+
+  if (unmerged.length > 0) {
     console.log();
     console.log(`Review conflicts:`);
     console.log(`  1. Open the diff HTML files in your browser`);
@@ -1477,7 +1627,7 @@ export const displaySyncResults = (summary: SyncSummary): void => {
         `  4. Important: Update the ccVersion in your markdown files to the latest version of each prompt:`
       )
     );
-    for (const result of conflicts) {
+    for (const result of unmerged) {
       console.log(
         chalk.yellow(`      ${result.id}.md → `) +
           chalk.bold.magenta(result.newVersion)
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { readNativeModuleGraph } from './nativeInstallation.js';
+import { verifyRepackedBinary } from './repackVerification.js';
+
+vi.mock('./nativeInstallation.js', () => ({
+  isClaudeModule: (name: string) => name.endsWith('/claude'),
+  readNativeModuleGraph: vi.fn(),
+}));
+
+vi.mock('node:child_process', async importOriginal => ({
+  ...(await importOriginal<typeof import('node:child_process')>()),
+  spawnSync: vi.fn(),
+}));
+
+const module = (name: string, contents: string) => ({
+  name,
+  contents: Buffer.from(contents),
+  sourcemap: Buffer.alloc(0),
+  bytecode: Buffer.alloc(0),
+  encoding: 0,
+  loader: 0,
+  moduleFormat: 0,
+  side: 0,
+});
+
+const expected = {
+  claudeJs: Buffer.from('patched'),
+  moduleReplacements: new Map([['/$bunfs/root/vendor.js', Buffer.from('v2')]]),
+  version: '2.0.31',
+};
+
+describe('verifyRepackedBinary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(readNativeModuleGraph).mockReturnValue({
+      entryPointId: 0,
+      modules: [
+        module('/$bunfs/root/claude', 'patched'),
+        module('/$bunfs/root/vendor.js', 'v2'),
+      ],
+    });
+    vi.mocked(spawnSync).mockReturnValue({
+      status: 0,
+      stdout: '2.0.31 (Claude Code)\n',
+      stderr: '',
+    } as never);
+  });
+
+  it('should pass a binary with the written modules that runs', () => {
+    expect(verifyRepackedBinary('/tmp/claude', expected)).toBeNull();
+    expect(spawnSync).toHaveBeenCalledWith(
+      '/tmp/claude',
+      ['--version'],
+      expect.objectContaining({ timeout: 15000 })
+    );
+  });
+
+  it("should fail at parse if the binary can't be read", () => {
+    vi.mocked(readNativeModuleGraph).mockImplementation(() => {
+      throw new Error('Bun data not found');
+    });
+
+    expect(verifyRepackedBinary('/tmp/claude', expected)).toEqual({
+      stage: 'parse',
+      message: 'Bun data not found',
+    });
+  });
+
+  it('should fail at extract if a module is missing', () => {
+    vi.mocked(readNativeModuleGraph).mockReturnValue({
+      entryPointId: 0,
+      modules: [module('/$bunfs/root/claude', 'patched')],
+    });
+
+    expect(verifyRepackedBinary('/tmp/claude', expected)).toEqual({
+      stage: 'extract',
+      message: 'Module /$bunfs/root/vendor.js is missing',
+    });
+  });
+
+  it("should fail at compare if a module isn't what was written", () => {
+    expect(
+      verifyRepackedBinary('/tmp/claude', {
+        ...expected,
+        claudeJs: Buffer.from('something else'),
+      })
+    ).toMatchObject({ stage: 'compare' });
+    expect(spawnSync).not.toHaveBeenCalled();
+  });
+
+  it("should fail at run if --version times out or doesn't print the version", () => {
+    vi.mocked(spawnSync).mockReturnValueOnce({
+      error: Object.assign(new Error('spawnSync ETIMEDOUT'), {
+        code: 'ETIMEDOUT',
+      }),
+    } as never);
+    expect(verifyRepackedBinary('/tmp/claude', expected, 5000)).toEqual({
+      stage: 'run',
+      message: "`--version` didn't exit within 5s",
+    });
+
+    vi.mocked(spawnSync).mockReturnValueOnce({
+      status: 0,
+      stdout: '1.0.0 (Claude Code)\n',
+      stderr: '',
+    } as never);
+    expect(verifyRepackedBinary('/tmp/claude', expected)).toMatchObject({
+      stage: 'run',
+      message: expect.stringContaining('expected 2.0.31'),
+    });
+  });
+});
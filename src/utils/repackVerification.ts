@@ -0,0 +1,114 @@
+// Checks that a native binary repacked by tweakcc (see repackNativeInstallation) holds what was
+// written and still runs, before it replaces the installed one.
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import {
+  isClaudeModule,
+  NativeModuleGraph,
+  readNativeModuleGraph,
+} from './nativeInstallation.js';
+
+export type RepackVerificationStage = 'parse' | 'extract' | 'compare' | 'run';
+
+export interface RepackVerificationFailure {
+  stage: RepackVerificationStage;
+  message: string;
+}
+
+/**
+ * Checks that a repacked binary is what we meant to write and that it runs:
+ *
+ * - parse:   LIEF can parse it and find the Bun data
+ * - extract: the claude module (and every replaced module) can be found in it
+ * - compare: their contents are byte-for-byte what was written
+ * - run:     `<binary> --version` exits successfully within `timeoutMs` and prints
+ *            `expectedVersion`.  It runs with a temporary HOME so it can't touch the user's
+ *            Claude Code config.
+ *
+ * Returns the first stage that failed, or null if the binary passed.
+ */
+export function verifyRepackedBinary(
+  binPath: string,
+  expected: {
+    claudeJs: Buffer | null;
+    moduleReplacements?: Map<string, Buffer>;
+    version?: string;
+  },
+  timeoutMs: number = 15000
+): RepackVerificationFailure | null {
+  let graph: NativeModuleGraph;
+  try {
+    graph = readNativeModuleGraph(binPath);
+  } catch (error) {
+    return {
+      stage: 'parse',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const expectedContents = new Map(expected.moduleReplacements);
+  if (expected.claudeJs) {
+    const claudeModule = graph.modules.find(m => isClaudeModule(m.name));
+    if (!claudeModule) {
+      return { stage: 'extract', message: 'The claude module is missing' };
+    }
+    expectedContents.set(claudeModule.name, expected.claudeJs);
+  }
+  for (const [name, contents] of expectedContents) {
+    const module = graph.modules.find(m => m.name === name);
+    if (!module) {
+      return { stage: 'extract', message: `Module ${name} is missing` };
+    }
+    if (!module.contents.equals(contents)) {
+      return {
+        stage: 'compare',
+        message: `Module ${name} has ${module.contents.length} bytes that differ from the ${contents.length} written`,
+      };
+    }
+  }
+
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'tweakcc-verify-'));
+  try {
+    const result = spawnSync(binPath, ['--version'], {
+      cwd: home,
+      env: {
+        PATH: process.env.PATH,
+        HOME: home,
+        USERPROFILE: home,
+        TMPDIR: os.tmpdir(),
+        TEMP: os.tmpdir(),
+        DISABLE_AUTOUPDATER: '1',
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: timeoutMs,
+      encoding: 'utf8',
+    });
+    if (result.error) {
+      return {
+        stage: 'run',
+        message:
+          'code' in result.error && result.error.code === 'ETIMEDOUT'
+            ? `\`--version\` didn't exit within ${timeoutMs / 1000}s`
+            : result.error.message,
+      };
+    }
+    if (result.status !== 0) {
+      return {
+        stage: 'run',
+        message: `\`--version\` exited with ${result.status ?? result.signal}: ${(result.stderr || result.stdout).trim().slice(0, 500)}`,
+      };
+    }
+    if (expected.version && !result.stdout.includes(expected.version)) {
+      return {
+        stage: 'run',
+        message: `\`--version\` printed ${JSON.stringify(result.stdout.trim())}, expected ${expected.version}`,
+      };
+    }
+  } finally {
+    fs.rmSync(home, { recursive: true, force: true });
+  }
+  return null;
+}
@@ -109,6 +109,30 @@ export interface Toolset {
   allowedTools: string[] | '*';
 }
 
+/**
+ * Built-in Claude Code tools that can be listed in a toolset.  MCP tools (`mcp__server__tool`)
+ * are allowed too.
+ */
+export const CLAUDE_CODE_TOOLS = [
+  'Task',
+  'Bash',
+  'Glob',
+  'Grep',
+  'Read',
+  'Edit',
+  'Write',
+  'NotebookEdit',
+  'WebFetch',
+  'WebSearch',
+  'BashOutput',
+  'KillShell',
+  'TodoWrite',
+  'AskUserQuestion',
+  'Skill',
+  'SlashCommand',
+  'ExitPlanMode',
+];
+
 // ============================================================================
 // CUSTOM EVENTS HOOK SYSTEM
 // ============================================================================
@@ -154,10 +178,45 @@ export type TweakccEventType =
   // Custom user-defined events
   | `custom:${string}`;
 
+/**
+ * Every built-in event type, for validating configs.
+ */
+export const BUILTIN_EVENT_TYPES: TweakccEventType[] = [
+  'tool:before',
+  'tool:after',
+  'tool:error',
+  'tool:permission',
+  'message:user',
+  'message:assistant:start',
+  'message:assistant:end',
+  'message:system',
+  'thinking:start',
+  'thinking:update',
+  'thinking:end',
+  'stream:start',
+  'stream:chunk',
+  'stream:end',
+  'conversation:start',
+  'conversation:resume',
+  'conversation:end',
+  'mcp:connect',
+  'mcp:disconnect',
+  'mcp:tool:call',
+  'session:start',
+  'session:end',
+];
+
 /**
  * Handler type for events
  */
-export type EventHandlerType = 'script' | 'command' | 'webhook';
+export type EventHandlerType = 'script' | 'command' | 'webhook' | 'worker';
+
+export const EVENT_HANDLER_TYPES: EventHandlerType[] = [
+  'script',
+  'command',
+  'webhook',
+  'worker',
+];
 
 /**
  * Error handling strategy for hooks
@@ -175,8 +234,10 @@ export interface EventHookConfig {
   script?: string; // Path to JS/TS script (for type: 'script')
   command?: string; // Shell command to execute (for type: 'command')
   webhook?: string; // URL to POST to (for type: 'webhook')
+  worker?: string; // Shell command that starts a long-lived worker (for type: 'worker')
   async?: boolean; // Whether to run async (non-blocking), default: true
   timeout?: number; // Timeout in ms for commands/webhooks (default: 5000)
+  inProcess?: boolean; // Call the script's exported hook function instead of spawning node (type: 'script')
   enabled: boolean;
 
   // Error handling
@@ -225,6 +286,15 @@ export type TransformType =
   | 'tool:input' // Modify tool input before execution
   | 'tool:output'; // Modify tool output before returning
 
+export const TRANSFORM_TYPES: TransformType[] = [
+  'prompt:before',
+  'prompt:system',
+  'response:before',
+  'response:stream',
+  'tool:input',
+  'tool:output',
+];
+
 /**
  * Configuration for a transform plugin
  * Unlike event hooks, transforms are SYNCHRONOUS and can modify data
@@ -237,6 +307,7 @@ export interface TransformConfig {
   enabled: boolean;
   priority?: number; // Lower = runs first (default: 100)
   timeout?: number; // Max execution time in ms (default: 5000)
+  inProcess?: boolean; // Call the script's exported transform function instead of spawning node
   filter?: {
     tools?: string[]; // Only for tool:input/output
   };
@@ -250,6 +321,14 @@ export interface TransformsConfig {
   transforms: TransformConfig[];
 }
 
+/**
+ * Replaces a module embedded in a native installation binary; see `tweakcc native inspect`.
+ */
+export interface NativeModuleReplacement {
+  module: string; // Full module name, e.g. /$bunfs/root/foo.node
+  file: string; // File with the new contents
+}
+
 export interface Settings {
   themes: Theme[];
   thinkingVerbs: ThinkingVerbsConfig;
@@ -261,14 +340,38 @@ export interface Settings {
   defaultToolset: string | null;
   events?: EventsConfig; // Custom events hook system
   transforms?: TransformsConfig; // Transform/middleware plugin system
+  patches: Record<string, boolean>; // Patch ID -> enabled; see PATCH_REGISTRY for defaults
+  nativeModules?: NativeModuleReplacement[]; // Native installations only
+}
+
+/**
+ * Extra places to load system prompt data (prompts-X.Y.Z.json) from, for hosts that can't
+ * reach GitHub.
+ */
+export interface PromptDataConfig {
+  dir?: string; // Local directory containing prompts-X.Y.Z.json files
+  mirrorUrl?: string; // Base URL serving prompts-X.Y.Z.json files
 }
 
 export interface TweakccConfig {
+  configVersion?: number; // Last migration applied; see CONFIG_MIGRATIONS
   ccVersion: string;
   ccInstallationDir: string | null;
   lastModified: string;
   changesApplied: boolean;
   settings: Settings;
+  promptData?: PromptDataConfig;
+  activeProfile?: string; // Name of the profile `settings` belongs to; 'default' if unset
+  profiles?: Record<string, Profile>;
+}
+
+/**
+ * A named set of customizations.  The active profile's settings live in
+ * `TweakccConfig.settings`; its entry here is only updated when switching away from it.
+ */
+export interface Profile {
+  settings: Settings;
+  scopedSystemPrompts?: boolean; // Keep this profile's system prompts in its own directory
 }
 
 export interface ClaudeCodeInstallationInfo {
@@ -292,7 +395,10 @@ export enum MainMenuItem {
   USER_MESSAGE_DISPLAY = 'User message display',
   MISC = 'Misc',
   TOOLSETS = 'Toolsets',
+  PROFILES = 'Profiles',
+  PATCHES = 'Patches',
   VIEW_SYSTEM_PROMPTS = 'View system prompts',
+  PROMPT_PROFILES = 'Prompt profiles',
   RESTORE_ORIGINAL = 'Restore original Claude Code (preserves config.json)',
   OPEN_CONFIG = 'Open config.json',
   OPEN_CLI = "Open Claude Code's cli.js",
@@ -1065,6 +1171,7 @@ export const DEFAULT_SETTINGS: Settings = {
     enabled: false,
     transforms: [],
   },
+  patches: {},
 };
 
 // Support XDG Base Directory Specification with backward compatibility
@@ -1096,13 +1203,21 @@ const getConfigDir = (): string => {
 
 export const CONFIG_DIR = getConfigDir();
 export const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
+// Single backups from before each installation had its own; startupCheck moves them into
+// BACKUPS_DIR.
 export const CLIJS_BACKUP_FILE = path.join(CONFIG_DIR, 'cli.js.backup');
 export const NATIVE_BINARY_BACKUP_FILE = path.join(
   CONFIG_DIR,
   'native-binary.backup'
 );
+export const BACKUPS_DIR = path.join(CONFIG_DIR, 'backups');
+export const KNOWN_HASHES_FILE = path.join(CONFIG_DIR, 'known-hashes.json');
 export const SYSTEM_PROMPTS_DIR = path.join(CONFIG_DIR, 'system-prompts');
 export const PROMPT_CACHE_DIR = path.join(CONFIG_DIR, 'prompt-data-cache');
+export const EXTRACTED_PROMPTS_DIR = path.join(
+  CONFIG_DIR,
+  'prompt-data-extracted'
+);
 
 export interface SearchPathInfo {
   pattern: string;
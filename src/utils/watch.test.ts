@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  describeWatchApplyResult,
+  fingerprintFile,
+  generateSystemdUnit,
+  getRetryDelayMs,
+  updateWatchedFile,
+  watchInstallations,
+  WatchedFile,
+} from './watch.js';
+import { PatchOutcome } from './patches/report.js';
+import { findInstallationCandidates, readConfigFile } from './config.js';
+
+vi.mock('./nativeInstallation.js', () => ({
+  extractClaudeJsFromNativeInstallation: vi.fn(),
+  repackNativeInstallation: vi.fn(),
+}));
+
+vi.mock('./config.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('./config.js')>()),
+  readConfigFile: vi.fn(),
+  findInstallationCandidates: vi.fn(async () => []),
+}));
+
+const outcome = (
+  id: string,
+  status: PatchOutcome['status'],
+  required = false
+): PatchOutcome => ({
+  id,
+  status,
+  required,
+  durationMs: 0,
+  bytesAdded: 0,
+  bytesRemoved: 0,
+});
+
+describe('watch', () => {
+  it('should act on files once they settle', () => {
+    const watched = new Map<string, WatchedFile>();
+    const v1 = { mtimeMs: 1, size: 10 };
+    const v2 = { mtimeMs: 2, size: 12 };
+
+    // New files are checked once they've stayed the same for a poll.
+    expect(updateWatchedFile(watched, 'cli.js', v1)).toBe(false);
+    expect(updateWatchedFile(watched, 'cli.js', v1)).toBe(true);
+    expect(updateWatchedFile(watched, 'cli.js', v1)).toBe(false);
+
+    // An update that's still being written is waited out.
+    expect(updateWatchedFile(watched, 'cli.js', { mtimeMs: 2, size: 5 })).toBe(
+      false
+    );
+    expect(updateWatchedFile(watched, 'cli.js', v2)).toBe(false);
+    expect(updateWatchedFile(watched, 'cli.js', v2)).toBe(true);
+
+    expect(updateWatchedFile(watched, 'cli.js', null)).toBe(false);
+    expect(watched.has('cli.js')).toBe(false);
+
+    // Binaries are compared by hash, so touching one isn't a change.
+    watched.set('claude', {
+      fingerprint: { mtimeMs: 1, size: 10, hash: 'abc' },
+      pending: false,
+    });
+    expect(
+      updateWatchedFile(watched, 'claude', {
+        mtimeMs: 5,
+        size: 10,
+        hash: 'abc',
+      })
+    ).toBe(false);
+    expect(watched.get('claude')!.pending).toBe(false);
+  });
+
+  it('should retry files that failed to patch, backing off', () => {
+    const watched = new Map<string, WatchedFile>();
+    const v1 = { mtimeMs: 1, size: 10 };
+    watched.set('cli.js', {
+      fingerprint: v1,
+      pending: true,
+      failures: 2,
+      retryAt: 1000,
+    });
+
+    expect(updateWatchedFile(watched, 'cli.js', v1, 999)).toBe(false);
+    expect(updateWatchedFile(watched, 'cli.js', v1, 1000)).toBe(true);
+    expect(watched.get('cli.js')!.failures).toBe(2);
+
+    // A change starts over.
+    watched.set('cli.js', { fingerprint: v1, pending: true, retryAt: 1000 });
+    expect(
+      updateWatchedFile(watched, 'cli.js', { mtimeMs: 2, size: 10 }, 0)
+    ).toBe(false);
+    expect(watched.get('cli.js')).toEqual({
+      fingerprint: { mtimeMs: 2, size: 10 },
+      pending: true,
+    });
+
+    expect(getRetryDelayMs(30, 1)).toBe(30_000);
+    expect(getRetryDelayMs(30, 3)).toBe(120_000);
+    expect(getRetryDelayMs(30, 20)).toBe(60 * 60 * 1000);
+  });
+
+  it('should keep watching when a poll fails', async () => {
+    const controller = new AbortController();
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(readConfigFile)
+      .mockRejectedValueOnce(new Error('Unexpected end of JSON input'))
+      .mockImplementationOnce(async () => {
+        controller.abort();
+        return {} as never;
+      });
+
+    try {
+      await watchInstallations({
+        intervalSeconds: 0.01,
+        notify: false,
+        signal: controller.signal,
+      });
+
+      expect(readConfigFile).toHaveBeenCalledTimes(2);
+      expect(findInstallationCandidates).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "Couldn't check installations: Unexpected end of JSON input"
+        )
+      );
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+
+  it('should only hash binaries that changed', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tweakcc-watch-'));
+    try {
+      const cliJs = path.join(dir, 'cli.js');
+      const binary = path.join(dir, 'claude');
+      await fs.writeFile(cliJs, 'console.log(1)');
+      await fs.writeFile(binary, 'binary');
+
+      expect((await fingerprintFile(cliJs))!.hash).toBeUndefined();
+      const fingerprint = (await fingerprintFile(binary))!;
+      expect(fingerprint.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(
+        (await fingerprintFile(binary, { ...fingerprint, hash: 'cached' }))!
+          .hash
+      ).toBe('cached');
+      expect(await fingerprintFile(path.join(dir, 'missing'))).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should describe the result of re-applying', () => {
+    const ccInstInfo = { version: '2.0.31', cliPath: '/cc/cli.js' };
+    expect(
+      describeWatchApplyResult({
+        ccInstInfo,
+        outcomes: [
+          outcome('themes', 'applied'),
+          outcome('toolsets', 'skipped-by-config'),
+        ],
+      })
+    ).toEqual({
+      ok: true,
+      message: 'Patched Claude Code 2.0.31 at /cc/cli.js (1 patch applied)',
+    });
+    expect(
+      describeWatchApplyResult({
+        ccInstInfo,
+        outcomes: [outcome('themes', 'pattern-not-found', true)],
+      })
+    ).toEqual({
+      ok: false,
+      message:
+        'Patched Claude Code 2.0.31 at /cc/cli.js, but required patches failed: themes',
+    });
+    expect(
+      describeWatchApplyResult({ ccInstInfo, error: 'No backup' }).message
+    ).toBe("Couldn't patch Claude Code 2.0.31 at /cc/cli.js: No backup");
+  });
+
+  it('should generate a systemd unit', () => {
+    const unit = generateSystemdUnit(
+      ['/usr/bin/node', '/opt/my tools/tweakcc.js', 'watch', '--notify'],
+      { PATH: '/usr/bin:/bin', NVM_DIR: '/home/me/.nvm', HOME: '/home/me' }
+    );
+    expect(unit).toContain(
+      'ExecStart=/usr/bin/node "/opt/my tools/tweakcc.js" watch --notify\n'
+    );
+    expect(unit).toContain('Environment=PATH=/usr/bin:/bin\n');
+    expect(unit).toContain('Environment=NVM_DIR=/home/me/.nvm\n');
+    expect(unit).not.toContain('HOME=');
+    expect(unit).toContain('WantedBy=default.target');
+
+    expect(
+      generateSystemdUnit(['/bin/node', 'watch'], { PATH: '/a b/$x/100%' })
+    ).toContain('Environment="PATH=/a b/$$x/100%%"\n');
+  });
+});
@@ -0,0 +1,519 @@
+// `tweakcc watch`: a long-running process that keeps Claude Code patched across updates.  Every
+// poll it fingerprints the file at each installation path (see findInstallationCandidates):
+// cli.js by its mtime and size, native binaries by their SHA-256.  When a fingerprint changes
+// and then stays the same for a poll, so that a half-written update isn't touched, the
+// installation is read again and, if tweakcc's patches are gone, the --apply pipeline is run
+// against it.  New paths (native updates install each version at its own path) are treated
+// the same way, which is also how installations found on startup get checked.
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import chalk from 'chalk';
+import {
+  ClaudeCodeInstallationInfo,
+  CONFIG_FILE,
+  TweakccConfig,
+} from './types.js';
+import {
+  ensureInstallationBackup,
+  findInstallationCandidates,
+  getInstallationAt,
+  readConfigFile,
+  startupCheck,
+} from './config.js';
+import { getInstallationPath } from './installations.js';
+import { getInstallationPatchMarkers } from './backups.js';
+import { hashFileInChunks, isDebug } from './misc.js';
+import { preloadStringsFile } from './promptSync.js';
+import { hasConfigErrors, validateConfigFile } from './configSchema.js';
+import {
+  applyCustomization,
+  clearReactVarCache,
+  clearRequireFuncNameCache,
+} from './patches/index.js';
+import { clearAstCache } from './patches/ast.js';
+import { PATCH_REGISTRY } from './patches/registry.js';
+import { getRequiredFailures, PatchOutcome } from './patches/report.js';
+
+export const DEFAULT_WATCH_INTERVAL_SECONDS = 30;
+
+export interface FileFingerprint {
+  mtimeMs: number;
+  size: number;
+  hash?: string; // Native binaries only
+}
+
+export interface WatchedFile {
+  fingerprint: FileFingerprint;
+  pending: boolean; // Changed on the last poll; waiting for it to settle
+  failures?: number; // Failed attempts to patch it since it last changed
+  retryAt?: number; // After a failed attempt, when to try again (ms since the epoch)
+}
+
+// Failed attempts are retried after the poll interval, doubling each time up to this.
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How long to wait before trying to patch a file again after `failures` failed attempts.
+ */
+export const getRetryDelayMs = (
+  intervalSeconds: number,
+  failures: number
+): number =>
+  Math.min(intervalSeconds * 1000 * 2 ** (failures - 1), MAX_RETRY_DELAY_MS);
+
+/**
+ * Fingerprints a cli.js or native binary, or returns null if it doesn't exist.  A binary is
+ * only hashed again if its mtime or size changed since `previous`, so polls stay cheap.
+ */
+export const fingerprintFile = async (
+  file: string,
+  previous?: FileFingerprint
+): Promise<FileFingerprint | null> => {
+  let stat;
+  try {
+    stat = await fs.stat(file);
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  const fingerprint: FileFingerprint = {
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+  };
+  if (file.endsWith('.js')) {
+    return fingerprint;
+  }
+  const hash =
+    previous?.hash &&
+    previous.mtimeMs === stat.mtimeMs &&
+    previous.size === stat.size
+      ? previous.hash
+      : await hashFileInChunks(file);
+  return { ...fingerprint, hash };
+};
+
+/**
+ * Whether two fingerprints are of the same file.  Binaries are compared by hash, so updating
+ * their mtime without changing them isn't a change.
+ */
+export const isSameFingerprint = (
+  a: FileFingerprint,
+  b: FileFingerprint
+): boolean =>
+  a.hash !== undefined || b.hash !== undefined
+    ? a.hash === b.hash
+    : a.mtimeMs === b.mtimeMs && a.size === b.size;
+
+/**
+ * Records the latest fingerprint of `file` (null if it's gone).  Returns true when the file
+ * has settled: it changed, or appeared, on the previous poll and is unchanged since.  A file
+ * that failed to patch stays pending, and settles again once its `retryAt` has passed.
+ */
+export const updateWatchedFile = (
+  watched: Map<string, WatchedFile>,
+  file: string,
+  fingerprint: FileFingerprint | null,
+  now: number = Date.now()
+): boolean => {
+  const previous = watched.get(file);
+  if (!fingerprint) {
+    watched.delete(file);
+    return false;
+  }
+  if (!previous || !isSameFingerprint(previous.fingerprint, fingerprint)) {
+    watched.set(file, { fingerprint, pending: true });
+    return false;
+  }
+  if (previous.pending) {
+    if (previous.retryAt !== undefined && now < previous.retryAt) {
+      return false;
+    }
+    watched.set(file, { ...previous, fingerprint, pending: false });
+    return true;
+  }
+  return false;
+};
+
+export interface WatchApplyResult {
+  ccInstInfo: ClaudeCodeInstallationInfo;
+  outcomes?: PatchOutcome[];
+  error?: string;
+}
+
+/**
+ * Describes the result of re-applying customizations in one line, for the log and the
+ * notification.
+ */
+export const describeWatchApplyResult = (
+  result: WatchApplyResult
+): { ok: boolean; message: string } => {
+  const { ccInstInfo, outcomes, error } = result;
+  const installation = `Claude Code ${ccInstInfo.version} at ${getInstallationPath(ccInstInfo)}`;
+  if (error !== undefined || !outcomes) {
+    return {
+      ok: false,
+      message: `Couldn't patch ${installation}: ${error ?? 'unknown error'}`,
+    };
+  }
+  const applied = outcomes.filter(o => o.status === 'applied').length;
+  const requiredFailures = getRequiredFailures(outcomes);
+  if (requiredFailures.length > 0) {
+    return {
+      ok: false,
+      message: `Patched ${installation}, but required patches failed: ${requiredFailures.map(o => o.id).join(', ')}`,
+    };
+  }
+  return {
+    ok: true,
+    message: `Patched ${installation} (${applied} patch${applied === 1 ? '' : 'es'} applied)`,
+  };
+};
+
+/**
+ * Runs the --apply pipeline against one installation: validate the config, sync system prompts
+ * and back up the default installation (startupCheck), back up this one, load its version's
+ * prompt data, and apply.
+ */
+export const applyToInstallation = async (
+  ccInstInfo: ClaudeCodeInstallationInfo
+): Promise<WatchApplyResult> => {
+  try {
+    const issues = await validateConfigFile({
+      knownPatchIds: PATCH_REGISTRY.map(patch => patch.id),
+    });
+    if (hasConfigErrors(issues)) {
+      throw new Error(
+        `Invalid configuration in ${CONFIG_FILE}; see 'tweakcc config validate'`
+      );
+    }
+
+    await startupCheck();
+    await ensureInstallationBackup(ccInstInfo);
+    const prompts = await preloadStringsFile(ccInstInfo.version);
+    if (!prompts.success) {
+      console.warn(
+        chalk.yellow(
+          `Warning: System prompts for ${ccInstInfo.version} aren't available (${prompts.errorMessage}); skipping system prompt customizations`
+        )
+      );
+    }
+
+    // These are cached per file, and this process outlives the file they were cached for.
+    clearReactVarCache();
+    clearRequireFuncNameCache();
+    clearAstCache();
+    const config: TweakccConfig = await readConfigFile();
+    const { outcomes } = await applyCustomization(config, ccInstInfo);
+    return { ccInstInfo, outcomes };
+  } catch (error) {
+    return {
+      ccInstInfo,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Shows a desktop notification with notify-send (Linux) or osascript (macOS).  Returns false
+ * if neither is available.
+ */
+export const sendDesktopNotification = (
+  title: string,
+  message: string
+): boolean => {
+  const [command, args]: [string, string[]] | [null, null] =
+    process.platform === 'linux'
+      ? ['notify-send', ['--app-name=tweakcc', title, message]]
+      : process.platform === 'darwin'
+        ? [
+            'osascript',
+            [
+              '-e',
+              `display notification ${JSON.stringify(message)} with title ${JSON.stringify(title)}`,
+            ],
+          ]
+        : [null, null];
+  if (!command) {
+    return false;
+  }
+  const result = spawnSync(command, args, { stdio: 'ignore', timeout: 5000 });
+  return !result.error && result.status === 0;
+};
+
+export interface WatchOptions {
+  intervalSeconds: number;
+  notify: boolean; // Desktop notifications as well as log lines
+  signal?: AbortSignal; // Stops the watch
+}
+
+const log = (message: string): void => {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+
+/**
+ * Polls the installation paths until `signal` is aborted, re-applying customizations to each
+ * installation that settles unpatched.
+ */
+export const watchInstallations = async (
+  options: WatchOptions
+): Promise<void> => {
+  const watched = new Map<string, WatchedFile>();
+  let notifyWarned = false;
+
+  const report = (result: WatchApplyResult) => {
+    const { ok, message } = describeWatchApplyResult(result);
+    log(ok ? chalk.green(message) : chalk.red(message));
+    if (
+      options.notify &&
+      !sendDesktopNotification(
+        ok
+          ? 'Claude Code was re-patched'
+          : 'tweakcc could not patch Claude Code',
+        message
+      ) &&
+      !notifyWarned
+    ) {
+      console.warn(
+        chalk.yellow(
+          'Warning: Desktop notifications need notify-send (Linux) or osascript (macOS); only logging.'
+        )
+      );
+      notifyWarned = true;
+    }
+  };
+
+  log(
+    `Watching Claude Code installations every ${options.intervalSeconds}s (Ctrl+C to stop)`
+  );
+  const errorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
+
+  // Patches a file that has settled, if tweakcc's patches are gone from it.
+  const checkFile = async (file: string): Promise<void> => {
+    const ccInstInfo = await getInstallationAt(file);
+    if (!ccInstInfo) {
+      return;
+    }
+    if ((await getInstallationPatchMarkers(ccInstInfo)).length > 0) {
+      if (isDebug()) {
+        console.log(`watch: ${file} is already patched`);
+      }
+      return;
+    }
+    log(
+      `Claude Code ${ccInstInfo.version} at ${file} is unpatched; applying customizations...`
+    );
+    const result = await applyToInstallation(ccInstInfo);
+    report(result);
+
+    // Our own write isn't an update.  If the apply failed, the file stays pending so that
+    // it's tried again, less and less often, until it works or the file changes.
+    const patched = await fingerprintFile(file).catch(() => null);
+    if (patched) {
+      const failures =
+        result.error !== undefined ? (watched.get(file)?.failures ?? 0) + 1 : 0;
+      watched.set(
+        file,
+        failures > 0
+          ? {
+              fingerprint: patched,
+              pending: true,
+              failures,
+              retryAt:
+                Date.now() + getRetryDelayMs(options.intervalSeconds, failures),
+            }
+          : { fingerprint: patched, pending: false }
+      );
+    }
+  };
+
+  const poll = async (): Promise<void> => {
+    const config = await readConfigFile();
+    const files = new Set<string>();
+    for (const candidate of await findInstallationCandidates(config)) {
+      try {
+        files.add(await fs.realpath(candidate));
+      } catch {
+        // Not installed there
+      }
+    }
+    for (const file of watched.keys()) {
+      if (!files.has(file)) {
+        updateWatchedFile(watched, file, null);
+      }
+    }
+
+    for (const file of files) {
+      if (options.signal?.aborted) {
+        break;
+      }
+      let fingerprint: FileFingerprint | null;
+      try {
+        fingerprint = await fingerprintFile(
+          file,
+          watched.get(file)?.fingerprint
+        );
+      } catch (error) {
+        if (isDebug()) {
+          console.log(`watch: can't fingerprint ${file}:`, error);
+        }
+        continue;
+      }
+      if (!updateWatchedFile(watched, file, fingerprint)) {
+        continue;
+      }
+      try {
+        await checkFile(file);
+      } catch (error) {
+        // e.g. the file was removed after it was fingerprinted.  Forgetting it means it's
+        // checked again once it's settled.
+        log(chalk.red(`Couldn't check ${file}: ${errorMessage(error)}`));
+        watched.delete(file);
+      }
+    }
+  };
+
+  while (!options.signal?.aborted) {
+    // e.g. config.json is half-written while it's being edited; the next poll tries again.
+    try {
+      await poll();
+    } catch (error) {
+      log(chalk.red(`Couldn't check installations: ${errorMessage(error)}`));
+    }
+    await sleep(options.intervalSeconds * 1000, options.signal);
+  }
+  log('Stopped watching');
+};
+
+// systemd user unit, so that the watch starts with the user's session on Linux.
+
+export const SYSTEMD_UNIT_NAME = 'tweakcc-watch.service';
+
+// Variables the watch needs from the installing shell: PATH to find claude (and node), and the
+// ones the cli.js search paths and the config directory are derived from.
+const SYSTEMD_ENV_VARS = [
+  'PATH',
+  'XDG_CONFIG_HOME',
+  'NVM_DIR',
+  'FNM_DIR',
+  'VOLTA_HOME',
+  'ASDF_DATA_DIR',
+  'MISE_DATA_DIR',
+  'NODENV_ROOT',
+  'NVS_HOME',
+  'N_PREFIX',
+  'NPM_PREFIX',
+  'TWEAKCC_PROMPTS_DIR',
+  'TWEAKCC_PROMPTS_MIRROR',
+];
+
+export const getSystemdUnitPath = (): string =>
+  path.join(
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'),
+    'systemd',
+    'user',
+    SYSTEMD_UNIT_NAME
+  );
+
+/**
+ * Quotes a word for a unit file: `%` and `$` would otherwise be expanded by systemd.
+ */
+const quoteSystemdWord = (word: string): string => {
+  const escaped = word
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/%/g, '%%')
+    .replace(/\$/g, '$$$$');
+  return /[\s"'\\]/.test(word) ? `"${escaped}"` : escaped;
+};
+
+/**
+ * The unit file that runs `command` (the node binary, the tweakcc script and its arguments).
+ */
+export const generateSystemdUnit = (
+  command: string[],
+  env: Record<string, string | undefined> = process.env
+): string => {
+  const environment = SYSTEMD_ENV_VARS.filter(name => env[name]).map(
+    name => `Environment=${quoteSystemdWord(`${name}=${env[name]}`)}`
+  );
+  return [
+    '[Unit]',
+    'Description=Re-apply tweakcc customizations when Claude Code updates',
+    '',
+    '[Service]',
+    'Type=simple',
+    `ExecStart=${command.map(quoteSystemdWord).join(' ')}`,
+    ...environment,
+    'Restart=on-failure',
+    'RestartSec=30',
+    '',
+    '[Install]',
+    'WantedBy=default.target',
+    '',
+  ].join('\n');
+};
+
+const systemctl = (...args: string[]): void => {
+  const result = spawnSync('systemctl', ['--user', ...args], {
+    encoding: 'utf8',
+    timeout: 30000,
+  });
+  if (result.error || result.status !== 0) {
+    throw new Error(
+      `systemctl --user ${args.join(' ')} failed: ${result.error?.message ?? result.stderr.trim()}`
+    );
+  }
+};
+
+/**
+ * Writes the unit file for running tweakcc with `args` (e.g. ['watch', '--notify']), then
+ * enables and starts it.  Returns the unit file's path.
+ */
+export const installSystemdUnit = async (args: string[]): Promise<string> => {
+  if (process.platform !== 'linux') {
+    throw new Error('systemd units can only be installed on Linux');
+  }
+  const unitPath = getSystemdUnitPath();
+  const script = await fs.realpath(process.argv[1]);
+  await fs.mkdir(path.dirname(unitPath), { recursive: true });
+  await fs.writeFile(
+    unitPath,
+    generateSystemdUnit([process.execPath, script, ...args])
+  );
+  systemctl('daemon-reload');
+  systemctl('enable', '--now', SYSTEMD_UNIT_NAME);
+  return unitPath;
+};
+
+/**
+ * Stops, disables and removes the unit.  Returns false if it wasn't installed.
+ */
+export const uninstallSystemdUnit = async (): Promise<boolean> => {
+  const unitPath = getSystemdUnitPath();
+  try {
+    await fs.access(unitPath);
+  } catch {
+    return false;
+  }
+  systemctl('disable', '--now', SYSTEMD_UNIT_NAME);
+  await fs.rm(unitPath);
+  systemctl('daemon-reload');
+  return true;
+};
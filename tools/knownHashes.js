@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+
+// Regenerates data/known-hashes.json from the Claude Code tarballs published on npm.  `npm pack`
+// checks each tarball against the registry's integrity hash, and the SHA-256 of its cli.js is
+// what tweakcc compares npm installations against.  Covers every version with prompt data in
+// data/prompts that's on npm (a few never were).  Native builds aren't on npm, so they have no
+// hashes here.
+//
+//   node tools/knownHashes.js
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { execFileSync } = require('child_process');
+
+const PACKAGE = '@anthropic-ai/claude-code';
+const DATA_DIR = path.join(__dirname, '..', 'data');
+
+function getSupportedVersions() {
+  return fs
+    .readdirSync(path.join(DATA_DIR, 'prompts'))
+    .map(file => /^prompts-(\d+\.\d+\.\d+)\.json$/.exec(file)?.[1])
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function getPublishedVersions() {
+  return JSON.parse(
+    execFileSync('npm', ['view', PACKAGE, 'versions', '--json'], {
+      encoding: 'utf8',
+    })
+  );
+}
+
+function hashPublishedCliJs(version, workDir) {
+  const tarball = execFileSync(
+    'npm',
+    ['pack', `${PACKAGE}@${version}`, '--silent'],
+    { cwd: workDir, encoding: 'utf8' }
+  ).trim();
+  try {
+    const cliJs = execFileSync('tar', ['-xzOf', tarball, 'package/cli.js'], {
+      cwd: workDir,
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    return crypto.createHash('sha256').update(cliJs).digest('hex');
+  } finally {
+    fs.rmSync(path.join(workDir, tarball), { force: true });
+  }
+}
+
+function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tweakcc-hashes-'));
+  const published = new Set(getPublishedVersions());
+  const hashes = {};
+  try {
+    for (const version of getSupportedVersions()) {
+      if (!published.has(version)) {
+        console.log(`${version}: not published to npm, skipping`);
+        continue;
+      }
+      hashes[version] = { npm: [hashPublishedCliJs(version, workDir)] };
+      console.log(`${version}: ${hashes[version].npm[0]}`);
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+  fs.writeFileSync(
+    path.join(DATA_DIR, 'known-hashes.json'),
+    JSON.stringify(hashes, null, 2) + '\n'
+  );
+}
+
+main();